@@ -61,6 +61,9 @@ export default [
         getYear: false,
         getMonth: false,
         CalendarContainer: false,
+        RecurrenceEditor: false,
+        isWeekend: false,
+        parseICalendarHolidays: false,
         subMonths: false,
         forwardRef: false,
       },
@@ -3,6 +3,9 @@ import { LiveProvider, LiveEditor, LiveError, LivePreview } from "react-live";
 import DatePicker, {
   registerLocale,
   CalendarContainer,
+  RecurrenceEditor,
+  isWeekend,
+  parseICalendarHolidays,
 } from "react-datepicker";
 import { toast } from "../App/Toast";
 import { transformTsx } from "../tsxTransformer";
@@ -10,6 +13,7 @@ import * as DateFNS from "date-fns";
 import { fi } from "date-fns/locale/fi";
 import { ptBR } from "date-fns/locale/pt-BR";
 import { enGB } from "date-fns/locale/en-GB";
+import { he } from "date-fns/locale/he";
 import copy from "copy-to-clipboard";
 import slugify from "slugify";
 import range from "lodash/range";
@@ -59,6 +63,7 @@ export default class CodeExampleComponent extends React.Component<
     registerLocale("fi", fi);
     registerLocale("pt-BR", ptBR);
     registerLocale("en-GB", enGB);
+    registerLocale("he", he);
   }
 
   applyStateUpdates = (stateUpdates: Partial<TState>) => {
@@ -167,6 +172,9 @@ export default class CodeExampleComponent extends React.Component<
                 useRef,
                 DatePicker,
                 CalendarContainer,
+                RecurrenceEditor,
+                isWeekend,
+                parseICalendarHolidays,
                 DateFNS,
                 range,
                 fi,
@@ -33,6 +33,12 @@ import CustomTimeInput from "../../examples/ts/customTimeInput?raw";
 import DateRange from "../../examples/ts/dateRange?raw";
 import SelectsRange from "../../examples/ts/selectsRange?raw";
 import SelectsRangeWithDisabledDates from "../../examples/ts/selectsRangeWithDisabledDates?raw";
+import SelectsRangeLength from "../../examples/ts/selectsRangeLength?raw";
+import RangePresets from "../../examples/ts/rangePresets?raw";
+import CompareRange from "../../examples/ts/compareRange?raw";
+import CompareRangePreviousPeriod from "../../examples/ts/compareRangePreviousPeriod?raw";
+import DateTimeRange from "../../examples/ts/dateTimeRange?raw";
+import RecurrenceEditor from "../../examples/ts/recurrenceEditor?raw";
 import DateRangeWithShowDisabledNavigation from "../../examples/ts/dateRangeWithShowDisabledNavigation?raw";
 import DateRangeInputWithClearButton from "../../examples/ts/dateRangeInputWithClearButton?raw";
 import DateRangeWithPortal from "../../examples/ts/dateRangeWithPortal?raw";
@@ -53,6 +59,10 @@ import RawChange from "../../examples/ts/rawChange?raw";
 import HighlightDates from "../../examples/ts/highlightDates?raw";
 import HighlightDatesRanges from "../../examples/ts/highlightDatesRanges?raw";
 import HolidayDates from "../../examples/ts/holidayDates?raw";
+import HolidayRules from "../../examples/ts/holidayRules?raw";
+import BusinessDays from "../../examples/ts/businessDays?raw";
+import ICalendarHolidays from "../../examples/ts/iCalendarHolidays?raw";
+import LoadMonthData from "../../examples/ts/loadMonthData?raw";
 import IncludeDates from "../../examples/ts/includeDates?raw";
 import IncludeDateIntervals from "../../examples/ts/includeDateIntervals?raw";
 import IncludeDatesMonthPicker from "../../examples/ts/includeDatesMonthPicker?raw";
@@ -62,9 +72,19 @@ import Inline from "../../examples/ts/inline?raw";
 import InlineDisabled from "../../examples/ts/disabledInline?raw";
 import InlineVisible from "../../examples/ts/inlineVisible?raw";
 import TimeInput from "../../examples/ts/timeInput?raw";
+import SegmentedTimeInput from "../../examples/ts/segmentedTimeInput?raw";
+import SegmentedDateInput from "../../examples/ts/segmentedDateInput?raw";
+import RelativeDateParsing from "../../examples/ts/relativeDateParsing?raw";
+import InputMask from "../../examples/ts/inputMask?raw";
 import Locale from "../../examples/ts/locale?raw";
 import LocaleWithTime from "../../examples/ts/localeWithTime?raw";
+import RightToLeft from "../../examples/ts/rightToLeft?raw";
+import NumberingSystem from "../../examples/ts/numberingSystem?raw";
+import WeekendDays from "../../examples/ts/weekendDays?raw";
 import LocaleWithoutGlobalVariable from "../../examples/ts/localeWithoutGlobalVariable?raw";
+import CalendarSystem from "../../examples/ts/calendarSystem?raw";
+import DateAdapter from "../../examples/ts/dateAdapter?raw";
+import IsoDateValue from "../../examples/ts/isoDateValue?raw";
 import MinDate from "../../examples/ts/minDate?raw";
 import MaxDate from "../../examples/ts/maxDate?raw";
 import MonthPicker from "../../examples/ts/monthPicker?raw";
@@ -85,6 +105,8 @@ import Portal from "../../examples/ts/portal?raw";
 import PortalById from "../../examples/ts/portalById?raw";
 import WithPortalById from "../../examples/ts/withPortalById?raw";
 import QuarterPicker from "../../examples/ts/quarterPicker?raw";
+import FiscalQuarterPicker from "../../examples/ts/fiscalQuarterPicker?raw";
+import HalfYearPicker from "../../examples/ts/halfYearPicker?raw";
 import RangeMonthPicker from "../../examples/ts/rangeMonthPicker?raw";
 import RangeMonthPickerSelectsRange from "../../examples/ts/rangeMonthPickerSelectsRange?raw";
 import RangeQuarterPicker from "../../examples/ts/rangeQuarterPicker?raw";
@@ -92,6 +114,7 @@ import RangeQuarterPickerSelectsRange from "../../examples/ts/rangeQuarterPicker
 import RangeSwapRange from "../../examples/ts/rangeSwapRange?raw";
 import ReadOnly from "../../examples/ts/readOnly?raw";
 import ShowTime from "../../examples/ts/showTime?raw";
+import TimeSeconds from "../../examples/ts/timeSeconds?raw";
 import ShowTimeOnly from "../../examples/ts/showTimeOnly?raw";
 import HideTimeCaption from "../../examples/ts/hideTimeCaption?raw";
 import MultiMonthPrevious from "../../examples/ts/multiMonthPrevious?raw";
@@ -100,6 +123,7 @@ import ExcludeTimePeriod from "../../examples/ts/excludeTimePeriod?raw";
 import SelectsMultiple from "../../examples/ts/selectsMultiple?raw";
 import SelectsMultipleMonths from "../../examples/ts/selectsMultipleMonths?raw";
 import SelectsMultipleFormat from "../../examples/ts/selectsMultipleFormat?raw";
+import SelectsMultipleRanges from "../../examples/ts/selectsMultipleRanges?raw";
 import StrictParsing from "../../examples/ts/strictParsing?raw";
 import TabIndex from "../../examples/ts/tabIndex?raw";
 import Today from "../../examples/ts/today?raw";
@@ -110,8 +134,11 @@ import YearDropdown from "../../examples/ts/yearDropdown?raw";
 import YearSelectDropdown from "../../examples/ts/yearSelectDropdown?raw";
 import YearItemNumber from "../../examples/ts/yearItemNumber?raw";
 import WeekPicker from "../../examples/ts/weekPicker?raw";
+import WeekRangePicker from "../../examples/ts/weekRangePicker?raw";
 import ExcludeWeeks from "../../examples/ts/excludeWeeks?raw";
 import ExternalForm from "../../examples/ts/externalForm?raw";
+import TimeZoneSelect from "../../examples/ts/timeZoneSelect?raw";
+import SecondaryTimeZone from "../../examples/ts/secondaryTimeZone?raw";
 import Timezone from "../../examples/ts/timezone?raw";
 
 export const EXAMPLE_CONFIG: IExampleConfig[] = [
@@ -254,6 +281,42 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Date Range in a Single Datepicker with Disabled Dates",
     component: SelectsRangeWithDisabledDates,
   },
+  {
+    title: "Date Range with Minimum and Maximum Length",
+    description:
+      "Limit how many days a range may span with `minRangeLength` and `maxRangeLength`. Both also accept a function of the start date.",
+    component: SelectsRangeLength,
+  },
+  {
+    title: "Date Range with Presets",
+    description:
+      "Rolling presets are computed every time the calendar opens. The id of the picked preset is passed to `onChange`. Presets with disabled days or out of `minRangeLength`/`maxRangeLength` are disabled.",
+    component: RangePresets,
+  },
+  {
+    title: "Date Range with Comparison Range",
+    description:
+      'Switch to "Compare to" below the calendar to pick the range to compare with. `onChange` receives both ranges.',
+    component: CompareRange,
+  },
+  {
+    title: "Date Range Compared to the Previous Period",
+    description:
+      "With `compareRangeMode` set to `previousPeriod` or `previousYear`, the comparison range is derived from the picked range.",
+    component: CompareRangePreviousPeriod,
+  },
+  {
+    title: "Date Range with Start and End Times",
+    description:
+      "With `showRangeTimeSelect`, the start and the end get their own time lists. Their times are kept when other dates are picked. `startTimeCaption` and `endTimeCaption` change the captions of the lists.",
+    component: DateTimeRange,
+  },
+  {
+    title: "Recurrence Rule Editor",
+    description:
+      "`RecurrenceEditor` edits an RFC 5545 RRULE and highlights its occurrences. `parseRRule`, `formatRRule` and `getRecurrenceDates` are exported as well.",
+    component: RecurrenceEditor,
+  },
   {
     title: "Date Range with Disabled Navigation Shown",
     component: DateRangeWithShowDisabledNavigation,
@@ -334,6 +397,30 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Holiday Dates",
     component: HolidayDates,
   },
+  {
+    title: "Holiday Rules",
+    description:
+      'holidays also takes rules of the holidays that recur every year: a day of a month, the nth weekday of a month (a negative nth counts from the end) or a number of days after Easter Sunday. observed moves the holidays on the weekend to the "nearest", "following" or "preceding" working day.',
+    component: HolidayRules,
+  },
+  {
+    title: "Business Days",
+    description:
+      "businessDays only lets the working days be picked: the weekend of the locale and the holidays are disabled and skipped by the arrow keys. Ranges report their number of working days in the businessDayCount of the third argument of onChange. The exported isBusinessDay, addBusinessDays and countBusinessDays helpers take the same weekend days and holidays.",
+    component: BusinessDays,
+  },
+  {
+    title: "iCalendar Holidays",
+    description:
+      "parseICalendarHolidays turns the events of an .ics feed into holidays, one for each day, with their yearly recurrences. parseICalendarIntervals gives their intervals for excludeDateIntervals instead.",
+    component: ICalendarHolidays,
+  },
+  {
+    title: "Load Month Data",
+    description:
+      "loadMonthData loads the data of the days of each month shown, e.g. their prices or availability: whether they are disabled, their class name, a label for their title and aria label, and content shown under the day number. The months around each month are loaded too, for the days shown around it. The days are shown as loading and can't be picked until the data loads, the data is kept for when the month is shown again, even after the calendar closes, until loadMonthData changes, and the requests of the months that are no longer shown are aborted through the signal.",
+    component: LoadMonthData,
+  },
   {
     title: "Include Dates",
     component: IncludeDates,
@@ -370,6 +457,30 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Input Time",
     component: TimeInput,
   },
+  {
+    title: "Segmented Input Time",
+    description:
+      "A time field with hour, minute and AM/PM segments that follows the hour cycle of the locale, or the hourCycle prop. Change a segment with the arrow keys or by typing.",
+    component: SegmentedTimeInput,
+  },
+  {
+    title: "Segmented Date Input",
+    description:
+      "Replace the text input with segments built from the date format. Change a segment with the arrow keys or by typing; the date is kept between minDate and maxDate.",
+    component: SegmentedDateInput,
+  },
+  {
+    title: "Relative Date Parsing",
+    description:
+      'Type dates relative to today, e.g. "tomorrow", "next fri", "+3d", "2 weeks ago" or "end of month". The words of other locales are registered with registerRelativeDateWords.',
+    component: RelativeDateParsing,
+  },
+  {
+    title: "Input Mask",
+    description:
+      'Format the input as it is typed: "03142026" becomes "03/14/2026". The separators come from the date format, also for ranges and month-year formats like "MM/yy".',
+    component: InputMask,
+  },
   {
     title: "Locale",
     component: Locale,
@@ -382,6 +493,42 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Locale without Global Variables",
     component: LocaleWithoutGlobalVariable,
   },
+  {
+    title: "Right to Left",
+    description:
+      'Calendars of right-to-left locales, e.g. Hebrew and Arabic, are mirrored: the previous month is on the right and the left arrow key moves to the next day. Set dir="rtl" or dir="ltr" to override the direction of the locale.',
+    component: RightToLeft,
+  },
+  {
+    title: "Numbering System",
+    description:
+      'numberingSystem writes the days, years, times and input in other digits, e.g. "arab" for ٠١٢٣. It defaults to the numbering system of the locale. Typed dates are parsed in both the native and the Latin digits.',
+    component: NumberingSystem,
+  },
+  {
+    title: "Weekend Days",
+    description:
+      "The weekend and the first day of the week come from the locale, e.g. Friday and Saturday in Israel. Set weekendDays or calendarStartDay to override them, and use isWeekend in filterDate to disable the weekend of the locale.",
+    component: WeekendDays,
+  },
+  {
+    title: "Calendar System",
+    description:
+      "calendarSystem shows the days, the header, the dropdowns and the input in the Islamic (Umm al-Qura), Persian, Buddhist or Japanese calendar. onChange still receives a Date.",
+    component: CalendarSystem,
+  },
+  {
+    title: "Date Adapter",
+    description:
+      "With a dateAdapter, DatePicker takes and returns the dates of another date library. createLuxonAdapter(DateTime) creates one for Luxon and createDayjsAdapter(dayjs) one for Day.js. Their adapters also format the title of the month and the month and weekday names through the library, with the calendarFormats of the adapter. The calendar math (adding months, the weeks of the month, the first day of the week) still works on Gregorian Dates, and props such as highlightDates, holidays and filterDate take Dates.",
+    component: DateAdapter,
+  },
+  {
+    title: "ISO Date Strings",
+    description:
+      'With valueType "iso-date" or "iso-datetime", the dates are ISO 8601 strings. ISO dates are days in the local time zone, or in the timeZone, so they are never shifted by its offset.',
+    component: IsoDateValue,
+  },
   {
     title: "Min Date",
     component: MinDate,
@@ -466,6 +613,16 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Quarter Picker",
     component: QuarterPicker,
   },
+  {
+    title: "Fiscal Quarter Picker",
+    description:
+      "fiscalYearStartMonth (0 for January) moves the quarters, and the header shows the fiscal year, named after the year it ends in.",
+    component: FiscalQuarterPicker,
+  },
+  {
+    title: "Half-Year Picker",
+    component: HalfYearPicker,
+  },
   {
     title: "Range Month Picker",
     component: RangeMonthPicker,
@@ -496,6 +653,12 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Select Time",
     component: ShowTime,
   },
+  {
+    title: "Select Time with Seconds",
+    description:
+      'Set timeIntervalUnit to "seconds" for a time list in seconds, and use seconds and milliseconds in the date format.',
+    component: TimeSeconds,
+  },
   {
     title: "Select Time Only",
     component: ShowTimeOnly,
@@ -528,6 +691,12 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Select Multiple Months",
     component: SelectsMultipleMonths,
   },
+  {
+    title: "Select Multiple Date Ranges",
+    description:
+      "Click twice to add a range, click inside a range to remove it. Overlapping ranges are merged.",
+    component: SelectsMultipleRanges,
+  },
   {
     title: "Strict Parsing",
     description:
@@ -574,6 +743,12 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
     title: "Week Picker",
     component: WeekPicker,
   },
+  {
+    title: "Week Range Picker",
+    description:
+      "With `selectsRange`, the range starts at the beginning of the first picked week and ends at the end of the last one.",
+    component: WeekRangePicker,
+  },
   {
     title: "Exclude Weeks",
     component: ExcludeWeeks,
@@ -588,4 +763,16 @@ export const EXAMPLE_CONFIG: IExampleConfig[] = [
       "Display and handle dates in a specific timezone using the timeZone prop. Requires date-fns-tz as a peer dependency.",
     component: Timezone,
   },
+  {
+    title: "Time Zone Select",
+    description:
+      "Let the user choose the time zone in the time section with showTimeZoneSelect. onChange receives the chosen time zone with the date.",
+    component: TimeZoneSelect,
+  },
+  {
+    title: "Secondary Time Zone",
+    description:
+      "Show the times in a second time zone too with secondaryTimeZone, in the time list, the input and the announcement of the selected date.",
+    component: SecondaryTimeZone,
+  },
 ];
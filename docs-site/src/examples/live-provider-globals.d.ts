@@ -8,6 +8,16 @@ declare global {
   const useRef: typeof React.useRef;
   const DatePicker: any;
   const CalendarContainer: any;
+  const RecurrenceEditor: any;
+  const isWeekend: (
+    date: Date,
+    locale?: string,
+    weekendDays?: number[],
+  ) => boolean;
+  const parseICalendarHolidays: (
+    ics: string,
+    options?: { rangeStart?: Date; rangeEnd?: Date },
+  ) => { date: Date; holidayName: string }[];
   const range: any;
   const fi: any;
   const forwardRef: typeof React.forwardRef;
@@ -0,0 +1,44 @@
+type Holiday = {
+  date: string;
+  holidayName: string;
+};
+
+const BusinessDays = () => {
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [businessDayCount, setBusinessDayCount] = useState<number>();
+
+  const year = new Date().getFullYear();
+  const holidays: Holiday[] = [
+    { date: `${year}-01-01`, holidayName: "New Year's Day" },
+    { date: `${year}-07-04`, holidayName: "Independence Day" },
+    { date: `${year}-12-25`, holidayName: "Christmas" },
+  ];
+
+  const onChange = (
+    [start, end]: [Date | null, Date | null],
+    _event?: unknown,
+    selectionMeta?: { businessDayCount?: number },
+  ) => {
+    setStartDate(start);
+    setEndDate(end);
+    setBusinessDayCount(selectionMeta?.businessDayCount);
+  };
+
+  return (
+    <>
+      <DatePicker
+        selectsRange
+        businessDays
+        startDate={startDate}
+        endDate={endDate}
+        holidays={holidays}
+        onChange={onChange}
+        placeholderText="Select working days"
+      />
+      <p>Business days: {businessDayCount ?? "none"}</p>
+    </>
+  );
+};
+
+render(BusinessDays);
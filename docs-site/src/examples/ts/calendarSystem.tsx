@@ -0,0 +1,17 @@
+const CalendarSystem = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      calendarSystem="islamic-umalqura"
+      dateFormat="d MMMM yyyy"
+      showMonthDropdown
+      showYearDropdown
+      dropdownMode="select"
+    />
+  );
+};
+
+render(CalendarSystem);
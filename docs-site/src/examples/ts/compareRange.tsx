@@ -0,0 +1,34 @@
+const CompareRange = () => {
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [compareStartDate, setCompareStartDate] = useState<Date | null>(null);
+  const [compareEndDate, setCompareEndDate] = useState<Date | null>(null);
+
+  const onChange = ({
+    range,
+    compareRange,
+  }: {
+    range: [Date | null, Date | null];
+    compareRange: [Date | null, Date | null];
+  }) => {
+    setStartDate(range[0]);
+    setEndDate(range[1]);
+    setCompareStartDate(compareRange[0]);
+    setCompareEndDate(compareRange[1]);
+  };
+
+  return (
+    <DatePicker
+      selectsRange
+      compareRangeMode="custom"
+      startDate={startDate}
+      endDate={endDate}
+      compareStartDate={compareStartDate}
+      compareEndDate={compareEndDate}
+      onChange={onChange}
+      inline
+    />
+  );
+};
+
+render(CompareRange);
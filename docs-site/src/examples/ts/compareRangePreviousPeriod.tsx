@@ -0,0 +1,22 @@
+const CompareRangePreviousPeriod = () => {
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+
+  const onChange = ({ range }: { range: [Date | null, Date | null] }) => {
+    setStartDate(range[0]);
+    setEndDate(range[1]);
+  };
+
+  return (
+    <DatePicker
+      selectsRange
+      compareRangeMode="previousPeriod"
+      startDate={startDate}
+      endDate={endDate}
+      onChange={onChange}
+      inline
+    />
+  );
+};
+
+render(CompareRangePreviousPeriod);
@@ -0,0 +1,30 @@
+// Dates as "yyyy-MM-dd" strings
+const isoDateAdapter = {
+  toDate: (value: string) => {
+    const date = DateFNS.parseISO(value);
+    return DateFNS.isValid(date) ? date : null;
+  },
+  fromDate: (date: Date) => DateFNS.formatISO(date, { representation: "date" }),
+  format: (date: Date, formatStr: string) => DateFNS.format(date, formatStr),
+  parse: (value: string, formatStr: string) => {
+    const date = DateFNS.parse(value, formatStr, new Date());
+    return DateFNS.isValid(date) ? date : null;
+  },
+};
+
+const DateAdapter = () => {
+  const [selectedDate, setSelectedDate] = useState<string | null>("2025-03-01");
+
+  return (
+    <>
+      <DatePicker
+        dateAdapter={isoDateAdapter}
+        selected={selectedDate}
+        onChange={setSelectedDate}
+      />
+      <p>Selected: {selectedDate ?? "none"}</p>
+    </>
+  );
+};
+
+render(DateAdapter);
@@ -0,0 +1,28 @@
+const DateTimeRange = () => {
+  const [startDate, setStartDate] = useState<Date | null>(
+    DateFNS.setHours(DateFNS.startOfToday(), 9),
+  );
+  const [endDate, setEndDate] = useState<Date | null>(
+    DateFNS.setHours(DateFNS.addDays(DateFNS.startOfToday(), 2), 17),
+  );
+
+  const onChange = (dates: [Date | null, Date | null]) => {
+    const [start, end] = dates;
+    setStartDate(start);
+    setEndDate(end);
+  };
+
+  return (
+    <DatePicker
+      onChange={onChange}
+      startDate={startDate}
+      endDate={endDate}
+      selectsRange
+      showTimeSelect
+      showRangeTimeSelect
+      dateFormat="MM/dd/yyyy h:mm aa"
+    />
+  );
+};
+
+render(DateTimeRange);
@@ -0,0 +1,15 @@
+const FiscalQuarterPicker = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      dateFormat="MMM yyyy"
+      showQuarterYearPicker
+      fiscalYearStartMonth={6}
+    />
+  );
+};
+
+render(FiscalQuarterPicker);
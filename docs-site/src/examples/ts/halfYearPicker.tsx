@@ -0,0 +1,14 @@
+const HalfYearPicker = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      dateFormat="MMM yyyy"
+      showHalfYearPicker
+    />
+  );
+};
+
+render(HalfYearPicker);
@@ -0,0 +1,30 @@
+const HolidayRules = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  const holidays = [
+    {
+      rule: { month: 1, day: 1 },
+      holidayName: "New Year's Day",
+      observed: "nearest",
+    },
+    { rule: { easterOffset: -2 }, holidayName: "Good Friday" },
+    { rule: { easterOffset: 1 }, holidayName: "Easter Monday" },
+    { rule: { month: 5, weekday: 1, nth: -1 }, holidayName: "Memorial Day" },
+    { rule: { month: 11, weekday: 4, nth: 4 }, holidayName: "Thanksgiving" },
+    {
+      rule: { month: 12, day: 25 },
+      holidayName: "Christmas Day",
+      observed: "nearest",
+    },
+  ];
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      holidays={holidays}
+    />
+  );
+};
+
+render(HolidayRules);
@@ -0,0 +1,27 @@
+const ICalendarHolidays = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  const ics = `BEGIN:VCALENDAR
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20240101
+SUMMARY:New Year's Day
+RRULE:FREQ=YEARLY
+END:VEVENT
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20241224
+DTEND;VALUE=DATE:20241227
+SUMMARY:Winter break
+RRULE:FREQ=YEARLY
+END:VEVENT
+END:VCALENDAR`;
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      holidays={parseICalendarHolidays(ics)}
+    />
+  );
+};
+
+render(ICalendarHolidays);
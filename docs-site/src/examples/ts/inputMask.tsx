@@ -0,0 +1,39 @@
+const InputMask = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const onRangeChange = (dates: [Date | null, Date | null]) => {
+    const [start, end] = dates;
+    setStartDate(start);
+    setEndDate(end);
+  };
+
+  return (
+    <>
+      <DatePicker
+        selected={selectedDate}
+        onChange={setSelectedDate}
+        mask
+        placeholderText="MM/DD/YYYY"
+      />
+      <DatePicker
+        selected={selectedDate}
+        onChange={setSelectedDate}
+        mask
+        dateFormat="MM/yy"
+        showMonthYearPicker
+        placeholderText="MM/YY"
+      />
+      <DatePicker
+        selectsRange
+        startDate={startDate}
+        endDate={endDate}
+        onChange={onRangeChange}
+        mask
+        placeholderText="MM/DD/YYYY - MM/DD/YYYY"
+      />
+    </>
+  );
+};
+
+render(InputMask);
@@ -0,0 +1,18 @@
+const IsoDateValue = () => {
+  const [selectedDate, setSelectedDate] = useState<string | null>("2026-03-14");
+
+  return (
+    <>
+      <DatePicker
+        valueType="iso-date"
+        selected={selectedDate}
+        onChange={setSelectedDate}
+        minDate="2026-03-02"
+        excludeDates={["2026-03-20"]}
+      />
+      <p>Selected: {selectedDate ?? "none"}</p>
+    </>
+  );
+};
+
+render(IsoDateValue);
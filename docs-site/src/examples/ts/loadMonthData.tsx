@@ -0,0 +1,44 @@
+type Prices = Record<string, { disabled?: boolean; content?: string }>;
+
+const LoadMonthData = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  // Stands in for a request to a server for the prices of the month
+  const loadMonthData = (
+    monthStart: Date,
+    monthEnd: Date,
+    signal: AbortSignal,
+  ) =>
+    new Promise<Prices>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        const prices: Prices = {};
+        for (
+          let day = monthStart;
+          day <= monthEnd;
+          day = DateFNS.addDays(day, 1)
+        ) {
+          prices[DateFNS.format(day, "yyyy-MM-dd")] =
+            day.getDate() % 7 === 0
+              ? { disabled: true }
+              : { content: `$${80 + ((day.getDate() * 17) % 60)}` };
+        }
+        resolve(prices);
+      }, 1000);
+
+      signal.addEventListener("abort", () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      });
+    });
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      monthsShown={2}
+      loadMonthData={loadMonthData}
+    />
+  );
+};
+
+render(LoadMonthData);
@@ -0,0 +1,16 @@
+const NumberingSystem = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      numberingSystem="arab"
+      showTimeSelect
+      dateFormat="dd/MM/yyyy HH:mm"
+      timeFormat="HH:mm"
+    />
+  );
+};
+
+render(NumberingSystem);
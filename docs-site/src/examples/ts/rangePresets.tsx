@@ -0,0 +1,62 @@
+const RangePresets = () => {
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [presetId, setPresetId] = useState<string | undefined>();
+
+  const presets = [
+    {
+      id: "today",
+      label: "Today",
+      range: (now: Date): [Date, Date] => [now, now],
+    },
+    {
+      id: "last-7-days",
+      label: "Last 7 days",
+      range: (now: Date): [Date, Date] => [DateFNS.subDays(now, 6), now],
+    },
+    {
+      id: "this-month",
+      label: "This month",
+      range: (now: Date): [Date, Date] => [
+        DateFNS.startOfMonth(now),
+        DateFNS.endOfMonth(now),
+      ],
+    },
+    {
+      id: "last-quarter",
+      label: "Last quarter",
+      range: (now: Date): [Date, Date] => {
+        const lastQuarter = DateFNS.subQuarters(now, 1);
+        return [
+          DateFNS.startOfQuarter(lastQuarter),
+          DateFNS.endOfQuarter(lastQuarter),
+        ];
+      },
+    },
+  ];
+
+  const onChange = (
+    [start, end]: [Date | null, Date | null],
+    _event?: unknown,
+    selectionMeta?: { presetId: string },
+  ) => {
+    setStartDate(start);
+    setEndDate(end);
+    setPresetId(selectionMeta?.presetId);
+  };
+
+  return (
+    <>
+      <DatePicker
+        selectsRange
+        startDate={startDate}
+        endDate={endDate}
+        presets={presets}
+        onChange={onChange}
+      />
+      <p>Preset: {presetId ?? "none"}</p>
+    </>
+  );
+};
+
+render(RangePresets);
@@ -0,0 +1,20 @@
+const Recurrence = () => {
+  const [startDate, setStartDate] = useState<Date>(DateFNS.startOfToday());
+  const [rrule, setRrule] = useState<string>("FREQ=WEEKLY;BYDAY=MO,WE,FR");
+
+  return (
+    <div>
+      <RecurrenceEditor
+        value={rrule}
+        startDate={startDate}
+        onChange={(value: string) => setRrule(value)}
+        onStartDateChange={(date: Date) => setStartDate(date)}
+      />
+      <p>
+        <code>RRULE:{rrule}</code>
+      </p>
+    </div>
+  );
+};
+
+render(Recurrence);
@@ -0,0 +1,14 @@
+const RelativeDateParsing = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      relativeDateParsing
+      placeholderText='Try "next fri", "+3d" or "end of month"'
+    />
+  );
+};
+
+render(RelativeDateParsing);
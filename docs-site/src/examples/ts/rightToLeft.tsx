@@ -0,0 +1,15 @@
+const RightToLeft = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      locale="he"
+      showTimeSelect
+      dateFormat="Pp"
+    />
+  );
+};
+
+render(RightToLeft);
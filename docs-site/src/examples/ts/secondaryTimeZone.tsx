@@ -0,0 +1,18 @@
+const SecondaryTimeZone = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      showTimeSelect
+      timeFormat="HH:mm"
+      timeIntervals={30}
+      dateFormat="MMMM d, yyyy HH:mm zzz"
+      timeZone="America/New_York"
+      secondaryTimeZone="Europe/Berlin"
+    />
+  );
+};
+
+render(SecondaryTimeZone);
@@ -0,0 +1,16 @@
+const SegmentedDateInput = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      segmentedDateInput
+      dateFormat="MM/dd/yyyy h:mm aa"
+      minDate={DateFNS.subDays(new Date(), 30)}
+      maxDate={DateFNS.addDays(new Date(), 30)}
+    />
+  );
+};
+
+render(SegmentedDateInput);
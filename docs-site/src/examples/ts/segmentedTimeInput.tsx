@@ -0,0 +1,16 @@
+const SegmentedTimeInput = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      timeInputLabel="Time:"
+      dateFormat="MM/dd/yyyy h:mm aa"
+      showTimeInput
+      segmentedTimeInput
+    />
+  );
+};
+
+render(SegmentedTimeInput);
@@ -0,0 +1,16 @@
+const SelectsMultipleRanges = () => {
+  const [selectedRanges, setSelectedRanges] = useState<
+    { start: Date; end: Date | null }[]
+  >([]);
+
+  return (
+    <DatePicker
+      selectedRanges={selectedRanges}
+      selectsMultipleRanges
+      onChange={(ranges) => setSelectedRanges(ranges)}
+      inline
+    />
+  );
+};
+
+render(SelectsMultipleRanges);
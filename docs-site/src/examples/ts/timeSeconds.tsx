@@ -0,0 +1,17 @@
+const TimeSeconds = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      showTimeSelect
+      timeIntervals={15}
+      timeIntervalUnit="seconds"
+      timeFormat="HH:mm:ss"
+      dateFormat="yyyy-MM-dd HH:mm:ss.SSS"
+    />
+  );
+};
+
+render(TimeSeconds);
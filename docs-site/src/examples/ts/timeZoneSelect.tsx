@@ -0,0 +1,30 @@
+const TimeZoneSelect = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+  const [timeZone, setTimeZone] = useState<string | undefined>();
+
+  return (
+    <>
+      <DatePicker
+        selected={selectedDate}
+        onChange={(date, _event, selectionMeta) => {
+          setSelectedDate(date);
+          setTimeZone(selectionMeta?.timeZone);
+        }}
+        showTimeSelect
+        showTimeZoneSelect
+        timeZones={[
+          "UTC",
+          "America/New_York",
+          "Europe/London",
+          "Europe/Berlin",
+          "Asia/Kolkata",
+          "Asia/Tokyo",
+        ]}
+        dateFormat="MMMM d, yyyy h:mm aa"
+      />
+      <p>Time zone: {timeZone ?? "none"}</p>
+    </>
+  );
+};
+
+render(TimeZoneSelect);
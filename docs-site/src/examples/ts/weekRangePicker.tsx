@@ -0,0 +1,25 @@
+const WeekRangePicker = () => {
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+
+  const onChange = ([start, end]: [Date | null, Date | null]) => {
+    setStartDate(start);
+    setEndDate(end);
+  };
+
+  return (
+    <DatePicker
+      startDate={startDate}
+      endDate={endDate}
+      onChange={onChange}
+      selectsRange
+      showWeekNumbers
+      showWeekPicker
+      calendarStartDay={1}
+      dateFormat="I/R"
+      locale="en-GB"
+    />
+  );
+};
+
+render(WeekRangePicker);
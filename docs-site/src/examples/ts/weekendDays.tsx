@@ -0,0 +1,15 @@
+const WeekendDays = () => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+
+  return (
+    <DatePicker
+      selected={selectedDate}
+      onChange={setSelectedDate}
+      locale="he"
+      filterDate={(date: Date) => !isWeekend(date, "he")}
+      placeholderText="Select a working day in Israel"
+    />
+  );
+};
+
+render(WeekendDays);
@@ -79,6 +79,9 @@ module.exports = [
         getMonth: "readonly",
         PropTypes: "readonly",
         CalendarContainer: "readonly",
+        RecurrenceEditor: "readonly",
+        isWeekend: "readonly",
+        parseICalendarHolidays: "readonly",
         subMonths: "readonly",
         forwardRef: "readonly",
       },
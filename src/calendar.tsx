@@ -1,21 +1,24 @@
 import { clsx } from "clsx";
-import { differenceInDays } from "date-fns";
 import React, { Component, createRef } from "react";
 
 import CalendarContainer from "./calendar_container";
+import {
+  getCalendarSystem,
+  isGregorianCalendar,
+  type CalendarSystem,
+} from "./calendar_system";
 import { ClickOutsideWrapper } from "./click_outside_wrapper";
+import { formatCalendarDate, formatCalendarName } from "./date_adapter";
 import {
   newDate,
-  setMonth,
   getMonth,
-  addMonths,
-  subMonths,
   getStartOfWeek,
   getStartOfToday,
   addDays,
   formatDate,
   setYear,
   getYear,
+  getFiscalYear,
   isBefore,
   addYears,
   subYears,
@@ -36,24 +39,40 @@ import {
   getEffectiveMinDate,
   getEffectiveMaxDate,
   addZero,
+  getBrowserTimeZone,
   isValid,
   getYearsPeriod,
   DEFAULT_YEAR_ITEM_NUMBER,
   getMonthInLocale,
+  getCalendarStartDay,
+  getHolidayRuleDates,
+  getHolidaysMap,
+  getLocaleDirection,
+  getNumberingSystem,
+  getWeekendDays,
+  isWeekend,
+  localizeDigits,
   type Locale,
-  getStartOfMonth,
-  getEndOfMonth,
+  type CompareRangeMode,
+  type HolidayRuleItem,
+  type HolidaysMap,
+  type HourCycle,
+  type TextDirection,
+  type TimeZone,
   isDayDisabled,
 } from "./date_utils";
 import InputTime from "./input_time";
 import Month from "./month";
 import MonthDropdown from "./month_dropdown";
 import MonthYearDropdown from "./month_year_dropdown";
+import Presets from "./presets";
 import Time from "./time";
+import TimeZoneSelect from "./time_zone_select";
 import Year from "./year";
 import YearDropdown from "./year_dropdown";
 
 import type { ClickOutsideHandler } from "./click_outside_wrapper";
+import type { MonthDayData } from "./day";
 import type { Day } from "date-fns";
 
 interface YearDropdownProps extends React.ComponentPropsWithoutRef<
@@ -78,6 +97,8 @@ interface InputTimeProps extends React.ComponentPropsWithoutRef<
   typeof InputTime
 > {}
 
+interface PresetsProps extends React.ComponentPropsWithoutRef<typeof Presets> {}
+
 const DROPDOWN_FOCUS_CLASSNAMES = [
   "react-datepicker__year-select",
   "react-datepicker__month-select",
@@ -87,6 +108,21 @@ const DROPDOWN_FOCUS_CLASSNAMES = [
 export const OUTSIDE_CLICK_IGNORE_CLASS =
   "react-datepicker-ignore-onclickoutside";
 
+/**
+ * Gets the key of the data of a month loaded with loadMonthData: the start of
+ * the month, as "yyyy-MM-dd".
+ *
+ * @param monthDate - A date of the month.
+ * @param calendarSystem - The calendar system of the months.
+ * @returns - The key of the month.
+ */
+export function getMonthDataKey(
+  monthDate: Date,
+  calendarSystem: CalendarSystem,
+): string {
+  return formatDate(calendarSystem.getStartOfMonth(monthDate), "yyyy-MM-dd");
+}
+
 const isDropdownSelect = (element: HTMLDivElement) => {
   const classNames = (element.className || "").split(/\s+/);
   return DROPDOWN_FOCUS_CLASSNAMES.some(
@@ -154,6 +190,8 @@ type CalendarProps = React.PropsWithChildren<
       | "monthShowsDuplicateDaysStart"
       | "minDate"
       | "maxDate"
+      | "dayData"
+      | "loading"
     > &
     Omit<TimeProps, "onChange" | "format" | "intervals" | "monthRef"> &
     Omit<InputTimeProps, "date" | "timeString" | "onChange"> & {
@@ -165,8 +203,29 @@ type CalendarProps = React.PropsWithChildren<
       showYearPicker?: boolean;
       showMonthYearPicker?: boolean;
       showQuarterYearPicker?: boolean;
+      showHalfYearPicker?: boolean;
       showTimeSelect?: boolean;
+      showRangeTimeSelect?: boolean;
+      /**
+       * The captions of the start and end time lists of `showRangeTimeSelect`,
+       * after the `timeCaption`, e.g. "Time (Start)".
+       */
+      startTimeCaption?: string;
+      endTimeCaption?: string;
       showTimeInput?: boolean;
+      /**
+       * Shows the seconds in the time input.
+       */
+      showTimeInputSeconds?: boolean;
+      /**
+       * Shows a time field with a segment for the hours, the minutes and the
+       * AM/PM instead of the time input of the browser.
+       */
+      segmentedTimeInput?: boolean;
+      /**
+       * The hour cycle of the segmented time field, the locale's by default.
+       */
+      hourCycle?: HourCycle;
       showYearDropdown?: boolean;
       showMonthDropdown?: boolean;
       yearItemNumber?: number;
@@ -175,6 +234,10 @@ type CalendarProps = React.PropsWithChildren<
       showDisabledMonthNavigation?: boolean;
       formatWeekDay?: (date: string) => string;
       onDropdownFocus?: (event: React.FocusEvent<HTMLDivElement>) => void;
+      /**
+       * The day the weeks start on, from 0 (Sunday) to 6 (Saturday). The
+       * first day of the week of the locale by default.
+       */
       calendarStartDay?: Day;
       weekDayClassName?: (date: Date) => string;
       onMonthChange?: (date: Date) => void;
@@ -223,6 +286,77 @@ type CalendarProps = React.PropsWithChildren<
       onTimeChange?: (time: Date, modifyDateType?: "start" | "end") => void;
       timeFormat?: TimeProps["format"];
       timeIntervals?: TimeProps["intervals"];
+      /**
+       * The unit of `timeIntervals`: "minutes" by default, or "seconds" for
+       * a time list of seconds.
+       */
+      timeIntervalUnit?: TimeProps["intervalUnit"];
+      presets?: PresetsProps["presets"];
+      presetsAriaLabel?: PresetsProps["presetsAriaLabel"];
+      onPresetSelect?: PresetsProps["onPresetSelect"];
+      isPresetRangeDisabled?: PresetsProps["isRangeDisabled"];
+      compareRangeMode?: CompareRangeMode;
+      onSelectingCompareRangeChange?: (selectingCompareRange: boolean) => void;
+      primaryRangeLabel?: React.ReactNode;
+      compareRangeLabel?: React.ReactNode;
+      /**
+       * Shows a select for the time zone the dates are shown in, below the time.
+       */
+      showTimeZoneSelect?: boolean;
+      timeZone?: TimeZone;
+      /**
+       * Shows the times in this time zone too, next to the times of the
+       * time list, the input and the announcement of the selected date.
+       */
+      secondaryTimeZone?: TimeZone;
+      timeZones?: TimeZone[];
+      timeZoneLabel?: string;
+      /**
+       * The placeholder and label of the search field of the time zone select.
+       */
+      timeZoneSearchLabel?: string;
+      onTimeZoneChange?: (timeZone: TimeZone) => void;
+      /**
+       * The direction of the calendar, "rtl" to lay it out from right to left
+       * and to swap the left and right arrow keys. The direction of the
+       * locale by default, e.g. "rtl" for Arabic and Hebrew.
+       */
+      dir?: TextDirection;
+      /**
+       * The numbering system of the digits of the days, years, week numbers,
+       * times and input, e.g. "arab" or "deva". The numbering system of the
+       * locale by default, e.g. "arab" for Arabic.
+       */
+      numberingSystem?: string;
+      /**
+       * The weekend days, from 0 (Sunday) to 6 (Saturday). The weekend of the
+       * locale by default, e.g. Friday and Saturday for Hebrew.
+       */
+      weekendDays?: Day[];
+      /**
+       * Only the working days can be picked: the weekend days and the
+       * holidays are disabled, the arrow keys skip them and the ranges
+       * report their number of working days.
+       */
+      businessDays?: boolean;
+      // The holidays given by rules, expanded for the months that are shown
+      holidayRules?: HolidayRuleItem[];
+      /**
+       * Loads the metadata of the days of each month shown and of the months
+       * around it, e.g. their availability or price, keyed by "yyyy-MM-dd"
+       * dates. The days of a month are shown as loading and can't be picked
+       * until its data loads, the data is kept for when the month is shown
+       * again until loadMonthData changes, and the requests of the months
+       * that are no longer shown are aborted through the signal.
+       */
+      loadMonthData?: (
+        monthStart: Date,
+        monthEnd: Date,
+        signal: AbortSignal,
+      ) => Promise<MonthDayData>;
+      // The data loaded with loadMonthData, keyed by the start of the months
+      monthData?: Record<string, MonthDayData>;
+      onMonthDataLoad?: (monthKey: string, dayData: MonthDayData) => void;
     } & (
       | ({
           showMonthYearDropdown: true;
@@ -240,6 +374,7 @@ interface CalendarState
   date: Required<YearProps>["date"];
   monthContainer: TimeProps["monthRef"];
   isRenderAriaLiveMessage: boolean;
+  loadingMonths: string[];
 }
 
 export default class Calendar extends Component<CalendarProps, CalendarState> {
@@ -249,12 +384,18 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       forceShowMonthNavigation: false,
       outsideClickIgnoreClass: OUTSIDE_CLICK_IGNORE_CLASS,
       timeCaption: "Time",
+      startTimeCaption: "Start",
+      endTimeCaption: "End",
       previousYearButtonLabel: "Previous Year",
       nextYearButtonLabel: "Next Year",
       previousMonthButtonLabel: "Previous Month",
       nextMonthButtonLabel: "Next Month",
       yearItemNumber: DEFAULT_YEAR_ITEM_NUMBER,
       monthHeaderPosition: "top",
+      primaryRangeLabel: "Range",
+      compareRangeLabel: "Compare to",
+      timeZoneLabel: "Time zone",
+      timeZoneSearchLabel: "Search",
     };
   }
 
@@ -268,6 +409,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       selectingDate: undefined,
       monthContainer: undefined,
       isRenderAriaLiveMessage: false,
+      loadingMonths: [],
     };
   }
 
@@ -281,6 +423,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         this.setState({ monthContainer: this.monthContainer });
       })();
     }
+    this.requestMonthData();
   }
 
   componentDidUpdate(prevProps: CalendarProps) {
@@ -293,6 +436,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       const hasMonthChanged = !isSameMonth(
         this.state.date,
         this.props.preSelection,
+        this.props.calendarSystem,
       );
       this.setState(
         {
@@ -308,6 +452,15 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         date: this.props.openToDate,
       });
     }
+    // The data of another loader is loaded again
+    if (this.props.loadMonthData !== prevProps.loadMonthData) {
+      this.abortMonthData();
+    }
+    this.requestMonthData();
+  }
+
+  componentWillUnmount() {
+    this.abortMonthData();
   }
 
   containerRef: React.RefObject<HTMLDivElement | null>;
@@ -316,6 +469,11 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
 
   assignMonthContainer: void | undefined;
 
+  monthDataRequests = new Map<string, AbortController>();
+
+  // The months whose data failed to load, retried once they are shown again
+  failedMonths = new Set<string>();
+
   handleClickOutside = (event: MouseEvent): void => {
     this.props.onClickOutside(event);
   };
@@ -348,10 +506,161 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     return current;
   };
 
+  getCalendarSystem = (): CalendarSystem =>
+    getCalendarSystem(this.props.calendarSystem);
+
+  getDirection = (): TextDirection =>
+    this.props.dir ?? getLocaleDirection(this.props.locale);
+
+  getNumberingSystem = (): string =>
+    getNumberingSystem(this.props.locale, this.props.numberingSystem);
+
+  getCalendarStartDay = (): Day | undefined =>
+    getCalendarStartDay(this.props.locale, this.props.calendarStartDay);
+
+  getWeekendDays = (): Day[] =>
+    getWeekendDays(this.props.locale, this.props.weekendDays);
+
+  getMonthDataKey = (monthDate: Date): string =>
+    getMonthDataKey(monthDate, this.getCalendarSystem());
+
+  isMonthLoading = (monthDate: Date): boolean =>
+    isValid(monthDate) &&
+    this.state.loadingMonths.includes(this.getMonthDataKey(monthDate));
+
+  // The days of the previous and next months are shown in the month too
+  getMonthDayData = (monthDate: Date): MonthDayData | undefined => {
+    if (!this.props.loadMonthData || !isValid(monthDate)) {
+      return undefined;
+    }
+    const calendarSystem = this.getCalendarSystem();
+
+    return [-1, 0, 1].reduce<MonthDayData>(
+      (dayData, amount) => ({
+        ...dayData,
+        ...this.props.monthData?.[
+          this.getMonthDataKey(calendarSystem.addMonths(monthDate, amount))
+        ],
+      }),
+      {},
+    );
+  };
+
+  abortMonthData = (): void => {
+    this.monthDataRequests.forEach((controller) => controller.abort());
+    this.monthDataRequests.clear();
+    this.failedMonths.clear();
+  };
+
+  // The previous and next months are loaded too, for the days shown around
+  // the month
+  requestMonthData = (): void => {
+    const { loadMonthData } = this.props;
+    if (
+      !loadMonthData ||
+      this.props.showTimeSelectOnly ||
+      this.props.showYearPicker ||
+      this.props.showMonthYearPicker ||
+      this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker
+    ) {
+      return;
+    }
+    const calendarSystem = this.getCalendarSystem();
+    const months = this.getMonthDates()
+      .filter((monthDate) => isValid(monthDate))
+      .flatMap((monthDate) =>
+        [-1, 0, 1].map((amount) => {
+          const monthStart = calendarSystem.getStartOfMonth(
+            calendarSystem.addMonths(monthDate, amount),
+          );
+          return { key: formatDate(monthStart, "yyyy-MM-dd"), monthStart };
+        }),
+      );
+    const isShown = (key: string) => months.some((month) => month.key === key);
+
+    this.monthDataRequests.forEach((controller, key) => {
+      if (!isShown(key)) {
+        controller.abort();
+        this.monthDataRequests.delete(key);
+      }
+    });
+    this.failedMonths.forEach((key) => {
+      if (!isShown(key)) {
+        this.failedMonths.delete(key);
+      }
+    });
+
+    for (const { key, monthStart } of months) {
+      if (
+        (this.props.monthData && key in this.props.monthData) ||
+        this.monthDataRequests.has(key) ||
+        this.failedMonths.has(key)
+      ) {
+        continue;
+      }
+      const controller = new AbortController();
+      const settle = (dayData?: MonthDayData) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        this.monthDataRequests.delete(key);
+        if (dayData) {
+          this.props.onMonthDataLoad?.(key, dayData);
+        } else {
+          this.failedMonths.add(key);
+        }
+        this.setState(({ loadingMonths }) => ({
+          loadingMonths: loadingMonths.filter((month) => month !== key),
+        }));
+      };
+
+      this.monthDataRequests.set(key, controller);
+      loadMonthData(
+        monthStart,
+        new Date(calendarSystem.addMonths(monthStart, 1).getTime() - 1),
+        controller.signal,
+      ).then(settle, () => settle());
+    }
+
+    // The months being loaded are the ones with a request
+    const loadingMonths = Array.from(this.monthDataRequests.keys());
+    if (
+      loadingMonths.length !== this.state.loadingMonths.length ||
+      loadingMonths.some((month) => !this.state.loadingMonths.includes(month))
+    ) {
+      this.setState({ loadingMonths });
+    }
+  };
+
+  // The rules of the holidays are only expanded for the weeks of the month
+  getMonthHolidays = (monthDate: Date): HolidaysMap | undefined => {
+    const { holidays, holidayRules, locale } = this.props;
+    if (!holidayRules?.length) {
+      return holidays;
+    }
+    const startDate = getStartOfWeek(
+      this.getCalendarSystem().getStartOfMonth(monthDate),
+      locale,
+      this.getCalendarStartDay(),
+    );
+
+    return getHolidaysMap(
+      getHolidayRuleDates(
+        holidayRules,
+        startDate,
+        addDays(startDate, 6 * 7 - 1),
+        this.getWeekendDays(),
+      ),
+      undefined,
+      holidays,
+    );
+  };
+
   increaseMonth = (): void => {
     this.setState(
       ({ date }) => ({
-        date: addMonths(date, 1),
+        date: this.getCalendarSystem().addMonths(date, 1),
       }),
       () => this.handleMonthChange(this.state.date),
     );
@@ -360,7 +669,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
   decreaseMonth = (): void => {
     this.setState(
       ({ date }) => ({
-        date: subMonths(date, 1),
+        date: this.getCalendarSystem().addMonths(date, -1),
       }),
       () => this.handleMonthChange(this.state.date),
     );
@@ -418,10 +727,9 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       return date;
     }
 
-    const startOfMonth = getStartOfMonth(date);
-    const endOfMonth = getEndOfMonth(date);
-
-    const totalDays = differenceInDays(endOfMonth, startOfMonth);
+    const calendarSystem = this.getCalendarSystem();
+    const startOfMonth = calendarSystem.getStartOfMonth(date);
+    const totalDays = calendarSystem.getDaysInMonth(date) - 1;
 
     let preSelectedDate = null;
 
@@ -464,7 +772,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
   changeYear = (year: number): void => {
     this.setState(
       ({ date }) => ({
-        date: setYear(date, Number(year)),
+        date: this.getCalendarSystem().setYear(date, Number(year)),
       }),
       () => this.handleYearChange(this.state.date),
     );
@@ -473,7 +781,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
   changeMonth = (month: number): void => {
     this.setState(
       ({ date }) => ({
-        date: setMonth(date, Number(month)),
+        date: this.getCalendarSystem().setMonth(date, Number(month)),
       }),
       () => {
         this.handleMonthChange(this.state.date);
@@ -486,9 +794,15 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
 
   changeMonthYear = (monthYear: Date): void => {
     this.setState(
-      ({ date }) => ({
-        date: setYear(setMonth(date, getMonth(monthYear)), getYear(monthYear)),
-      }),
+      ({ date }) => {
+        const calendarSystem = this.getCalendarSystem();
+        return {
+          date: calendarSystem.setYear(
+            calendarSystem.setMonth(date, calendarSystem.getMonth(monthYear)),
+            calendarSystem.getYear(monthYear),
+          ),
+        };
+      },
       () => this.handleMonthYearChange(this.state.date),
     );
   };
@@ -506,7 +820,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     const startOfWeek = getStartOfWeek(
       date,
       this.props.locale,
-      this.props.calendarStartDay,
+      this.getCalendarStartDay(),
     );
 
     const dayNames: React.ReactElement[] = [];
@@ -526,11 +840,15 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       [0, 1, 2, 3, 4, 5, 6].map((offset) => {
         const day = addDays(startOfWeek, offset);
         const weekDayName = this.formatWeekday(day, this.props.locale);
-        const fullDayName = formatDate(day, "EEEE", this.props.locale);
-
-        const weekDayClassName = this.props.weekDayClassName
-          ? this.props.weekDayClassName(day)
-          : undefined;
+        const fullDayName =
+          formatCalendarName(day, "weekday", this.props) ??
+          formatDate(day, "EEEE", this.props.locale);
+
+        const weekDayClassName = clsx(
+          this.props.weekDayClassName?.(day),
+          isWeekend(day, this.props.locale, this.props.weekendDays) &&
+            "react-datepicker__day-name--weekend",
+        );
 
         // Use custom render if provided
         if (this.props.renderCustomDayName) {
@@ -581,8 +899,10 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       return getFormattedWeekdayInLocale(day, this.props.formatWeekDay, locale);
     }
     return this.props.useWeekdaysShort
-      ? getWeekdayShortInLocale(day, locale)
-      : getWeekdayMinInLocale(day, locale);
+      ? (formatCalendarName(day, "weekdayShort", { ...this.props, locale }) ??
+          getWeekdayShortInLocale(day, locale))
+      : (formatCalendarName(day, "weekdayMin", { ...this.props, locale }) ??
+          getWeekdayMinInLocale(day, locale));
   };
 
   decreaseYear = (): void => {
@@ -615,7 +935,10 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       ? monthsShown - 1
       : 0;
     const monthSelectedIn = this.props.monthSelectedIn ?? monthsToSubtract;
-    const fromMonthDate = subMonths(this.state.date, monthSelectedIn);
+    const fromMonthDate = this.getCalendarSystem().addMonths(
+      this.state.date,
+      -monthSelectedIn,
+    );
 
     let allPrevDaysDisabled;
     switch (true) {
@@ -628,7 +951,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       case this.props.showYearPicker:
         allPrevDaysDisabled = yearsDisabledBefore(this.state.date, this.props);
         break;
-      case this.props.showQuarterYearPicker:
+      case this.props.showQuarterYearPicker || this.props.showHalfYearPicker:
         allPrevDaysDisabled = quarterDisabledBefore(
           this.state.date,
           this.props,
@@ -661,12 +984,17 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       "react-datepicker__navigation--previous",
     ];
 
+    if (this.hasPresets()) {
+      classes.push("react-datepicker__navigation--previous--with-presets");
+    }
+
     let clickHandler: React.MouseEventHandler<HTMLButtonElement> | undefined =
       this.decreaseMonth;
 
     if (
       this.props.showMonthYearPicker ||
       this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker ||
       this.props.showYearPicker
     ) {
       clickHandler = this.decreaseYear;
@@ -680,6 +1008,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     const isForYear =
       this.props.showMonthYearPicker ||
       this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker ||
       this.props.showYearPicker;
 
     const {
@@ -742,7 +1071,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       case this.props.showYearPicker:
         allNextDaysDisabled = yearsDisabledAfter(this.state.date, this.props);
         break;
-      case this.props.showQuarterYearPicker:
+      case this.props.showQuarterYearPicker || this.props.showHalfYearPicker:
         allNextDaysDisabled = quarterDisabledAfter(this.state.date, this.props);
         break;
       default:
@@ -773,6 +1102,9 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     if (this.props.showTimeSelect) {
       classes.push("react-datepicker__navigation--next--with-time");
     }
+    if (this.hasRangeTimeSelect()) {
+      classes.push("react-datepicker__navigation--next--with-time-range");
+    }
     if (this.props.todayButton) {
       classes.push("react-datepicker__navigation--next--with-today-button");
     }
@@ -783,6 +1115,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     if (
       this.props.showMonthYearPicker ||
       this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker ||
       this.props.showYearPicker
     ) {
       clickHandler = this.increaseYear;
@@ -796,6 +1129,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     const isForYear =
       this.props.showMonthYearPicker ||
       this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker ||
       this.props.showYearPicker;
 
     const {
@@ -841,7 +1175,10 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     return (
       <h2 className={classes.join(" ")}>
         {isValid(date)
-          ? formatDate(date, this.props.dateFormat, this.props.locale)
+          ? localizeDigits(
+              formatCalendarDate(date, this.props.dateFormat, this.props),
+              this.getNumberingSystem(),
+            )
           : ""}
       </h2>
     );
@@ -859,7 +1196,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         {...this.props}
         date={this.state.date}
         onChange={this.changeYear}
-        year={getYear(this.state.date)}
+        year={this.getCalendarSystem().getYear(this.state.date)}
       />
     );
   };
@@ -874,7 +1211,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       <MonthDropdown
         {...Calendar.defaultProps}
         {...this.props}
-        month={getMonth(this.state.date)}
+        month={this.getCalendarSystem().getMonth(this.state.date)}
         onChange={this.changeMonth}
       />
     );
@@ -971,6 +1308,8 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     }
 
     const { showYearPicker, yearItemNumber } = this.props;
+    // The data of the days isn't part of the parameters of the header
+    const { loadingMonths, ...headerState } = this.state;
 
     let visibleYearsRange;
     if (showYearPicker) {
@@ -1010,7 +1349,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         onFocus={this.props.onDropdownFocus}
       >
         {this.props.renderCustomHeader?.({
-          ...this.state,
+          ...headerState,
           ...(showYearPicker && { visibleYearsRange }),
           customHeaderCount: i,
           monthDate,
@@ -1029,6 +1368,19 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     );
   };
 
+  getYearLabel = (date: Date): string | number => {
+    const { fiscalYearStartMonth } = this.props;
+
+    // Quarters and half-years are picked within the fiscal year
+    if (
+      fiscalYearStartMonth &&
+      (this.props.showQuarterYearPicker || this.props.showHalfYearPicker)
+    ) {
+      return `FY${getFiscalYear(date, fiscalYearStartMonth)}`;
+    }
+    return getYear(date);
+  };
+
   renderYearHeader = ({
     monthDate,
   }: {
@@ -1044,7 +1396,12 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     );
     return (
       <div className="react-datepicker__header react-datepicker-year-header">
-        {showYearPicker ? `${startPeriod} - ${endPeriod}` : getYear(monthDate)}
+        {localizeDigits(
+          showYearPicker
+            ? `${startPeriod} - ${endPeriod}`
+            : String(this.getYearLabel(monthDate)),
+          this.getNumberingSystem(),
+        )}
       </div>
     );
   };
@@ -1062,6 +1419,7 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         return this.renderCustomHeader(headerArgs);
       case this.props.showMonthYearPicker ||
         this.props.showQuarterYearPicker ||
+        this.props.showHalfYearPicker ||
         this.props.showYearPicker:
         return this.renderYearHeader(headerArgs);
       default:
@@ -1069,32 +1427,47 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     }
   };
 
-  renderMonths = (): React.ReactElement[] | undefined => {
-    if (this.props.showTimeSelectOnly || this.props.showYearPicker) {
-      return;
-    }
-
-    const monthList: React.ReactElement[] = [];
+  getMonthDates = (): Date[] => {
+    const monthDates: Date[] = [];
     const monthsShown =
       this.props.monthsShown ?? Calendar.defaultProps.monthsShown;
     const monthsToSubtract = this.props.showPreviousMonths
       ? monthsShown - 1
       : 0;
     const fromMonthDate =
-      this.props.showMonthYearPicker || this.props.showQuarterYearPicker
+      this.props.showMonthYearPicker ||
+      this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker
         ? addYears(this.state.date, monthsToSubtract)
-        : subMonths(this.state.date, monthsToSubtract);
+        : this.getCalendarSystem().addMonths(
+            this.state.date,
+            -monthsToSubtract,
+          );
     const monthSelectedIn = this.props.monthSelectedIn ?? monthsToSubtract;
     for (let i = 0; i < monthsShown; ++i) {
       const monthsToAdd = i - monthSelectedIn + monthsToSubtract;
       const monthDate =
-        this.props.showMonthYearPicker || this.props.showQuarterYearPicker
+        this.props.showMonthYearPicker ||
+        this.props.showQuarterYearPicker ||
+        this.props.showHalfYearPicker
           ? addYears(fromMonthDate, monthsToAdd)
-          : addMonths(fromMonthDate, monthsToAdd);
+          : this.getCalendarSystem().addMonths(fromMonthDate, monthsToAdd);
+      monthDates.push(monthDate);
+    }
+    return monthDates;
+  };
+
+  renderMonths = (): React.ReactElement[] | undefined => {
+    if (this.props.showTimeSelectOnly || this.props.showYearPicker) {
+      return;
+    }
+
+    const monthDates = this.getMonthDates();
+    return monthDates.map((monthDate, i) => {
       const monthKey = `month-${i}`;
-      const monthShowsDuplicateDaysEnd = i < monthsShown - 1;
+      const monthShowsDuplicateDaysEnd = i < monthDates.length - 1;
       const monthShowsDuplicateDaysStart = i > 0;
-      monthList.push(
+      return (
         <div
           key={monthKey}
           ref={(div) => {
@@ -1108,6 +1481,13 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
             {...Calendar.defaultProps}
             {...this.props}
             containerRef={this.containerRef}
+            dir={this.getDirection()}
+            numberingSystem={this.getNumberingSystem()}
+            calendarStartDay={this.getCalendarStartDay()}
+            weekendDays={this.getWeekendDays()}
+            holidays={this.getMonthHolidays(monthDate)}
+            dayData={this.getMonthDayData(monthDate)}
+            loading={this.isMonthLoading(monthDate)}
             ariaLabelPrefix={this.props.monthAriaLabelPrefix}
             day={monthDate}
             onDayClick={this.handleDayClick}
@@ -1131,10 +1511,9 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
                 : undefined
             }
           />
-        </div>,
+        </div>
       );
-    }
-    return monthList;
+    });
   };
 
   renderYears = (): React.ReactElement | undefined => {
@@ -1148,6 +1527,8 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
           <Year
             {...Calendar.defaultProps}
             {...this.props}
+            dir={this.getDirection()}
+            numberingSystem={this.getNumberingSystem()}
             selectingDate={this.state.selectingDate}
             date={this.state.date}
             onDayClick={this.handleDayClick}
@@ -1161,7 +1542,76 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     return;
   };
 
+  hasRangeTimeSelect = (): boolean =>
+    !!(
+      this.props.selectsRange &&
+      this.props.showTimeSelect &&
+      this.props.showRangeTimeSelect &&
+      !this.props.showTimeSelectOnly
+    );
+
+  // The start time list disables the times at or after the end time on the same day, and vice versa
+  filterRangeTime = (time: Date, modifyDateType: "start" | "end"): boolean => {
+    const { startDate, endDate, filterTime } = this.props;
+
+    if (filterTime && !filterTime(time)) {
+      return false;
+    }
+    if (!startDate || !endDate || !isSameDay(startDate, endDate)) {
+      return true;
+    }
+    return modifyDateType === "start"
+      ? isBefore(time, endDate)
+      : isAfter(time, startDate);
+  };
+
+  renderRangeTimeSection = (): React.ReactElement | undefined => {
+    if (!this.state.monthContainer) {
+      return;
+    }
+
+    const timeCaption =
+      this.props.timeCaption ?? Calendar.defaultProps.timeCaption;
+    const {
+      startTimeCaption = Calendar.defaultProps.startTimeCaption,
+      endTimeCaption = Calendar.defaultProps.endTimeCaption,
+    } = this.props;
+
+    return (
+      <div className="react-datepicker__time-range">
+        {(["start", "end"] as const).map((modifyDateType) => (
+          <Time
+            key={modifyDateType}
+            {...Calendar.defaultProps}
+            {...this.props}
+            numberingSystem={this.getNumberingSystem()}
+            selected={
+              modifyDateType === "start"
+                ? this.props.startDate
+                : this.props.endDate
+            }
+            onChange={(time: Date) => {
+              this.props.onTimeChange?.(time, modifyDateType);
+            }}
+            filterTime={(time: Date) =>
+              this.filterRangeTime(time, modifyDateType)
+            }
+            timeCaption={`${timeCaption} (${modifyDateType === "start" ? startTimeCaption : endTimeCaption})`}
+            format={this.props.timeFormat}
+            intervals={this.props.timeIntervals}
+            intervalUnit={this.props.timeIntervalUnit}
+            monthRef={this.state.monthContainer}
+          />
+        ))}
+      </div>
+    );
+  };
+
   renderTimeSection = (): React.ReactElement | undefined => {
+    if (this.hasRangeTimeSelect()) {
+      return this.renderRangeTimeSection();
+    }
+
     if (
       this.props.showTimeSelect &&
       (this.state.monthContainer || this.props.showTimeSelectOnly)
@@ -1170,9 +1620,11 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
         <Time
           {...Calendar.defaultProps}
           {...this.props}
+          numberingSystem={this.getNumberingSystem()}
           onChange={this.props.onTimeChange}
           format={this.props.timeFormat}
           intervals={this.props.timeIntervals}
+          intervalUnit={this.props.timeIntervalUnit}
           monthRef={this.state.monthContainer}
         />
       );
@@ -1180,6 +1632,11 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     return;
   };
 
+  getTimeString = (time: Date): string =>
+    `${addZero(time.getHours())}:${addZero(time.getMinutes())}${
+      this.props.showTimeInputSeconds ? `:${addZero(time.getSeconds())}` : ""
+    }`;
+
   renderInputTimeSection = (): React.ReactElement | undefined => {
     if (!this.props.showTimeInput) {
       return;
@@ -1193,14 +1650,12 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       const startTimeValid =
         startTime && isValid(startTime) && Boolean(startDate);
       const startTimeString = startTimeValid
-        ? `${addZero(startTime.getHours())}:${addZero(startTime.getMinutes())}`
+        ? this.getTimeString(startTime)
         : "";
 
       const endTime = endDate ? new Date(endDate) : undefined;
       const endTimeValid = endTime && isValid(endTime) && Boolean(endDate);
-      const endTimeString = endTimeValid
-        ? `${addZero(endTime.getHours())}:${addZero(endTime.getMinutes())}`
-        : "";
+      const endTimeString = endTimeValid ? this.getTimeString(endTime) : "";
 
       return (
         <>
@@ -1209,6 +1664,8 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
             {...this.props}
             date={startTime}
             timeString={startTimeString}
+            showSeconds={this.props.showTimeInputSeconds}
+            segmented={this.props.segmentedTimeInput}
             onChange={(time: Date) => {
               this.props.onTimeChange?.(time, "start");
             }}
@@ -1219,6 +1676,8 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
             {...this.props}
             date={endTime}
             timeString={endTimeString}
+            showSeconds={this.props.showTimeInputSeconds}
+            segmented={this.props.segmentedTimeInput}
             onChange={(time: Date) => {
               this.props.onTimeChange?.(time, "end");
             }}
@@ -1233,15 +1692,15 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       ? new Date(this.props.selected)
       : undefined;
     const timeValid = time && isValid(time) && Boolean(this.props.selected);
-    const timeString = timeValid
-      ? `${addZero(time.getHours())}:${addZero(time.getMinutes())}`
-      : "";
+    const timeString = timeValid ? this.getTimeString(time) : "";
     return (
       <InputTime
         {...Calendar.defaultProps}
         {...this.props}
         date={time}
         timeString={timeString}
+        showSeconds={this.props.showTimeInputSeconds}
+        segmented={this.props.segmentedTimeInput}
         onChange={(time: Date) => {
           this.props.onTimeChange?.(time);
         }}
@@ -1271,14 +1730,24 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
       ariaLiveMessage = `${startPeriod} - ${endPeriod}`;
     } else if (
       this.props.showMonthYearPicker ||
-      this.props.showQuarterYearPicker
+      this.props.showQuarterYearPicker ||
+      this.props.showHalfYearPicker
     ) {
-      ariaLiveMessage = getYear(this.state.date);
-    } else {
-      ariaLiveMessage = `${getMonthInLocale(
-        getMonth(this.state.date),
+      ariaLiveMessage = this.getYearLabel(this.state.date);
+    } else if (!isGregorianCalendar(this.props.calendarSystem)) {
+      ariaLiveMessage = formatDate(
+        this.state.date,
+        "LLLL yyyy",
         this.props.locale,
-      )} ${getYear(this.state.date)}`;
+        this.props.calendarSystem,
+      );
+    } else {
+      ariaLiveMessage =
+        formatCalendarName(this.state.date, "monthYear", this.props) ??
+        `${getMonthInLocale(
+          getMonth(this.state.date),
+          this.props.locale,
+        )} ${getYear(this.state.date)}`;
     }
 
     return (
@@ -1292,6 +1761,87 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
     );
   };
 
+  hasPresets = (): boolean =>
+    !!this.props.selectsRange &&
+    !!this.props.presets?.length &&
+    !this.props.showTimeSelectOnly;
+
+  renderPresets = (): React.ReactElement | undefined => {
+    if (!this.hasPresets()) {
+      return;
+    }
+
+    return (
+      <Presets
+        {...Presets.defaultProps}
+        {...this.props}
+        presets={this.props.presets ?? []}
+        isRangeDisabled={this.props.isPresetRangeDisabled}
+      />
+    );
+  };
+
+  renderCompareRangeToggle = (): React.ReactElement | undefined => {
+    if (
+      !this.props.selectsRange ||
+      this.props.compareRangeMode !== "custom" ||
+      this.props.showTimeSelectOnly
+    ) {
+      return;
+    }
+
+    const {
+      selectingCompareRange = false,
+      primaryRangeLabel = Calendar.defaultProps.primaryRangeLabel,
+      compareRangeLabel = Calendar.defaultProps.compareRangeLabel,
+    } = this.props;
+
+    return (
+      <div className="react-datepicker__compare-range-toggle" role="group">
+        {[false, true].map((isCompareRange) => (
+          <button
+            key={String(isCompareRange)}
+            type="button"
+            className={clsx("react-datepicker__compare-range-toggle-button", {
+              "react-datepicker__compare-range-toggle-button--selected":
+                selectingCompareRange === isCompareRange,
+              "react-datepicker__compare-range-toggle-button--compare":
+                isCompareRange,
+            })}
+            aria-pressed={selectingCompareRange === isCompareRange}
+            onClick={() =>
+              this.props.onSelectingCompareRangeChange?.(isCompareRange)
+            }
+          >
+            {isCompareRange ? compareRangeLabel : primaryRangeLabel}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  renderTimeZoneSection = (): React.ReactElement | undefined => {
+    if (!this.props.showTimeZoneSelect) {
+      return;
+    }
+
+    return (
+      <TimeZoneSelect
+        timeZone={this.props.timeZone ?? getBrowserTimeZone()}
+        timeZones={this.props.timeZones}
+        date={this.props.selected ?? undefined}
+        label={this.props.timeZoneLabel ?? Calendar.defaultProps.timeZoneLabel}
+        searchLabel={
+          this.props.timeZoneSearchLabel ??
+          Calendar.defaultProps.timeZoneSearchLabel
+        }
+        onChange={(timeZone: TimeZone) =>
+          this.props.onTimeZoneChange?.(timeZone)
+        }
+      />
+    );
+  };
+
   renderChildren = (): React.ReactElement | undefined => {
     if (this.props.children) {
       return (
@@ -1319,8 +1869,10 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
             showTime={this.props.showTimeSelect || this.props.showTimeInput}
             showTimeSelectOnly={this.props.showTimeSelectOnly}
             inline={this.props.inline}
+            dir={this.getDirection()}
           >
             {this.renderAriaLiveRegion()}
+            {this.renderPresets()}
             {this.props.monthHeaderPosition === "top" &&
               this.renderPreviousButton()}
             {this.props.monthHeaderPosition === "top" &&
@@ -1330,6 +1882,8 @@ export default class Calendar extends Component<CalendarProps, CalendarState> {
             {this.renderTodayButton()}
             {this.renderTimeSection()}
             {this.renderInputTimeSection()}
+            {this.renderTimeZoneSection()}
+            {this.renderCompareRangeToggle()}
             {this.renderChildren()}
           </Container>
         </div>
@@ -14,6 +14,7 @@ const CalendarContainer: React.FC<CalendarContainerProps> = function ({
   className,
   children,
   inline,
+  dir,
 }: CalendarContainerProps) {
   const ariaLabel = showTimeSelectOnly
     ? "Choose Time"
@@ -22,6 +23,7 @@ const CalendarContainer: React.FC<CalendarContainerProps> = function ({
   return (
     <div
       className={className}
+      dir={dir}
       aria-label={ariaLabel}
       role={inline ? undefined : "dialog"}
       aria-modal={inline ? undefined : "true"}
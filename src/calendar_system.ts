@@ -0,0 +1,252 @@
+import {
+  addDays,
+  addMonths,
+  getDate,
+  getDaysInMonth,
+  getMonth,
+  getYear,
+  setMonth,
+  setYear,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subDays,
+} from "date-fns";
+
+/**
+ * The calendar systems supported by the date picker, named by their
+ * Unicode calendar identifiers. The day grid, its header, the month and
+ * year dropdowns and the input follow the calendar system; the month,
+ * quarter and year pickers stay Gregorian.
+ */
+export type CalendarSystemId =
+  | "gregory"
+  | "islamic-umalqura"
+  | "persian"
+  | "buddhist"
+  | "japanese";
+
+/**
+ * Date arithmetic in a calendar system. Every date is a JavaScript `Date`;
+ * only the year, month and day numbering depend on the calendar system.
+ * Months are 0-indexed, as in `Date`.
+ */
+export interface CalendarSystem {
+  id: CalendarSystemId;
+  /**
+   * The year, without era. The Japanese calendar counts years like the
+   * Gregorian calendar; its era years are only used for display.
+   */
+  getYear: (date: Date) => number;
+  getMonth: (date: Date) => number;
+  getDate: (date: Date) => number;
+  getDaysInMonth: (date: Date) => number;
+  getStartOfMonth: (date: Date) => Date;
+  getStartOfYear: (date: Date) => Date;
+  /**
+   * Adds months, keeping the time of day. The day is clamped to the last
+   * day of the new month.
+   */
+  addMonths: (date: Date, amount: number) => Date;
+  setMonth: (date: Date, month: number) => Date;
+  setYear: (date: Date, year: number) => Date;
+  /**
+   * Creates the date at midnight, or returns null for a day that is not in the month.
+   */
+  toDate: (year: number, month: number, day: number) => Date | null;
+}
+
+const gregorian: CalendarSystem = {
+  id: "gregory",
+  getYear,
+  getMonth,
+  getDate,
+  getDaysInMonth,
+  getStartOfMonth: startOfMonth,
+  getStartOfYear: startOfYear,
+  addMonths,
+  setMonth,
+  setYear,
+  toDate: (year, month, day) => {
+    const date = new Date(year, month, day);
+    date.setFullYear(year);
+
+    return getMonth(date) === month ? date : null;
+  },
+};
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * Gets a cached `Intl.DateTimeFormat`, as creating one is slow.
+ *
+ * @param locale - The BCP 47 locale.
+ * @param options - The format options.
+ * @returns - The formatter.
+ */
+export function getIntlFormatter(
+  locale: string,
+  options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatters[key];
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat(locale, options);
+    } catch {
+      // Unknown locale tags fall back to the default locale
+      formatter = new Intl.DateTimeFormat(undefined, options);
+    }
+    formatters[key] = formatter;
+  }
+  return formatter;
+}
+
+// The Buddhist and Japanese calendars have the Gregorian months; only the
+// Buddhist years are counted from 543 BC
+function createGregorianCalendarSystem(
+  id: CalendarSystemId,
+  yearOffset: number,
+): CalendarSystem {
+  return {
+    ...gregorian,
+    id,
+    getYear: (date) => getYear(date) + yearOffset,
+    setYear: (date, year) => setYear(date, year - yearOffset),
+    toDate: (year, month, day) =>
+      gregorian.toDate(year - yearOffset, month, day),
+  };
+}
+
+// The mean length of a month in days, used to jump close to a month far away
+const MEAN_MONTH_LENGTH: Partial<Record<CalendarSystemId, number>> = {
+  "islamic-umalqura": 29.530588,
+  persian: 30.436875,
+};
+
+function createIntlCalendarSystem(id: CalendarSystemId): CalendarSystem {
+  const getParts = (date: Date) => {
+    const parts = getIntlFormatter("en-US-u-nu-latn", {
+      calendar: id,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    }).formatToParts(date);
+    const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((part) => part.type === type)?.value);
+
+    return {
+      year: getPart("year"),
+      month: getPart("month") - 1,
+      day: getPart("day"),
+    };
+  };
+
+  const getMonthIndex = (date: Date) => {
+    const { year, month } = getParts(date);
+    return year * 12 + month;
+  };
+
+  const getStartOfMonth = (date: Date) =>
+    subDays(startOfDay(date), getParts(date).day - 1);
+
+  // Months are 29 to 31 days long, so the next month starts within 31 days
+  const getStartOfNextMonth = (startOfMonthDate: Date) =>
+    getStartOfMonth(addDays(startOfMonthDate, 31));
+
+  const getMonthStart = (date: Date, amount: number) => {
+    const target = getMonthIndex(date) + amount;
+    let start = getStartOfMonth(
+      addDays(
+        getStartOfMonth(date),
+        Math.round(amount * (MEAN_MONTH_LENGTH[id] ?? 30)),
+      ),
+    );
+    let index = getMonthIndex(start);
+    while (index < target) {
+      start = getStartOfNextMonth(start);
+      index = getMonthIndex(start);
+    }
+    while (index > target) {
+      start = getStartOfMonth(subDays(start, 1));
+      index = getMonthIndex(start);
+    }
+    return start;
+  };
+
+  const getDaysInMonthOf = (date: Date) => {
+    const start = getStartOfMonth(date);
+    return Math.round(
+      (getStartOfNextMonth(start).getTime() - start.getTime()) / 86400000,
+    );
+  };
+
+  const addMonthsOf = (date: Date, amount: number) => {
+    const start = getMonthStart(date, amount);
+    const day = Math.min(getParts(date).day, getDaysInMonthOf(start));
+    const result = addDays(start, day - 1);
+    result.setHours(
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds(),
+    );
+    return result;
+  };
+
+  return {
+    id,
+    getYear: (date) => getParts(date).year,
+    getMonth: (date) => getParts(date).month,
+    getDate: (date) => getParts(date).day,
+    getDaysInMonth: getDaysInMonthOf,
+    getStartOfMonth,
+    getStartOfYear: (date) => getMonthStart(date, -getParts(date).month),
+    addMonths: addMonthsOf,
+    setMonth: (date, month) => addMonthsOf(date, month - getParts(date).month),
+    setYear: (date, year) =>
+      addMonthsOf(date, (year - getParts(date).year) * 12),
+    toDate: (year, month, day) => {
+      const today = startOfDay(new Date());
+      const start = getMonthStart(
+        today,
+        year * 12 + month - getMonthIndex(today),
+      );
+      return day >= 1 && day <= getDaysInMonthOf(start)
+        ? addDays(start, day - 1)
+        : null;
+    },
+  };
+}
+
+const calendarSystems: Partial<Record<CalendarSystemId, CalendarSystem>> = {
+  gregory: gregorian,
+  buddhist: createGregorianCalendarSystem("buddhist", 543),
+  japanese: createGregorianCalendarSystem("japanese", 0),
+};
+
+/**
+ * Gets a calendar system.
+ *
+ * @param id - The calendar system, Gregorian by default.
+ * @returns - The calendar system.
+ */
+export function getCalendarSystem(id?: CalendarSystemId): CalendarSystem {
+  const calendarId = id ?? "gregory";
+  let calendarSystem = calendarSystems[calendarId];
+  if (!calendarSystem) {
+    calendarSystem = createIntlCalendarSystem(calendarId);
+    calendarSystems[calendarId] = calendarSystem;
+  }
+  return calendarSystem;
+}
+
+/**
+ * Checks if dates are counted in the Gregorian calendar, which is handled by date-fns directly.
+ *
+ * @param id - The calendar system.
+ * @returns - True for the Gregorian calendar.
+ */
+export function isGregorianCalendar(id?: CalendarSystemId): boolean {
+  return !id || id === "gregory";
+}
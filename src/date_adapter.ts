@@ -0,0 +1,367 @@
+import { formatISO, parseISO } from "date-fns";
+
+import { isGregorianCalendar, type CalendarSystemId } from "./calendar_system";
+import {
+  formatDate,
+  formatInTimeZone,
+  fromZonedTime,
+  getIntlLocale,
+  isValid,
+  parseDate,
+  toZonedTime,
+  type Locale,
+  type TimeZone,
+} from "./date_utils";
+
+/**
+ * Connects the date picker to a date library. The calendar works with
+ * `Date` internally; the adapter converts the library's dates at the
+ * boundary, and formats and parses the input text with the library's
+ * own format tokens.
+ *
+ * With `calendarFormats`, the title of the month, the month and weekday
+ * names and the aria labels of the days are formatted by the adapter too.
+ *
+ * Not covered by the adapter: the calendar math (adding months, the weeks of
+ * the month, the first day of the week) stays Gregorian on `Date`s with the
+ * date-fns locale, and the props that are not dates of the value, e.g.
+ * `highlightDates`, `holidays` and `filterDate`, take and receive `Date`s.
+ */
+export interface DateAdapter<TDate> {
+  /**
+   * Converts a date of the library into a `Date`, or returns null for an invalid date.
+   * With the `timeZone` of the picker, dates without a zone are in that zone.
+   */
+  toDate(value: TDate, timeZone?: TimeZone): Date | null;
+  fromDate(date: Date, timeZone?: TimeZone): TDate;
+  /**
+   * Formats a date with a format string of the library.
+   */
+  format(date: Date, formatStr: string, locale?: Locale): string;
+  /**
+   * Parses a date with a format string of the library, or returns null.
+   * The reference date fills in the parts that are not in the format.
+   */
+  parse(
+    value: string,
+    formatStr: string,
+    locale: Locale | undefined,
+    strictParsing: boolean,
+    refDate?: Date,
+  ): Date | null;
+  /**
+   * The format strings of the names in the calendar, with the tokens of the
+   * library. Without them, the calendar names use date-fns and its locales.
+   */
+  calendarFormats?: CalendarFormats;
+}
+
+/**
+ * The format strings of the names in the calendar.
+ */
+export interface CalendarFormats {
+  /** The title of the month, e.g. "March 2026" */
+  monthYear: string;
+  /** The month names of the month picker and dropdown, e.g. "March" */
+  month: string;
+  /** e.g. "Mar" */
+  monthShort: string;
+  /** The weekday names for screen readers, e.g. "Saturday" */
+  weekday: string;
+  /** The weekday names with `useWeekdaysShort`, e.g. "Sat" */
+  weekdayShort: string;
+  /** The weekday names of the day grid, e.g. "Sa" */
+  weekdayMin: string;
+  /** The aria labels of the days, e.g. "Saturday, March 14, 2026" */
+  day: string;
+}
+
+interface CalendarFormatOptions {
+  dateAdapter?: DateAdapter<Date>;
+  locale?: Locale;
+  calendarSystem?: CalendarSystemId;
+}
+
+/**
+ * Formats a date of the calendar with a format string of the adapter when it
+ * has calendar formats, or of date-fns otherwise.
+ *
+ * @param date - The date.
+ * @param formatStr - The format string, e.g. `dateFormatCalendar`.
+ * @param options - The adapter, the locale and the calendar system.
+ * @returns - The formatted date.
+ */
+export function formatCalendarDate(
+  date: Date,
+  formatStr: string,
+  { dateAdapter, locale, calendarSystem }: CalendarFormatOptions,
+): string {
+  return dateAdapter?.calendarFormats && isGregorianCalendar(calendarSystem)
+    ? dateAdapter.format(date, formatStr, locale)
+    : formatDate(date, formatStr, locale, calendarSystem);
+}
+
+/**
+ * Formats a name in the calendar with the formats of the adapter.
+ *
+ * @param date - The date.
+ * @param name - The name to format.
+ * @param options - The adapter, the locale and the calendar system.
+ * @returns - The name, or undefined when the adapter has no calendar
+ * formats or the calendar is not Gregorian.
+ */
+export function formatCalendarName(
+  date: Date,
+  name: keyof CalendarFormats,
+  { dateAdapter, locale, calendarSystem }: CalendarFormatOptions,
+): string | undefined {
+  if (!dateAdapter?.calendarFormats || !isGregorianCalendar(calendarSystem)) {
+    return undefined;
+  }
+  return dateAdapter.format(date, dateAdapter.calendarFormats[name], locale);
+}
+
+/**
+ * The default adapter, for `Date` and date-fns format strings.
+ */
+export const dateFnsAdapter: DateAdapter<Date> = {
+  toDate: (value) => (isValid(value) ? value : null),
+  fromDate: (date) => date,
+  format: (date, formatStr, locale) => formatDate(date, formatStr, locale),
+  parse: (value, formatStr, locale, strictParsing, refDate) =>
+    parseDate(value, formatStr, locale, strictParsing, refDate),
+};
+
+/**
+ * Gets an adapter for `Date`s that formats and parses with another adapter.
+ *
+ * @param adapter - The adapter of the date library.
+ * @returns - The adapter for `Date`s.
+ */
+export function getDateFormatAdapter<TDate>(
+  adapter: DateAdapter<TDate>,
+): DateAdapter<Date> {
+  return {
+    ...dateFnsAdapter,
+    format: (date, formatStr, locale) =>
+      adapter.format(date, formatStr, locale),
+    parse: (value, formatStr, locale, strictParsing, refDate) =>
+      adapter.parse(value, formatStr, locale, strictParsing, refDate),
+    calendarFormats: adapter.calendarFormats,
+  };
+}
+
+/**
+ * The dates of each value type.
+ */
+export interface ValueTypeDates {
+  date: Date;
+  "iso-date": string;
+  "iso-datetime": string;
+}
+
+/**
+ * The type of the values of `selected`, `onChange` and the other dates:
+ * `Date`s, ISO 8601 dates ("2026-03-14") or ISO 8601 date-times.
+ */
+export type ValueType = keyof ValueTypeDates;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_OFFSET_PATTERN = /T.*(Z|[+-]\d{2}(:?\d{2})?)$/i;
+
+/**
+ * The adapter for ISO 8601 dates. A date is midnight of that day in the
+ * local time zone, or in the `timeZone` of the picker, so that it is never
+ * shifted by the time zone offset.
+ */
+export const isoDateAdapter: DateAdapter<string> = {
+  ...dateFnsAdapter,
+  toDate: (value, timeZone) => {
+    const date = ISO_DATE_PATTERN.test(value) ? parseISO(value) : null;
+    return date && isValid(date) ? fromZonedTime(date, timeZone) : null;
+  },
+  fromDate: (date, timeZone) =>
+    formatISO(toZonedTime(date, timeZone), { representation: "date" }),
+};
+
+/**
+ * The adapter for ISO 8601 date-times. Date-times without an offset and
+ * plain dates are in the local time zone, or in the `timeZone` of the
+ * picker; the returned date-times have the offset of that zone, e.g.
+ * "2026-03-14T09:30:00+01:00".
+ */
+export const isoDateTimeAdapter: DateAdapter<string> = {
+  ...dateFnsAdapter,
+  toDate: (value, timeZone) => {
+    const date = parseISO(value);
+    if (!isValid(date)) {
+      return null;
+    }
+    return ISO_OFFSET_PATTERN.test(value)
+      ? date
+      : fromZonedTime(date, timeZone);
+  },
+  fromDate: (date, timeZone) =>
+    timeZone
+      ? formatInTimeZone(date, "yyyy-MM-dd'T'HH:mm:ssXXX", timeZone)
+      : formatISO(date),
+};
+
+/**
+ * Gets the adapter of a value type.
+ *
+ * @param valueType - The value type.
+ * @returns - The adapter.
+ */
+export function getValueTypeAdapter(
+  valueType: ValueType,
+): DateAdapter<Date> | DateAdapter<string> {
+  switch (valueType) {
+    case "iso-date":
+      return isoDateAdapter;
+    case "iso-datetime":
+      return isoDateTimeAdapter;
+    default:
+      return dateFnsAdapter;
+  }
+}
+
+/**
+ * The part of Luxon's `DateTime` the Luxon adapter uses, so that Luxon is
+ * not a dependency of the date picker.
+ */
+export interface LuxonDateTime {
+  readonly isValid: boolean;
+  toJSDate(): Date;
+  setLocale(locale: string): LuxonDateTime;
+  toFormat(formatStr: string): string;
+}
+
+export interface LuxonDateTimeClass<TDateTime extends LuxonDateTime> {
+  fromJSDate(date: Date): TDateTime;
+  fromFormat(
+    text: string,
+    formatStr: string,
+    options?: { locale?: string },
+  ): TDateTime;
+}
+
+/**
+ * Creates an adapter for Luxon. Format strings use Luxon's tokens.
+ *
+ * @param DateTime - Luxon's `DateTime` class.
+ * @returns - The adapter.
+ *
+ * @example
+ * ```tsx
+ * import { DateTime } from "luxon";
+ *
+ * const luxonAdapter = createLuxonAdapter(DateTime);
+ * ```
+ */
+export function createLuxonAdapter<TDateTime extends LuxonDateTime>(
+  DateTime: LuxonDateTimeClass<TDateTime>,
+): DateAdapter<TDateTime> {
+  const format = (date: Date, formatStr: string, locale?: Locale) =>
+    DateTime.fromJSDate(date)
+      .setLocale(getIntlLocale(locale))
+      .toFormat(formatStr);
+
+  return {
+    toDate: (value) => (value.isValid ? value.toJSDate() : null),
+    fromDate: (date) => DateTime.fromJSDate(date),
+    format,
+    parse: (value, formatStr, locale, strictParsing) => {
+      const dateTime = DateTime.fromFormat(value, formatStr, {
+        locale: getIntlLocale(locale),
+      });
+      if (!dateTime.isValid) {
+        return null;
+      }
+      const date = dateTime.toJSDate();
+
+      return !strictParsing || format(date, formatStr, locale) === value
+        ? date
+        : null;
+    },
+    calendarFormats: {
+      monthYear: "LLLL yyyy",
+      month: "LLLL",
+      monthShort: "LLL",
+      weekday: "cccc",
+      weekdayShort: "ccc",
+      // Luxon has no two-letter weekday names
+      weekdayMin: "ccccc",
+      day: "DDDD",
+    },
+  };
+}
+
+/**
+ * The part of a Day.js object the Day.js adapter uses, so that Day.js is
+ * not a dependency of the date picker.
+ */
+export interface DayjsDate {
+  isValid(): boolean;
+  toDate(): Date;
+  locale(locale: string): DayjsDate;
+  format(formatStr: string): string;
+}
+
+export type DayjsFunction<TDayjs extends DayjsDate> = (
+  date?: Date | string,
+  formatStr?: string,
+  locale?: string,
+  strict?: boolean,
+) => TDayjs;
+
+/**
+ * Creates an adapter for Day.js. Format strings use Day.js's tokens, and
+ * parsing needs its `customParseFormat` plugin. Locales that are not loaded
+ * in Day.js fall back to its current locale.
+ *
+ * @param dayjs - The `dayjs` function.
+ * @returns - The adapter.
+ *
+ * @example
+ * ```tsx
+ * import dayjs from "dayjs";
+ * import customParseFormat from "dayjs/plugin/customParseFormat";
+ *
+ * dayjs.extend(customParseFormat);
+ * const dayjsAdapter = createDayjsAdapter(dayjs);
+ * ```
+ */
+export function createDayjsAdapter<TDayjs extends DayjsDate>(
+  dayjs: DayjsFunction<TDayjs>,
+): DateAdapter<TDayjs> {
+  // Day.js names its locales in lower case, e.g. "zh-cn"
+  const getDayjsLocale = (locale?: Locale) =>
+    getIntlLocale(locale).toLowerCase();
+
+  return {
+    toDate: (value) => (value.isValid() ? value.toDate() : null),
+    fromDate: (date) => dayjs(date),
+    format: (date, formatStr, locale) =>
+      dayjs(date).locale(getDayjsLocale(locale)).format(formatStr),
+    parse: (value, formatStr, locale, strictParsing) => {
+      const dayjsDate = dayjs(
+        value,
+        formatStr,
+        getDayjsLocale(locale),
+        strictParsing,
+      );
+
+      return dayjsDate.isValid() ? dayjsDate.toDate() : null;
+    },
+    calendarFormats: {
+      monthYear: "MMMM YYYY",
+      month: "MMMM",
+      monthShort: "MMM",
+      weekday: "dddd",
+      weekdayShort: "ddd",
+      weekdayMin: "dd",
+      day: "dddd, MMMM D, YYYY",
+    },
+  };
+}
@@ -0,0 +1,261 @@
+import {
+  formatDate,
+  getDateFormatTokens,
+  newDate,
+  setTime,
+  type Locale,
+} from "./date_utils";
+
+/**
+ * A field of the mask, e.g. the month of "MM/dd/yyyy", with the literal
+ * text written before it.
+ */
+export interface DateMaskField {
+  prefix: string;
+  width: number;
+  min: number;
+  max: number;
+  // Pads the values that can't take another digit with zeros, e.g. "03"
+  pad: boolean;
+  // The texts of a field of letters, e.g. AM and PM
+  options?: string[];
+}
+
+export interface MaskedValue {
+  value: string;
+  caret: number;
+}
+
+// Letters have cases, unlike the separators
+function isLetter(char: string): boolean {
+  return char.toLowerCase() !== char.toUpperCase();
+}
+
+// The ranges of the numeric tokens of one or two letters
+const NUMERIC_TOKEN_RANGES: Record<string, [number, number]> = {
+  M: [1, 12],
+  L: [1, 12],
+  d: [1, 31],
+  H: [0, 23],
+  h: [1, 12],
+  K: [0, 11],
+  k: [1, 24],
+  m: [0, 59],
+  s: [0, 59],
+};
+
+function getNumericField(token: string): Omit<DateMaskField, "prefix"> | null {
+  const letter = token.charAt(0);
+  const range = NUMERIC_TOKEN_RANGES[letter];
+
+  if (token !== letter.repeat(token.length)) {
+    return null;
+  }
+  if (letter === "y") {
+    return token.length === 2
+      ? { width: 2, min: 0, max: 99, pad: true }
+      : { width: 4, min: 1000, max: 9999, pad: true };
+  }
+  if (letter === "S") {
+    return {
+      width: token.length,
+      min: 0,
+      max: 10 ** token.length - 1,
+      pad: true,
+    };
+  }
+  return range && token.length <= 2
+    ? { width: 2, min: range[0], max: range[1], pad: token.length === 2 }
+    : null;
+}
+
+function getFields(
+  dateFormat: string,
+  locale?: Locale,
+): DateMaskField[] | null {
+  const fields: DateMaskField[] = [];
+  let prefix = "";
+
+  for (const { value, isLiteral } of getDateFormatTokens(dateFormat, locale)) {
+    if (isLiteral) {
+      prefix += value;
+      continue;
+    }
+    if (value[0] === "a" && value.length <= 3) {
+      const options = [0, 12].map((hour) =>
+        formatDate(setTime(newDate(), { hour }), value, locale),
+      );
+      if (options.some((option) => !option.split("").every(isLetter))) {
+        return null;
+      }
+      fields.push({
+        prefix,
+        width: Math.max(...options.map((option) => option.length)),
+        min: 0,
+        max: 1,
+        pad: false,
+        options,
+      });
+    } else {
+      const field = getNumericField(value);
+      if (!field) {
+        return null;
+      }
+      fields.push({ prefix, ...field });
+    }
+    prefix = "";
+  }
+  return fields;
+}
+
+/**
+ * Gets the fields of the mask of a date format, or null when the format
+ * has tokens that can't be masked, e.g. the names of the months.
+ *
+ * @param dateFormat - The date format.
+ * @param locale - The locale.
+ * @param rangeSeparator - The separator of the start and end dates of a range.
+ * @returns - The fields of the mask, or null.
+ */
+export function getDateMask(
+  dateFormat: string,
+  locale?: Locale,
+  rangeSeparator?: string,
+): DateMaskField[] | null {
+  const fields = getFields(dateFormat, locale);
+
+  if (!fields || rangeSeparator === undefined) {
+    return fields;
+  }
+  const [first, ...rest] = fields;
+  return first
+    ? [
+        ...fields,
+        { ...first, prefix: `${rangeSeparator}${first.prefix}` },
+        ...rest,
+      ]
+    : fields;
+}
+
+// Another digit can still follow, e.g. "1" of a month but not "3"
+function canContinue(field: DateMaskField, text: string): boolean {
+  return (
+    text.length < field.width &&
+    Number(text) * 10 ** (field.width - text.length) <= field.max
+  );
+}
+
+function isComplete(field: DateMaskField, text: string): boolean {
+  const value = Number(text);
+
+  return value >= field.min && value <= field.max;
+}
+
+/**
+ * Formats the typed text with a mask: the separators of the format are
+ * inserted, the characters that aren't allowed at their position are
+ * dropped and the values that can't take another digit are padded, e.g.
+ * "03142026" and "3/14/2026" are "03/14/2026" for "MM/dd/yyyy".
+ *
+ * @param text - The typed text.
+ * @param caret - The position of the caret in the typed text.
+ * @param fields - The fields of the mask.
+ * @returns - The masked text and the position of the caret in it.
+ */
+export function applyDateMask(
+  text: string,
+  caret: number,
+  fields: DateMaskField[],
+): MaskedValue {
+  let value = "";
+  let newCaret: number | undefined;
+  let fieldIndex = 0;
+  let fieldText = "";
+  let hasPrefix = false;
+
+  const startField = () => {
+    if (!hasPrefix) {
+      value += fields[fieldIndex]?.prefix ?? "";
+      hasPrefix = true;
+    }
+  };
+  const nextField = () => {
+    fieldIndex++;
+    fieldText = "";
+    hasPrefix = false;
+  };
+  const setFieldText = (fieldValue: string) => {
+    value = value.slice(0, value.length - fieldText.length) + fieldValue;
+    fieldText = fieldValue;
+  };
+  // Pads the field with zeros, moving the caret along with its text
+  const padField = (field: DateMaskField) => {
+    const padding = field.pad ? field.width - fieldText.length : 0;
+    if (
+      padding > 0 &&
+      newCaret !== undefined &&
+      newCaret > value.length - fieldText.length
+    ) {
+      newCaret += padding;
+    }
+    setFieldText(fieldText.padStart(fieldText.length + padding, "0"));
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const field = fields[fieldIndex];
+    const char = text.charAt(i);
+
+    if (i === caret) {
+      newCaret = value.length;
+    }
+    if (!field) {
+      break;
+    }
+
+    // A typed separator ends the field or writes the separator
+    if (!isLetter(char) && !/\d/.test(char)) {
+      if (fieldText && !field.options && isComplete(field, fieldText)) {
+        padField(field);
+        nextField();
+      }
+      if (!fieldText && fieldIndex > 0 && fields[fieldIndex]) {
+        startField();
+      }
+      continue;
+    }
+
+    const candidate = fieldText + char;
+
+    if (field.options) {
+      const matches = field.options.filter((option) =>
+        option.toLowerCase().startsWith(candidate.toLowerCase()),
+      );
+      const [match] = matches;
+      if (match) {
+        startField();
+        setFieldText(
+          matches.length === 1 ? match : match.slice(0, candidate.length),
+        );
+        if (matches.length === 1) {
+          nextField();
+        }
+      }
+      continue;
+    }
+
+    if (!/\d/.test(char)) {
+      continue;
+    }
+    if (canContinue(field, candidate)) {
+      startField();
+      setFieldText(candidate);
+    } else if (isComplete(field, candidate)) {
+      startField();
+      setFieldText(candidate);
+      padField(field);
+      nextField();
+    }
+  }
+
+  return { value, caret: newCaret ?? value.length };
+}
@@ -23,8 +23,10 @@ import {
   format,
   getDate,
   getDay,
+  getDaysInMonth,
   getHours,
   getISOWeek,
+  getMilliseconds,
   getMinutes,
   getMonth,
   getQuarter,
@@ -42,6 +44,7 @@ import {
   parseISO,
   set,
   setHours,
+  setMilliseconds,
   setMinutes,
   setMonth,
   setQuarter,
@@ -62,6 +65,15 @@ import {
 
 import type { Locale as DateFnsLocale, Day } from "date-fns";
 
+import {
+  getCalendarSystem,
+  getIntlFormatter,
+  isGregorianCalendar,
+  type CalendarSystemId,
+} from "./calendar_system";
+
+import type { DateAdapter } from "./date_adapter";
+
 // Timezone support types and utilities
 // These are dynamically imported when timeZone prop is used
 export type TimeZone = string;
@@ -233,6 +245,96 @@ export function nowInTimeZone(timeZone?: TimeZone): Date {
   return toZonedTime(now, timeZone);
 }
 
+/**
+ * Gets the time zone of the browser.
+ *
+ * @returns - The IANA time zone identifier.
+ */
+export function getBrowserTimeZone(): TimeZone {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Gets the time zones the browser knows, with UTC.
+ *
+ * @returns - The IANA time zone identifiers.
+ */
+export function getTimeZones(): TimeZone[] {
+  const timeZones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+
+  return timeZones.includes("UTC") ? timeZones : ["UTC", ...timeZones];
+}
+
+/**
+ * Gets the offset of a time zone from UTC on a date, which changes with daylight saving time.
+ *
+ * @param timeZone - The IANA time zone identifier.
+ * @param date - The date, now by default.
+ * @returns - The offset in minutes.
+ */
+export function getTimeZoneOffset(
+  timeZone: TimeZone,
+  date: Date = newDate(),
+): number {
+  const offsetName =
+    getIntlFormatter("en-US", { timeZone, timeZoneName: "longOffset" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? "";
+  // "GMT" for UTC, otherwise e.g. "GMT+05:30"
+  const match = offsetName.match(/([+-])(\d{2}):(\d{2})/);
+  if (!match) {
+    return 0;
+  }
+  const offset = Number(match[2]) * 60 + Number(match[3]);
+
+  return match[1] === "-" ? -offset : offset;
+}
+
+/**
+ * Formats an offset from UTC, e.g. "UTC+05:30".
+ *
+ * @param offset - The offset in minutes.
+ * @returns - The formatted offset.
+ */
+export function formatTimeZoneOffset(offset: number): string {
+  const absoluteOffset = Math.abs(offset);
+
+  return `UTC${offset < 0 ? "-" : "+"}${addZero(
+    Math.floor(absoluteOffset / 60),
+  )}:${addZero(absoluteOffset % 60)}`;
+}
+
+/**
+ * Formats the time of a date in a second time zone, with the abbreviation
+ * of the zone, e.g. "4:00 PM GMT+1".
+ *
+ * @param date - The date.
+ * @param secondaryTimeZone - The IANA time zone identifier.
+ * @param timeFormat - The format of the time, "p" by default.
+ * @param locale - The locale.
+ * @returns - The formatted time.
+ */
+export function formatSecondaryTime(
+  date: Date,
+  secondaryTimeZone: TimeZone,
+  timeFormat = "p",
+  locale?: Locale,
+): string {
+  const localeObj = (
+    locale ? getLocaleObject(locale) : getLocaleObject(getDefaultLocale())
+  ) as DateFnsLocale | undefined;
+
+  return formatInTimeZone(
+    date,
+    `${timeFormat} zzz`,
+    secondaryTimeZone,
+    localeObj,
+  );
+}
+
 export type DateNumberType = Day;
 interface LocaleObj extends Pick<
   DateFnsLocale,
@@ -291,6 +393,7 @@ export function newDate(value?: string | Date | number | null): Date {
  * @param locale - The locale.
  * @param strictParsing - The strict parsing flag.
  * @param refDate - The base date to be passed to date-fns parse() function.
+ * @param calendarSystem - The calendar system the value is written in.
  * @returns - The parsed date or null.
  */
 export function parseDate(
@@ -299,34 +402,46 @@ export function parseDate(
   locale: Locale | undefined,
   strictParsing: boolean,
   refDate: Date = newDate(),
+  calendarSystem?: CalendarSystemId,
 ): Date | null {
+  // Native digits, e.g. Arabic ones, are parsed like Latin ones
+  const text = delocalizeDigits(value);
   const localeObject =
     getLocaleObject(locale) || getLocaleObject(getDefaultLocale());
 
   const formats = Array.isArray(dateFormat) ? dateFormat : [dateFormat];
 
   for (const format of formats) {
-    const parsedDate = parse(value, format, refDate, {
-      locale: localeObject,
-      useAdditionalWeekYearTokens: true,
-      useAdditionalDayOfYearTokens: true,
-    });
+    const parsedDate = isGregorianCalendar(calendarSystem)
+      ? parse(text, format, refDate, {
+          locale: localeObject,
+          useAdditionalWeekYearTokens: true,
+          useAdditionalDayOfYearTokens: true,
+        })
+      : parseCalendarDate(text, format, locale, calendarSystem, refDate);
     if (
+      parsedDate &&
       isValid(parsedDate) &&
-      (!strictParsing || value === formatDate(parsedDate, format, locale))
+      (!strictParsing ||
+        text === formatDate(parsedDate, format, locale, calendarSystem))
     ) {
       return parsedDate;
     }
   }
 
+  // Other calendars are only parsed with the date format
+  if (!isGregorianCalendar(calendarSystem)) {
+    return null;
+  }
+
   // When strictParsing is false, try native Date parsing as a fallback
   // This allows flexible input formats like "12/05/2025" or "2025-12-16"
   // even when the dateFormat prop specifies a different format.
   // Only attempt this for inputs that look like complete dates (minimum
   // length of 8 characters, e.g., "1/1/2000") to avoid parsing partial
   // inputs like "03/" or "2000" which should be handled by parseDateForNavigation.
-  if (!strictParsing && value && value.length >= 8) {
-    const nativeDate = new Date(value);
+  if (!strictParsing && text && text.length >= 8) {
+    const nativeDate = new Date(text);
     if (isValidDate(nativeDate)) {
       return nativeDate;
     }
@@ -369,6 +484,283 @@ export function parseDateForNavigation(
   return new Date(year, month, 1);
 }
 
+// ** Relative Date Parsing **
+
+export type RelativeDateUnit = "day" | "week" | "month" | "year";
+
+/**
+ * The words of the relative dates typed into the input, e.g. "tomorrow",
+ * "next fri", "+3d" or "end of month". The names of the weekdays come
+ * from the locale.
+ */
+export interface RelativeDateWords {
+  today: string[];
+  tomorrow: string[];
+  yesterday: string[];
+  next: string[];
+  last: string[];
+  current: string[];
+  startOf: string[];
+  endOf: string[];
+  in: string[];
+  ago: string[];
+  units: Record<RelativeDateUnit, string[]>;
+}
+
+const DEFAULT_RELATIVE_DATE_WORDS: RelativeDateWords = {
+  today: ["today"],
+  tomorrow: ["tomorrow", "tmrw"],
+  yesterday: ["yesterday"],
+  next: ["next"],
+  last: ["last", "previous", "prev"],
+  current: ["this"],
+  startOf: ["start of", "beginning of"],
+  endOf: ["end of"],
+  in: ["in"],
+  ago: ["ago"],
+  units: {
+    day: ["d", "day", "days"],
+    week: ["w", "wk", "week", "weeks"],
+    month: ["m", "mo", "month", "months"],
+    year: ["y", "yr", "year", "years"],
+  },
+};
+
+function getRelativeDateWordsScope() {
+  return (typeof window !== "undefined" ? window : globalThis) as unknown as {
+    __relativeDateWords__?: Record<string, Partial<RelativeDateWords>>;
+  };
+}
+
+/**
+ * Registers the words of the relative dates of a locale. The words that
+ * are not given are the English ones.
+ *
+ * @param localeName - The name of the locale, as given to registerLocale.
+ * @param words - The words of the locale.
+ */
+export function registerRelativeDateWords(
+  localeName: string,
+  words: Partial<RelativeDateWords>,
+): void {
+  const scope = getRelativeDateWordsScope();
+
+  scope.__relativeDateWords__ = {
+    ...scope.__relativeDateWords__,
+    [localeName]: words,
+  };
+}
+
+function getRelativeDateWords(locale?: Locale): RelativeDateWords {
+  const localeSpec = locale ?? getDefaultLocale();
+  const localeName =
+    typeof localeSpec === "string"
+      ? localeSpec
+      : (localeSpec as Partial<DateFnsLocale> | undefined)?.code;
+  const words =
+    localeName !== undefined
+      ? getRelativeDateWordsScope().__relativeDateWords__?.[localeName]
+      : undefined;
+
+  return { ...DEFAULT_RELATIVE_DATE_WORDS, ...words };
+}
+
+function normalizeRelativeDateText(text: string): string {
+  return text.trim().toLowerCase().replace(/\.$/, "").replace(/\s+/g, " ");
+}
+
+// Returns the rest of the text after one of the words, or null
+function stripLeadingWord(text: string, words: string[]): string | null {
+  for (const word of words.map(normalizeRelativeDateText)) {
+    if (text === word) {
+      return "";
+    }
+    if (text.startsWith(`${word} `)) {
+      return text.slice(word.length + 1);
+    }
+  }
+  return null;
+}
+
+function stripTrailingWord(text: string, words: string[]): string | null {
+  for (const word of words.map(normalizeRelativeDateText)) {
+    if (text.endsWith(` ${word}`)) {
+      return text.slice(0, -word.length - 1);
+    }
+  }
+  return null;
+}
+
+function getRelativeDateUnit(
+  text: string,
+  words: RelativeDateWords,
+): RelativeDateUnit | undefined {
+  return (Object.keys(words.units) as RelativeDateUnit[]).find((unit) =>
+    words.units[unit].map(normalizeRelativeDateText).includes(text),
+  );
+}
+
+// Matches the wide, abbreviated and short names of the weekdays, or the
+// start of the wide name, e.g. "thurs"
+function getRelativeDateWeekday(
+  text: string,
+  locale?: Locale,
+): number | undefined {
+  const sunday = startOfWeek(newDate(), { weekStartsOn: 0 });
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const date = addDays(sunday, weekday);
+    const [wide = "", ...names] = ["EEEE", "EEE", "EEEEEE"].map((token) =>
+      normalizeRelativeDateText(formatDate(date, token, locale)),
+    );
+    if (
+      text === wide ||
+      names.includes(text) ||
+      (text.length >= 3 && wide.startsWith(text))
+    ) {
+      return weekday;
+    }
+  }
+  return undefined;
+}
+
+function addRelativeDateUnits(
+  date: Date,
+  unit: RelativeDateUnit,
+  amount: number,
+): Date {
+  switch (unit) {
+    case "day":
+      return addDays(date, amount);
+    case "week":
+      return addWeeks(date, amount);
+    case "month":
+      return addMonths(date, amount);
+    case "year":
+      return addYears(date, amount);
+  }
+}
+
+/**
+ * Parses a date relative to today, e.g. "today", "tomorrow", "next fri",
+ * "last monday", "+3d", "-2w", "in 3 days", "2 weeks ago", "next month",
+ * "start of week" or "end of next month". The words come from the words
+ * registered for the locale with registerRelativeDateWords.
+ *
+ * @param value - The text to parse.
+ * @param locale - The locale.
+ * @param refDate - Today.
+ * @param calendarStartDay - The day the weeks start on.
+ * @returns - The start of the day of the date, or null.
+ */
+export function parseRelativeDate(
+  value: string,
+  locale?: Locale,
+  refDate: Date = newDate(),
+  calendarStartDay?: Day,
+): Date | null {
+  const words = getRelativeDateWords(locale);
+  const text = normalizeRelativeDateText(value);
+  const today = startOfDay(refDate);
+
+  if (!text) {
+    return null;
+  }
+  if (stripLeadingWord(text, words.today) === "") {
+    return today;
+  }
+  if (stripLeadingWord(text, words.tomorrow) === "") {
+    return addDays(today, 1);
+  }
+  if (stripLeadingWord(text, words.yesterday) === "") {
+    return subDays(today, 1);
+  }
+
+  // "+3d", "-2 weeks"
+  const offset = text.match(/^([+-])\s*(\d+)\s*(.+)$/);
+  if (offset) {
+    const unit = getRelativeDateUnit(offset[3] ?? "", words);
+    return unit
+      ? addRelativeDateUnits(
+          today,
+          unit,
+          Number(offset[2]) * (offset[1] === "-" ? -1 : 1),
+        )
+      : null;
+  }
+
+  // "in 3 days", "3 days ago"
+  const future = stripLeadingWord(text, words.in);
+  const past = stripTrailingWord(text, words.ago);
+  const amount = (future ?? past)?.match(/^(\d+) (.+)$/);
+  if (amount) {
+    const unit = getRelativeDateUnit(amount[2] ?? "", words);
+    return unit
+      ? addRelativeDateUnits(
+          today,
+          unit,
+          Number(amount[1]) * (future !== null ? 1 : -1),
+        )
+      : null;
+  }
+
+  // "start of week", "end of next month"
+  const startOf = stripLeadingWord(text, words.startOf);
+  const endOf = stripLeadingWord(text, words.endOf);
+  const period = startOf ?? endOf;
+
+  // "next fri", "last month", "this week"
+  const next = stripLeadingWord(period ?? text, words.next);
+  const last = stripLeadingWord(period ?? text, words.last);
+  const current = stripLeadingWord(period ?? text, words.current);
+  const name = next ?? last ?? current ?? period ?? text;
+  const direction = next !== null ? 1 : last !== null ? -1 : 0;
+
+  const unit = getRelativeDateUnit(name, words);
+  if (unit) {
+    const date = addRelativeDateUnits(today, unit, direction);
+    const weekOptions = {
+      locale: getLocaleObject(locale) ?? getLocaleObject(getDefaultLocale()),
+      weekStartsOn: calendarStartDay,
+    };
+
+    if (period === null) {
+      return name !== text ? date : null;
+    }
+    switch (unit) {
+      case "day":
+        return date;
+      case "week":
+        return startOf !== null
+          ? startOfWeek(date, weekOptions)
+          : startOfDay(endOfWeek(date, weekOptions));
+      case "month":
+        return startOf !== null
+          ? startOfMonth(date)
+          : startOfDay(endOfMonth(date));
+      case "year":
+        return startOf !== null
+          ? startOfYear(date)
+          : startOfDay(endOfYear(date));
+    }
+  }
+
+  const weekday =
+    period === null ? getRelativeDateWeekday(name, locale) : undefined;
+  if (weekday === undefined) {
+    return null;
+  }
+  // The next weekday from today on, or in the week after or before it
+  const days = (weekday - getDay(today) + 7) % 7;
+  if (direction > 0) {
+    return addDays(today, days || 7);
+  }
+  if (direction < 0) {
+    return subDays(today, 7 - days);
+  }
+  return addDays(today, days);
+}
+
 // ** Date "Reflection" **
 
 export { isDate, set };
@@ -408,38 +800,872 @@ export function safeToDate(date: Date | null | undefined): Date | null {
  * @param date - The date.
  * @param formatStr - The format string.
  * @param locale - The locale.
+ * @param calendarSystem - The calendar system to write the date in.
  * @returns - The formatted date.
  */
 export function formatDate(
   date: Date,
   formatStr: string,
   locale?: Locale,
+  calendarSystem?: CalendarSystemId,
 ): string {
+  if (!isGregorianCalendar(calendarSystem)) {
+    return formatCalendarDate(date, formatStr, locale, calendarSystem);
+  }
   if (locale === "en") {
     return format(date, formatStr, {
       useAdditionalWeekYearTokens: true,
       useAdditionalDayOfYearTokens: true,
     });
   }
-  let localeObj = locale ? getLocaleObject(locale) : undefined;
-  if (locale && !localeObj) {
-    console.warn(
-      `A locale object was not found for the provided string ["${locale}"].`,
-    );
+  let localeObj = locale ? getLocaleObject(locale) : undefined;
+  if (locale && !localeObj) {
+    console.warn(
+      `A locale object was not found for the provided string ["${locale}"].`,
+    );
+  }
+  localeObj = localeObj || getLocaleObject(getDefaultLocale());
+  return format(date, formatStr, {
+    locale: localeObj,
+    useAdditionalWeekYearTokens: true,
+    useAdditionalDayOfYearTokens: true,
+  });
+}
+
+// ** Calendar Systems **
+
+/**
+ * Gets the BCP 47 tag of a locale, for `Intl`.
+ *
+ * @param locale - The locale.
+ * @returns - The locale tag.
+ */
+export function getIntlLocale(locale?: Locale): string {
+  const localeSpec = locale ?? getDefaultLocale();
+  const localeObj = getLocaleObject(localeSpec) as
+    | Partial<DateFnsLocale>
+    | undefined;
+
+  return (
+    localeObj?.code ??
+    (typeof localeSpec === "string" && localeSpec ? localeSpec : "en-US")
+  );
+}
+
+export type TextDirection = "ltr" | "rtl";
+
+// The languages written from right to left
+const RTL_LANGUAGES = [
+  "ar",
+  "arc",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "iw",
+  "ks",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+];
+
+/**
+ * Gets the direction of the text of a locale, e.g. "rtl" for Arabic and
+ * Hebrew.
+ *
+ * @param locale - The locale.
+ * @returns - The direction of the text.
+ */
+export function getLocaleDirection(locale?: Locale): TextDirection {
+  const [language = ""] = getIntlLocale(locale).toLowerCase().split(/[-_]/);
+
+  return RTL_LANGUAGES.includes(language) ? "rtl" : "ltr";
+}
+
+/**
+ * Swaps the left and right arrow keys in right-to-left layouts, where the
+ * earlier dates are on the right.
+ *
+ * @param key - The key that was pressed.
+ * @param dir - The direction of the layout.
+ * @returns - The key in the left-to-right layout.
+ */
+export function getLogicalArrowKey(key: string, dir?: TextDirection): string {
+  if (dir !== "rtl") {
+    return key;
+  }
+  switch (key) {
+    case KeyType.ArrowLeft:
+      return KeyType.ArrowRight;
+    case KeyType.ArrowRight:
+      return KeyType.ArrowLeft;
+    default:
+      return key;
+  }
+}
+
+// The week of Intl.Locale, numbered from 1 (Monday) to 7 (Sunday)
+interface IntlWeekInfo {
+  firstDay: number;
+  weekend: number[];
+}
+
+export interface LocaleWeekInfo {
+  firstDay: Day;
+  weekend: Day[];
+}
+
+const localeWeekInfos: Record<string, LocaleWeekInfo | null> = {};
+
+/**
+ * Gets the first day and the weekend days of the week of a locale from
+ * Intl.Locale, e.g. Friday and Saturday in Israel, or null when the browser
+ * doesn't know the week of the locale. The days are numbered from 0 (Sunday)
+ * to 6 (Saturday), as in date-fns.
+ *
+ * @param locale - The locale.
+ * @returns - The first day and the weekend days of the week, or null.
+ */
+export function getLocaleWeekInfo(locale?: Locale): LocaleWeekInfo | null {
+  const intlLocale = getIntlLocale(locale);
+
+  if (!(intlLocale in localeWeekInfos)) {
+    let weekInfo: IntlWeekInfo | undefined;
+    try {
+      if (Intl.DateTimeFormat.supportedLocalesOf(intlLocale).length > 0) {
+        // A method in the latest browsers and a getter in the older ones
+        const localeObj = new Intl.Locale(intlLocale) as Intl.Locale & {
+          getWeekInfo?: () => IntlWeekInfo;
+          weekInfo?: IntlWeekInfo;
+        };
+        weekInfo = localeObj.getWeekInfo?.() ?? localeObj.weekInfo;
+      }
+    } catch {
+      // Invalid locale tags have no week
+    }
+    localeWeekInfos[intlLocale] = weekInfo
+      ? {
+          firstDay: (weekInfo.firstDay % 7) as Day,
+          weekend: weekInfo.weekend.map((day) => (day % 7) as Day),
+        }
+      : null;
+  }
+  return localeWeekInfos[intlLocale] ?? null;
+}
+
+/**
+ * Gets the day the weeks of the calendar start on: the given day, or the
+ * first day of the week of the locale. Undefined lets date-fns use the
+ * week of the date-fns locale.
+ *
+ * @param locale - The locale.
+ * @param calendarStartDay - The day the weeks start on.
+ * @returns - The day the weeks start on.
+ */
+export function getCalendarStartDay(
+  locale?: Locale,
+  calendarStartDay?: Day,
+): Day | undefined {
+  return calendarStartDay ?? getLocaleWeekInfo(locale)?.firstDay;
+}
+
+/**
+ * Gets the weekend days: the given days, or the weekend of the locale, or
+ * Saturday and Sunday when the browser doesn't know the week of the locale.
+ *
+ * @param locale - The locale.
+ * @param weekendDays - The weekend days, from 0 (Sunday) to 6 (Saturday).
+ * @returns - The weekend days.
+ */
+export function getWeekendDays(locale?: Locale, weekendDays?: Day[]): Day[] {
+  return weekendDays ?? getLocaleWeekInfo(locale)?.weekend ?? [0, 6];
+}
+
+/**
+ * Checks if a date is on the weekend of a locale, e.g. on a Friday in
+ * Israel. Use it in filterDate to disable the weekend days.
+ *
+ * @param date - The date.
+ * @param locale - The locale.
+ * @param weekendDays - The weekend days, from 0 (Sunday) to 6 (Saturday).
+ * @returns - True if the date is on the weekend.
+ */
+export function isWeekend(
+  date: Date,
+  locale?: Locale,
+  weekendDays?: Day[],
+): boolean {
+  return getWeekendDays(locale, weekendDays).includes(getDay(date) as Day);
+}
+
+// ** Business Days **
+
+/**
+ * The working days: the days that are neither on the weekend nor holidays.
+ * The holidays are dates, objects with a date or "yyyy-MM-dd" string, like
+ * the holidays prop, rules of holidays, or a holidays map.
+ */
+export interface BusinessCalendar {
+  locale?: Locale;
+  weekendDays?: Day[];
+  holidays?: HolidaysMap | (Date | { date: Date | string } | HolidayRuleItem)[];
+}
+
+// Reads the holidays once, for the functions going through many days
+function createIsBusinessDay(
+  calendar: BusinessCalendar,
+): (date: Date) => boolean {
+  const { locale, weekendDays, holidays = [] } = calendar;
+  const weekend = getWeekendDays(locale, weekendDays);
+  const holidayKeys = new Set<string>(
+    holidays instanceof Map ? holidays.keys() : [],
+  );
+  const rules: HolidayRuleItem[] = [];
+  // The years whose holidays of the rules are in holidayKeys
+  const ruleYears = new Set<number>();
+
+  if (!(holidays instanceof Map)) {
+    for (const holiday of holidays) {
+      if (!(holiday instanceof Date) && isHolidayRuleItem(holiday)) {
+        rules.push(holiday);
+        continue;
+      }
+      const date =
+        holiday instanceof Date
+          ? holiday
+          : typeof holiday.date === "string"
+            ? parseDate(holiday.date, "yyyy-MM-dd", undefined, false)
+            : holiday.date;
+      if (date) {
+        holidayKeys.add(formatDate(date, "MM.dd.yyyy"));
+      }
+    }
+  }
+
+  return (date) => {
+    const year = getYear(date);
+    if (rules.length > 0 && !ruleYears.has(year)) {
+      ruleYears.add(year);
+      for (const holiday of getHolidayRuleDates(
+        rules,
+        startOfYear(date),
+        endOfYear(date),
+        weekend,
+      )) {
+        holidayKeys.add(formatDate(holiday.date, "MM.dd.yyyy"));
+      }
+    }
+    return (
+      !weekend.includes(getDay(date) as Day) &&
+      !holidayKeys.has(formatDate(date, "MM.dd.yyyy"))
+    );
+  };
+}
+
+// The working days of each calendar, e.g. of the DatePicker for the days of a month
+const businessDayPredicates = new WeakMap<
+  BusinessCalendar,
+  (date: Date) => boolean
+>();
+
+function getIsBusinessDay(
+  calendar: BusinessCalendar = {},
+): (date: Date) => boolean {
+  let isWorkingDay = businessDayPredicates.get(calendar);
+  if (!isWorkingDay) {
+    isWorkingDay = createIsBusinessDay(calendar);
+    businessDayPredicates.set(calendar, isWorkingDay);
+  }
+  return isWorkingDay;
+}
+
+/**
+ * Checks if a date is a working day of a business calendar.
+ *
+ * The holidays are read once for each calendar object, so pass the same
+ * object to check many days.
+ *
+ * @param date - The date.
+ * @param calendar - The weekend days and the holidays.
+ * @returns - True if the date is neither on the weekend nor a holiday.
+ */
+export function isBusinessDay(
+  date: Date,
+  calendar?: BusinessCalendar,
+): boolean {
+  return getIsBusinessDay(calendar)(date);
+}
+
+/**
+ * Adds working days to a date, skipping the weekend days and the holidays.
+ *
+ * @param date - The date.
+ * @param amount - The number of working days, negative to go back.
+ * @param calendar - The weekend days and the holidays.
+ * @returns - The date, or the date itself when the calendar has no working days.
+ */
+export function addBusinessDays(
+  date: Date,
+  amount: number,
+  calendar?: BusinessCalendar,
+): Date {
+  const isWorkingDay = getIsBusinessDay(calendar);
+  const step = amount < 0 ? -1 : 1;
+
+  if (getWeekendDays(calendar?.locale, calendar?.weekendDays).length >= 7) {
+    return date;
+  }
+  let result = date;
+  for (let remaining = Math.abs(amount); remaining > 0; ) {
+    result = addDays(result, step);
+    if (isWorkingDay(result)) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Counts the working days of a range, both ends included.
+ *
+ * @param startDate - The start date of the range.
+ * @param endDate - The end date of the range.
+ * @param calendar - The weekend days and the holidays.
+ * @returns - The number of working days.
+ */
+export function countBusinessDays(
+  startDate: Date,
+  endDate: Date,
+  calendar?: BusinessCalendar,
+): number {
+  const isWorkingDay = getIsBusinessDay(calendar);
+  const [first, last] = isBefore(endDate, startDate)
+    ? [endDate, startDate]
+    : [startDate, endDate];
+  let count = 0;
+
+  for (
+    let day = startOfDay(first);
+    !isAfter(day, last);
+    day = addDays(day, 1)
+  ) {
+    if (isWorkingDay(day)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Gets the numbering system of the digits of a locale, e.g. "arab" for
+ * Arabic or "latn" for English, unless a numbering system is given.
+ *
+ * @param locale - The locale.
+ * @param numberingSystem - The numbering system, e.g. "arab", "arabext" or "deva".
+ * @returns - The numbering system.
+ */
+export function getNumberingSystem(
+  locale?: Locale,
+  numberingSystem?: string,
+): string {
+  return (
+    numberingSystem ??
+    getIntlFormatter(getIntlLocale(locale), {}).resolvedOptions()
+      .numberingSystem
+  );
+}
+
+const numberingSystemDigits: Record<string, string[]> = {};
+
+function getNumberingSystemDigits(numberingSystem: string): string[] {
+  let digits = numberingSystemDigits[numberingSystem];
+  if (!digits) {
+    let numberFormat: Intl.NumberFormat;
+    try {
+      numberFormat = new Intl.NumberFormat(`en-u-nu-${numberingSystem}`);
+    } catch {
+      // Unknown numbering systems keep the Latin digits
+      numberFormat = new Intl.NumberFormat("en");
+    }
+    digits = "0123456789"
+      .split("")
+      .map((digit) => numberFormat.format(Number(digit)));
+    numberingSystemDigits[numberingSystem] = digits;
+  }
+  return digits;
+}
+
+/**
+ * Writes the Latin digits of a text in the digits of a numbering system,
+ * e.g. "14/03/2026" is "١٤/٠٣/٢٠٢٦" in "arab".
+ *
+ * @param text - The text.
+ * @param numberingSystem - The numbering system.
+ * @returns - The text with the digits of the numbering system.
+ */
+export function localizeDigits(text: string, numberingSystem?: string): string {
+  if (!numberingSystem || numberingSystem === "latn") {
+    return text;
+  }
+  const digits = getNumberingSystemDigits(numberingSystem);
+
+  return text.replace(/\d/g, (digit) => digits[Number(digit)] ?? digit);
+}
+
+// The zeros of the decimal digits of Unicode, the other digits follow them
+const DIGIT_ZEROS = [
+  0x0660, 0x06f0, 0x07c0, 0x0966, 0x09e6, 0x0a66, 0x0ae6, 0x0b66, 0x0be6,
+  0x0c66, 0x0ce6, 0x0d66, 0x0de6, 0x0e50, 0x0ed0, 0x0f20, 0x1040, 0x1090,
+  0x17e0, 0x1810, 0x1946, 0x19d0, 0x1a80, 0x1a90, 0x1b50, 0x1bb0, 0x1c40,
+  0x1c50, 0xa620, 0xa8d0, 0xa900, 0xa9d0, 0xa9f0, 0xaa50, 0xabf0, 0xff10,
+];
+
+/**
+ * Writes the digits of any numbering system in Latin digits, e.g.
+ * "١٤/٠٣/٢٠٢٦" is "14/03/2026".
+ *
+ * @param text - The text.
+ * @returns - The text with Latin digits.
+ */
+export function delocalizeDigits(text: string): string {
+  return text.replace(/[\u0660-\uff19]/g, (char) => {
+    const code = char.charCodeAt(0);
+    const zero = DIGIT_ZEROS.find((zero) => code >= zero && code <= zero + 9);
+
+    return zero === undefined ? char : String(code - zero);
+  });
+}
+
+export interface DateFormatToken {
+  value: string;
+  isLiteral: boolean;
+}
+
+// Splits a date-fns format string into runs of the same pattern letter, with
+// an optional ordinal suffix, and literal text
+function tokenizeDateFormat(formatStr: string): DateFormatToken[] {
+  const tokens: DateFormatToken[] = [];
+  const pattern = /''|'(?:''|[^'])*'?|([A-Za-z])\1*o?|[^A-Za-z']+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(formatStr))) {
+    const value = match[0];
+    if (value === "''") {
+      tokens.push({ value: "'", isLiteral: true });
+    } else if (value.startsWith("'")) {
+      tokens.push({
+        value: value.replace(/^'|'$/g, "").replace(/''/g, "'"),
+        isLiteral: true,
+      });
+    } else {
+      tokens.push({ value, isLiteral: !/^[A-Za-z]/.test(value) });
+    }
+  }
+  return tokens;
+}
+
+const LONG_FORMAT_WIDTHS = ["short", "medium", "long", "full"] as const;
+
+type LongFormatWidth = (typeof LONG_FORMAT_WIDTHS)[number];
+
+// The long formats of date-fns' default en-US locale
+const DEFAULT_LONG_FORMATS: Record<
+  "date" | "time" | "dateTime",
+  Record<LongFormatWidth, string>
+> = {
+  date: {
+    short: "MM/dd/yyyy",
+    medium: "MMM d, y",
+    long: "MMMM do, y",
+    full: "EEEE, MMMM do, y",
+  },
+  time: {
+    short: "h:mm a",
+    medium: "h:mm:ss a",
+    long: "h:mm:ss a z",
+    full: "h:mm:ss a zzzz",
+  },
+  dateTime: {
+    short: "{{date}}, {{time}}",
+    medium: "{{date}}, {{time}}",
+    long: "{{date}} 'at' {{time}}",
+    full: "{{date}} 'at' {{time}}",
+  },
+};
+
+// Expands the localized long formats (P, PP, Pp...) into the patterns of the locale
+function expandLongDateFormats(
+  tokens: DateFormatToken[],
+  locale?: Locale,
+): DateFormatToken[] {
+  const formatLong = (
+    getLocaleObject(locale) || getLocaleObject(getDefaultLocale())
+  )?.formatLong ?? {
+    date: ({ width }: { width: LongFormatWidth }) =>
+      DEFAULT_LONG_FORMATS.date[width],
+    time: ({ width }: { width: LongFormatWidth }) =>
+      DEFAULT_LONG_FORMATS.time[width],
+    dateTime: ({ width }: { width: LongFormatWidth }) =>
+      DEFAULT_LONG_FORMATS.dateTime[width],
+  };
+
+  return tokens.flatMap((token, i) => {
+    if (token.isLiteral || token.value[0] !== "P") {
+      return token.value[0] === "p" && tokens[i - 1]?.value[0] === "P"
+        ? []
+        : [token];
+    }
+    const width = LONG_FORMAT_WIDTHS[Math.min(token.value.length, 4) - 1]!;
+    const timeToken = tokens[i + 1];
+    const datePattern = formatLong.date({ width });
+    const pattern =
+      timeToken && timeToken.value[0] === "p"
+        ? formatLong
+            .dateTime({ width })
+            .replace("{{date}}", datePattern)
+            .replace("{{time}}", timeToken.value)
+        : datePattern;
+
+    return tokenizeDateFormat(pattern);
+  });
+}
+
+/**
+ * Splits a date format into its tokens and literal text, with the localized
+ * long formats (P, PP, Pp...) expanded into the patterns of the locale.
+ *
+ * @param formatStr - The date format.
+ * @param locale - The locale.
+ * @returns - The tokens, e.g. "MM", "/", "dd", "/" and "yyyy" for "P" in en-US.
+ */
+export function getDateFormatTokens(
+  formatStr: string,
+  locale?: Locale,
+): DateFormatToken[] {
+  return expandLongDateFormats(tokenizeDateFormat(formatStr), locale);
+}
+
+// The year of the current Japanese era, which restarts the year count
+function getJapaneseEraYear(date: Date): number {
+  return Number(
+    getIntlFormatter("en-US-u-nu-latn", {
+      calendar: "japanese",
+      era: "short",
+      year: "numeric",
+    })
+      .formatToParts(date)
+      .find((part) => part.type === "year")?.value,
+  );
+}
+
+function formatCalendarYear(
+  date: Date,
+  token: string,
+  intlLocale: string,
+  calendarSystem: CalendarSystemId,
+  hasEra: boolean,
+): string {
+  if (calendarSystem === "japanese") {
+    const eraYear = getJapaneseEraYear(date);
+    const year = token === "yy" ? addZero(eraYear % 100) : String(eraYear);
+    if (hasEra) {
+      return year;
+    }
+    // Era years alone are ambiguous, so the era is written along with them
+    return getIntlFormatter(intlLocale, {
+      calendar: calendarSystem,
+      era: "short",
+      year: "numeric",
+      numberingSystem: "latn",
+    })
+      .formatToParts(date)
+      .map((part) => (part.type === "year" ? year : part.value))
+      .join("");
+  }
+
+  const year = getCalendarSystem(calendarSystem).getYear(date);
+  return token === "yy"
+    ? addZero(year % 100)
+    : String(year).padStart(token.length, "0");
+}
+
+function formatCalendarMonthName(
+  date: Date,
+  width: "short" | "long" | "narrow",
+  intlLocale: string,
+  calendarSystem: CalendarSystemId,
+): string {
+  return getIntlFormatter(intlLocale, {
+    calendar: calendarSystem,
+    month: width,
+  }).format(date);
+}
+
+function formatCalendarDate(
+  date: Date,
+  formatStr: string,
+  locale: Locale | undefined,
+  calendarSystem: CalendarSystemId = "gregory",
+): string {
+  const system = getCalendarSystem(calendarSystem);
+  const intlLocale = getIntlLocale(locale);
+  const tokens = expandLongDateFormats(tokenizeDateFormat(formatStr), locale);
+  const hasEra = tokens.some(
+    ({ value, isLiteral }) => !isLiteral && value[0] === "G",
+  );
+
+  return tokens
+    .map(({ value, isLiteral }) => {
+      if (isLiteral) {
+        return value;
+      }
+      if (/^[yMLd]+o$/.test(value)) {
+        const number =
+          value[0] === "d"
+            ? system.getDate(date)
+            : value[0] === "y"
+              ? system.getYear(date)
+              : system.getMonth(date) + 1;
+        const ordinalNumber = (
+          getLocaleObject(locale) || getLocaleObject(getDefaultLocale())
+        )?.localize?.ordinalNumber;
+        return ordinalNumber ? ordinalNumber(number) : String(number);
+      }
+      switch (value[0]) {
+        case "y":
+          return formatCalendarYear(
+            date,
+            value,
+            intlLocale,
+            calendarSystem,
+            hasEra,
+          );
+        case "G":
+          return (
+            getIntlFormatter(intlLocale, {
+              calendar: calendarSystem,
+              era:
+                value.length === 4
+                  ? "long"
+                  : value.length === 5
+                    ? "narrow"
+                    : "short",
+              year: "numeric",
+            })
+              .formatToParts(date)
+              .find((part) => part.type === "era")?.value ?? ""
+          );
+        case "M":
+        case "L":
+          if (value.length <= 2) {
+            return String(system.getMonth(date) + 1).padStart(
+              value.length,
+              "0",
+            );
+          }
+          return formatCalendarMonthName(
+            date,
+            value.length === 3
+              ? "short"
+              : value.length === 4
+                ? "long"
+                : "narrow",
+            intlLocale,
+            calendarSystem,
+          );
+        case "d":
+          return String(system.getDate(date)).padStart(value.length, "0");
+        case "P":
+          // Without the patterns of a registered locale, Intl writes the long format
+          return getIntlFormatter(intlLocale, {
+            calendar: calendarSystem,
+            dateStyle: LONG_FORMAT_WIDTHS[Math.min(value.length, 4) - 1],
+            numberingSystem: "latn",
+          }).format(date);
+        default:
+          // The time and the weekday do not depend on the calendar system
+          return formatDate(date, value, locale);
+      }
+    })
+    .join("");
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function parseCalendarDate(
+  value: string,
+  formatStr: string,
+  locale: Locale | undefined,
+  calendarSystem: CalendarSystemId = "gregory",
+  refDate: Date = newDate(),
+): Date | null {
+  const system = getCalendarSystem(calendarSystem);
+  const intlLocale = getIntlLocale(locale);
+  const tokens = expandLongDateFormats(tokenizeDateFormat(formatStr), locale);
+  const hasEra = tokens.some(
+    ({ value, isLiteral }) => !isLiteral && value[0] === "G",
+  );
+  const isJapanese = calendarSystem === "japanese";
+  const refYear = isJapanese
+    ? getJapaneseEraYear(refDate)
+    : system.getYear(refDate);
+  const hasToken = (letters: string) =>
+    tokens.some(
+      ({ value, isLiteral }) => !isLiteral && letters.includes(value[0]!),
+    );
+  // Like date-fns, the units below the smallest one in the format start over
+  const parts = {
+    year: refYear,
+    month: hasToken("y") ? 0 : system.getMonth(refDate),
+    day: hasToken("yML") ? 1 : system.getDate(refDate),
+    hours: 0,
+    minutes: 0,
+    seconds: 0,
+    isPm: undefined as boolean | undefined,
+  };
+  const setters: ((match: string) => boolean)[] = [];
+  let source = "";
+
+  for (const { value: token, isLiteral } of tokens) {
+    if (isLiteral) {
+      source += escapeRegExp(token);
+      continue;
+    }
+    switch (token[0]) {
+      case "y": {
+        const setYearPart = (match: string) => {
+          const year = Number(match);
+          parts.year =
+            token === "yy" ? Math.floor(refYear / 100) * 100 + year : year;
+          return true;
+        };
+        if (isJapanese && !hasEra) {
+          // The era is written along with the year, and read from the reference date
+          const [before = "", after = ""] = formatCalendarYear(
+            refDate,
+            "y",
+            intlLocale,
+            calendarSystem,
+            false,
+          ).split(String(refYear));
+          source += `${escapeRegExp(before)}(\\d{1,4})${escapeRegExp(after)}`;
+        } else {
+          source += "(\\d{1,4})";
+        }
+        setters.push(setYearPart);
+        break;
+      }
+      case "M":
+      case "L":
+        if (token.length <= 2) {
+          source += "(\\d{1,2})";
+          setters.push((match) => {
+            parts.month = Number(match) - 1;
+            return true;
+          });
+        } else {
+          const monthNames = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(
+            (month) => {
+              const date = system.setMonth(refDate, month);
+              return (["long", "short"] as const).map((width) =>
+                formatCalendarMonthName(
+                  date,
+                  width,
+                  intlLocale,
+                  calendarSystem,
+                ).toLowerCase(),
+              );
+            },
+          );
+          const names = monthNames
+            .reduce<string[]>((acc, names) => acc.concat(names), [])
+            .sort((a, b) => b.length - a.length);
+          source += `(${names.map(escapeRegExp).join("|")})`;
+          setters.push((match) => {
+            parts.month = monthNames.findIndex((names) =>
+              names.includes(match.toLowerCase()),
+            );
+            return parts.month >= 0;
+          });
+        }
+        break;
+      case "d":
+        // Ordinal suffixes are skipped
+        source += token.endsWith("o") ? "(\\d{1,2})[^\\s\\d]*" : "(\\d{1,2})";
+        setters.push((match) => {
+          parts.day = Number(match);
+          return true;
+        });
+        break;
+      case "H":
+      case "h":
+        source += "(\\d{1,2})";
+        setters.push((match) => {
+          parts.hours = Number(match);
+          return true;
+        });
+        break;
+      case "m":
+        source += "(\\d{1,2})";
+        setters.push((match) => {
+          parts.minutes = Number(match);
+          return true;
+        });
+        break;
+      case "s":
+        source += "(\\d{1,2})";
+        setters.push((match) => {
+          parts.seconds = Number(match);
+          return true;
+        });
+        break;
+      case "a":
+        source += "([ap]\\.?m\\.?)";
+        setters.push((match) => {
+          parts.isPm = match[0]?.toLowerCase() === "p";
+          return true;
+        });
+        break;
+      case "E":
+      case "G":
+        // Weekdays are implied by the date, and eras are read from the reference date
+        source += "(\\S+?)";
+        setters.push(() => true);
+        break;
+      default:
+        return null;
+    }
+  }
+
+  const match = new RegExp(`^${source}$`, "i").exec(value.trim());
+  if (!match || !setters.every((setter, i) => setter(match[i + 1] ?? ""))) {
+    return null;
+  }
+
+  const year = isJapanese
+    ? parts.year - refYear + system.getYear(refDate)
+    : parts.year;
+  const date = system.toDate(year, parts.month, parts.day);
+  if (!date) {
+    return null;
+  }
+
+  let { hours } = parts;
+  if (parts.isPm !== undefined) {
+    hours = (hours % 12) + (parts.isPm ? 12 : 0);
   }
-  localeObj = localeObj || getLocaleObject(getDefaultLocale());
-  return format(date, formatStr, {
-    locale: localeObj,
-    useAdditionalWeekYearTokens: true,
-    useAdditionalDayOfYearTokens: true,
-  });
+  date.setHours(hours, parts.minutes, parts.seconds);
+  return date;
 }
 
 /**
  * Safely formats a date.
  *
  * @param date - The date.
- * @param options - An object containing the dateFormat, locale, and optional timeZone.
+ * @param options - An object containing the dateFormat, locale, and optional timeZone, calendarSystem and dateAdapter.
  * @returns - The formatted date or an empty string.
  */
 export function safeDateFormat(
@@ -448,7 +1674,15 @@ export function safeDateFormat(
     dateFormat,
     locale,
     timeZone,
-  }: { dateFormat: string | string[]; locale?: Locale; timeZone?: TimeZone },
+    calendarSystem,
+    dateAdapter,
+  }: {
+    dateFormat: string | string[];
+    locale?: Locale;
+    timeZone?: TimeZone;
+    calendarSystem?: CalendarSystemId;
+    dateAdapter?: DateAdapter<unknown>;
+  },
 ): string {
   const formatStr = (
     Array.isArray(dateFormat) && dateFormat.length > 0
@@ -460,8 +1694,28 @@ export function safeDateFormat(
     return "";
   }
 
+  // The adapter formats the wall time of the zone
+  if (dateAdapter) {
+    return dateAdapter.format(
+      timeZone ? toZonedTime(date, timeZone) : date,
+      formatStr,
+      locale,
+    );
+  }
+
   // Use timezone-aware formatting if timeZone is specified
   if (timeZone) {
+    // The other calendar systems format the wall time of the zone
+    if (!isGregorianCalendar(calendarSystem)) {
+      return (
+        formatDate(
+          toZonedTime(date, timeZone),
+          formatStr,
+          locale,
+          calendarSystem,
+        ) || ""
+      );
+    }
     // Resolve locale string to locale object for formatInTimeZone
     // Cast to DateFnsLocale since LocaleObj is a compatible subset
     const localeObj = (
@@ -470,7 +1724,7 @@ export function safeDateFormat(
     return formatInTimeZone(date, formatStr, timeZone, localeObj);
   }
 
-  return formatDate(date, formatStr, locale) || "";
+  return formatDate(date, formatStr, locale, calendarSystem) || "";
 }
 
 /**
@@ -484,6 +1738,7 @@ export const DATE_RANGE_SEPARATOR = " - ";
  * @param startDate - The start date.
  * @param endDate - The end date.
  * @param props - The props.
+ * @param formatDate - Formats each date of the range, with `safeDateFormat` by default.
  * @returns - The formatted date range or an empty string.
  */
 export function safeDateRangeFormat(
@@ -494,14 +1749,17 @@ export function safeDateRangeFormat(
     locale?: Locale;
     rangeSeparator?: string;
     timeZone?: TimeZone;
+    calendarSystem?: CalendarSystemId;
+    dateAdapter?: DateAdapter<unknown>;
   },
+  formatDate: (date: Date) => string = (date) => safeDateFormat(date, props),
 ): string {
   if (!startDate && !endDate) {
     return "";
   }
 
-  const formattedStartDate = startDate ? safeDateFormat(startDate, props) : "";
-  const formattedEndDate = endDate ? safeDateFormat(endDate, props) : "";
+  const formattedStartDate = startDate ? formatDate(startDate) : "";
+  const formattedEndDate = endDate ? formatDate(endDate) : "";
   const dateRangeSeparator = props.rangeSeparator || DATE_RANGE_SEPARATOR;
 
   return `${formattedStartDate}${dateRangeSeparator}${formattedEndDate}`;
@@ -520,6 +1778,8 @@ export function safeMultipleDatesFormat(
     dateFormat: string | string[];
     locale?: Locale;
     timeZone?: TimeZone;
+    calendarSystem?: CalendarSystemId;
+    dateAdapter?: DateAdapter<unknown>;
   },
 ): string {
   if (!dates?.length) {
@@ -539,20 +1799,125 @@ export function safeMultipleDatesFormat(
   const extraDatesCount = dates.length - 1;
   return `${formattedFirstDate} (+${extraDatesCount})`;
 }
+
+/**
+ * Safely formats multiple date ranges.
+ *
+ * @param ranges - The ranges.
+ * @param props - The props.
+ * @returns - The formatted ranges separated by commas or an empty string.
+ */
+export function safeMultipleRangesFormat(
+  ranges: SelectedRange[],
+  props: {
+    dateFormat: string | string[];
+    locale?: Locale;
+    rangeSeparator?: string;
+    timeZone?: TimeZone;
+    calendarSystem?: CalendarSystemId;
+    dateAdapter?: DateAdapter<unknown>;
+  },
+): string {
+  return ranges
+    .map(({ start, end }) => safeDateRangeFormat(start, end, props))
+    .join(", ");
+}
 // ** Date Setters **
 
 /**
  * Sets the time for a given date.
  *
  * @param date - The date.
- * @param time - An object containing the hour, minute, and second.
+ * @param time - An object containing the hour, minute, second and optionally the millisecond.
  * @returns - The date with the time set.
  */
 export function setTime(
   date: Date,
-  { hour = 0, minute = 0, second = 0 },
+  {
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond,
+  }: { hour?: number; minute?: number; second?: number; millisecond?: number },
 ): Date {
-  return setHours(setMinutes(setSeconds(date, second), minute), hour);
+  const dateWithTime = setHours(
+    setMinutes(setSeconds(date, second), minute),
+    hour,
+  );
+  return millisecond === undefined
+    ? dateWithTime
+    : setMilliseconds(dateWithTime, millisecond);
+}
+
+/**
+ * Gets the time of a date, to set it on another date with `setTime`.
+ *
+ * @param date - The date.
+ * @returns - An object containing the hour, minute, second and millisecond.
+ */
+export function getTimeOfDay(date: Date): {
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+} {
+  return {
+    hour: getHours(date),
+    minute: getMinutes(date),
+    second: getSeconds(date),
+    millisecond: getMilliseconds(date),
+  };
+}
+
+/**
+ * The hour cycle of a clock: 0-11 or 1-12 with AM/PM, or 0-23 or 1-24.
+ */
+export type HourCycle = "h11" | "h12" | "h23" | "h24";
+
+/**
+ * Gets the hour cycle of a locale, e.g. "h12" for en-US and "h23" for de.
+ *
+ * @param locale - The locale.
+ * @returns - The hour cycle.
+ */
+export function getLocaleHourCycle(locale?: Locale): HourCycle {
+  const { hourCycle, hour12 } = getIntlFormatter(getIntlLocale(locale), {
+    hour: "numeric",
+  }).resolvedOptions();
+
+  return hourCycle ?? (hour12 ? "h12" : "h23");
+}
+
+/**
+ * Checks if a date format has a time, e.g. "yyyy-MM-dd HH:mm:ss.SSS" or "Pp".
+ *
+ * @param dateFormat - The date format, or the date formats.
+ * @returns - True if the format has hours, minutes, seconds or milliseconds.
+ */
+export function hasTimeFormat(dateFormat: string | string[]): boolean {
+  return (Array.isArray(dateFormat) ? dateFormat : [dateFormat]).some(
+    // Quoted text is not formatted
+    (formatStr) => /[hHkKmsSp]/.test(formatStr.replace(/'[^']*'/g, "")),
+  );
+}
+
+/**
+ * The unit of `timeIntervals`.
+ */
+export type TimeIntervalUnit = "minutes" | "seconds";
+
+/**
+ * Gets the length of a time interval in seconds.
+ *
+ * @param intervals - The length of the interval.
+ * @param unit - The unit of the interval, minutes by default.
+ * @returns - The length of the interval in seconds.
+ */
+export function getTimeIntervalSeconds(
+  intervals: number,
+  unit: TimeIntervalUnit = "minutes",
+): number {
+  return unit === "seconds" ? intervals : intervals * 60;
 }
 
 export { setHours, setMinutes, setMonth, setQuarter, setYear };
@@ -563,6 +1928,7 @@ export { setHours, setMinutes, setMonth, setQuarter, setYear };
 export {
   getDate,
   getDay,
+  getDaysInMonth,
   getHours,
   getMinutes,
   getMonth,
@@ -651,10 +2017,145 @@ export function getStartOfYear(date: Date): Date {
  * Gets the start of the quarter for a given date.
  *
  * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
  * @returns - The start of the quarter.
  */
-export function getStartOfQuarter(date: Date): Date {
-  return startOfQuarter(date);
+export function getStartOfQuarter(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): Date {
+  if (!fiscalYearStartMonth) {
+    return startOfQuarter(date);
+  }
+  return setFiscalQuarter(
+    date,
+    getFiscalQuarter(date, fiscalYearStartMonth),
+    fiscalYearStartMonth,
+  );
+}
+
+/**
+ * Gets the start of the fiscal year for a given date.
+ *
+ * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The start of the fiscal year.
+ */
+export function getStartOfFiscalYear(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): Date {
+  const year = getYear(date) - (getMonth(date) < fiscalYearStartMonth ? 1 : 0);
+
+  return new Date(year, fiscalYearStartMonth, 1);
+}
+
+/**
+ * Gets the fiscal year of a given date, named after the calendar year it ends in.
+ *
+ * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The fiscal year.
+ */
+export function getFiscalYear(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): number {
+  return getYear(
+    addMonths(getStartOfFiscalYear(date, fiscalYearStartMonth), 11),
+  );
+}
+
+/**
+ * Gets the quarter of the fiscal year for a given date.
+ *
+ * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The quarter, from 1 to 4.
+ */
+export function getFiscalQuarter(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): number {
+  return (
+    Math.floor(((getMonth(date) - fiscalYearStartMonth + 12) % 12) / 3) + 1
+  );
+}
+
+/**
+ * Gets the half of the fiscal year for a given date.
+ *
+ * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The half-year, 1 or 2.
+ */
+export function getFiscalHalfYear(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): number {
+  return (
+    Math.floor(((getMonth(date) - fiscalYearStartMonth + 12) % 12) / 6) + 1
+  );
+}
+
+/**
+ * Sets the quarter of the fiscal year of a given date. Without a fiscal year,
+ * this is `setQuarter`; with one, the start of the quarter is returned.
+ *
+ * @param date - The date.
+ * @param quarter - The quarter, from 1 to 4.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The date in the quarter.
+ */
+export function setFiscalQuarter(
+  date: Date,
+  quarter: number,
+  fiscalYearStartMonth: number = 0,
+): Date {
+  if (!fiscalYearStartMonth) {
+    return setQuarter(date, quarter);
+  }
+  return addMonths(
+    getStartOfFiscalYear(date, fiscalYearStartMonth),
+    (quarter - 1) * 3,
+  );
+}
+
+/**
+ * Gets the start of the half of the fiscal year a given date falls in.
+ *
+ * @param date - The date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The start of the half-year.
+ */
+export function getStartOfHalfYear(
+  date: Date,
+  fiscalYearStartMonth: number = 0,
+): Date {
+  return setFiscalHalfYear(
+    date,
+    getFiscalHalfYear(date, fiscalYearStartMonth),
+    fiscalYearStartMonth,
+  );
+}
+
+/**
+ * Gets the start of a half of the fiscal year of a given date.
+ *
+ * @param date - The date.
+ * @param halfYear - The half-year, 1 or 2.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - The start of the half-year.
+ */
+export function setFiscalHalfYear(
+  date: Date,
+  halfYear: number,
+  fiscalYearStartMonth: number = 0,
+): Date {
+  return addMonths(
+    getStartOfFiscalYear(date, fiscalYearStartMonth),
+    (halfYear - 1) * 6,
+  );
 }
 
 /**
@@ -681,10 +2182,22 @@ export function getEndOfDay(date: Date): Date {
  * Gets the end of the week for a given date.
  *
  * @param date - The date.
+ * @param locale - The locale.
+ * @param calendarStartDay - The day the calendar starts on.
  * @returns - The end of the week.
  */
-export function getEndOfWeek(date: Date): Date {
-  return endOfWeek(date);
+export function getEndOfWeek(
+  date: Date,
+  locale?: Locale,
+  calendarStartDay?: Day,
+): Date {
+  const localeObj = locale
+    ? getLocaleObject(locale)
+    : getLocaleObject(getDefaultLocale());
+  return endOfWeek(date, {
+    locale: localeObj,
+    weekStartsOn: calendarStartDay,
+  });
 }
 
 /**
@@ -739,10 +2252,22 @@ export function isSameYear(date1: Date | null, date2: Date | null): boolean {
  *
  * @param date1 - The first date.
  * @param date2 - The second date.
+ * @param calendarSystem - The calendar system the months are in.
  * @returns - True if the dates are in the same month, false otherwise.
  */
-export function isSameMonth(date1: Date | null, date2?: Date | null): boolean {
+export function isSameMonth(
+  date1: Date | null,
+  date2?: Date | null,
+  calendarSystem?: CalendarSystemId,
+): boolean {
   if (date1 && date2) {
+    if (!isGregorianCalendar(calendarSystem)) {
+      const system = getCalendarSystem(calendarSystem);
+      return (
+        system.getMonth(date1) === system.getMonth(date2) &&
+        system.getYear(date1) === system.getYear(date2)
+      );
+    }
     return dfIsSameMonth(date1, date2);
   } else {
     return !date1 && !date2;
@@ -754,11 +2279,44 @@ export function isSameMonth(date1: Date | null, date2?: Date | null): boolean {
  *
  * @param date1 - The first date.
  * @param date2 - The second date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
  * @returns - True if the dates are in the same quarter, false otherwise.
  */
-export function isSameQuarter(date1: Date | null, date2: Date | null): boolean {
+export function isSameQuarter(
+  date1: Date | null,
+  date2: Date | null,
+  fiscalYearStartMonth: number = 0,
+): boolean {
+  if (date1 && date2) {
+    return fiscalYearStartMonth
+      ? isEqual(
+          getStartOfQuarter(date1, fiscalYearStartMonth),
+          getStartOfQuarter(date2, fiscalYearStartMonth),
+        )
+      : dfIsSameQuarter(date1, date2);
+  } else {
+    return !date1 && !date2;
+  }
+}
+
+/**
+ * Checks if two dates are in the same half of the fiscal year.
+ *
+ * @param date1 - The first date.
+ * @param date2 - The second date.
+ * @param fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
+ * @returns - True if the dates are in the same half-year, false otherwise.
+ */
+export function isSameHalfYear(
+  date1: Date | null,
+  date2: Date | null,
+  fiscalYearStartMonth: number = 0,
+): boolean {
   if (date1 && date2) {
-    return dfIsSameQuarter(date1, date2);
+    return isEqual(
+      getStartOfHalfYear(date1, fiscalYearStartMonth),
+      getStartOfHalfYear(date2, fiscalYearStartMonth),
+    );
   } else {
     return !date1 && !date2;
   }
@@ -939,10 +2497,20 @@ export function getWeekdayShortInLocale(date: Date, locale?: Locale): string {
  *
  * @param month - The month to format.
  * @param locale - The locale to use for formatting.
+ * @param calendarSystem - The calendar system the month is in.
  * @returns - The month.
  */
-export function getMonthInLocale(month: number, locale?: Locale): string {
-  return formatDate(setMonth(newDate(), month), "LLLL", locale);
+export function getMonthInLocale(
+  month: number,
+  locale?: Locale,
+  calendarSystem?: CalendarSystemId,
+): string {
+  return formatDate(
+    getCalendarSystem(calendarSystem).setMonth(newDate(), month),
+    "LLLL",
+    locale,
+    calendarSystem,
+  );
 }
 
 /**
@@ -950,10 +2518,20 @@ export function getMonthInLocale(month: number, locale?: Locale): string {
  *
  * @param month - The month to format.
  * @param locale - The locale to use for formatting.
+ * @param calendarSystem - The calendar system the month is in.
  * @returns - The short month.
  */
-export function getMonthShortInLocale(month: number, locale?: Locale): string {
-  return formatDate(setMonth(newDate(), month), "LLL", locale);
+export function getMonthShortInLocale(
+  month: number,
+  locale?: Locale,
+  calendarSystem?: CalendarSystemId,
+): string {
+  return formatDate(
+    getCalendarSystem(calendarSystem).setMonth(newDate(), month),
+    "LLL",
+    locale,
+    calendarSystem,
+  );
 }
 
 /**
@@ -980,6 +2558,8 @@ export interface DateFilterOptions {
   includeDates?: Date[];
   includeDateIntervals?: { start: Date; end: Date }[];
   filterDate?: (date: Date) => boolean;
+  // Only the working days are enabled
+  businessCalendar?: BusinessCalendar;
   yearItemNumber?: number;
 }
 
@@ -1004,6 +2584,7 @@ export function isDayDisabled(
     includeDates,
     includeDateIntervals,
     filterDate,
+    businessCalendar,
     disabled,
   }: DateFilterOptionsWithDisabled = {},
 ): boolean {
@@ -1032,40 +2613,248 @@ export function isDayDisabled(
         isWithinInterval(day, { start, end }),
       )) ||
     (filterDate && !filterDate(newDate(day))) ||
+    (businessCalendar && !isBusinessDay(day, businessCalendar)) ||
+    false
+  );
+}
+
+/**
+ * Checks if a day is excluded.
+ *
+ * @param day - The day to check.
+ * @param options - The options to consider when checking.
+ * @returns - Returns true if the day is excluded, false otherwise.
+ */
+export function isDayExcluded(
+  day: Date,
+  {
+    excludeDates,
+    excludeDateIntervals,
+  }: Pick<DateFilterOptions, "excludeDates" | "excludeDateIntervals"> = {},
+): boolean {
+  if (excludeDateIntervals && excludeDateIntervals.length > 0) {
+    return excludeDateIntervals.some(({ start, end }) =>
+      isWithinInterval(day, { start, end }),
+    );
+  }
+  return (
+    (excludeDates &&
+      excludeDates.some((excludeDate) => {
+        if (excludeDate instanceof Date) {
+          return isSameDay(day, excludeDate);
+        } else {
+          return isSameDay(day, excludeDate.date ?? new Date());
+        }
+      })) ||
     false
   );
 }
 
 /**
- * Checks if a day is excluded.
+ * A range length limit in days, either fixed or computed from the start date
+ * of the range.
+ */
+export type RangeLengthLimit =
+  | number
+  | ((startDate: Date) => number | undefined);
+
+export interface RangeLengthOptions {
+  minRangeLength?: RangeLengthLimit;
+  maxRangeLength?: RangeLengthLimit;
+}
+
+/**
+ * Resolves a range length limit for a given start date.
+ *
+ * @param limit - The fixed limit or the function computing it.
+ * @param startDate - The start date of the range.
+ * @returns - The limit in days, or undefined if there is none.
+ */
+export function getRangeLengthLimit(
+  limit: RangeLengthLimit | undefined,
+  startDate: Date,
+): number | undefined {
+  return typeof limit === "function" ? limit(startDate) : limit;
+}
+
+/**
+ * Checks if a range is shorter than `minRangeLength` or longer than `maxRangeLength`.
+ * The length of a range is the number of calendar days between its start and end,
+ * so a range from Monday to Thursday is 3 days long.
+ *
+ * @param startDate - The start date of the range.
+ * @param endDate - The end date of the range.
+ * @param options - The range length limits.
+ * @returns - Returns true if the range length is not allowed, false otherwise.
+ */
+export function isRangeLengthInvalid(
+  startDate: Date,
+  endDate: Date,
+  { minRangeLength, maxRangeLength }: RangeLengthOptions = {},
+): boolean {
+  const length = Math.abs(differenceInCalendarDays(endDate, startDate));
+  const min = getRangeLengthLimit(minRangeLength, startDate);
+  const max = getRangeLengthLimit(maxRangeLength, startDate);
+
+  return (
+    (min !== undefined && length < min) || (max !== undefined && length > max)
+  );
+}
+
+export interface RangeLengthSelection extends RangeLengthOptions {
+  startDate?: Date | null;
+  endDate?: Date | null;
+  swapRange?: boolean;
+}
+
+/**
+ * Checks if picking a date would complete a range shorter than
+ * `minRangeLength` or longer than `maxRangeLength`. The date ends the range
+ * after the start date, or starts it before the end date, and with
+ * `swapRange` a date before the start date becomes the start.
+ *
+ * @param date - The date to pick.
+ * @param selection - The range picked so far, swapRange and the range length limits.
+ * @returns - Returns true if the date can't complete the range, false otherwise.
+ */
+export function isOutsideRangeLength(
+  date: Date,
+  { startDate, endDate, swapRange, ...options }: RangeLengthSelection,
+): boolean {
+  if (startDate && !endDate) {
+    if (!isDateBefore(date, startDate)) {
+      return isRangeLengthInvalid(startDate, date, options);
+    }
+    return !!swapRange && isRangeLengthInvalid(date, startDate, options);
+  }
+  if (!startDate && endDate && isDateBefore(date, endDate)) {
+    return isRangeLengthInvalid(date, endDate, options);
+  }
+
+  return false;
+}
+
+/**
+ * How the comparison range is obtained: picked by the user, or derived from
+ * the primary range as the period right before it or the same period a year earlier.
+ */
+export type CompareRangeMode = "custom" | "previousPeriod" | "previousYear";
+
+/**
+ * Derives the comparison range from the primary range.
+ *
+ * @param startDate - The start date of the primary range.
+ * @param endDate - The end date of the primary range.
+ * @param mode - The derived comparison mode.
+ * @returns - The comparison range, or nulls while the primary range is not complete.
+ */
+export function getDerivedCompareRange(
+  startDate: Date | null | undefined,
+  endDate: Date | null | undefined,
+  mode: Exclude<CompareRangeMode, "custom">,
+): [Date | null, Date | null] {
+  if (!startDate || !endDate) {
+    return [null, null];
+  }
+
+  if (mode === "previousYear") {
+    return [subYears(startDate, 1), subYears(endDate, 1)];
+  }
+
+  const length = differenceInCalendarDays(endDate, startDate) + 1;
+  return [subDays(startDate, length), subDays(endDate, length)];
+}
+
+/**
+ * A range picked in selectsMultipleRanges mode. The end is null while only
+ * the start of the range has been picked.
+ */
+export interface SelectedRange<TDate = Date> {
+  start: TDate;
+  end: TDate | null;
+}
+
+/**
+ * Gets the range whose end has not been picked yet.
  *
- * @param day - The day to check.
- * @param options - The options to consider when checking.
- * @returns - Returns true if the day is excluded, false otherwise.
+ * @param ranges - The selected ranges.
+ * @returns - The pending range, or undefined if every range is complete.
  */
-export function isDayExcluded(
-  day: Date,
-  {
-    excludeDates,
-    excludeDateIntervals,
-  }: Pick<DateFilterOptions, "excludeDates" | "excludeDateIntervals"> = {},
-): boolean {
-  if (excludeDateIntervals && excludeDateIntervals.length > 0) {
-    return excludeDateIntervals.some(({ start, end }) =>
-      isWithinInterval(day, { start, end }),
-    );
+export function getPendingRange(
+  ranges: SelectedRange[] = [],
+): SelectedRange | undefined {
+  return ranges.find((range) => !range.end);
+}
+
+/**
+ * Sorts the complete ranges by their start and merges the ones that overlap.
+ * A pending range is kept as is at the end of the list.
+ *
+ * @param ranges - The selected ranges.
+ * @returns - The merged ranges.
+ */
+export function mergeSelectedRanges(ranges: SelectedRange[]): SelectedRange[] {
+  const pendingRanges = ranges.filter((range) => !range.end);
+  const completeRanges = ranges
+    .filter((range) => range.end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: SelectedRange[] = [];
+  completeRanges.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last?.end && !isDateBefore(last.end, range.start)) {
+      if (range.end && isDateBefore(last.end, range.end)) {
+        last.end = range.end;
+      }
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return [...merged, ...pendingRanges];
+}
+
+/**
+ * Computes the selected ranges after a date is picked in selectsMultipleRanges mode.
+ * While a range is pending, the date ends it (or restarts it when picked before its start).
+ * Otherwise a date inside a complete range removes that range, and any other date starts a new one.
+ *
+ * @param ranges - The selected ranges.
+ * @param date - The picked date.
+ * @param swapRange - Whether a date before the pending start ends the range by swapping both dates.
+ * @returns - The new selected ranges.
+ */
+export function getNextSelectedRanges(
+  ranges: SelectedRange[],
+  date: Date,
+  swapRange: boolean = false,
+): SelectedRange[] {
+  const pendingRange = getPendingRange(ranges);
+
+  if (pendingRange) {
+    const otherRanges = ranges.filter((range) => range !== pendingRange);
+    if (!isDateBefore(date, pendingRange.start)) {
+      return mergeSelectedRanges([
+        ...otherRanges,
+        { start: pendingRange.start, end: date },
+      ]);
+    }
+    return swapRange
+      ? mergeSelectedRanges([
+          ...otherRanges,
+          { start: date, end: pendingRange.start },
+        ])
+      : [...otherRanges, { start: date, end: null }];
   }
-  return (
-    (excludeDates &&
-      excludeDates.some((excludeDate) => {
-        if (excludeDate instanceof Date) {
-          return isSameDay(day, excludeDate);
-        } else {
-          return isSameDay(day, excludeDate.date ?? new Date());
-        }
-      })) ||
-    false
+
+  const containingRange = ranges.find(
+    ({ start, end }) => end && isDayInRange(date, start, end),
   );
+  if (containingRange) {
+    return ranges.filter((range) => range !== containingRange);
+  }
+
+  return [...ranges, { start: date, end: null }];
 }
 
 export function isMonthDisabled(
@@ -1163,6 +2952,7 @@ export function isQuarterDisabled(
     includeDates,
     filterDate,
     disabled,
+    fiscalYearStartMonth,
   }: Pick<
     DateFilterOptionsWithDisabled,
     | "minDate"
@@ -1171,29 +2961,83 @@ export function isQuarterDisabled(
     | "includeDates"
     | "filterDate"
     | "disabled"
-  > = {},
+  > & { fiscalYearStartMonth?: number } = {},
 ): boolean {
   if (disabled) {
     return true;
   }
 
   return (
-    isOutOfBounds(quarter, { minDate, maxDate }) ||
+    isOutOfBounds(quarter, {
+      minDate:
+        minDate && fiscalYearStartMonth
+          ? getStartOfQuarter(minDate, fiscalYearStartMonth)
+          : minDate,
+      maxDate,
+    }) ||
     excludeDates?.some((excludeDate) =>
       isSameQuarter(
         quarter,
         excludeDate instanceof Date ? excludeDate : excludeDate.date,
+        fiscalYearStartMonth,
       ),
     ) ||
     (includeDates &&
       !includeDates.some((includeDate) =>
-        isSameQuarter(quarter, includeDate),
+        isSameQuarter(quarter, includeDate, fiscalYearStartMonth),
       )) ||
     (filterDate && !filterDate(newDate(quarter))) ||
     false
   );
 }
 
+export function isHalfYearDisabled(
+  halfYear: Date,
+  {
+    minDate,
+    maxDate,
+    excludeDates,
+    includeDates,
+    filterDate,
+    disabled,
+    fiscalYearStartMonth,
+  }: Pick<
+    DateFilterOptionsWithDisabled,
+    | "minDate"
+    | "maxDate"
+    | "excludeDates"
+    | "includeDates"
+    | "filterDate"
+    | "disabled"
+  > & { fiscalYearStartMonth?: number } = {},
+): boolean {
+  if (disabled) {
+    return true;
+  }
+
+  return (
+    isOutOfBounds(halfYear, {
+      minDate: minDate
+        ? getStartOfHalfYear(minDate, fiscalYearStartMonth)
+        : undefined,
+      maxDate,
+    }) ||
+    excludeDates?.some((excludeDate) =>
+      isSameHalfYear(
+        halfYear,
+        excludeDate instanceof Date ? excludeDate : excludeDate.date,
+        fiscalYearStartMonth,
+      ),
+    ) ||
+    (includeDates &&
+      !includeDates.some((includeDate) =>
+        isSameHalfYear(halfYear, includeDate, fiscalYearStartMonth),
+      )) ||
+    (filterDate && !filterDate(newDate(halfYear))) ||
+    false
+  );
+}
+
 export function isYearInRange(
   year: number,
   start?: Date | null,
@@ -1254,7 +3098,16 @@ export function isQuarterInRange(
   endDate: Date,
   q: number,
   day: Date,
+  fiscalYearStartMonth: number = 0,
 ): boolean {
+  if (fiscalYearStartMonth) {
+    const quarter = setFiscalQuarter(day, q, fiscalYearStartMonth);
+    return (
+      !isBefore(quarter, getStartOfQuarter(startDate, fiscalYearStartMonth)) &&
+      !isAfter(quarter, getStartOfQuarter(endDate, fiscalYearStartMonth))
+    );
+  }
+
   const startDateYear = getYear(startDate);
   const startDateQuarter = getQuarter(startDate);
   const endDateYear = getYear(endDate);
@@ -1272,6 +3125,21 @@ export function isQuarterInRange(
   return false;
 }
 
+export function isHalfYearInRange(
+  startDate: Date,
+  endDate: Date,
+  h: number,
+  day: Date,
+  fiscalYearStartMonth: number = 0,
+): boolean {
+  const halfYear = setFiscalHalfYear(day, h, fiscalYearStartMonth);
+
+  return (
+    !isBefore(halfYear, getStartOfHalfYear(startDate, fiscalYearStartMonth)) &&
+    !isAfter(halfYear, getStartOfHalfYear(endDate, fiscalYearStartMonth))
+  );
+}
+
 export function isOutOfBounds(
   day: Date,
   { minDate, maxDate }: Pick<DateFilterOptions, "minDate" | "maxDate"> = {},
@@ -1393,8 +3261,24 @@ export function quarterDisabledBefore(
   {
     minDate,
     includeDates,
-  }: Pick<DateFilterOptions, "minDate" | "includeDates"> = {},
+    fiscalYearStartMonth,
+  }: Pick<DateFilterOptions, "minDate" | "includeDates"> & {
+    fiscalYearStartMonth?: number;
+  } = {},
 ): boolean {
+  if (fiscalYearStartMonth) {
+    // Nothing can be picked in the previous fiscal year
+    const firstDateOfYear = getStartOfFiscalYear(date, fiscalYearStartMonth);
+    return (
+      (minDate && !isBefore(minDate, firstDateOfYear)) ||
+      (includeDates &&
+        includeDates.every(
+          (includeDate) => !isBefore(includeDate, firstDateOfYear),
+        )) ||
+      false
+    );
+  }
+
   const firstDateOfYear = startOfYear(date);
   const previousQuarter = subQuarters(firstDateOfYear, 1);
 
@@ -1414,8 +3298,25 @@ export function quarterDisabledAfter(
   {
     maxDate,
     includeDates,
-  }: Pick<DateFilterOptions, "maxDate" | "includeDates"> = {},
+    fiscalYearStartMonth,
+  }: Pick<DateFilterOptions, "maxDate" | "includeDates"> & {
+    fiscalYearStartMonth?: number;
+  } = {},
 ): boolean {
+  if (fiscalYearStartMonth) {
+    // Nothing can be picked in the next fiscal year
+    const nextYear = addYears(
+      getStartOfFiscalYear(date, fiscalYearStartMonth),
+      1,
+    );
+    return (
+      (maxDate && isBefore(maxDate, nextYear)) ||
+      (includeDates &&
+        includeDates.every((includeDate) => isBefore(includeDate, nextYear))) ||
+      false
+    );
+  }
+
   const lastDateOfYear = endOfYear(date);
   const nextQuarter = addQuarters(lastDateOfYear, 1);
 
@@ -1571,6 +3472,390 @@ export function getHighLightDaysMap(
   return dateClasses;
 }
 
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurrenceWeekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+/**
+ * The RRULE weekday codes, indexed like `Date.getDay()`.
+ */
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = [
+  "SU",
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+];
+
+export interface RecurrenceByDay {
+  weekday: RecurrenceWeekday;
+  /**
+   * The nth occurrence of the weekday in the month, counted from the end when negative.
+   */
+  nth?: number;
+}
+
+/**
+ * The subset of an RFC 5545 recurrence rule supported by the recurrence editor.
+ * `byMonth` holds months from 1 to 12, like in the RRULE string.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  weekStart?: RecurrenceWeekday;
+  count?: number;
+  until?: Date;
+}
+
+function parseRRuleNumbers(
+  value: string,
+  isValidNumber: (n: number) => boolean,
+): number[] | null {
+  const numbers = value.split(",").map(Number);
+
+  return numbers.every((n) => Number.isInteger(n) && isValidNumber(n))
+    ? numbers
+    : null;
+}
+
+/**
+ * Parses an RFC 5545 DATE or DATE-TIME value, e.g. `20240101` or
+ * `20240101T090000Z`. The dates and the times without a Z are local.
+ *
+ * @param value - The value.
+ * @returns - The date, or null when the value is not valid.
+ */
+export function parseRRuleDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value,
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hours = 0, minutes = 0, seconds = 0] = match
+    .slice(1, 7)
+    .map((part) => Number(part ?? 0));
+  const date = match[7]
+    ? new Date(Date.UTC(year!, month! - 1, day!, hours, minutes, seconds))
+    : new Date(year!, month! - 1, day!, hours, minutes, seconds);
+
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Parses an RFC 5545 RRULE string, with or without the `RRULE:` prefix.
+ *
+ * @param value - The RRULE string, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`.
+ * @returns - The recurrence rule, or null when the string is not valid or uses unsupported rule parts.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = value
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean);
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of parts) {
+    const [key = "", partValue = ""] = part.toUpperCase().split("=");
+
+    switch (key) {
+      case "FREQ":
+        if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(partValue)) {
+          return null;
+        }
+        rule.freq = partValue as RecurrenceFrequency;
+        break;
+      case "INTERVAL": {
+        const interval = Number(partValue);
+        if (!Number.isInteger(interval) || interval < 1) {
+          return null;
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(partValue);
+        if (!Number.isInteger(count) || count < 1) {
+          return null;
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseRRuleDate(partValue);
+        if (!until) {
+          return null;
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYDAY": {
+        const byDay: RecurrenceByDay[] = [];
+        for (const day of partValue.split(",")) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+          const nth = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || nth === 0 || (nth && Math.abs(nth) > 53)) {
+            return null;
+          }
+          byDay.push({ weekday: match[2] as RecurrenceWeekday, nth });
+        }
+        rule.byDay = byDay;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const byMonthDay = parseRRuleNumbers(
+          partValue,
+          (n) => n !== 0 && Math.abs(n) <= 31,
+        );
+        if (!byMonthDay) {
+          return null;
+        }
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
+      case "BYMONTH": {
+        const byMonth = parseRRuleNumbers(partValue, (n) => n >= 1 && n <= 12);
+        if (!byMonth) {
+          return null;
+        }
+        rule.byMonth = byMonth;
+        break;
+      }
+      case "WKST":
+        if (!RECURRENCE_WEEKDAYS.includes(partValue as RecurrenceWeekday)) {
+          return null;
+        }
+        rule.weekStart = partValue as RecurrenceWeekday;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  // COUNT and UNTIL must not occur in the same rule
+  if (!rule.freq || (rule.count && rule.until)) {
+    return null;
+  }
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Formats a recurrence rule as an RFC 5545 RRULE string, without the `RRULE:` prefix.
+ * An UNTIL at midnight is written as a date, any other UNTIL as a UTC date-time.
+ *
+ * @param rule - The recurrence rule.
+ * @returns - The RRULE string.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byMonth?.length) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay.map(({ weekday, nth }) => `${nth ?? ""}${weekday}`).join(",")}`,
+    );
+  }
+  if (rule.weekStart) {
+    parts.push(`WKST=${rule.weekStart}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(
+      `UNTIL=${
+        isEqual(rule.until, startOfDay(rule.until))
+          ? format(rule.until, "yyyyMMdd")
+          : rule.until.toISOString().replace(/[-:]|\.\d{3}/g, "")
+      }`,
+    );
+  }
+  return parts.join(";");
+}
+
+// The days of the month matching the BYMONTHDAY and BYDAY parts, in ascending order
+function getRecurrenceMonthDays(
+  monthStart: Date,
+  { byMonthDay, byDay }: Pick<RecurrenceRule, "byMonthDay" | "byDay">,
+  defaultDay: number,
+): number[] {
+  const daysInMonth = getDaysInMonth(monthStart);
+  const firstWeekday = getDay(monthStart);
+  const getWeekdayDays = (weekday: RecurrenceWeekday): number[] => {
+    const first =
+      ((RECURRENCE_WEEKDAYS.indexOf(weekday) - firstWeekday + 7) % 7) + 1;
+    const days: number[] = [];
+    for (let day = first; day <= daysInMonth; day += 7) {
+      days.push(day);
+    }
+    return days;
+  };
+
+  let days: number[] = [];
+  if (byMonthDay) {
+    days = byMonthDay
+      .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+      .filter((day) => day >= 1 && day <= daysInMonth);
+    if (byDay) {
+      // BYDAY limits the days of BYMONTHDAY
+      days = days.filter((day) =>
+        byDay.some(({ weekday }) => getWeekdayDays(weekday).includes(day)),
+      );
+    }
+  } else if (byDay) {
+    days = byDay.flatMap(({ weekday, nth }) => {
+      const weekdayDays = getWeekdayDays(weekday);
+      if (!nth) {
+        return weekdayDays;
+      }
+      const day = weekdayDays[nth > 0 ? nth - 1 : weekdayDays.length + nth];
+      return day ? [day] : [];
+    });
+  } else if (defaultDay <= daysInMonth) {
+    days = [defaultDay];
+  }
+  return days
+    .filter((day, index) => days.indexOf(day) === index)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Expands a recurrence rule into its occurrences. COUNT is counted from the start date,
+ * so the occurrences are the same whatever the end of the expansion is.
+ *
+ * @param rule - The recurrence rule.
+ * @param startDate - The start date of the recurrence (DTSTART), whose time all the occurrences get.
+ * @param rangeEnd - The date after which no more occurrences are expanded.
+ * @returns - The occurrences from the start date to the end of the range.
+ */
+export function getRecurrenceDates(
+  rule: RecurrenceRule,
+  startDate: Date,
+  rangeEnd: Date,
+): Date[] {
+  const { freq, byMonth, byDay, byMonthDay, count, until } = rule;
+  const interval = Math.max(1, rule.interval);
+  // A date-only UNTIL includes the occurrences on that day
+  const lastDate = until
+    ? min([
+        isEqual(until, startOfDay(until)) ? endOfDay(until) : until,
+        rangeEnd,
+      ])
+    : rangeEnd;
+  const weekStartsOn = RECURRENCE_WEEKDAYS.indexOf(
+    rule.weekStart ?? "MO",
+  ) as Day;
+  const isInMonths = (date: Date): boolean =>
+    !byMonth || byMonth.includes(getMonth(date) + 1);
+  const getMonthDates = (
+    monthStart: Date,
+    monthRule: Pick<RecurrenceRule, "byMonthDay" | "byDay">,
+  ): Date[] =>
+    getRecurrenceMonthDays(monthStart, monthRule, getDate(startDate)).map(
+      (day) => set(monthStart, { date: day }),
+    );
+
+  const getPeriodStart = (period: number): Date => {
+    switch (freq) {
+      case "DAILY":
+        return addDays(startOfDay(startDate), period * interval);
+      case "WEEKLY":
+        return addWeeks(
+          startOfWeek(startDate, { weekStartsOn }),
+          period * interval,
+        );
+      case "MONTHLY":
+        return addMonths(startOfMonth(startDate), period * interval);
+      case "YEARLY":
+        return addYears(startOfYear(startDate), period * interval);
+    }
+  };
+
+  const getPeriodDates = (periodStart: Date): Date[] => {
+    switch (freq) {
+      case "DAILY":
+        return isInMonths(periodStart) &&
+          (!byDay ||
+            byDay.some(
+              ({ weekday }) =>
+                RECURRENCE_WEEKDAYS.indexOf(weekday) === getDay(periodStart),
+            )) &&
+          (!byMonthDay ||
+            getRecurrenceMonthDays(
+              startOfMonth(periodStart),
+              { byMonthDay },
+              0,
+            ).includes(getDate(periodStart)))
+          ? [periodStart]
+          : [];
+      case "WEEKLY":
+        return (
+          byDay
+            ? byDay.map(({ weekday }) => RECURRENCE_WEEKDAYS.indexOf(weekday))
+            : [getDay(startDate)]
+        )
+          .map((weekday) =>
+            addDays(periodStart, (weekday - weekStartsOn + 7) % 7),
+          )
+          .filter(isInMonths)
+          .sort((a, b) => a.getTime() - b.getTime());
+      case "MONTHLY":
+        return isInMonths(periodStart) ? getMonthDates(periodStart, rule) : [];
+      case "YEARLY":
+        // Without BYMONTH, the year recurs in the month of the start date
+        return [...(byMonth ?? [getMonth(startDate) + 1])]
+          .sort((a, b) => a - b)
+          .flatMap((month) =>
+            getMonthDates(setMonth(periodStart, month - 1), {
+              byDay,
+              byMonthDay,
+            }),
+          );
+    }
+  };
+
+  const occurrences: Date[] = [];
+  for (
+    let period = 0, periodStart = getPeriodStart(0);
+    !isAfter(periodStart, lastDate);
+    periodStart = getPeriodStart(++period)
+  ) {
+    for (const date of getPeriodDates(periodStart)) {
+      const occurrence = set(date, {
+        hours: getHours(startDate),
+        minutes: getMinutes(startDate),
+        seconds: getSeconds(startDate),
+      });
+      if (isBefore(occurrence, startDate)) {
+        continue;
+      }
+      if (isAfter(occurrence, lastDate)) {
+        return occurrences;
+      }
+      occurrences.push(occurrence);
+      if (count && occurrences.length >= count) {
+        return occurrences;
+      }
+    }
+  }
+  return occurrences;
+}
+
 /**
  * Compare the two arrays
  * @param array1 The first array to compare.
@@ -1601,13 +3886,15 @@ export type HolidaysMap = Map<string, ClassNamesObj>;
  * Assign the custom class to each date
  * @param holidayDates array of object containing date and name of the holiday
  * @param defaultClassName className to be added.
+ * @param holidaysMap map of the holidays to add the dates to, which is left unchanged
  * @returns Map containing date as key and array of className and holiday name as value
  */
 export function getHolidaysMap(
   holidayDates: HolidayItem[] = [],
   defaultClassName: string = "react-datepicker__day--holidays",
+  holidaysMap?: HolidaysMap,
 ): HolidaysMap {
-  const dateClasses = new Map<string, ClassNamesObj>();
+  const dateClasses = new Map<string, ClassNamesObj>(holidaysMap);
   holidayDates.forEach((holiday) => {
     const { date: dateObj, holidayName } = holiday;
     if (!isDate(dateObj)) {
@@ -1615,9 +3902,11 @@ export function getHolidaysMap(
     }
 
     const key = formatDate(dateObj, "MM.dd.yyyy");
-    const classNamesObj = dateClasses.get(key) || {
-      className: "",
-      holidayNames: [],
+    const classNamesObj = {
+      ...(dateClasses.get(key) || {
+        className: "",
+        holidayNames: [],
+      }),
     };
     if (
       "className" in classNamesObj &&
@@ -1637,6 +3926,157 @@ export function getHolidaysMap(
   return dateClasses;
 }
 
+/**
+ * A holiday that recurs every year: on a day of a month, e.g. December 25,
+ * on the nth weekday of a month, e.g. the 4th Thursday of November, or a
+ * number of days after Easter Sunday, e.g. 1 for Easter Monday. The months
+ * are numbered from 1 to 12 and the weekdays from 0 (Sunday) to 6 (Saturday).
+ * A negative nth is counted from the end of the month, e.g. -1 for the last.
+ */
+export type HolidayRule =
+  | { month: number; day: number }
+  | { month: number; weekday: Day; nth: number }
+  | { easterOffset: number };
+
+/**
+ * A holiday given by a rule. The holidays on the weekend can be observed on
+ * the nearest, the following or the preceding working day instead.
+ */
+export interface HolidayRuleItem {
+  rule: HolidayRule;
+  holidayName: string;
+  observed?: "nearest" | "following" | "preceding";
+}
+
+/**
+ * Checks if a holiday is given by a rule, rather than by its date.
+ *
+ * @param holiday - The holiday.
+ * @returns - True if the holiday has a rule.
+ */
+export function isHolidayRuleItem(holiday: object): holiday is HolidayRuleItem {
+  return "rule" in holiday;
+}
+
+/**
+ * Gets Easter Sunday of a year of the Gregorian calendar, with the anonymous
+ * Gregorian computus.
+ *
+ * @param year - The year.
+ * @returns - Easter Sunday.
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+}
+
+// The date of a rule in a year, or null when the month has no such day
+function getHolidayRuleDate(rule: HolidayRule, year: number): Date | null {
+  if ("easterOffset" in rule) {
+    return addDays(getEasterSunday(year), rule.easterOffset);
+  }
+  const monthStart = new Date(year, rule.month - 1, 1);
+  if ("day" in rule) {
+    return rule.day >= 1 && rule.day <= getDaysInMonth(monthStart)
+      ? new Date(year, rule.month - 1, rule.day)
+      : null;
+  }
+
+  const days = getDaysInMonth(monthStart);
+  const firstWeekday = (rule.weekday - getDay(monthStart) + 7) % 7;
+  const lastWeekday =
+    days - 1 - ((getDay(endOfMonth(monthStart)) - rule.weekday + 7) % 7);
+  const dayIndex =
+    rule.nth > 0
+      ? firstWeekday + (rule.nth - 1) * 7
+      : lastWeekday + (rule.nth + 1) * 7;
+
+  return rule.nth !== 0 && dayIndex >= 0 && dayIndex < days
+    ? addDays(monthStart, dayIndex)
+    : null;
+}
+
+function getObservedDate(
+  date: Date,
+  observed: HolidayRuleItem["observed"],
+  weekendDays: Day[],
+): Date {
+  const isOnWeekend = (day: Date) => weekendDays.includes(getDay(day) as Day);
+  if (!observed || !isOnWeekend(date) || weekendDays.length >= 7) {
+    return date;
+  }
+
+  let preceding = subDays(date, 1);
+  while (isOnWeekend(preceding)) {
+    preceding = subDays(preceding, 1);
+  }
+  let following = addDays(date, 1);
+  while (isOnWeekend(following)) {
+    following = addDays(following, 1);
+  }
+  switch (observed) {
+    case "preceding":
+      return preceding;
+    case "following":
+      return following;
+    case "nearest":
+      // Saturdays are observed on Fridays and Sundays on Mondays
+      return differenceInCalendarDays(date, preceding) <
+        differenceInCalendarDays(following, date)
+        ? preceding
+        : following;
+  }
+}
+
+/**
+ * Expands the rules of holidays into the holidays of a range of dates.
+ *
+ * @param holidays - The holidays given by rules.
+ * @param startDate - The start of the range.
+ * @param endDate - The end of the range.
+ * @param weekendDays - The weekend days the holidays are moved off of when they are observed on another day.
+ * @returns - The holidays whose observed dates are in the range.
+ */
+export function getHolidayRuleDates(
+  holidays: HolidayRuleItem[],
+  startDate: Date,
+  endDate: Date,
+  weekendDays: Day[] = [0, 6],
+): HolidayItem[] {
+  const holidayDates: HolidayItem[] = [];
+  const rangeStart = startOfDay(startDate);
+
+  // The holidays of the next and previous years can be observed in the range
+  for (
+    let year = getYear(startDate) - 1;
+    year <= getYear(endDate) + 1;
+    year++
+  ) {
+    for (const { rule, holidayName, observed } of holidays) {
+      const ruleDate = getHolidayRuleDate(rule, year);
+      const date = ruleDate && getObservedDate(ruleDate, observed, weekendDays);
+      if (date && !isBefore(date, rangeStart) && !isAfter(date, endDate)) {
+        holidayDates.push({ date, holidayName });
+      }
+    }
+  }
+  return holidayDates.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
 /**
  * Determines the times to inject after a given start of day, current time, and multiplier.
  * @param startOfDay The start of the day.
@@ -1754,6 +4194,17 @@ export function isSameMinute(d1: Date, d2: Date): boolean {
   return startOfMinute(d1).getTime() === startOfMinute(d2).getTime();
 }
 
+/**
+ * Returns whether the given dates are in the same second
+ *
+ * @param d1
+ * @param d2
+ * @returns
+ */
+export function isSameSecond(d1: Date, d2: Date): boolean {
+  return Math.floor(d1.getTime() / 1000) === Math.floor(d2.getTime() / 1000);
+}
+
 /**
  * Returns a new datetime object representing the input date with midnight time
  * @param date The date to get the midnight time for
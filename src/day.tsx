@@ -1,10 +1,9 @@
 import { clsx } from "clsx";
 import React, { Component, createRef } from "react";
 
+import { getCalendarSystem, type CalendarSystemId } from "./calendar_system";
+import { formatCalendarName, type DateAdapter } from "./date_adapter";
 import {
-  getDay,
-  getMonth,
-  getDate,
   newDate,
   isSameDay,
   isDayDisabled,
@@ -13,27 +12,55 @@ import {
   isEqual,
   isBefore,
   isAfter,
+  isOutsideRangeLength,
+  isWeekend,
   getDayOfWeekCode,
   getStartOfWeek,
+  getEndOfWeek,
+  getPendingRange,
   formatDate,
+  localizeDigits,
   type DateFilterOptionsWithDisabled,
   type DateNumberType,
+  type RangeLengthOptions,
+  type SelectedRange,
   type Locale,
   type HolidaysMap,
   KeyType,
 } from "./date_utils";
 
-interface DayProps extends Pick<
-  DateFilterOptionsWithDisabled,
-  | "minDate"
-  | "maxDate"
-  | "excludeDates"
-  | "excludeDateIntervals"
-  | "includeDateIntervals"
-  | "includeDates"
-  | "filterDate"
-  | "disabled"
-> {
+/**
+ * The metadata of a day, e.g. its availability or price, loaded with
+ * loadMonthData. The label is added to the title and the aria label of the
+ * day, and the content is shown under the day number.
+ */
+export interface DayData {
+  disabled?: boolean;
+  className?: string;
+  label?: string;
+  content?: React.ReactNode;
+}
+
+/**
+ * The metadata of the days of a month, keyed by "yyyy-MM-dd" dates.
+ */
+export type MonthDayData = Record<string, DayData>;
+
+interface DayProps
+  extends
+    Pick<
+      DateFilterOptionsWithDisabled,
+      | "minDate"
+      | "maxDate"
+      | "excludeDates"
+      | "excludeDateIntervals"
+      | "includeDateIntervals"
+      | "includeDates"
+      | "filterDate"
+      | "businessCalendar"
+      | "disabled"
+    >,
+    RangeLengthOptions {
   ariaLabelPrefixWhenEnabled?: string;
   ariaLabelPrefixWhenDisabled?: string;
   disabledKeyboardNavigation?: boolean;
@@ -59,12 +86,22 @@ interface DayProps extends Pick<
   selectsDisabledDaysInRange?: boolean;
   selectsMultiple?: boolean;
   selectedDates?: Date[];
+  selectsMultipleRanges?: boolean;
+  selectedRanges?: SelectedRange[];
   startDate?: Date | null;
   endDate?: Date | null;
+  compareStartDate?: Date | null;
+  compareEndDate?: Date | null;
+  selectingCompareRange?: boolean;
   renderDayContents?: (day: number, date: Date) => React.ReactNode;
   containerRef?: React.RefObject<HTMLDivElement | null>;
   calendarStartDay?: DateNumberType;
+  weekendDays?: DateNumberType[];
+  dayData?: MonthDayData;
   locale?: Locale;
+  numberingSystem?: string;
+  calendarSystem?: CalendarSystemId;
+  dateAdapter?: DateAdapter<Date>;
   monthShowsDuplicateDaysEnd?: boolean;
   monthShowsDuplicateDaysStart?: boolean;
   swapRange?: boolean;
@@ -100,18 +137,29 @@ interface DayProps extends Pick<
  * @prop selectsDisabledDaysInRange - Whether to select disabled days in a range.
  * @prop selectsMultiple - Whether to allow multiple date selection.
  * @prop selectedDates - Array of selected dates.
+ * @prop selectsMultipleRanges - Whether to allow selecting multiple date ranges.
+ * @prop selectedRanges - Array of selected ranges, the last one may still be missing its end.
  * @prop startDate - The start date in a range.
+ * @prop compareStartDate - The start date of the comparison range.
+ * @prop compareEndDate - The end date of the comparison range.
+ * @prop selectingCompareRange - Whether the comparison range is being picked instead of the range.
  * @prop renderDayContents - Function to customize the rendering of the day's contents.
  * @prop containerRef - Ref for the container.
  * @prop excludeDates - Array of dates to be excluded.
  * @prop calendarStartDay - The start day of the week.
+ * @prop weekendDays - The weekend days, those of the locale by default.
+ * @prop dayData - The metadata of the days loaded with loadMonthData.
  * @prop locale - The locale object.
+ * @prop calendarSystem - The calendar system the month and the day number are in.
  * @prop monthShowsDuplicateDaysEnd - Whether to show duplicate days at the end of the month.
  * @prop monthShowsDuplicateDaysStart - Whether to show duplicate days at the start of the month.
  * @prop includeDates - Array of dates to be included.
  * @prop includeDateIntervals - Array of date intervals to be included.
  * @prop minDate - The minimum date that can be selected.
  * @prop maxDate - The maximum date that can be selected.
+ * @prop businessCalendar - The working days, the only days that can be selected in business-day mode.
+ * @prop minRangeLength - The minimum length of a range in days, or a function of the start date returning it.
+ * @prop maxRangeLength - The maximum length of a range in days, or a function of the start date returning it.
  *
  * @example
  * ```tsx
@@ -200,6 +248,14 @@ export default class Day extends Component<DayProps> {
   };
 
   isDisabled = (day = this.props.day) =>
+    this.isDisabledByFilters(day) ||
+    this.isOutsideRangeLength(day) ||
+    !!this.getDayData(day)?.disabled;
+
+  getDayData = (day = this.props.day): DayData | undefined =>
+    this.props.dayData?.[formatDate(day, "yyyy-MM-dd")];
+
+  isDisabledByFilters = (day = this.props.day) =>
     // Almost all props previously were passed as this.props w/o proper typing with prop-types
     // after the migration to TS i made it explicit
     isDayDisabled(day, {
@@ -210,9 +266,22 @@ export default class Day extends Component<DayProps> {
       includeDateIntervals: this.props.includeDateIntervals,
       includeDates: this.props.includeDates,
       filterDate: this.props.filterDate,
+      businessCalendar: this.props.businessCalendar,
       disabled: this.props.disabled,
     });
 
+  // While one end of a range is picked, days that would complete it with a
+  // length outside of minRangeLength/maxRangeLength can't be chosen
+  isOutsideRangeLength = (day = this.props.day) =>
+    !!this.props.selectsRange &&
+    isOutsideRangeLength(day, {
+      startDate: this.props.startDate,
+      endDate: this.props.endDate,
+      swapRange: this.props.swapRange,
+      minRangeLength: this.props.minRangeLength,
+      maxRangeLength: this.props.maxRangeLength,
+    });
+
   isExcluded = () =>
     // Almost all props previously were passed as this.props w/o proper typing with prop-types
     // after the migration to TS i made it explicit
@@ -274,8 +343,82 @@ export default class Day extends Component<DayProps> {
     return [undefined];
   };
 
+  /**
+   * In selectsMultipleRanges mode the complete range containing the day is
+   * rendered the same way as a selectsRange range.
+   */
+  getSelectedRange = (): Pick<DayProps, "startDate" | "endDate"> => {
+    const { day, startDate, endDate, selectsMultipleRanges, selectedRanges } =
+      this.props;
+
+    if (!selectsMultipleRanges) {
+      return { startDate, endDate };
+    }
+
+    const range = selectedRanges?.find(
+      ({ start, end }) => end && isDayInRange(day, start, end),
+    );
+    return { startDate: range?.start, endDate: range?.end };
+  };
+
+  /**
+   * In selectsMultipleRanges mode the pending range is previewed the same way
+   * as a selectsRange range that only has a start. While the comparison range
+   * is picked, it is previewed instead of the range.
+   */
+  getSelectingRange = (): Pick<
+    DayProps,
+    "selectsRange" | "startDate" | "endDate"
+  > => {
+    const { selectsRange, startDate, endDate, selectsMultipleRanges } =
+      this.props;
+
+    if (selectsMultipleRanges) {
+      return {
+        selectsRange: true,
+        startDate: getPendingRange(this.props.selectedRanges)?.start,
+        endDate: null,
+      };
+    }
+
+    if (selectsRange && this.props.selectingCompareRange) {
+      return {
+        selectsRange,
+        startDate: this.props.compareStartDate,
+        endDate: this.props.compareEndDate,
+      };
+    }
+
+    return { selectsRange, startDate, endDate };
+  };
+
+  /**
+   * In week picker mode a range is previewed across whole weeks, so the
+   * hovered day is snapped to the edge of its week.
+   */
+  getSelectingDate = (): Date | null | undefined => {
+    const { showWeekPicker, locale, calendarStartDay } = this.props;
+    const selectingDate = this.props.selectingDate ?? this.props.preSelection;
+    const { selectsRange, startDate, endDate } = this.getSelectingRange();
+
+    if (
+      !showWeekPicker ||
+      !selectsRange ||
+      !selectingDate ||
+      !startDate ||
+      endDate
+    ) {
+      return selectingDate;
+    }
+
+    return isBefore(selectingDate, startDate)
+      ? getStartOfWeek(selectingDate, locale, calendarStartDay)
+      : getEndOfWeek(selectingDate, locale, calendarStartDay);
+  };
+
   isInRange = () => {
-    const { day, startDate, endDate } = this.props;
+    const { day } = this.props;
+    const { startDate, endDate } = this.getSelectedRange();
     if (!startDate || !endDate) {
       return false;
     }
@@ -287,14 +430,12 @@ export default class Day extends Component<DayProps> {
       day,
       selectsStart,
       selectsEnd,
-      selectsRange,
       selectsDisabledDaysInRange,
-      startDate,
       swapRange,
-      endDate,
     } = this.props;
+    const { selectsRange, startDate, endDate } = this.getSelectingRange();
 
-    const selectingDate = this.props.selectingDate ?? this.props.preSelection;
+    const selectingDate = this.getSelectingDate();
 
     // Don't highlight days outside the current month
     if (this.isAfterMonth() || this.isBeforeMonth()) {
@@ -304,7 +445,7 @@ export default class Day extends Component<DayProps> {
     if (
       !(selectsStart || selectsEnd || selectsRange) ||
       !selectingDate ||
-      (!selectsDisabledDaysInRange && this.isDisabled())
+      (!selectsDisabledDaysInRange && this.isDisabledByFilters())
     ) {
       return false;
     }
@@ -347,9 +488,9 @@ export default class Day extends Component<DayProps> {
       return false;
     }
 
-    const { day, startDate, selectsStart, swapRange, selectsRange } =
-      this.props;
-    const selectingDate = this.props.selectingDate ?? this.props.preSelection;
+    const { day, selectsStart, swapRange } = this.props;
+    const { selectsRange, startDate } = this.getSelectingRange();
+    const selectingDate = this.getSelectingDate();
 
     if (selectsStart) {
       return isSameDay(day, selectingDate);
@@ -370,9 +511,9 @@ export default class Day extends Component<DayProps> {
       return false;
     }
 
-    const { day, endDate, selectsEnd, selectsRange, swapRange, startDate } =
-      this.props;
-    const selectingDate = this.props.selectingDate ?? this.props.preSelection;
+    const { day, selectsEnd, swapRange } = this.props;
+    const { selectsRange, startDate, endDate } = this.getSelectingRange();
+    const selectingDate = this.getSelectingDate();
 
     if (selectsEnd) {
       return isSameDay(day, selectingDate);
@@ -393,7 +534,8 @@ export default class Day extends Component<DayProps> {
   };
 
   isRangeStart = () => {
-    const { day, startDate, endDate } = this.props;
+    const { day } = this.props;
+    const { startDate, endDate } = this.getSelectedRange();
     if (!startDate || !endDate) {
       return false;
     }
@@ -401,29 +543,48 @@ export default class Day extends Component<DayProps> {
   };
 
   isRangeEnd = () => {
-    const { day, startDate, endDate } = this.props;
+    const { day } = this.props;
+    const { startDate, endDate } = this.getSelectedRange();
     if (!startDate || !endDate) {
       return false;
     }
     return isSameDay(endDate, day);
   };
 
-  isWeekend = () => {
-    const weekday = getDay(this.props.day);
-    return weekday === 0 || weekday === 6;
+  isInCompareRange = () => {
+    const { day, compareStartDate, compareEndDate } = this.props;
+    if (!compareStartDate || !compareEndDate) {
+      return false;
+    }
+    return isDayInRange(day, compareStartDate, compareEndDate);
   };
 
+  isCompareRangeStart = () =>
+    this.isInCompareRange() && this.isSameDay(this.props.compareStartDate);
+
+  isCompareRangeEnd = () =>
+    this.isInCompareRange() && this.isSameDay(this.props.compareEndDate);
+
+  isWeekend = () =>
+    isWeekend(this.props.day, this.props.locale, this.props.weekendDays);
+
+  getDayOfMonth = () =>
+    getCalendarSystem(this.props.calendarSystem).getDate(this.props.day);
+
+  getMonthOfDay = () =>
+    getCalendarSystem(this.props.calendarSystem).getMonth(this.props.day);
+
   isAfterMonth = () => {
     return (
       this.props.month !== undefined &&
-      (this.props.month + 1) % 12 === getMonth(this.props.day)
+      (this.props.month + 1) % 12 === this.getMonthOfDay()
     );
   };
 
   isBeforeMonth = () => {
     return (
       this.props.month !== undefined &&
-      (getMonth(this.props.day) + 1) % 12 === this.props.month
+      (this.getMonthOfDay() + 1) % 12 === this.props.month
     );
   };
 
@@ -435,6 +596,9 @@ export default class Day extends Component<DayProps> {
         this.isSameDayOrWeek(date),
       );
     }
+    if (this.props.selectsMultipleRanges) {
+      return this.isSameDay(getPendingRange(this.props.selectedRanges)?.start);
+    }
     return this.isSameDayOrWeek(this.props.selected);
   };
 
@@ -454,6 +618,10 @@ export default class Day extends Component<DayProps> {
         "react-datepicker__day--range-start": this.isRangeStart(),
         "react-datepicker__day--range-end": this.isRangeEnd(),
         "react-datepicker__day--in-range": this.isInRange(),
+        "react-datepicker__day--compare-range-start":
+          this.isCompareRangeStart(),
+        "react-datepicker__day--compare-range-end": this.isCompareRangeEnd(),
+        "react-datepicker__day--in-compare-range": this.isInCompareRange(),
         "react-datepicker__day--in-selecting-range": this.isInSelectingRange(),
         "react-datepicker__day--selecting-range-start":
           this.isSelectingRangeStart(),
@@ -465,6 +633,7 @@ export default class Day extends Component<DayProps> {
           this.isAfterMonth() || this.isBeforeMonth(),
       },
       this.getHighLightedClass(),
+      this.getDayData()?.className,
       this.getHolidaysClass(),
     );
   };
@@ -481,7 +650,13 @@ export default class Day extends Component<DayProps> {
         ? ariaLabelPrefixWhenDisabled
         : ariaLabelPrefixWhenEnabled;
 
-    return `${prefix} ${formatDate(day, "PPPP", this.props.locale)}`;
+    const label = this.getDayData()?.label;
+
+    const dayName =
+      formatCalendarName(day, "day", this.props) ??
+      formatDate(day, "PPPP", this.props.locale, this.props.calendarSystem);
+
+    return `${prefix} ${dayName}${label ? `, ${label}` : ""}`;
   };
 
   // A function to return the holiday's name as title's content
@@ -509,6 +684,10 @@ export default class Day extends Component<DayProps> {
           }),
       );
     }
+    const label = this.getDayData()?.label;
+    if (label) {
+      titles.push(label);
+    }
     // I'm not sure that this is a right output, but all tests are green
     return titles.join(", ");
   };
@@ -584,8 +763,19 @@ export default class Day extends Component<DayProps> {
     if (this.props.monthShowsDuplicateDaysStart && this.isBeforeMonth())
       return null;
     return this.props.renderDayContents
-      ? this.props.renderDayContents(getDate(this.props.day), this.props.day)
-      : getDate(this.props.day);
+      ? this.props.renderDayContents(this.getDayOfMonth(), this.props.day)
+      : localizeDigits(
+          String(this.getDayOfMonth()),
+          this.props.numberingSystem,
+        );
+  };
+
+  renderDayData = () => {
+    const content = this.getDayData()?.content;
+    if (content == null || this.isDuplicateDay()) {
+      return null;
+    }
+    return <span className="react-datepicker__day-data">{content}</span>;
   };
 
   render = () => (
@@ -610,6 +800,7 @@ export default class Day extends Component<DayProps> {
       aria-selected={this.isSelected() || this.isInRange()}
     >
       {this.renderDayContents()}
+      {this.renderDayData()}
       {this.getTitle() !== "" && (
         <span className="overlay">{this.getTitle()}</span>
       )}
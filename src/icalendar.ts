@@ -0,0 +1,298 @@
+import {
+  addDays,
+  addWeeks,
+  addYears,
+  fromZonedTime,
+  getRecurrenceDates,
+  getStartOfDay,
+  isAfter,
+  isBefore,
+  isSameDay,
+  isValid,
+  newDate,
+  parseRRule,
+  parseRRuleDate,
+  type HolidayItem,
+} from "./date_utils";
+
+/**
+ * The dates from which the recurring events are expanded. The events
+ * recur until 10 years from today by default.
+ */
+export interface ICalendarOptions {
+  rangeStart?: Date;
+  rangeEnd?: Date;
+}
+
+/**
+ * An occurrence of an event, from the start of its first day to the start
+ * of its last day.
+ */
+export interface ICalendarEvent {
+  summary: string;
+  start: Date;
+  end: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface EventProperties {
+  summary?: string;
+  start?: Date;
+  end?: Date;
+  allDay?: boolean;
+  duration?: string;
+  rrule?: string;
+  exdates: Date[];
+  cancelled?: boolean;
+  // An end or its time zone that cannot be read
+  invalid?: boolean;
+}
+
+// The value starts at the first colon outside of the quoted parameters
+function getValueStart(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line.charAt(i);
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ":" && !quoted) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Lines longer than 75 octets are folded onto lines starting with a space
+function getContentLines(ics: string): ContentLine[] {
+  return ics
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .reduce<ContentLine[]>((lines, line) => {
+      const colon = getValueStart(line);
+      if (colon < 0) {
+        return lines;
+      }
+      const [name = "", ...params] = line.slice(0, colon).split(";");
+      lines.push({
+        name: name.toUpperCase(),
+        params: params.reduce<Record<string, string>>((result, param) => {
+          // The value may contain "=", e.g. in a quoted URI
+          const separator = param.indexOf("=");
+          const key = separator < 0 ? param : param.slice(0, separator);
+          const value = separator < 0 ? "" : param.slice(separator + 1);
+          result[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+          return result;
+        }, {}),
+        value: line.slice(colon + 1),
+      });
+      return lines;
+    }, []);
+}
+
+// A date-time with a TZID is in that time zone, and one without a TZID or a
+// "Z" in local time
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+): Date | null {
+  const date = parseRRuleDate(value);
+  const timeZone = params["TZID"];
+  if (!date || !timeZone || !value.includes("T") || value.endsWith("Z")) {
+    return date;
+  }
+  const zonedDate = fromZonedTime(date, timeZone);
+
+  return isValid(zonedDate) ? zonedDate : null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  );
+}
+
+// Only the days and weeks of a duration matter for the days of an event
+function addDuration(date: Date, duration: string): Date {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?/.exec(duration);
+
+  return match
+    ? addDays(addWeeks(date, Number(match[1] ?? 0)), Number(match[2] ?? 0))
+    : date;
+}
+
+// The start of the last day of an event, whose end is exclusive
+function getLastDay(start: Date, end: Date, allDay?: boolean): Date {
+  if (!isAfter(end, start)) {
+    return getStartOfDay(start);
+  }
+  return getStartOfDay(allDay ? addDays(end, -1) : new Date(end.getTime() - 1));
+}
+
+function getEventOccurrences(
+  event: EventProperties,
+  rangeStart: Date | undefined,
+  rangeEnd: Date,
+): ICalendarEvent[] {
+  const { start, allDay, rrule, exdates, summary = "" } = event;
+  // An RRULE that cannot be read would leave only the first occurrence
+  const rule = rrule ? parseRRule(rrule) : null;
+  if (!start || event.cancelled || event.invalid || (rrule && !rule)) {
+    return [];
+  }
+
+  // Without DTEND or DURATION, an all-day event lasts a day
+  const end =
+    event.end ??
+    (event.duration
+      ? addDuration(start, event.duration)
+      : allDay
+        ? addDays(start, 1)
+        : start);
+  const length = Math.round(
+    (getLastDay(start, end, allDay).getTime() -
+      getStartOfDay(start).getTime()) /
+      (24 * 60 * 60 * 1000),
+  );
+  const starts = rule ? getRecurrenceDates(rule, start, rangeEnd) : [start];
+
+  return starts
+    .filter(
+      (occurrence) => !exdates.some((exdate) => isSameDay(exdate, occurrence)),
+    )
+    .map((occurrence) => ({
+      summary,
+      start: getStartOfDay(occurrence),
+      end: addDays(getStartOfDay(occurrence), length),
+    }))
+    .filter(
+      (occurrence) =>
+        !isAfter(occurrence.start, rangeEnd) &&
+        !(rangeStart && isBefore(occurrence.end, getStartOfDay(rangeStart))),
+    );
+}
+
+/**
+ * Parses the events of an iCalendar (.ics) file: the all-day, multi-day and
+ * timed VEVENTs, and their RRULE recurrences and EXDATE exceptions. The
+ * date-times with a TZID are in that time zone, which needs date-fns-tz.
+ * The cancelled events are left out, and so are the events whose dates,
+ * time zone or RRULE cannot be read.
+ *
+ * @param ics - The iCalendar data.
+ * @param options - The dates from which the recurring events are expanded.
+ * @returns - The occurrences of the events, as whole days.
+ */
+export function parseICalendarEvents(
+  ics: string,
+  { rangeStart, rangeEnd = addYears(newDate(), 10) }: ICalendarOptions = {},
+): ICalendarEvent[] {
+  const events: ICalendarEvent[] = [];
+  // The components inside the event, e.g. its alarms
+  let depth = 0;
+  let event: EventProperties | null = null;
+
+  for (const { name, params, value } of getContentLines(ics)) {
+    if (name === "BEGIN") {
+      if (event) {
+        depth++;
+      } else if (value.toUpperCase() === "VEVENT") {
+        event = { exdates: [] };
+      }
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    if (name === "END") {
+      if (depth > 0) {
+        depth--;
+      } else {
+        events.push(...getEventOccurrences(event, rangeStart, rangeEnd));
+        event = null;
+      }
+      continue;
+    }
+    if (depth > 0) {
+      continue;
+    }
+
+    switch (name) {
+      case "SUMMARY":
+        event.summary = unescapeText(value);
+        break;
+      case "DTSTART":
+        event.start = parseDateValue(value, params) ?? undefined;
+        event.allDay = params["VALUE"] === "DATE" || /^\d{8}$/.test(value);
+        break;
+      case "DTEND":
+        event.end = parseDateValue(value, params) ?? undefined;
+        if (!event.end) {
+          event.invalid = true;
+        }
+        break;
+      case "DURATION":
+        event.duration = value;
+        break;
+      case "RRULE":
+        event.rrule = value;
+        break;
+      case "EXDATE":
+        for (const exdate of value.split(",")) {
+          const date = parseDateValue(exdate, params);
+          if (date) {
+            event.exdates.push(date);
+          }
+        }
+        break;
+      case "STATUS":
+        event.cancelled = value.toUpperCase() === "CANCELLED";
+        break;
+    }
+  }
+  return events;
+}
+
+/**
+ * Parses the events of an iCalendar (.ics) file as holidays, one for each
+ * of their days, e.g. for `getHolidaysMap` or the holidays prop.
+ *
+ * @param ics - The iCalendar data.
+ * @param options - The dates from which the recurring events are expanded.
+ * @returns - The days of the events, named after their summaries.
+ */
+export function parseICalendarHolidays(
+  ics: string,
+  options?: ICalendarOptions,
+): HolidayItem[] {
+  const holidays: HolidayItem[] = [];
+
+  for (const { summary, start, end } of parseICalendarEvents(ics, options)) {
+    for (let date = start; !isAfter(date, end); date = addDays(date, 1)) {
+      holidays.push({ date, holidayName: summary });
+    }
+  }
+  return holidays;
+}
+
+/**
+ * Parses the events of an iCalendar (.ics) file as date intervals, e.g. for
+ * the excludeDateIntervals prop.
+ *
+ * @param ics - The iCalendar data.
+ * @param options - The dates from which the recurring events are expanded.
+ * @returns - The intervals from the first to the last day of the events.
+ */
+export function parseICalendarIntervals(
+  ics: string,
+  options?: ICalendarOptions,
+): { start: Date; end: Date }[] {
+  return parseICalendarEvents(ics, options).map(({ start, end }) => ({
+    start,
+    end,
+  }));
+}
@@ -1,8 +1,13 @@
 import { clsx } from "clsx";
 import React, { Component, cloneElement } from "react";
 
-import Calendar, { OUTSIDE_CLICK_IGNORE_CLASS } from "./calendar";
+import Calendar, {
+  OUTSIDE_CLICK_IGNORE_CLASS,
+  getMonthDataKey,
+} from "./calendar";
 import CalendarIcon from "./calendar_icon";
+import { getCalendarSystem, isGregorianCalendar } from "./calendar_system";
+import { applyDateMask, getDateMask } from "./date_mask";
 import {
   newDate,
   isDate,
@@ -10,12 +15,15 @@ import {
   isAfter,
   isEqual,
   setTime,
+  getTimeOfDay,
+  hasTimeFormat,
+  getTimeIntervalSeconds,
   isValid,
   getSeconds,
   getMinutes,
   getHours,
   addDays,
-  addMinutes,
+  addSeconds,
   addMonths,
   addWeeks,
   subDays,
@@ -27,9 +35,14 @@ import {
   isDayInRange,
   getEffectiveMinDate,
   getEffectiveMaxDate,
+  getFiscalHalfYear,
+  getFiscalQuarter,
+  getFiscalYear,
   parseDate,
   parseDateForNavigation,
+  parseRelativeDate,
   formatDate,
+  formatSecondaryTime,
   safeDateFormat,
   safeDateRangeFormat,
   getHighLightDaysMap,
@@ -37,7 +50,14 @@ import {
   getMonth,
   getStartOfWeek,
   getEndOfWeek,
+  getCalendarStartDay,
+  getLocaleDirection,
+  getLogicalArrowKey,
+  getNumberingSystem,
+  localizeDigits,
+  delocalizeDigits,
   registerLocale,
+  registerRelativeDateWords,
   setDefaultLocale,
   getDefaultLocale,
   DEFAULT_YEAR_ITEM_NUMBER,
@@ -45,35 +65,122 @@ import {
   isMonthDisabled,
   isYearDisabled,
   safeMultipleDatesFormat,
+  safeMultipleRangesFormat,
+  getNextSelectedRanges,
+  getDerivedCompareRange,
+  getPendingRange,
   getHolidaysMap,
   isDateBefore,
+  isRangeLengthInvalid,
+  isOutsideRangeLength,
   getStartOfDay,
   getEndOfDay,
   isSameMinute,
   toZonedTime,
+  nowInTimeZone,
   fromZonedTime,
+  getBrowserTimeZone,
+  getLocaleWeekInfo,
+  isWeekend,
+  isBusinessDay,
+  addBusinessDays,
+  countBusinessDays,
+  isHolidayRuleItem,
+  getEasterSunday,
   safeToDate,
+  type BusinessCalendar,
+  type DateNumberType,
   type HighlightDate,
   type HolidayItem,
+  type HolidayRule,
+  type HolidayRuleItem,
+  type SelectedRange,
+  type CompareRangeMode,
+  type TextDirection,
   type TimeZone,
   KeyType,
   DATE_RANGE_SEPARATOR,
 } from "./date_utils";
 import PopperComponent from "./popper_component";
 import Portal from "./portal";
+import SegmentedDateInput from "./segmented_date_input";
 import TabLoop from "./tab_loop";
 
 import type { ClickOutsideHandler } from "./click_outside_wrapper";
+import type { MonthDayData } from "./day";
+import {
+  dateFnsAdapter,
+  getDateFormatAdapter,
+  getValueTypeAdapter,
+  type DateAdapter,
+  type ValueType,
+  type ValueTypeDates,
+} from "./date_adapter";
 
 export { default as CalendarContainer } from "./calendar_container";
 
-export { registerLocale, setDefaultLocale, getDefaultLocale };
+export {
+  registerLocale,
+  registerRelativeDateWords,
+  setDefaultLocale,
+  getDefaultLocale,
+  getLocaleWeekInfo,
+  isWeekend,
+  isBusinessDay,
+  addBusinessDays,
+  countBusinessDays,
+  getEasterSunday,
+  type BusinessCalendar,
+  type HolidayRule,
+  type HolidayRuleItem,
+};
 
 export {
   ReactDatePickerCustomHeaderProps,
   ReactDatePickerCustomDayNameProps,
 } from "./calendar";
 
+export { DayData, MonthDayData } from "./day";
+
+export { DateRangePreset } from "./presets";
+
+export { default as RecurrenceEditor } from "./recurrence_editor";
+
+export {
+  parseICalendarEvents,
+  parseICalendarHolidays,
+  parseICalendarIntervals,
+  type ICalendarEvent,
+  type ICalendarOptions,
+} from "./icalendar";
+
+export {
+  dateFnsAdapter,
+  isoDateAdapter,
+  isoDateTimeAdapter,
+  createLuxonAdapter,
+  createDayjsAdapter,
+  type DateAdapter,
+  type CalendarFormats,
+  type ValueType,
+  type ValueTypeDates,
+  type LuxonDateTime,
+  type LuxonDateTimeClass,
+  type DayjsDate,
+  type DayjsFunction,
+} from "./date_adapter";
+
+export {
+  parseRRule,
+  formatRRule,
+  getRecurrenceDates,
+  type RecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceWeekday,
+  type RecurrenceByDay,
+  type RelativeDateWords,
+} from "./date_utils";
+
 // Compares dates year+month combinations
 function hasPreSelectionChanged(
   date1?: Date | null,
@@ -92,9 +199,11 @@ function hasPreSelectionChanged(
  * General datepicker component.
  */
 const INPUT_ERR_1 = "Date input not valid.";
+const INPUT_ERR_2 = "Date range length not valid.";
 
+// The dates are "yyyy-MM-dd" strings, or dates, e.g. from parseICalendarHolidays
 interface Holiday {
-  date: string;
+  date: string | Date;
   holidayName: string;
 }
 
@@ -110,11 +219,52 @@ interface PopperComponentProps extends React.ComponentPropsWithoutRef<
   typeof PopperComponent
 > {}
 
+/**
+ * Details of a change: the preset that was picked, the time zone chosen in
+ * the time zone select, and the number of working days of the range in
+ * business-day mode.
+ */
+export interface SelectionMeta {
+  presetId?: string;
+  timeZone?: TimeZone;
+  businessDayCount?: number;
+}
+
 // see https://github.com/microsoft/TypeScript/issues/31501
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type OmitUnion<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
-export type DatePickerProps = OmitUnion<
+type DatePickerEvent =
+  | React.MouseEvent<HTMLElement>
+  | React.KeyboardEvent<HTMLElement>;
+
+// The dates of the props: the dates of the `valueType`, or else those of the
+// `dateAdapter`, which are `Date`s by default
+type AdaptedDate<
+  TDate,
+  TValueType extends ValueType,
+> = ValueType extends TValueType
+  ? unknown extends TDate
+    ? Date
+    : TDate
+  : ValueTypeDates[TValueType];
+
+export type DatePickerProps<
+  TDate = Date,
+  TValueType extends ValueType = ValueType,
+> = OmitUnion<
   CalendarProps,
+  | "selected"
+  | "startDate"
+  | "endDate"
+  | "selectedDates"
+  | "selectedRanges"
+  | "compareStartDate"
+  | "compareEndDate"
+  | "minDate"
+  | "maxDate"
+  | "openToDate"
+  | "excludeDates"
+  | "includeDates"
   | "setOpen"
   | "dateFormat"
   | "preSelection"
@@ -122,19 +272,31 @@ export type DatePickerProps = OmitUnion<
   | "onClickOutside"
   | "highlightDates"
   | "holidays"
+  | "businessCalendar"
+  | "holidayRules"
   | "shouldFocusDayInline"
   | "monthSelectedIn"
   | "onDropdownFocus"
   | "onTimeChange"
+  | "onTimeZoneChange"
   | "className"
   | "container"
   | "handleOnKeyDown"
   | "handleOnDayKeyDown"
   | "isInputFocused"
   | "setPreSelection"
+  | "onPresetSelect"
+  | "monthData"
+  | "onMonthDataLoad"
+  | "isPresetRangeDisabled"
+  | "compareRangeMode"
+  | "selectingCompareRange"
+  | "onSelectingCompareRangeChange"
   | "selectsRange"
   | "selectsMultiple"
+  | "selectsMultipleRanges"
   | "dropdownMode"
+  | "dateAdapter"
 > &
   Partial<Pick<CalendarIconProps, "icon">> &
   OmitUnion<PortalProps, "children" | "portalId"> &
@@ -147,6 +309,11 @@ export type DatePickerProps = OmitUnion<
     | "popperOnKeyDown"
     | "showArrow"
   > & {
+    /**
+     * The format of the title of the month, with the tokens of the
+     * `dateAdapter` when it has `calendarFormats`. Defaults to "LLLL yyyy",
+     * or the `monthYear` format of the adapter.
+     */
     dateFormatCalendar?: CalendarProps["dateFormat"];
     calendarClassName?: CalendarProps["className"];
     calendarContainer?: CalendarProps["container"];
@@ -178,7 +345,7 @@ export type DatePickerProps = OmitUnion<
     onCalendarClose?: VoidFunction;
     strictParsing?: boolean;
     swapRange?: boolean;
-    onInputError?: (error: { code: 1; msg: string }) => void;
+    onInputError?: (error: { code: 1 | 2; msg: string }) => void;
     allowSameDay?: boolean;
     withPortal?: boolean;
     focusSelectedMonth?: boolean;
@@ -186,10 +353,26 @@ export type DatePickerProps = OmitUnion<
     calendarIconClassname?: never;
     calendarIconClassName?: string;
     toggleCalendarOnIconClick?: boolean;
-    holidays?: Holiday[];
-    startDate?: Date | null;
-    endDate?: Date | null;
-    selected?: Date | null;
+    /**
+     * The holidays: their dates, or rules of the holidays that recur every
+     * year, e.g. `{ rule: { month: 11, weekday: 4, nth: 4 }, holidayName:
+     * "Thanksgiving" }`, which are expanded for the months that are shown.
+     */
+    holidays?: (Holiday | HolidayRuleItem)[];
+    startDate?: NoInfer<AdaptedDate<TDate, TValueType>> | null;
+    endDate?: NoInfer<AdaptedDate<TDate, TValueType>> | null;
+    selected?: NoInfer<AdaptedDate<TDate, TValueType>> | null;
+    selectedDates?: NoInfer<AdaptedDate<TDate, TValueType>>[];
+    selectedRanges?: SelectedRange<NoInfer<AdaptedDate<TDate, TValueType>>>[];
+    compareStartDate?: NoInfer<AdaptedDate<TDate, TValueType>> | null;
+    compareEndDate?: NoInfer<AdaptedDate<TDate, TValueType>> | null;
+    minDate?: NoInfer<AdaptedDate<TDate, TValueType>>;
+    maxDate?: NoInfer<AdaptedDate<TDate, TValueType>>;
+    openToDate?: NoInfer<AdaptedDate<TDate, TValueType>>;
+    excludeDates?:
+      | { date: NoInfer<AdaptedDate<TDate, TValueType>>; message?: string }[]
+      | NoInfer<AdaptedDate<TDate, TValueType>>[];
+    includeDates?: NoInfer<AdaptedDate<TDate, TValueType>>[];
     /**
      * The IANA timezone identifier (e.g., "America/New_York", "UTC", "Europe/London").
      * When set, the datepicker will display dates/times in this timezone and
@@ -210,6 +393,53 @@ export type DatePickerProps = OmitUnion<
      * ```
      */
     timeZone?: TimeZone;
+    /**
+     * Connects the date picker to a date library: `selected`, `startDate`,
+     * `endDate`, `selectedDates`, `selectedRanges`, `compareStartDate`,
+     * `compareEndDate`, `minDate`, `maxDate`, `openToDate`, `excludeDates`
+     * and `includeDates` take the dates of the library, `onChange` and
+     * `onSelect` return them, and the input is formatted and parsed with the
+     * library's format tokens. The adapters of `createLuxonAdapter` and
+     * `createDayjsAdapter` also format the month and weekday names and the
+     * title of the month.
+     */
+    dateAdapter?: DateAdapter<AdaptedDate<TDate, TValueType>>;
+    /**
+     * The type of the dates, when there is no `dateAdapter`: `Date`s, ISO
+     * 8601 dates ("2026-03-14") or ISO 8601 date-times. ISO dates are days
+     * in the local time zone, or in the `timeZone`, so they are never
+     * shifted by its offset.
+     */
+    valueType?: TValueType;
+    /**
+     * Replaces the text input with a field of segments built from the date
+     * format, e.g. month, day and year for "MM/dd/yyyy", that are changed with
+     * the arrow keys or by typing. Only for a single date without a custom input.
+     */
+    segmentedDateInput?: boolean;
+    /**
+     * The aria labels of the year, month and day segments of the segmented
+     * date input. The time segments take the labels of the segmented time
+     * field, e.g. `hourAriaLabel`, and `emptySegmentAriaLabel` is the aria
+     * value text of the segments that are not filled in.
+     */
+    yearAriaLabel?: string;
+    monthAriaLabel?: string;
+    dayAriaLabel?: string;
+    /**
+     * Also parses typed dates relative to today, e.g. "tomorrow", "next fri",
+     * "+3d" or "end of month", when they don't match the date format. The
+     * words of other locales are registered with `registerRelativeDateWords`.
+     */
+    relativeDateParsing?: boolean;
+    /**
+     * Formats the input as it is typed: the separators of the date format are
+     * inserted and the characters that aren't allowed at their position are
+     * dropped, e.g. "03142026" is "03/14/2026" for "MM/dd/yyyy". Date ranges
+     * are masked with the `rangeSeparator`. Formats with the names of months
+     * or weekdays aren't masked.
+     */
+    mask?: boolean;
     value?: string;
     customInputRef?: string;
     id?: string;
@@ -240,46 +470,85 @@ export type DatePickerProps = OmitUnion<
       },
     ) => void;
     onSelect?: (
-      date: Date | null,
-      event?:
-        | React.MouseEvent<HTMLElement, MouseEvent>
-        | React.KeyboardEvent<HTMLElement>,
+      date: NoInfer<AdaptedDate<TDate, TValueType>> | null,
+      event?: DatePickerEvent,
     ) => void;
   } & (
     | {
         selectsRange?: false | undefined;
         selectsMultiple?: false | undefined;
+        selectsMultipleRanges?: false | undefined;
         formatMultipleDates?: never;
+        compareRangeMode?: never;
         onChange?: (
-          date: Date | null,
-          event?:
-            | React.MouseEvent<HTMLElement>
-            | React.KeyboardEvent<HTMLElement>,
+          date: NoInfer<AdaptedDate<TDate, TValueType>> | null,
+          event?: DatePickerEvent,
+          selectionMeta?: SelectionMeta,
         ) => void;
       }
     | {
         selectsRange: true;
         selectsMultiple?: false | undefined;
+        selectsMultipleRanges?: false | undefined;
         formatMultipleDates?: never;
+        compareRangeMode?: never;
         onChange?: (
-          date: [Date | null, Date | null],
-          event?:
-            | React.MouseEvent<HTMLElement>
-            | React.KeyboardEvent<HTMLElement>,
+          date: [
+            NoInfer<AdaptedDate<TDate, TValueType>> | null,
+            NoInfer<AdaptedDate<TDate, TValueType>> | null,
+          ],
+          event?: DatePickerEvent,
+          selectionMeta?: SelectionMeta,
         ) => void;
       }
     | {
         selectsRange?: false | undefined;
         selectsMultiple: true;
+        selectsMultipleRanges?: false | undefined;
         formatMultipleDates?: (
           dates: Date[],
           formatDate: (date: Date) => string,
         ) => string;
+        compareRangeMode?: never;
         onChange?: (
-          dates: Date[] | null,
-          event?:
-            | React.MouseEvent<HTMLElement>
-            | React.KeyboardEvent<HTMLElement>,
+          dates: NoInfer<AdaptedDate<TDate, TValueType>>[] | null,
+          event?: DatePickerEvent,
+        ) => void;
+      }
+    | {
+        selectsRange?: false | undefined;
+        selectsMultiple?: false | undefined;
+        selectsMultipleRanges: true;
+        formatMultipleDates?: never;
+        compareRangeMode?: never;
+        onChange?: (
+          ranges: SelectedRange<NoInfer<AdaptedDate<TDate, TValueType>>>[],
+          event?: DatePickerEvent,
+        ) => void;
+      }
+    | {
+        selectsRange: true;
+        selectsMultiple?: false | undefined;
+        selectsMultipleRanges?: false | undefined;
+        formatMultipleDates?: never;
+        /**
+         * Shows a comparison range next to the range. It is either picked by the user
+         * ("custom") or derived from the range ("previousPeriod", "previousYear").
+         */
+        compareRangeMode: CompareRangeMode;
+        onChange?: (
+          ranges: {
+            range: [
+              NoInfer<AdaptedDate<TDate, TValueType>> | null,
+              NoInfer<AdaptedDate<TDate, TValueType>> | null,
+            ];
+            compareRange: [
+              NoInfer<AdaptedDate<TDate, TValueType>> | null,
+              NoInfer<AdaptedDate<TDate, TValueType>> | null,
+            ];
+          },
+          event?: DatePickerEvent,
+          selectionMeta?: SelectionMeta,
         ) => void;
       }
   );
@@ -288,11 +557,13 @@ export type DatePickerProps = OmitUnion<
 type OnChangeSingle = (
   date: Date | null,
   event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+  selectionMeta?: SelectionMeta,
 ) => void;
 
 type OnChangeRange = (
   date: [Date | null, Date | null],
   event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+  selectionMeta?: SelectionMeta,
 ) => void;
 
 type OnChangeMultiple = (
@@ -300,6 +571,188 @@ type OnChangeMultiple = (
   event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
 ) => void;
 
+type OnChangeCompareRange = (
+  ranges: {
+    range: [Date | null, Date | null];
+    compareRange: [Date | null, Date | null];
+  },
+  event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+  selectionMeta?: SelectionMeta,
+) => void;
+
+type OnChangeMultipleRanges = (
+  ranges: SelectedRange[],
+  event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+) => void;
+
+/**
+ * Converts the dates of the props from the dates of the `dateAdapter` to
+ * `Date`s, and the dates passed to `onChange` and `onSelect` back.
+ *
+ * @param props - The props with the dates of the adapter.
+ * @param timeZone - The time zone of the picker.
+ * @returns - The props with `Date`s.
+ */
+function toDateProps<TDate, TValueType extends ValueType>(
+  props: DatePickerProps<TDate, TValueType>,
+  timeZone?: TimeZone,
+): DatePickerProps {
+  // Without an adapter or a value type, the dates are `Date`s, passed on as
+  // they are
+  const adapter =
+    props.dateAdapter ??
+    ((props.valueType
+      ? getValueTypeAdapter(props.valueType)
+      : {
+          ...dateFnsAdapter,
+          toDate: (value: Date) => value,
+        }) as DateAdapter<unknown> as DateAdapter<
+      AdaptedDate<TDate, TValueType>
+    >);
+  const toDate = (
+    value: AdaptedDate<TDate, TValueType> | null | undefined,
+  ): Date | null | undefined =>
+    value === null
+      ? null
+      : value === undefined
+        ? undefined
+        : adapter.toDate(value, timeZone);
+  const fromDate = (
+    date: Date | null,
+  ): AdaptedDate<TDate, TValueType> | null =>
+    date ? adapter.fromDate(date, timeZone) : null;
+  const toDates = (
+    values: AdaptedDate<TDate, TValueType>[] | undefined,
+  ): Date[] | undefined =>
+    values?.flatMap((value) => adapter.toDate(value, timeZone) ?? []);
+  const fromRange = ([start, end]: [Date | null, Date | null]): [
+    AdaptedDate<TDate, TValueType> | null,
+    AdaptedDate<TDate, TValueType> | null,
+  ] => [fromDate(start), fromDate(end)];
+  // The excluded dates with a message are objects with the date
+  const excludeDates:
+    | (
+        | AdaptedDate<TDate, TValueType>
+        | { date: AdaptedDate<TDate, TValueType>; message?: string }
+      )[]
+    | undefined = props.excludeDates;
+  const hasMessage = (
+    value:
+      | AdaptedDate<TDate, TValueType>
+      | { date: AdaptedDate<TDate, TValueType>; message?: string },
+  ): value is { date: AdaptedDate<TDate, TValueType>; message?: string } =>
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    "date" in value;
+
+  // The selection mode and `onChange` are set by each branch of the union
+  const dateProps = {
+    ...props,
+    selectsRange: undefined,
+    selectsMultiple: undefined,
+    selectsMultipleRanges: undefined,
+    compareRangeMode: undefined,
+    formatMultipleDates: undefined,
+    onChange: undefined,
+    selected: toDate(props.selected),
+    startDate: toDate(props.startDate),
+    endDate: toDate(props.endDate),
+    selectedDates: toDates(props.selectedDates),
+    selectedRanges: props.selectedRanges?.flatMap(({ start, end }) => {
+      const startDate = adapter.toDate(start, timeZone);
+      return startDate ? [{ start: startDate, end: toDate(end) ?? null }] : [];
+    }),
+    compareStartDate: toDate(props.compareStartDate),
+    compareEndDate: toDate(props.compareEndDate),
+    minDate: toDate(props.minDate) ?? undefined,
+    maxDate: toDate(props.maxDate) ?? undefined,
+    openToDate: toDate(props.openToDate) ?? undefined,
+    excludeDates: excludeDates?.flatMap((value) => {
+      const date = adapter.toDate(
+        hasMessage(value) ? value.date : value,
+        timeZone,
+      );
+      return date
+        ? [{ date, message: hasMessage(value) ? value.message : undefined }]
+        : [];
+    }),
+    includeDates: toDates(props.includeDates),
+    dateAdapter: props.dateAdapter && getDateFormatAdapter(props.dateAdapter),
+    valueType: undefined,
+    onSelect:
+      props.onSelect &&
+      ((date: Date | null, ...args: [event?: DatePickerEvent]) =>
+        props.onSelect?.(fromDate(date), ...args)),
+  };
+
+  if (props.compareRangeMode) {
+    const { onChange } = props;
+    return {
+      ...dateProps,
+      selectsRange: true,
+      compareRangeMode: props.compareRangeMode,
+      onChange:
+        onChange &&
+        ((ranges, ...args) =>
+          onChange(
+            {
+              range: fromRange(ranges.range),
+              compareRange: fromRange(ranges.compareRange),
+            },
+            ...args,
+          )),
+    };
+  }
+  if (props.selectsRange) {
+    const { onChange } = props;
+    return {
+      ...dateProps,
+      selectsRange: true,
+      onChange:
+        onChange && ((dates, ...args) => onChange(fromRange(dates), ...args)),
+    };
+  }
+  if (props.selectsMultiple) {
+    const { onChange } = props;
+    return {
+      ...dateProps,
+      selectsMultiple: true,
+      formatMultipleDates: props.formatMultipleDates,
+      onChange:
+        onChange &&
+        ((dates, ...args) =>
+          onChange(
+            dates && dates.flatMap((date) => fromDate(date) ?? []),
+            ...args,
+          )),
+    };
+  }
+  if (props.selectsMultipleRanges) {
+    const { onChange } = props;
+    return {
+      ...dateProps,
+      selectsMultipleRanges: true,
+      onChange:
+        onChange &&
+        ((ranges, ...args) =>
+          onChange(
+            ranges.map(({ start, end }) => ({
+              start: adapter.fromDate(start, timeZone),
+              end: fromDate(end),
+            })),
+            ...args,
+          )),
+    };
+  }
+  const { onChange } = props;
+  return {
+    ...dateProps,
+    onChange:
+      onChange && ((date, ...args) => onChange(fromDate(date), ...args)),
+  };
+}
+
 interface DatePickerState {
   open: boolean;
   wasHidden: boolean;
@@ -314,14 +767,24 @@ interface DatePickerState {
   focused?: CalendarProps["isInputFocused"];
   highlightDates: Required<CalendarProps>["highlightDates"];
   isRenderAriaLiveMessage?: boolean;
+  selectingCompareRange?: boolean;
+  rangeEndTime?: Date;
+  timeZone?: TimeZone;
+  // The data loaded with loadMonthData, along with the loader it came from
+  loadedMonthData?: {
+    loadMonthData: CalendarProps["loadMonthData"];
+    monthData: Record<string, MonthDayData>;
+  };
 }
 
-export class DatePicker extends Component<DatePickerProps, DatePickerState> {
+export class DatePicker<
+  TDate = Date,
+  TValueType extends ValueType = ValueType,
+> extends Component<DatePickerProps<TDate, TValueType>, DatePickerState> {
   static get defaultProps() {
     return {
       allowSameDay: false,
       dateFormat: "MM/dd/yyyy",
-      dateFormatCalendar: "LLLL yyyy",
       disabled: false,
       disabledKeyboardNavigation: false,
       dropdownMode: "scroll" as const,
@@ -342,6 +805,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       showFourColumnMonthYearPicker: false,
       showYearPicker: false,
       showQuarterYearPicker: false,
+      showHalfYearPicker: false,
       showWeekPicker: false,
       strictParsing: false,
       swapRange: false,
@@ -368,9 +832,33 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     };
   }
 
-  constructor(props: DatePickerProps) {
+  // The props with `Date`s, converted once for each props object and time zone
+  private dateProps = new WeakMap<
+    DatePickerProps<TDate, TValueType>,
+    { timeZone?: TimeZone; dateProps: DatePickerProps }
+  >();
+
+  getDateProps = (
+    props: DatePickerProps<TDate, TValueType> = this.props,
+  ): DatePickerProps => this.getDatePropsInTimeZone(props, this.getTimeZone());
+
+  getDatePropsInTimeZone = (
+    props: DatePickerProps<TDate, TValueType>,
+    timeZone: TimeZone | undefined,
+  ): DatePickerProps => {
+    const converted = this.dateProps.get(props);
+    if (converted && converted.timeZone === timeZone) {
+      return converted.dateProps;
+    }
+    const dateProps = toDateProps(props, timeZone);
+    this.dateProps.set(props, { timeZone, dateProps });
+    return dateProps;
+  };
+
+  constructor(props: DatePickerProps<TDate, TValueType>) {
     super(props);
-    this.state = this.calcInitialState();
+    // There is no state yet, so the time zone is the timeZone prop
+    this.state = this.calcInitialState(props.timeZone);
     this.preventFocusTimeout = undefined;
   }
 
@@ -383,7 +871,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   }
 
   componentDidUpdate(
-    prevProps: DatePickerProps,
+    prevProps: DatePickerProps<TDate, TValueType>,
     prevState: DatePickerState,
   ): void {
     // Update preSelection when selected/startDate prop changes to a different month/year.
@@ -391,13 +879,19 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     // (e.g., via "Today" or "This Week" buttons). (Fix for #3367)
     if (
       this.props.selectsRange &&
-      hasPreSelectionChanged(prevProps.startDate, this.props.startDate)
+      hasPreSelectionChanged(
+        this.getDateProps(prevProps).startDate,
+        this.getDateProps().startDate,
+      )
     ) {
-      this.setPreSelection(this.props.startDate);
+      this.setPreSelection(this.getDateProps().startDate);
     } else if (
-      hasPreSelectionChanged(prevProps.selected, this.props.selected)
+      hasPreSelectionChanged(
+        this.getDateProps(prevProps).selected,
+        this.getDateProps().selected,
+      )
     ) {
-      this.setPreSelection(this.props.selected);
+      this.setPreSelection(this.getDateProps().selected);
     }
     if (
       this.state.monthSelectedIn !== undefined &&
@@ -417,6 +911,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     ) {
       this.setState({ monthSelectedIn: 0 });
     }
+    // A new timeZone prop replaces the time zone chosen in the select
+    if (prevProps.timeZone !== this.props.timeZone && this.state.timeZone) {
+      this.setState({ timeZone: undefined });
+    }
     if (prevProps.highlightDates !== this.props.highlightDates) {
       this.setState({
         highlightDates: getHighLightDaysMap(this.props.highlightDates),
@@ -424,7 +922,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     }
     if (
       !prevState.focused &&
-      !isEqual(prevProps.selected, this.props.selected)
+      !isEqual(
+        this.getDateProps(prevProps).selected,
+        this.getDateProps().selected,
+      )
     ) {
       this.setState({ inputValue: null });
     }
@@ -457,14 +958,108 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
   input: HTMLElement | null = null;
 
-  getPreSelection = (): Date => {
-    const { timeZone } = this.props;
-    const baseDate = this.props.openToDate
-      ? this.props.openToDate
-      : this.props.selectsEnd && this.props.startDate
-        ? this.props.startDate
-        : this.props.selectsStart && this.props.endDate
-          ? this.props.endDate
+  getDirection = (): TextDirection =>
+    this.props.dir ?? getLocaleDirection(this.props.locale);
+
+  getNumberingSystem = (): string =>
+    getNumberingSystem(this.props.locale, this.props.numberingSystem);
+
+  getCalendarStartDay = (): DateNumberType | undefined =>
+    getCalendarStartDay(this.props.locale, this.props.calendarStartDay);
+
+  // The business calendar of each props object, so that its holidays are read
+  // once for all the days of the calendar
+  private businessCalendars = new WeakMap<
+    DatePickerProps<TDate, TValueType>,
+    BusinessCalendar
+  >();
+
+  getBusinessCalendar = (): BusinessCalendar | undefined => {
+    if (!this.props.businessDays) {
+      return undefined;
+    }
+    let businessCalendar = this.businessCalendars.get(this.props);
+    if (!businessCalendar) {
+      businessCalendar = {
+        locale: this.props.locale,
+        weekendDays: this.props.weekendDays,
+        holidays: [
+          ...(this.modifyHolidays() ?? []),
+          ...(this.getHolidayRules() ?? []),
+        ],
+      };
+      this.businessCalendars.set(this.props, businessCalendar);
+    }
+    return businessCalendar;
+  };
+
+  // In business-day mode only the working days can be picked
+  isDateDisabled = (date: Date): boolean =>
+    isDayDisabled(date, {
+      ...this.getDateProps(),
+      businessCalendar: this.getBusinessCalendar(),
+    }) || this.isDayDataDisabled(date);
+
+  // The data loaded with loadMonthData is kept while the calendar is closed,
+  // until loadMonthData changes
+  getMonthData = (): Record<string, MonthDayData> => {
+    const { loadedMonthData } = this.state;
+
+    return loadedMonthData &&
+      loadedMonthData.loadMonthData === this.props.loadMonthData
+      ? loadedMonthData.monthData
+      : {};
+  };
+
+  handleMonthDataLoad = (monthKey: string, dayData: MonthDayData): void => {
+    this.setState(({ loadedMonthData }, { loadMonthData }) => ({
+      loadedMonthData: {
+        loadMonthData,
+        monthData: {
+          ...(loadedMonthData && loadedMonthData.loadMonthData === loadMonthData
+            ? loadedMonthData.monthData
+            : {}),
+          [monthKey]: dayData,
+        },
+      },
+    }));
+  };
+
+  // The days of the months whose data is still loading can't be picked yet
+  isDayDataDisabled = (date: Date): boolean =>
+    !!this.calendar?.isMonthLoading(date) ||
+    !!this.getMonthData()[
+      getMonthDataKey(date, getCalendarSystem(this.props.calendarSystem))
+    ]?.[formatDate(date, "yyyy-MM-dd")]?.disabled;
+
+  // The time zone chosen in the time zone select, or the timeZone prop
+  getTimeZone = (): TimeZone | undefined =>
+    this.state.timeZone ?? this.props.timeZone;
+
+  // The time zone is reported along with the dates when the user can choose it
+  getSelectionMeta = (
+    selectionMeta?: SelectionMeta,
+  ): SelectionMeta | undefined =>
+    this.props.showTimeZoneSelect
+      ? {
+          ...selectionMeta,
+          timeZone: this.getTimeZone() ?? getBrowserTimeZone(),
+        }
+      : selectionMeta;
+
+  getPreSelection = (): Date =>
+    this.calcPreSelection(this.getDateProps(), this.getTimeZone());
+
+  calcPreSelection = (
+    { openToDate, startDate, endDate }: DatePickerProps,
+    timeZone: TimeZone | undefined,
+  ): Date => {
+    const baseDate = openToDate
+      ? openToDate
+      : this.props.selectsEnd && startDate
+        ? startDate
+        : this.props.selectsStart && endDate
+          ? endDate
           : newDate();
 
     // Convert to the specified timezone for display
@@ -476,7 +1071,13 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   // dates from shifting in timezones west of UTC. See issue #6105.
   modifyHolidays = () =>
     this.props.holidays?.reduce<HolidayItem[]>((accumulator, holiday) => {
-      const date = parseDate(holiday.date, "yyyy-MM-dd", undefined, false);
+      if (isHolidayRuleItem(holiday)) {
+        return accumulator;
+      }
+      const date =
+        typeof holiday.date === "string"
+          ? parseDate(holiday.date, "yyyy-MM-dd", undefined, false)
+          : holiday.date;
       if (!date) {
         return accumulator;
       }
@@ -484,11 +1085,14 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       return [...accumulator, { ...holiday, date }];
     }, []);
 
-  calcInitialState = (): DatePickerState => {
-    const { timeZone } = this.props;
-    const defaultPreSelection = this.getPreSelection();
-    const minDate = getEffectiveMinDate(this.props);
-    const maxDate = getEffectiveMaxDate(this.props);
+  getHolidayRules = (): HolidayRuleItem[] | undefined =>
+    this.props.holidays?.filter(isHolidayRuleItem);
+
+  calcInitialState = (timeZone: TimeZone | undefined): DatePickerState => {
+    const dateProps = this.getDatePropsInTimeZone(this.props, timeZone);
+    const defaultPreSelection = this.calcPreSelection(dateProps, timeZone);
+    const minDate = getEffectiveMinDate(dateProps);
+    const maxDate = getEffectiveMaxDate(dateProps);
     const boundedPreSelection =
       minDate && isBefore(defaultPreSelection, getStartOfDay(minDate))
         ? minDate
@@ -498,8 +1102,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
     // Convert selected/startDate to zoned time for display if timezone is specified
     let initialPreSelection = this.props.selectsRange
-      ? this.props.startDate
-      : this.props.selected;
+      ? dateProps.startDate
+      : this.props.selectsMultipleRanges
+        ? dateProps.selectedRanges?.[0]?.start
+        : dateProps.selected;
 
     if (initialPreSelection && timeZone) {
       initialPreSelection = toZonedTime(initialPreSelection, timeZone);
@@ -523,6 +1129,19 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   };
 
   getInputValue = (): string => {
+    const { value } = this.getDateProps();
+    const { inputValue } = this.state;
+
+    if (typeof value === "string") {
+      return value;
+    } else if (typeof inputValue === "string") {
+      return inputValue;
+    }
+    return localizeDigits(this.formatInputValue(), this.getNumberingSystem());
+  };
+
+  // Formats the selected dates for the input
+  formatInputValue = (): string => {
     const {
       locale,
       startDate,
@@ -532,43 +1151,94 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       selectedDates,
       selectsMultiple,
       selectsRange,
+      selectedRanges,
+      selectsMultipleRanges,
       formatMultipleDates,
-      value,
-      timeZone,
-    } = this.props;
+      calendarSystem,
+      dateAdapter,
+    } = this.getDateProps();
+    const timeZone = this.getTimeZone();
     const dateFormat =
       this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
 
-    const { inputValue } = this.state;
-
-    if (typeof value === "string") {
-      return value;
-    } else if (typeof inputValue === "string") {
-      return inputValue;
-    } else if (selectsRange) {
-      return safeDateRangeFormat(startDate, endDate, {
+    if (selectsRange) {
+      const formatOptions = {
         dateFormat,
         locale,
         rangeSeparator,
         timeZone,
-      });
+        calendarSystem,
+        dateAdapter,
+      };
+      return safeDateRangeFormat(startDate, endDate, formatOptions, (date) =>
+        this.withSecondaryTime(
+          safeDateFormat(date, formatOptions),
+          date,
+          dateFormat,
+        ),
+      );
     } else if (selectsMultiple) {
       if (formatMultipleDates) {
         const formatDateFn = (date: Date) =>
-          safeDateFormat(date, { dateFormat, locale, timeZone });
+          safeDateFormat(date, {
+            dateFormat,
+            locale,
+            timeZone,
+            calendarSystem,
+            dateAdapter,
+          });
         return formatMultipleDates(selectedDates ?? [], formatDateFn);
       }
       return safeMultipleDatesFormat(selectedDates ?? [], {
         dateFormat,
         locale,
         timeZone,
+        calendarSystem,
+        dateAdapter,
+      });
+    } else if (selectsMultipleRanges) {
+      return safeMultipleRangesFormat(selectedRanges ?? [], {
+        dateFormat,
+        locale,
+        rangeSeparator,
+        timeZone,
+        calendarSystem,
+        dateAdapter,
       });
     }
-    return safeDateFormat(selected, {
+    return this.withSecondaryTime(
+      safeDateFormat(selected, {
+        dateFormat,
+        locale,
+        timeZone,
+        calendarSystem,
+        dateAdapter,
+      }),
+      selected,
       dateFormat,
+    );
+  };
+
+  /**
+   * Adds the time in the secondary time zone to a formatted date, e.g.
+   * "10:00 EST (4:00 PM GMT+1)", when its format shows the time.
+   */
+  withSecondaryTime = (
+    formattedDate: string,
+    date: Date | null | undefined,
+    dateFormat: string | string[],
+  ): string => {
+    const { secondaryTimeZone, timeFormat, locale } = this.getDateProps();
+    if (!date || !secondaryTimeZone || !hasTimeFormat(dateFormat)) {
+      return formattedDate;
+    }
+
+    return `${formattedDate} (${formatSecondaryTime(
+      date,
+      secondaryTimeZone,
+      timeFormat,
       locale,
-      timeZone,
-    });
+    )})`;
   };
 
   resetHiddenStatus = (): void => {
@@ -621,7 +1291,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         preSelection:
           open && this.state.open
             ? this.state.preSelection
-            : this.calcInitialState().preSelection,
+            : this.calcInitialState(this.getTimeZone()).preSelection,
         lastPreSelectChange: PRESELECT_CHANGE_VIA_NAVIGATE,
       },
       () => {
@@ -720,7 +1390,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       // - "__/__/____" (cleared mask) → should clear selection
       // - "2025-02-45" (invalid date) → should keep previous selection
       const hasDateCharacters = /[a-zA-Z0-9]/.test(inputValue);
-      if (!hasDateCharacters && this.props.selected) {
+      if (!hasDateCharacters && this.getDateProps().selected) {
         this.setSelected(null, undefined, true);
       }
     }
@@ -747,11 +1417,113 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     }
   };
 
+  // Parses the typed text with the date adapter, or with date-fns
+  parseInputDate = (text: string, refDate?: Date): Date | null => {
+    const {
+      dateAdapter,
+      locale,
+      calendarSystem,
+      secondaryTimeZone,
+      relativeDateParsing,
+    } = this.getDateProps();
+    const dateFormat =
+      this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
+    // The time in the secondary time zone is only shown, e.g. " (4:00 PM GMT+1)"
+    const value = delocalizeDigits(
+      secondaryTimeZone && hasTimeFormat(dateFormat)
+        ? text.replace(/\s*\([^()]*\)\s*$/, "")
+        : text,
+    );
+    const strictParsing =
+      this.props.strictParsing ?? DatePicker.defaultProps.strictParsing;
+    const date = dateAdapter
+      ? this.parseAdaptedInputDate(value, refDate)
+      : parseDate(
+          value,
+          dateFormat,
+          locale,
+          strictParsing,
+          refDate,
+          calendarSystem,
+        );
+
+    if (date || !relativeDateParsing) {
+      return date;
+    }
+    // "Today" is in the time zone of the picker
+    return parseRelativeDate(
+      value,
+      locale,
+      nowInTimeZone(this.getTimeZone()),
+      this.getCalendarStartDay(),
+    );
+  };
+
+  parseAdaptedInputDate = (value: string, refDate?: Date): Date | null => {
+    const { dateAdapter, locale } = this.getDateProps();
+    const dateFormat =
+      this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
+    const strictParsing =
+      this.props.strictParsing ?? DatePicker.defaultProps.strictParsing;
+
+    for (const format of Array.isArray(dateFormat)
+      ? dateFormat
+      : [dateFormat]) {
+      const date = dateAdapter?.parse(
+        value,
+        format,
+        locale,
+        strictParsing,
+        refDate,
+      );
+      if (date) {
+        return date;
+      }
+    }
+    return null;
+  };
+
+  // Masks the typed text, keeping the caret after the same characters
+  maskInput = (input: HTMLInputElement): void => {
+    const { selectsRange, selectsMultiple, selectsMultipleRanges, locale } =
+      this.props;
+    const dateFormat =
+      this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
+    const fields =
+      !selectsMultiple &&
+      !selectsMultipleRanges &&
+      !this.getDateProps().dateAdapter &&
+      getDateMask(
+        Array.isArray(dateFormat) ? (dateFormat[0] ?? "") : dateFormat,
+        locale,
+        selectsRange ? (this.props.rangeSeparator as string) : undefined,
+      );
+
+    if (!fields) {
+      return;
+    }
+    // The native digits are masked like Latin ones, one character each
+    const masked = applyDateMask(
+      delocalizeDigits(input.value),
+      input.selectionStart ?? input.value.length,
+      fields,
+    );
+    const value = localizeDigits(masked.value, this.getNumberingSystem());
+    const { caret } = masked;
+    if (value !== input.value) {
+      input.value = value;
+      input.setSelectionRange(caret, caret);
+    }
+  };
+
   // handleChange is called when user types in the textbox
   handleChange = (
     ...allArgs: Parameters<Required<DatePickerProps>["onChangeRaw"]>
   ) => {
     const event = allArgs[0];
+    if (this.props.mask && event?.target instanceof HTMLInputElement) {
+      this.maskInput(event.target);
+    }
     if (this.props.onChangeRaw) {
       this.props.onChangeRaw.apply(this, allArgs);
       if (
@@ -769,17 +1541,23 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       lastPreSelectChange: PRESELECT_CHANGE_VIA_INPUT,
     });
 
-    const { selectsRange, startDate, endDate } = this.props;
+    const { selectsRange, startDate, endDate } = this.getDateProps();
 
     const dateFormat =
       this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
-    const strictParsing =
-      this.props.strictParsing ?? DatePicker.defaultProps.strictParsing;
 
     const value =
       event?.target instanceof HTMLInputElement ? event.target.value : "";
 
-    if (selectsRange) {
+    if (this.props.selectsMultipleRanges) {
+      // Typed ranges are not parsed, emptying the input clears the selection
+      if (!value) {
+        (this.getDateProps().onChange as OnChangeMultipleRanges | undefined)?.(
+          [],
+          event,
+        );
+      }
+    } else if (selectsRange) {
       const rangeSeparator = this.props.rangeSeparator as string;
       const trimmedRangeSeparator = rangeSeparator.trim();
 
@@ -791,19 +1569,9 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           2,
         )
         .map((val) => val.trim());
-      const startDateNew = parseDate(
-        valueStart ?? "",
-        dateFormat,
-        this.props.locale,
-        strictParsing,
-      );
+      const startDateNew = this.parseInputDate(valueStart ?? "");
       const endDateNew = startDateNew
-        ? parseDate(
-            valueEnd ?? "",
-            dateFormat,
-            this.props.locale,
-            strictParsing,
-          )
+        ? this.parseInputDate(valueEnd ?? "")
         : null;
       const startChanged =
         safeToDate(startDate)?.getTime() !== startDateNew?.getTime();
@@ -814,10 +1582,18 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         return;
       }
 
-      if (startDateNew && isDayDisabled(startDateNew, this.props)) {
+      if (startDateNew && this.isDateDisabled(startDateNew)) {
         return;
       }
-      if (endDateNew && isDayDisabled(endDateNew, this.props)) {
+      if (endDateNew && this.isDateDisabled(endDateNew)) {
+        return;
+      }
+      if (
+        startDateNew &&
+        endDateNew &&
+        isRangeLengthInvalid(startDateNew, endDateNew, this.props)
+      ) {
+        this.props.onInputError?.({ code: 2, msg: INPUT_ERR_2 });
         return;
       }
 
@@ -827,21 +1603,26 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         this.setState({ preSelection: startDateNew });
       }
 
-      this.props.onChange?.([startDateNew, endDateNew], event);
+      this.handleRangeChange(
+        [startDateNew, endDateNew],
+        event,
+        undefined,
+        false,
+      );
     } else {
       // not selectsRange
-      const date = parseDate(
+      const date = this.parseInputDate(
         value,
-        dateFormat,
-        this.props.locale,
-        strictParsing,
-        this.props.selected ?? undefined,
+        this.getDateProps().selected ?? undefined,
       );
 
       // Update selection if either (1) date was successfully parsed, or (2) input field is empty
       if (date || !value) {
         this.setSelected(date, event, true);
-      } else if (!this.props.inline) {
+      } else if (
+        !this.props.inline &&
+        isGregorianCalendar(this.props.calendarSystem)
+      ) {
         // If full date parsing failed but we have partial input,
         // try to extract date info for calendar navigation
         const navDate = parseDateForNavigation(
@@ -849,10 +1630,11 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           this.state.preSelection ?? undefined,
         );
         // Only update preSelection if navDate is valid and within min/max bounds
+        const { minDate, maxDate } = this.getDateProps();
         if (
           navDate &&
-          (!this.props.minDate || !isBefore(navDate, this.props.minDate)) &&
-          (!this.props.maxDate || !isAfter(navDate, this.props.maxDate))
+          (!minDate || !isBefore(navDate, minDate)) &&
+          (!maxDate || !isAfter(navDate, maxDate))
         ) {
           this.setState({ preSelection: navDate });
         }
@@ -867,12 +1649,24 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   ) => {
     if (this.props.readOnly) return;
 
-    const { selectsRange, startDate, endDate, locale, swapRange } = this.props;
+    const {
+      selectsRange,
+      selectsMultipleRanges,
+      selectedRanges,
+      locale,
+      swapRange,
+    } = this.getDateProps();
+    const { startDate, endDate } = this.getEditedRange();
     const dateFormat =
       this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
-    const isDateSelectionComplete =
-      !selectsRange ||
-      (startDate && !endDate && (swapRange || !isDateBefore(date, startDate)));
+    const pendingRange = getPendingRange(selectedRanges);
+    const isDateSelectionComplete = selectsMultipleRanges
+      ? pendingRange && (swapRange || !isDateBefore(date, pendingRange.start))
+      : !selectsRange ||
+        (startDate &&
+          !endDate &&
+          (swapRange || !isDateBefore(date, startDate)) &&
+          !this.isOutsideRangeLength(date));
 
     if (
       this.props.shouldCloseOnSelect &&
@@ -887,6 +1681,8 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       const formattedDate = safeDateFormat(date, {
         dateFormat,
         locale,
+        calendarSystem: this.props.calendarSystem,
+        dateAdapter: this.getDateProps().dateAdapter,
       });
       this.props.onChangeRaw(event, { date, formattedDate });
     }
@@ -908,7 +1704,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     keepInput?: boolean,
     monthSelectedIn?: number,
   ) => {
-    const { timeZone } = this.props;
+    const timeZone = this.getTimeZone();
 
     // If timezone is specified, convert the selected date from zoned time to UTC
     // This ensures the onChange callback receives a proper UTC Date object
@@ -921,51 +1717,65 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     if (this.props.showYearPicker) {
       if (
         changedDate !== null &&
-        isYearDisabled(getYear(changedDate), this.props)
+        isYearDisabled(getYear(changedDate), this.getDateProps())
       ) {
         return;
       }
     } else if (this.props.showMonthYearPicker) {
-      if (changedDate !== null && isMonthDisabled(changedDate, this.props)) {
+      if (
+        changedDate !== null &&
+        isMonthDisabled(changedDate, this.getDateProps())
+      ) {
         return;
       }
     } else {
-      if (changedDate !== null && isDayDisabled(changedDate, this.props)) {
+      if (changedDate !== null && this.isDateDisabled(changedDate)) {
         return;
       }
     }
 
+    if (
+      changedDate !== null &&
+      this.props.selectsRange &&
+      this.isOutsideRangeLength(changedDate)
+    ) {
+      this.props.onInputError?.({ code: 2, msg: INPUT_ERR_2 });
+      return;
+    }
+
+    const { startDate, endDate } = this.getEditedRange();
     const {
       onChange,
       selectsRange,
-      startDate,
-      endDate,
       selectsMultiple,
       selectedDates,
+      selectsMultipleRanges,
+      selectedRanges,
       minTime,
       swapRange,
-    } = this.props;
+    } = this.getDateProps();
 
     if (
-      !isEqual(this.props.selected, changedDate) ||
+      !isEqual(this.getDateProps().selected, changedDate) ||
       this.props.allowSameDay ||
       selectsRange ||
-      selectsMultiple
+      selectsMultiple ||
+      selectsMultipleRanges
     ) {
       if (changedDate !== null) {
         // Preserve previously selected time if only date is currently being changed
+        const { selected } = this.getDateProps();
         if (
-          this.props.selected &&
+          selected &&
           (!keepInput ||
             (!this.props.showTimeSelect &&
               !this.props.showTimeSelectOnly &&
-              !this.props.showTimeInput))
+              !this.props.showTimeInput &&
+              !hasTimeFormat(
+                this.props.dateFormat ?? DatePicker.defaultProps.dateFormat,
+              )))
         ) {
-          changedDate = setTime(changedDate, {
-            hour: getHours(this.props.selected),
-            minute: getMinutes(this.props.selected),
-            second: getSeconds(this.props.selected),
-          });
+          changedDate = setTime(changedDate, getTimeOfDay(selected));
         }
 
         // If minTime is present then set the time to minTime
@@ -993,7 +1803,16 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       }
 
       if (selectsRange) {
-        const onChangeRange = onChange as OnChangeRange | undefined;
+        const onChangeRange = (
+          range: [Date | null, Date | null],
+          event?:
+            | React.MouseEvent<HTMLElement>
+            | React.KeyboardEvent<HTMLElement>,
+        ) =>
+          this.handleRangeChange(
+            this.keepRangeTimes(this.snapRangeToWeeks(range)),
+            event,
+          );
         const noRanges = !startDate && !endDate;
         const hasStartRange = startDate && !endDate;
         const hasOnlyEndRange = !startDate && !!endDate;
@@ -1020,6 +1839,9 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           }
         }
         if (isRangeFilled) {
+          if (this.props.showRangeTimeSelect) {
+            this.setState({ rangeEndTime: endDate });
+          }
           onChangeRange?.([changedDate, null], event);
         }
       } else if (selectsMultiple) {
@@ -1043,39 +1865,287 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
             }
           }
         }
+      } else if (selectsMultipleRanges) {
+        if (changedDate !== null) {
+          (onChange as OnChangeMultipleRanges | undefined)?.(
+            getNextSelectedRanges(selectedRanges ?? [], changedDate, swapRange),
+            event,
+          );
+        }
       } else {
-        (onChange as OnChangeSingle | undefined)?.(changedDate, event);
+        this.handleSingleChange(changedDate, event);
       }
     }
 
     if (!keepInput) {
-      this.props.onSelect?.(changedDate, event);
+      this.getDateProps().onSelect?.(changedDate, event);
       this.setState({ inputValue: null });
     }
   };
 
+  // The event and selectionMeta are only passed when there are, to keep the usual arguments
+  handleSingleChange = (date: Date | null, event?: DatePickerEvent): void => {
+    const onChange = this.getDateProps().onChange as OnChangeSingle | undefined;
+    const selectionMeta = this.getSelectionMeta();
+
+    if (selectionMeta) {
+      onChange?.(date, event, selectionMeta);
+    } else if (event) {
+      onChange?.(date, event);
+    } else {
+      onChange?.(date);
+    }
+  };
+
+  // Keeps the wall time of the selection, which is now in the chosen time zone
+  handleTimeZoneChange = (timeZone: TimeZone): void => {
+    const previousTimeZone = this.getTimeZone();
+    const toTimeZone = (date: Date) =>
+      fromZonedTime(
+        previousTimeZone ? toZonedTime(date, previousTimeZone) : date,
+        timeZone,
+      );
+
+    this.setState({ timeZone, inputValue: null }, () => {
+      const {
+        selected,
+        startDate,
+        endDate,
+        selectsRange,
+        selectsMultiple,
+        selectsMultipleRanges,
+      } = this.getDateProps();
+
+      if (selectsRange) {
+        if (startDate || endDate) {
+          this.handleRangeChange(
+            [
+              startDate ? toTimeZone(startDate) : null,
+              endDate ? toTimeZone(endDate) : null,
+            ],
+            undefined,
+            undefined,
+            false,
+          );
+        }
+      } else if (!selectsMultiple && !selectsMultipleRanges && selected) {
+        this.handleSingleChange(toTimeZone(selected));
+      }
+    });
+  };
+
+  // Presets are checked like the picked ranges: their days and their length
+  isPresetRangeDisabled = ([startDate, endDate]: [Date, Date]): boolean =>
+    this.isDateDisabled(startDate) ||
+    this.isDateDisabled(endDate) ||
+    isRangeLengthInvalid(startDate, endDate, this.props);
+
+  handlePresetSelect = (
+    [startDate, endDate]: [Date, Date],
+    presetId: string,
+    event: React.MouseEvent<HTMLButtonElement>,
+  ): void => {
+    if (
+      this.props.readOnly ||
+      this.isPresetRangeDisabled([startDate, endDate])
+    ) {
+      return;
+    }
+
+    const timeZone = this.getTimeZone();
+
+    this.setState({ preSelection: startDate, inputValue: null });
+
+    // Like in setSelected, the calendar works in zoned time when timezone is specified
+    this.handleRangeChange(
+      timeZone
+        ? [fromZonedTime(startDate, timeZone), fromZonedTime(endDate, timeZone)]
+        : [startDate, endDate],
+      event,
+      { presetId },
+      false,
+    );
+
+    if (this.props.shouldCloseOnSelect && !this.props.showTimeSelect) {
+      this.sendFocusBackToInput();
+      this.setOpen(false);
+    }
+  };
+
+  // In week picker mode a range always spans whole weeks
+  snapRangeToWeeks = ([startDate, endDate]: [Date | null, Date | null]): [
+    Date | null,
+    Date | null,
+  ] => {
+    const { showWeekPicker, locale } = this.getDateProps();
+    const calendarStartDay = this.getCalendarStartDay();
+
+    if (!showWeekPicker) {
+      return [startDate, endDate];
+    }
+    return [
+      startDate && getStartOfWeek(startDate, locale, calendarStartDay),
+      endDate && getEndOfWeek(endDate, locale, calendarStartDay),
+    ];
+  };
+
+  // With separate start and end time lists, newly picked dates keep the times already chosen for them
+  keepRangeTimes = ([startDate, endDate]: [Date | null, Date | null]): [
+    Date | null,
+    Date | null,
+  ] => {
+    const {
+      showRangeTimeSelect,
+      showTimeSelect,
+      timeIntervals,
+      timeIntervalUnit,
+    } = this.getDateProps();
+
+    if (!showRangeTimeSelect || !showTimeSelect) {
+      return [startDate, endDate];
+    }
+
+    const { startDate: prevStartDate, endDate: prevEndDate } =
+      this.getEditedRange();
+    const endTime = prevEndDate ?? this.state.rangeEndTime;
+    const withTimeOf = (date: Date, time: Date): Date =>
+      setTime(date, getTimeOfDay(time));
+
+    const nextStartDate =
+      startDate && prevStartDate && startDate !== prevStartDate
+        ? withTimeOf(startDate, prevStartDate)
+        : startDate;
+    let nextEndDate =
+      endDate && endTime && endDate !== prevEndDate && endDate !== prevStartDate
+        ? withTimeOf(endDate, endTime)
+        : endDate;
+
+    // The end has to be after the start, so an end on the start day is moved one interval past the start
+    if (nextStartDate && nextEndDate && !isAfter(nextEndDate, nextStartDate)) {
+      const minEndDate = addSeconds(
+        nextStartDate,
+        getTimeIntervalSeconds(
+          timeIntervals ?? DatePicker.defaultProps.timeIntervals,
+          timeIntervalUnit,
+        ),
+      );
+      nextEndDate = isSameDay(minEndDate, nextStartDate)
+        ? minEndDate
+        : getEndOfDay(nextStartDate);
+    }
+    return [nextStartDate, nextEndDate];
+  };
+
+  // The range edited by clicks: the comparison range while it is being picked, the range otherwise
+  getEditedRange = (): Pick<DatePickerProps, "startDate" | "endDate"> =>
+    this.state.selectingCompareRange && this.props.compareRangeMode === "custom"
+      ? {
+          startDate: this.getDateProps().compareStartDate,
+          endDate: this.getDateProps().compareEndDate,
+        }
+      : {
+          startDate: this.getDateProps().startDate,
+          endDate: this.getDateProps().endDate,
+        };
+
+  getCompareRange = (
+    startDate = this.getDateProps().startDate,
+    endDate = this.getDateProps().endDate,
+  ): [Date | null, Date | null] => {
+    const { compareRangeMode, compareStartDate, compareEndDate } =
+      this.getDateProps();
+
+    if (!compareRangeMode || compareRangeMode === "custom") {
+      return [compareStartDate ?? null, compareEndDate ?? null];
+    }
+    return getDerivedCompareRange(startDate, endDate, compareRangeMode);
+  };
+
+  // Reports a range change, along with the comparison range in comparison mode
+  handleRangeChange = (
+    range: [Date | null, Date | null],
+    event?: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+    selectionMeta?: SelectionMeta,
+    isCompareRange = !!this.state.selectingCompareRange,
+  ): void => {
+    const { compareRangeMode, onChange } = this.getDateProps();
+    const businessCalendar = this.getBusinessCalendar();
+    selectionMeta = this.getSelectionMeta(selectionMeta);
+
+    if (businessCalendar && range[0] && range[1]) {
+      selectionMeta = {
+        ...selectionMeta,
+        businessDayCount: countBusinessDays(
+          range[0],
+          range[1],
+          businessCalendar,
+        ),
+      };
+    }
+
+    if (!compareRangeMode) {
+      const onChangeRange = onChange as OnChangeRange | undefined;
+      // selectionMeta is only passed when there is one, to keep the usual two arguments
+      if (selectionMeta) {
+        onChangeRange?.(range, event, selectionMeta);
+      } else {
+        onChangeRange?.(range, event);
+      }
+      return;
+    }
+
+    (onChange as OnChangeCompareRange | undefined)?.(
+      isCompareRange && compareRangeMode === "custom"
+        ? {
+            range: [
+              this.getDateProps().startDate ?? null,
+              this.getDateProps().endDate ?? null,
+            ],
+            compareRange: range,
+          }
+        : { range, compareRange: this.getCompareRange(range[0], range[1]) },
+      event,
+      selectionMeta,
+    );
+  };
+
+  handleSelectingCompareRangeChange = (selectingCompareRange: boolean) => {
+    this.setState({ selectingCompareRange });
+  };
+
+  // Checks whether the range completed by picking the given date in selectsRange mode
+  // would be shorter than minRangeLength or longer than maxRangeLength
+  isOutsideRangeLength = (date: Date): boolean => {
+    const { startDate, endDate, swapRange } = this.getDateProps();
+
+    return isOutsideRangeLength(date, {
+      startDate,
+      endDate,
+      swapRange,
+      minRangeLength: this.props.minRangeLength,
+      maxRangeLength: this.props.maxRangeLength,
+    });
+  };
+
   // When checking preSelection via min/maxDate, times need to be manipulated via getStartOfDay/getEndOfDay
   setPreSelection = (date?: Date | null): void => {
     if (this.props.readOnly) return;
-    const hasMinDate = isDate(this.props.minDate);
-    const hasMaxDate = isDate(this.props.maxDate);
+    const { minDate, maxDate } = this.getDateProps();
+    const hasMinDate = isDate(minDate);
+    const hasMaxDate = isDate(maxDate);
     let isValidDateSelection = true;
     if (date) {
       const dateStartOfDay = getStartOfDay(date);
       if (hasMinDate && hasMaxDate) {
         // isDayInRange uses getStartOfDay internally, so not necessary to manipulate times here
-        isValidDateSelection = isDayInRange(
-          date,
-          this.props.minDate,
-          this.props.maxDate,
-        );
+        isValidDateSelection = isDayInRange(date, minDate, maxDate);
       } else if (hasMinDate) {
-        const minDateStartOfDay = getStartOfDay(this.props.minDate);
+        const minDateStartOfDay = getStartOfDay(minDate);
         isValidDateSelection =
           isAfter(date, minDateStartOfDay) ||
           isEqual(dateStartOfDay, minDateStartOfDay);
       } else if (hasMaxDate) {
-        const maxDateEndOfDay = getEndOfDay(this.props.maxDate);
+        const maxDateEndOfDay = getEndOfDay(maxDate);
         isValidDateSelection =
           isBefore(date, maxDateEndOfDay) ||
           isEqual(dateStartOfDay, maxDateEndOfDay);
@@ -1093,14 +2163,19 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   };
 
   handleTimeChange = (time: Date, modifyDateType?: "start" | "end"): void => {
-    if (this.props.selectsMultiple) {
+    if (this.props.selectsMultiple || this.props.selectsMultipleRanges) {
       return;
     }
 
-    const { selectsRange, startDate, endDate, onChange, timeZone } = this.props;
+    const { selectsRange, startDate, endDate } = this.getDateProps();
+    const timeZone = this.getTimeZone();
 
     if (selectsRange) {
-      const onChangeRange = onChange as OnChangeRange | undefined;
+      // Times always apply to the range, not to the comparison range
+      const onChangeRange = (
+        range: [Date | null, Date | null],
+        event?: React.MouseEvent<HTMLElement>,
+      ) => this.handleRangeChange(range, event, undefined, false);
       // In range mode, apply time to the appropriate date
       // If modifyDateType is specified, use that to determine which date to modify
       // Otherwise, use the legacy behavior:
@@ -1110,10 +2185,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       if (modifyDateType === "start") {
         // Explicitly modify start date
         if (startDate) {
-          let changedStartDate = setTime(startDate, {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+          let changedStartDate = setTime(startDate, getTimeOfDay(time));
           this.setState({
             preSelection: changedStartDate,
           });
@@ -1136,10 +2208,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       } else if (modifyDateType === "end") {
         // Explicitly modify end date
         if (endDate) {
-          let changedEndDate = setTime(endDate, {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+          let changedEndDate = setTime(endDate, getTimeOfDay(time));
           this.setState({
             preSelection: changedEndDate,
           });
@@ -1158,6 +2227,9 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
             ],
             undefined,
           );
+        } else if (this.props.showRangeTimeSelect) {
+          // Remember the end time until the end date is picked
+          this.setState({ rangeEndTime: time });
         }
       } else {
         // Legacy behavior for showTimeSelect (single time picker)
@@ -1165,10 +2237,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
         if (hasStartRange) {
           // Apply time to startDate
-          let changedStartDate = setTime(startDate, {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+          let changedStartDate = setTime(startDate, getTimeOfDay(time));
           this.setState({
             preSelection: changedStartDate,
           });
@@ -1179,10 +2248,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           onChangeRange?.([changedStartDate, null], undefined);
         } else if (startDate && endDate) {
           // Apply time to endDate
-          let changedEndDate = setTime(endDate, {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+          let changedEndDate = setTime(endDate, getTimeOfDay(time));
           this.setState({
             preSelection: changedEndDate,
           });
@@ -1199,10 +2265,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           );
         } else {
           // No dates selected yet, just update preSelection
-          const changedDate = setTime(this.getPreSelection(), {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+          const changedDate = setTime(
+            this.getPreSelection(),
+            getTimeOfDay(time),
+          );
           this.setState({
             preSelection: changedDate,
           });
@@ -1210,15 +2276,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       }
     } else {
       // Single date mode (original behavior)
-      const selected = this.props.selected
-        ? this.props.selected
-        : this.getPreSelection();
-      let changedDate = this.props.selected
+      const selected = this.getDateProps().selected ?? this.getPreSelection();
+      let changedDate = this.getDateProps().selected
         ? time
-        : setTime(selected, {
-            hour: getHours(time),
-            minute: getMinutes(time),
-          });
+        : setTime(selected, getTimeOfDay(time));
 
       this.setState({
         preSelection: changedDate,
@@ -1229,7 +2290,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         changedDate = fromZonedTime(changedDate, timeZone);
       }
 
-      (this.props.onChange as OnChangeSingle | undefined)?.(changedDate);
+      this.handleSingleChange(changedDate);
     }
 
     if (this.props.shouldCloseOnSelect && !this.props.showTimeInput) {
@@ -1255,23 +2316,31 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
   handleTimeOnlyArrowKey = (eventKey: string): void => {
     const currentTime =
-      safeToDate(this.props.selected) || this.state.preSelection || newDate();
-    const timeIntervals = this.props.timeIntervals ?? 30;
+      safeToDate(this.getDateProps().selected) ||
+      this.state.preSelection ||
+      newDate();
+    const intervalSeconds = getTimeIntervalSeconds(
+      this.props.timeIntervals ?? 30,
+      this.props.timeIntervalUnit,
+    );
     const dateFormat =
       this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
     const formatStr = Array.isArray(dateFormat) ? dateFormat[0] : dateFormat;
 
     const baseDate = getStartOfDay(currentTime);
-    const currentMinutes = getHours(currentTime) * 60 + getMinutes(currentTime);
+    const currentSeconds =
+      getHours(currentTime) * 3600 +
+      getMinutes(currentTime) * 60 +
+      (this.props.timeIntervalUnit === "seconds" ? getSeconds(currentTime) : 0);
 
-    const maxMinutes = 23 * 60 + 60 - timeIntervals; // Cap at last valid interval of the day
+    const maxSeconds = 24 * 3600 - intervalSeconds; // Cap at last valid interval of the day
     let newTime: Date;
     if (eventKey === KeyType.ArrowUp) {
-      const newMinutes = Math.max(0, currentMinutes - timeIntervals);
-      newTime = addMinutes(baseDate, newMinutes);
+      const newSeconds = Math.max(0, currentSeconds - intervalSeconds);
+      newTime = addSeconds(baseDate, newSeconds);
     } else {
-      const newMinutes = Math.min(maxMinutes, currentMinutes + timeIntervals);
-      newTime = addMinutes(baseDate, newMinutes);
+      const newSeconds = Math.min(maxSeconds, currentSeconds + intervalSeconds);
+      newTime = addSeconds(baseDate, newSeconds);
     }
 
     const formattedTime = formatDate(
@@ -1288,17 +2357,12 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       return;
     }
 
-    const selected = this.props.selected
-      ? this.props.selected
-      : this.getPreSelection();
-    const changedDate = this.props.selected
+    const selected = this.getDateProps().selected ?? this.getPreSelection();
+    const changedDate = this.getDateProps().selected
       ? newTime
-      : setTime(selected, {
-          hour: getHours(newTime),
-          minute: getMinutes(newTime),
-        });
+      : setTime(selected, getTimeOfDay(newTime));
 
-    (this.props.onChange as OnChangeSingle | undefined)?.(changedDate);
+    this.handleSingleChange(changedDate);
 
     if (this.props.showTimeSelectOnly || this.props.showTimeSelect) {
       this.setState({ isRenderAriaLiveMessage: true });
@@ -1317,7 +2381,9 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     const timeFormat = this.props.timeFormat || "p";
 
     const defaultTime =
-      this.state.preSelection || safeToDate(this.props.selected) || newDate();
+      this.state.preSelection ||
+      safeToDate(this.getDateProps().selected) ||
+      newDate();
     const parsedDate = parseDate(
       inputValue,
       dateFormat,
@@ -1338,7 +2404,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         );
 
       if (highlightedItem instanceof HTMLElement) {
-        const itemText = highlightedItem.textContent?.trim();
+        const itemText = highlightedItem.dataset.time;
         if (itemText) {
           const itemTime = parseDate(
             itemText,
@@ -1376,7 +2442,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     const timeFormat = this.props.timeFormat || "p";
 
     for (const item of timeListItems) {
-      const itemText = item.textContent?.trim();
+      const itemText = item.dataset.time;
       if (itemText) {
         const itemTime = parseDate(
           itemText,
@@ -1522,14 +2588,17 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       showWeekPicker,
       shouldCloseOnSelect,
       locale,
-      calendarStartDay,
       adjustDateOnChange,
       inline,
-    } = this.props;
+    } = this.getDateProps();
     this.props.onKeyDown?.(event);
     if (disabledKeyboardNavigation) return;
-    const eventKey = event.key as KeyType;
+    const eventKey = getLogicalArrowKey(
+      event.key,
+      this.getDirection(),
+    ) as KeyType;
     const isShiftKeyActive = event.shiftKey;
+    const calendarStartDay = this.getCalendarStartDay();
 
     const copy = newDate(this.state.preSelection);
 
@@ -1566,7 +2635,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
           newCalculatedDate = getStartOfWeek(date, locale, calendarStartDay);
           break;
         case KeyType.End:
-          newCalculatedDate = getEndOfWeek(date);
+          newCalculatedDate = getEndOfWeek(date, locale, calendarStartDay);
           break;
       }
       return newCalculatedDate;
@@ -1587,7 +2656,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         // if minDate exists and the new selection is before the min date, get the nearest date that isn't disabled
         if (minDate && newSelection < minDate) {
           eventKeyCopy = KeyType.ArrowRight;
-          newSelection = isDayDisabled(minDate, this.props)
+          newSelection = this.isDateDisabled(minDate)
             ? calculateNewDate(eventKeyCopy, newSelection)
             : minDate;
         }
@@ -1595,12 +2664,12 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         // if maxDate exists and the new selection is after the max date, get the nearest date that isn't disabled
         if (maxDate && newSelection > maxDate) {
           eventKeyCopy = KeyType.ArrowLeft;
-          newSelection = isDayDisabled(maxDate, this.props)
+          newSelection = this.isDateDisabled(maxDate)
             ? calculateNewDate(eventKeyCopy, newSelection)
             : maxDate;
         }
 
-        if (isDayDisabled(newSelection, this.props)) {
+        if (this.isDateDisabled(newSelection)) {
           // if PageUp and Home is pressed to a disabled date, it will try to find the next available date after
           if (
             eventKeyCopy === KeyType.PageUp ||
@@ -1693,9 +2762,17 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
     this.sendFocusBackToInput();
 
-    const { selectsRange, onChange } = this.props;
-    if (selectsRange) {
+    const { selectsRange, selectsMultipleRanges, compareRangeMode, onChange } =
+      this.getDateProps();
+    if (selectsRange && compareRangeMode) {
+      (onChange as OnChangeCompareRange | undefined)?.(
+        { range: [null, null], compareRange: [null, null] },
+        event,
+      );
+    } else if (selectsRange) {
       (onChange as OnChangeRange | undefined)?.([null, null], event);
+    } else if (selectsMultipleRanges) {
+      (onChange as OnChangeMultipleRanges | undefined)?.([], event);
     } else {
       (onChange as OnChangeSingle | undefined)?.(null, event);
     }
@@ -1730,13 +2807,31 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     this.setState({ monthSelectedIn });
   };
 
+  getDateFormatCalendar = (): string => {
+    const { calendarFormats } = this.getDateProps().dateAdapter ?? {};
+
+    return (
+      this.props.dateFormatCalendar ??
+      (calendarFormats && isGregorianCalendar(this.props.calendarSystem)
+        ? calendarFormats.monthYear
+        : "LLLL yyyy")
+    );
+  };
+
   renderCalendar = () => {
     if (!this.props.inline && !this.isCalendarOpen()) {
       return null;
     }
 
-    const { timeZone, selected, startDate, endDate, selectedDates } =
-      this.props;
+    const {
+      selected,
+      startDate,
+      endDate,
+      selectedDates,
+      selectedRanges,
+      compareRangeMode,
+    } = this.getDateProps();
+    const timeZone = this.getTimeZone();
 
     // Convert dates to zoned time for calendar display when timeZone is specified
     // This ensures the calendar highlights the correct day in the target timezone
@@ -1750,6 +2845,17 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       selectedDates && timeZone
         ? selectedDates.map((date) => toZonedTime(date, timeZone))
         : selectedDates;
+    const zonedSelectedRanges =
+      selectedRanges && timeZone
+        ? selectedRanges.map(({ start, end }) => ({
+            start: toZonedTime(start, timeZone),
+            end: end && toZonedTime(end, timeZone),
+          }))
+        : selectedRanges;
+    const [zonedCompareStartDate, zonedCompareEndDate] =
+      this.getCompareRange().map((date) =>
+        date && timeZone ? toZonedTime(date, timeZone) : date,
+      );
 
     return (
       <Calendar
@@ -1757,24 +2863,33 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         ref={(elem) => {
           this.calendar = elem;
         }}
-        {...this.props}
+        {...this.getDateProps()}
         {...this.state}
         // Override date props with zoned time versions for correct display
         selected={zonedSelected}
         startDate={zonedStartDate}
         endDate={zonedEndDate}
         selectedDates={zonedSelectedDates}
+        selectedRanges={zonedSelectedRanges}
+        compareStartDate={compareRangeMode ? zonedCompareStartDate : undefined}
+        compareEndDate={compareRangeMode ? zonedCompareEndDate : undefined}
+        onSelectingCompareRangeChange={this.handleSelectingCompareRangeChange}
+        onPresetSelect={this.handlePresetSelect}
+        isPresetRangeDisabled={this.isPresetRangeDisabled}
+        monthData={this.getMonthData()}
+        onMonthDataLoad={this.handleMonthDataLoad}
         setOpen={this.setOpen}
-        dateFormat={
-          this.props.dateFormatCalendar ??
-          DatePicker.defaultProps.dateFormatCalendar
-        }
+        dateFormat={this.getDateFormatCalendar()}
         onSelect={this.handleSelect}
         onClickOutside={this.handleCalendarClickOutside}
         holidays={getHolidaysMap(this.modifyHolidays())}
+        holidayRules={this.getHolidayRules()}
+        businessCalendar={this.getBusinessCalendar()}
         outsideClickIgnoreClass={this.props.outsideClickIgnoreClass}
         onDropdownFocus={this.handleDropdownFocus}
         onTimeChange={this.handleTimeChange}
+        timeZone={timeZone}
+        onTimeZoneChange={this.handleTimeZoneChange}
         className={this.props.calendarClassName}
         container={this.props.calendarContainer}
         handleOnKeyDown={this.props.onKeyDown}
@@ -1791,7 +2906,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
   };
 
   renderAriaLiveRegion = () => {
-    const { locale } = this.props;
+    const { locale } = this.getDateProps();
     const dateFormat =
       this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
     const isContainsTime =
@@ -1800,52 +2915,88 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     let ariaLiveMessage;
 
     if (this.props.selectsRange) {
-      ariaLiveMessage = `Selected start date: ${safeDateFormat(
-        this.props.startDate,
-        {
+      ariaLiveMessage = `Selected start date: ${this.withSecondaryTime(
+        safeDateFormat(this.getDateProps().startDate, {
           dateFormat: longDateFormat,
           locale,
-        },
+          calendarSystem: this.props.calendarSystem,
+        }),
+        this.getDateProps().startDate,
+        longDateFormat,
       )}. ${
-        this.props.endDate
+        this.getDateProps().endDate
           ? "End date: " +
-            safeDateFormat(this.props.endDate, {
-              dateFormat: longDateFormat,
-              locale,
-            })
+            this.withSecondaryTime(
+              safeDateFormat(this.getDateProps().endDate, {
+                dateFormat: longDateFormat,
+                locale,
+                calendarSystem: this.props.calendarSystem,
+              }),
+              this.getDateProps().endDate,
+              longDateFormat,
+            )
           : ""
       }`;
+    } else if (this.props.selectsMultipleRanges) {
+      ariaLiveMessage = `Selected date ranges: ${safeMultipleRangesFormat(
+        this.getDateProps().selectedRanges ?? [],
+        {
+          dateFormat: longDateFormat,
+          locale,
+          calendarSystem: this.props.calendarSystem,
+        },
+      )}`;
     } else {
       if (this.props.showTimeSelectOnly) {
-        ariaLiveMessage = `Selected time: ${safeDateFormat(
-          this.props.selected,
-          { dateFormat, locale },
+        ariaLiveMessage = `Selected time: ${this.withSecondaryTime(
+          safeDateFormat(this.getDateProps().selected, { dateFormat, locale }),
+          this.getDateProps().selected,
+          dateFormat,
         )}`;
       } else if (this.props.showYearPicker) {
         ariaLiveMessage = `Selected year: ${safeDateFormat(
-          this.props.selected,
+          this.getDateProps().selected,
           { dateFormat: "yyyy", locale },
         )}`;
       } else if (this.props.showMonthYearPicker) {
         ariaLiveMessage = `Selected month: ${safeDateFormat(
-          this.props.selected,
+          this.getDateProps().selected,
           { dateFormat: "MMMM yyyy", locale },
         )}`;
+      } else if (
+        this.props.showQuarterYearPicker &&
+        this.props.fiscalYearStartMonth
+      ) {
+        const { selected, fiscalYearStartMonth } = this.getDateProps();
+        ariaLiveMessage = `Selected quarter: ${
+          selected
+            ? `FY${getFiscalYear(selected, fiscalYearStartMonth)}, Q${getFiscalQuarter(selected, fiscalYearStartMonth)}`
+            : ""
+        }`;
+      } else if (this.props.showHalfYearPicker) {
+        const { selected, fiscalYearStartMonth } = this.getDateProps();
+        ariaLiveMessage = `Selected half-year: ${
+          selected
+            ? `${fiscalYearStartMonth ? "FY" : ""}${getFiscalYear(selected, fiscalYearStartMonth)}, H${getFiscalHalfYear(selected, fiscalYearStartMonth)}`
+            : ""
+        }`;
       } else if (this.props.showQuarterYearPicker) {
         ariaLiveMessage = `Selected quarter: ${safeDateFormat(
-          this.props.selected,
+          this.getDateProps().selected,
           {
             dateFormat: "yyyy, QQQ",
             locale,
           },
         )}`;
       } else {
-        ariaLiveMessage = `Selected date: ${safeDateFormat(
-          this.props.selected,
-          {
+        ariaLiveMessage = `Selected date: ${this.withSecondaryTime(
+          safeDateFormat(this.getDateProps().selected, {
             dateFormat: longDateFormat,
             locale,
-          },
+            calendarSystem: this.props.calendarSystem,
+          }),
+          this.getDateProps().selected,
+          longDateFormat,
         )}`;
       }
     }
@@ -1888,6 +3039,10 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     if (ariaLabelledBy != null) ariaProps["aria-labelledby"] = ariaLabelledBy;
     if (ariaRequired != null) ariaProps["aria-required"] = ariaRequired;
 
+    if (this.isSegmentedDateInput()) {
+      return this.renderSegmentedDateInput(className, ariaProps);
+    }
+
     return cloneElement(customInput, {
       [customInputRef]: (input: HTMLElement | null) => {
         this.input = input;
@@ -1914,6 +3069,68 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
     });
   };
 
+  isSegmentedDateInput = (): boolean =>
+    !!this.props.segmentedDateInput &&
+    !this.props.customInput &&
+    !this.props.selectsRange &&
+    !this.props.selectsMultiple &&
+    !this.props.selectsMultipleRanges;
+
+  renderSegmentedDateInput = (
+    className: string,
+    ariaProps: Record<string, string>,
+  ): React.ReactElement => {
+    const { selected, locale, minDate, maxDate } = this.getDateProps();
+    const timeZone = this.getTimeZone();
+    // The segments show and clamp the dates in the time zone
+    const toZoned = (date?: Date | null) =>
+      date && timeZone ? toZonedTime(date, timeZone) : date;
+    const dateFormat =
+      this.props.dateFormat ?? DatePicker.defaultProps.dateFormat;
+
+    return (
+      <SegmentedDateInput
+        groupRef={(group) => {
+          this.input = group;
+        }}
+        date={toZoned(selected)}
+        dateFormat={
+          (Array.isArray(dateFormat) ? dateFormat[0] : dateFormat) ??
+          DatePicker.defaultProps.dateFormat
+        }
+        locale={locale}
+        minDate={toZoned(minDate)}
+        maxDate={toZoned(maxDate)}
+        onChange={this.handleSegmentedDateChange}
+        yearAriaLabel={this.props.yearAriaLabel}
+        monthAriaLabel={this.props.monthAriaLabel}
+        dayAriaLabel={this.props.dayAriaLabel}
+        hourAriaLabel={this.props.hourAriaLabel}
+        minuteAriaLabel={this.props.minuteAriaLabel}
+        secondAriaLabel={this.props.secondAriaLabel}
+        dayPeriodAriaLabel={this.props.dayPeriodAriaLabel}
+        emptySegmentAriaLabel={this.props.emptySegmentAriaLabel}
+        onFocus={this.handleFocus}
+        onBlur={this.handleBlur}
+        onClick={this.onInputClick}
+        onKeyDown={this.onInputKeyDown}
+        id={this.props.id}
+        name={this.props.name}
+        className={className}
+        title={this.props.title}
+        disabled={this.props.disabled}
+        readOnly={this.props.readOnly}
+        tabIndex={this.props.tabIndex}
+        ariaProps={ariaProps}
+      />
+    );
+  };
+
+  // The segmented date input reports zoned dates, like the calendar
+  handleSegmentedDateChange = (date: Date | null): void => {
+    this.setSelected(date, undefined, true);
+  };
+
   renderClearButton = (): React.ReactElement | null => {
     const {
       isClearable,
@@ -1925,15 +3142,17 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       clearButtonClassName = "",
       ariaLabelClose = "Close",
       selectedDates,
+      selectedRanges,
       readOnly,
-    } = this.props;
+    } = this.getDateProps();
     if (
       isClearable &&
       !readOnly &&
       (selected != null ||
         startDate != null ||
         endDate != null ||
-        selectedDates?.length)
+        selectedDates?.length ||
+        selectedRanges?.length)
     ) {
       return (
         <button
@@ -1962,7 +3181,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
       calendarIconClassname,
       calendarIconClassName,
       toggleCalendarOnIconClick,
-    } = this.props;
+    } = this.getDateProps();
     const { open } = this.state;
 
     if (calendarIconClassname) {
@@ -1976,6 +3195,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         className={`react-datepicker__input-container${
           showIcon ? " react-datepicker__view-calendar-icon" : ""
         }`}
+        dir={this.getDirection()}
       >
         {showIcon && (
           <CalendarIcon
@@ -2019,7 +3239,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
       if (this.state.open && this.props.portalId) {
         portalContainer = (
-          <Portal portalId={this.props.portalId} {...this.props}>
+          <Portal portalId={this.props.portalId} {...this.getDateProps()}>
             {portalContainer}
           </Portal>
         );
@@ -2035,7 +3255,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
     return (
       <PopperComponent
-        {...this.props}
+        {...this.getDateProps()}
         className={this.props.popperClassName}
         hidePopper={!this.isCalendarOpen()}
         targetComponent={this.renderInputContainer()}
@@ -2043,6 +3263,7 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
         popperOnKeyDown={this.onPopperKeyDown}
         showArrow={this.props.showPopperArrow}
         monthHeaderPosition={this.props.monthHeaderPosition}
+        dir={this.getDirection()}
       />
     );
   }
@@ -2050,4 +3271,5 @@ export class DatePicker extends Component<DatePickerProps, DatePickerState> {
 
 const PRESELECT_CHANGE_VIA_INPUT = "input";
 const PRESELECT_CHANGE_VIA_NAVIGATE = "navigate";
+
 export default DatePicker;
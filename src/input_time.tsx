@@ -1,10 +1,25 @@
 import React, { Component, cloneElement } from "react";
 
-interface InputTimeProps {
+import { getLocaleHourCycle, type HourCycle, type Locale } from "./date_utils";
+import { type SegmentAriaLabels } from "./segment_utils";
+import SegmentedTimeInput from "./segmented_time_input";
+
+interface InputTimeProps extends Pick<
+  SegmentAriaLabels,
+  | "hourAriaLabel"
+  | "minuteAriaLabel"
+  | "secondAriaLabel"
+  | "dayPeriodAriaLabel"
+  | "emptySegmentAriaLabel"
+> {
   onChange?: (date: Date) => void;
   date?: Date;
   timeString?: string;
   timeInputLabel?: string;
+  showSeconds?: boolean;
+  segmented?: boolean;
+  hourCycle?: HourCycle;
+  locale?: Locale;
   customTimeInput?: React.ReactElement<{
     date?: Date;
     value: string;
@@ -28,6 +43,15 @@ interface InputTimeState {
  * @param props.date - The initial date value.
  * @param props.timeString - The initial time string value.
  * @param props.timeInputLabel - The label for the time input.
+ * @param props.showSeconds - Whether the time input shows the seconds.
+ * @param props.segmented - Whether to show a segmented time field instead of the native time input.
+ * @param props.hourCycle - The hour cycle of the segmented time field, the locale's by default.
+ * @param props.locale - The locale.
+ * @param props.hourAriaLabel - The aria label of the hours of the segmented time field.
+ * @param props.minuteAriaLabel - The aria label of the minutes of the segmented time field.
+ * @param props.secondAriaLabel - The aria label of the seconds of the segmented time field.
+ * @param props.dayPeriodAriaLabel - The aria label of the AM/PM of the segmented time field.
+ * @param props.emptySegmentAriaLabel - The aria value text of the segments that are not filled in, "Empty" by default.
  * @param props.customTimeInput - An optional custom time input element.
  *
  * @returns The `InputTime` component.
@@ -67,10 +91,25 @@ export default class InputTime extends Component<
     const isPropDateValid = propDate instanceof Date && !isNaN(+propDate);
     const date = isPropDateValid ? propDate : new Date();
 
+    // "HH:mm", "HH:mm:ss" or "HH:mm:ss.SSS"
     if (time?.includes(":")) {
-      const [hours, minutes] = time.split(":") as [string, string];
+      const [hours, minutes, seconds] = time.split(":") as [
+        string,
+        string,
+        string | undefined,
+      ];
       date.setHours(Number(hours));
       date.setMinutes(Number(minutes));
+      if (seconds) {
+        const [wholeSeconds, milliseconds] = seconds.split(".") as [
+          string,
+          string | undefined,
+        ];
+        date.setSeconds(
+          Number(wholeSeconds),
+          milliseconds ? Number(milliseconds.padEnd(3, "0")) : 0,
+        );
+      }
     }
 
     this.props.onChange?.(date);
@@ -78,7 +117,7 @@ export default class InputTime extends Component<
 
   renderTimeInput = () => {
     const { time } = this.state;
-    const { date, timeString, customTimeInput } = this.props;
+    const { date, timeString, customTimeInput, locale } = this.props;
 
     if (customTimeInput) {
       return cloneElement(customTimeInput, {
@@ -88,6 +127,24 @@ export default class InputTime extends Component<
       });
     }
 
+    if (this.props.segmented) {
+      return (
+        <SegmentedTimeInput
+          value={time}
+          onChange={this.onTimeChange}
+          hourCycle={this.props.hourCycle ?? getLocaleHourCycle(locale)}
+          showSeconds={this.props.showSeconds}
+          locale={locale}
+          label={this.props.timeInputLabel}
+          hourAriaLabel={this.props.hourAriaLabel}
+          minuteAriaLabel={this.props.minuteAriaLabel}
+          secondAriaLabel={this.props.secondAriaLabel}
+          dayPeriodAriaLabel={this.props.dayPeriodAriaLabel}
+          emptySegmentAriaLabel={this.props.emptySegmentAriaLabel}
+        />
+      );
+    }
+
     return (
       <input
         type="time"
@@ -99,6 +156,7 @@ export default class InputTime extends Component<
           this.inputRef.current?.focus();
         }}
         required
+        step={this.props.showSeconds ? 1 : undefined}
         value={time}
         onChange={(event) => {
           this.onTimeChange(event.target.value || timeString);
@@ -1,6 +1,8 @@
 import { clsx } from "clsx";
 import React, { Component, createRef } from "react";
 
+import { getCalendarSystem } from "./calendar_system";
+import { formatCalendarName } from "./date_adapter";
 import {
   KeyType,
   addDays,
@@ -11,28 +13,37 @@ import {
   getMonth,
   getMonthInLocale,
   getMonthShortInLocale,
-  getQuarter,
+  getFiscalHalfYear,
+  getFiscalQuarter,
+  getLogicalArrowKey,
   getQuarterShortInLocale,
+  getStartOfHalfYear,
   getStartOfMonth,
   getStartOfQuarter,
   getStartOfWeek,
   getYear,
   isDayDisabled,
   isDayExcluded,
+  isHalfYearDisabled,
+  isHalfYearInRange,
   isMonthDisabled,
   isMonthInRange,
   isMonthYearDisabled,
   isQuarterDisabled,
   isQuarterInRange,
+  isSameHalfYear,
   isSameMonth,
   isSameQuarter,
   isSpaceKeyDown,
   isValid,
+  localizeDigits,
   newDate,
+  setFiscalHalfYear,
+  setFiscalQuarter,
   setMonth,
-  setQuarter,
   subMonths,
   subQuarters,
+  type TextDirection,
 } from "./date_utils";
 import Week from "./week";
 
@@ -121,9 +132,11 @@ interface MonthProps extends Omit<
     day: Date,
   ) => React.ReactNode;
   renderQuarterContent?: (q: number, shortQuarter: string) => React.ReactNode;
+  renderHalfYearContent?: (h: number, shortHalfYear: string) => React.ReactNode;
   handleOnMonthKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void;
   ariaLabelPrefix?: string;
   day: Date;
+  dir?: TextDirection;
   startDate?: Date | null;
   endDate?: Date | null;
   orderInDisplay?: number;
@@ -137,12 +150,15 @@ interface MonthProps extends Omit<
   showTwoColumnMonthYearPicker?: boolean;
   showFourColumnMonthYearPicker?: boolean;
   showQuarterYearPicker?: boolean;
+  showHalfYearPicker?: boolean;
+  fiscalYearStartMonth?: number;
   weekAriaLabelPrefix?: WeekProps["ariaLabelPrefix"];
   chooseDayAriaLabelPrefix?: WeekProps["chooseDayAriaLabelPrefix"];
   disabledDayAriaLabelPrefix?: WeekProps["disabledDayAriaLabelPrefix"];
   dayNamesHeader?: React.ReactNode;
   monthHeader?: React.ReactNode;
   monthFooter?: React.ReactNode;
+  loading?: boolean;
 }
 
 /**
@@ -162,6 +178,7 @@ interface MonthProps extends Omit<
  * @prop renderDayContents - Function to render day contents.
  * @prop renderMonthContent - Function to render month content.
  * @prop renderQuarterContent - Function to render quarter content.
+ * @prop renderHalfYearContent - Function to render half-year content.
  * @prop handleOnKeyDown - Function to handle key down events.
  * @prop handleOnMonthKeyDown - Function to handle key down events on a month.
  * @prop ariaLabelPrefix - Aria label prefix.
@@ -195,6 +212,11 @@ interface MonthProps extends Omit<
  * @prop selectsDisabledDaysInRange - Flag to select disabled days in range.
  * @prop selectsMultiple - Flag to select multiple.
  * @prop selectedDates - The selected dates.
+ * @prop selectsMultipleRanges - Flag to select multiple date ranges.
+ * @prop selectedRanges - The selected date ranges.
+ * @prop compareStartDate - The start date of the comparison range.
+ * @prop compareEndDate - The end date of the comparison range.
+ * @prop selectingCompareRange - Flag set while the comparison range is picked.
  * @prop showWeekNumbers - Flag to show week numbers.
  * @prop startDate - The start date.
  * @prop shouldCloseOnSelect - Flag to close on select.
@@ -203,12 +225,17 @@ interface MonthProps extends Omit<
  * @prop showTwoColumnMonthYearPicker - Flag to show two column month year picker.
  * @prop showFourColumnMonthYearPicker - Flag to show four column month year picker.
  * @prop showQuarterYearPicker - Flag to show quarter year picker.
+ * @prop showHalfYearPicker - Flag to show half-year picker.
+ * @prop fiscalYearStartMonth - The month the fiscal year starts in, from 0 (January) to 11.
  * @prop showWeekPicker - Flag to show week picker.
  * @prop isInputFocused - Flag to set input focus.
  * @prop weekAriaLabelPrefix - Aria label prefix for week.
  * @prop containerRef - The container reference.
  * @prop monthShowsDuplicateDaysEnd - Flag to show duplicate days at the end of the month.
  * @prop monthShowsDuplicateDaysStart - Flag to show duplicate days at the start of the month.
+ * @prop minRangeLength - The minimum length of a range in days.
+ * @prop maxRangeLength - The maximum length of a range in days.
+ * @prop loading - Flag to show the days as loading while their data loads.
  *
  * @example
  * ```tsx
@@ -240,6 +267,7 @@ interface MonthProps extends Omit<
 export default class Month extends Component<MonthProps> {
   MONTH_REFS = [...Array(12)].map(() => createRef<HTMLDivElement>());
   QUARTER_REFS = [...Array(4)].map(() => createRef<HTMLDivElement>());
+  HALF_YEAR_REFS = [...Array(2)].map(() => createRef<HTMLDivElement>());
 
   isDisabled = (day: Date) =>
     // Almost all props previously were passed as this.props w/o proper typing with prop-types
@@ -293,7 +321,11 @@ export default class Month extends Component<MonthProps> {
     if (!startDate || !endDate) {
       return false;
     }
-    return isSameQuarter(setQuarter(day, q), startDate);
+    return isSameQuarter(
+      setFiscalQuarter(day, q, this.props.fiscalYearStartMonth),
+      startDate,
+      this.props.fiscalYearStartMonth,
+    );
   };
 
   isRangeEndMonth = (m: number) => {
@@ -309,7 +341,11 @@ export default class Month extends Component<MonthProps> {
     if (!startDate || !endDate) {
       return false;
     }
-    return isSameQuarter(setQuarter(day, q), endDate);
+    return isSameQuarter(
+      setFiscalQuarter(day, q, this.props.fiscalYearStartMonth),
+      endDate,
+      this.props.fiscalYearStartMonth,
+    );
   };
 
   isInSelectingRangeMonth = (m: number) => {
@@ -380,15 +416,76 @@ export default class Month extends Component<MonthProps> {
     }
 
     if (selectsStart && endDate) {
-      return isQuarterInRange(selectingDate, endDate, q, day);
+      return isQuarterInRange(
+        selectingDate,
+        endDate,
+        q,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
     }
 
     if (selectsEnd && startDate) {
-      return isQuarterInRange(startDate, selectingDate, q, day);
+      return isQuarterInRange(
+        startDate,
+        selectingDate,
+        q,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
     }
 
     if (selectsRange && startDate && !endDate) {
-      return isQuarterInRange(startDate, selectingDate, q, day);
+      return isQuarterInRange(
+        startDate,
+        selectingDate,
+        q,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
+    }
+
+    return false;
+  };
+
+  isInSelectingRangeHalfYear = (h: number) => {
+    const { day, selectsStart, selectsEnd, selectsRange, startDate, endDate } =
+      this.props;
+
+    const selectingDate = this.props.selectingDate ?? this.props.preSelection;
+
+    if (!(selectsStart || selectsEnd || selectsRange) || !selectingDate) {
+      return false;
+    }
+
+    if (selectsStart && endDate) {
+      return isHalfYearInRange(
+        selectingDate,
+        endDate,
+        h,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
+    }
+
+    if (selectsEnd && startDate) {
+      return isHalfYearInRange(
+        startDate,
+        selectingDate,
+        h,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
+    }
+
+    if (selectsRange && startDate && !endDate) {
+      return isHalfYearInRange(
+        startDate,
+        selectingDate,
+        h,
+        day,
+        this.props.fiscalYearStartMonth,
+      );
     }
 
     return false;
@@ -397,14 +494,28 @@ export default class Month extends Component<MonthProps> {
   isWeekInMonth = (startOfWeek: Date) => {
     const day = this.props.day;
     const endOfWeek = addDays(startOfWeek, 6);
-    return isSameMonth(startOfWeek, day) || isSameMonth(endOfWeek, day);
+    return (
+      isSameMonth(startOfWeek, day, this.props.calendarSystem) ||
+      isSameMonth(endOfWeek, day, this.props.calendarSystem)
+    );
   };
 
   isCurrentMonth = (day: Date, m: number) =>
     getYear(day) === getYear(newDate()) && m === getMonth(newDate());
 
   isCurrentQuarter = (day: Date, q: number) =>
-    getYear(day) === getYear(newDate()) && q === getQuarter(newDate());
+    isSameQuarter(
+      setFiscalQuarter(day, q, this.props.fiscalYearStartMonth),
+      newDate(),
+      this.props.fiscalYearStartMonth,
+    );
+
+  isCurrentHalfYear = (day: Date, h: number) =>
+    isSameHalfYear(
+      setFiscalHalfYear(day, h, this.props.fiscalYearStartMonth),
+      newDate(),
+      this.props.fiscalYearStartMonth,
+    );
 
   isSelectedMonth = (day: Date, m: number, selected: Date) =>
     getMonth(selected) === m && getYear(day) === getYear(selected);
@@ -415,13 +526,29 @@ export default class Month extends Component<MonthProps> {
     );
 
   isSelectedQuarter = (day: Date, q: number, selected: Date): boolean =>
-    getQuarter(selected) === q && getYear(day) === getYear(selected);
+    isSameQuarter(
+      setFiscalQuarter(day, q, this.props.fiscalYearStartMonth),
+      selected,
+      this.props.fiscalYearStartMonth,
+    );
 
   isSelectQuarterInList = (day: Date, q: number, selectedDates: Date[]) =>
     selectedDates.some((selectedDate) =>
       this.isSelectedQuarter(day, q, selectedDate),
     );
 
+  isSelectedHalfYear = (day: Date, h: number, selected: Date): boolean =>
+    isSameHalfYear(
+      setFiscalHalfYear(day, h, this.props.fiscalYearStartMonth),
+      selected,
+      this.props.fiscalYearStartMonth,
+    );
+
+  isSelectHalfYearInList = (day: Date, h: number, selectedDates: Date[]) =>
+    selectedDates.some((selectedDate) =>
+      this.isSelectedHalfYear(day, h, selectedDate),
+    );
+
   isMonthSelected = () => {
     const { day, selected, selectedDates, selectsMultiple } = this.props;
     const monthIdx = getMonth(day);
@@ -437,7 +564,7 @@ export default class Month extends Component<MonthProps> {
 
   isQuarterSelected = () => {
     const { day, selected, selectedDates, selectsMultiple } = this.props;
-    const quarterIdx = getQuarter(day);
+    const quarterIdx = getFiscalQuarter(day, this.props.fiscalYearStartMonth);
 
     if (selectsMultiple) {
       return selectedDates?.some((selectedDate) =>
@@ -448,6 +575,19 @@ export default class Month extends Component<MonthProps> {
     return !!selected && this.isSelectedQuarter(day, quarterIdx, selected);
   };
 
+  isHalfYearSelected = () => {
+    const { day, selected, selectedDates, selectsMultiple } = this.props;
+    const halfYearIdx = getFiscalHalfYear(day, this.props.fiscalYearStartMonth);
+
+    if (selectsMultiple) {
+      return selectedDates?.some((selectedDate) =>
+        this.isSelectedHalfYear(day, halfYearIdx, selectedDate),
+      );
+    }
+
+    return !!selected && this.isSelectedHalfYear(day, halfYearIdx, selected);
+  };
+
   renderWeeks = () => {
     // Return empty array if day is invalid
     if (!isValid(this.props.day)) {
@@ -459,8 +599,9 @@ export default class Month extends Component<MonthProps> {
 
     let i = 0;
     let breakAfterNextPush = false;
+    const calendarSystem = getCalendarSystem(this.props.calendarSystem);
     let currentWeekStart = getStartOfWeek(
-      getStartOfMonth(this.props.day),
+      calendarSystem.getStartOfMonth(this.props.day),
       this.props.locale,
       this.props.calendarStartDay,
     );
@@ -498,7 +639,7 @@ export default class Month extends Component<MonthProps> {
           ariaLabelPrefix={this.props.weekAriaLabelPrefix}
           key={i}
           day={currentWeekStart}
-          month={getMonth(this.props.day)}
+          month={calendarSystem.getMonth(this.props.day)}
           onDayClick={this.handleDayClick}
           onDayMouseEnter={this.handleDayMouseEnter}
           selected={selected}
@@ -725,7 +866,7 @@ export default class Month extends Component<MonthProps> {
     month: number,
   ) => {
     const { disabledKeyboardNavigation, handleOnMonthKeyDown } = this.props;
-    const eventKey = event.key as KeyType;
+    const eventKey = getLogicalArrowKey(event.key, this.props.dir) as KeyType;
     if (eventKey !== KeyType.Tab) {
       // preventDefault on tab event blocks focus change
       event.preventDefault();
@@ -743,23 +884,36 @@ export default class Month extends Component<MonthProps> {
       | React.KeyboardEvent<HTMLDivElement>,
     q: number,
   ) => {
-    const labelDate = setQuarter(this.props.day, q);
+    const labelDate = setFiscalQuarter(
+      this.props.day,
+      q,
+      this.props.fiscalYearStartMonth,
+    );
 
     if (isQuarterDisabled(labelDate, this.props)) {
       return;
     }
 
-    this.handleDayClick(getStartOfQuarter(labelDate), event);
+    this.handleDayClick(
+      getStartOfQuarter(labelDate, this.props.fiscalYearStartMonth),
+      event,
+    );
   };
 
   onQuarterMouseEnter = (q: number) => {
-    const labelDate = setQuarter(this.props.day, q);
+    const labelDate = setFiscalQuarter(
+      this.props.day,
+      q,
+      this.props.fiscalYearStartMonth,
+    );
 
     if (isQuarterDisabled(labelDate, this.props)) {
       return;
     }
 
-    this.handleDayMouseEnter(getStartOfQuarter(labelDate));
+    this.handleDayMouseEnter(
+      getStartOfQuarter(labelDate, this.props.fiscalYearStartMonth),
+    );
   };
 
   handleQuarterNavigation = (newQuarter: number, newDate: Date) => {
@@ -774,7 +928,7 @@ export default class Month extends Component<MonthProps> {
     event: React.KeyboardEvent<HTMLDivElement>,
     quarter: number,
   ) => {
-    const eventKey = event.key;
+    const eventKey = getLogicalArrowKey(event.key, this.props.dir);
     if (!this.props.disabledKeyboardNavigation) {
       switch (eventKey) {
         case KeyType.Enter:
@@ -803,6 +957,86 @@ export default class Month extends Component<MonthProps> {
     }
   };
 
+  onHalfYearClick = (
+    event:
+      | React.MouseEvent<HTMLDivElement>
+      | React.KeyboardEvent<HTMLDivElement>,
+    h: number,
+  ) => {
+    const labelDate = setFiscalHalfYear(
+      this.props.day,
+      h,
+      this.props.fiscalYearStartMonth,
+    );
+
+    if (isHalfYearDisabled(labelDate, this.props)) {
+      return;
+    }
+
+    this.handleDayClick(labelDate, event);
+  };
+
+  onHalfYearMouseEnter = (h: number) => {
+    const labelDate = setFiscalHalfYear(
+      this.props.day,
+      h,
+      this.props.fiscalYearStartMonth,
+    );
+
+    if (isHalfYearDisabled(labelDate, this.props)) {
+      return;
+    }
+
+    this.handleDayMouseEnter(labelDate);
+  };
+
+  handleHalfYearNavigation = (newHalfYear: number, newDate: Date) => {
+    if (isHalfYearDisabled(newDate, this.props)) {
+      return;
+    }
+    this.props.setPreSelection?.(newDate);
+    this.HALF_YEAR_REFS[newHalfYear - 1]?.current?.focus();
+  };
+
+  onHalfYearKeyDown = (
+    event: React.KeyboardEvent<HTMLDivElement>,
+    halfYear: number,
+  ) => {
+    const eventKey = getLogicalArrowKey(event.key, this.props.dir);
+    if (!this.props.disabledKeyboardNavigation) {
+      switch (eventKey) {
+        case KeyType.Enter:
+          this.onHalfYearClick(event, halfYear);
+          this.props.setPreSelection?.(this.props.selected);
+          break;
+        case KeyType.ArrowRight:
+          if (!this.props.preSelection) {
+            break;
+          }
+          this.handleHalfYearNavigation(
+            halfYear === 2 ? 1 : 2,
+            getStartOfHalfYear(
+              addMonths(this.props.preSelection, 6),
+              this.props.fiscalYearStartMonth,
+            ),
+          );
+          break;
+        case KeyType.ArrowLeft:
+          if (!this.props.preSelection) {
+            break;
+          }
+          this.handleHalfYearNavigation(
+            halfYear === 1 ? 2 : 1,
+            getStartOfHalfYear(
+              subMonths(this.props.preSelection, 6),
+              this.props.fiscalYearStartMonth,
+            ),
+          );
+          break;
+      }
+    }
+  };
+
   isMonthDisabledForLabelDate = (
     month: number,
   ): {
@@ -910,7 +1144,10 @@ export default class Month extends Component<MonthProps> {
     if (this.props.preSelection == null) {
       return "-1";
     }
-    const preSelectedQuarter = getQuarter(this.props.preSelection);
+    const preSelectedQuarter = getFiscalQuarter(
+      this.props.preSelection,
+      this.props.fiscalYearStartMonth,
+    );
     const isCurrentQuarterDisabled = isQuarterDisabled(
       this.props.day,
       this.props,
@@ -925,6 +1162,25 @@ export default class Month extends Component<MonthProps> {
     return tabIndex;
   };
 
+  getHalfYearTabIndex = (h: number) => {
+    if (this.props.preSelection == null) {
+      return "-1";
+    }
+    const preSelectedHalfYear = getFiscalHalfYear(
+      this.props.preSelection,
+      this.props.fiscalYearStartMonth,
+    );
+    const isCurrentHalfYearDisabled = isHalfYearDisabled(
+      this.props.day,
+      this.props,
+    );
+
+    return h === preSelectedHalfYear &&
+      !(isCurrentHalfYearDisabled || this.props.disabledKeyboardNavigation)
+      ? "0"
+      : "-1";
+  };
+
   getAriaLabel = (month: number) => {
     const {
       chooseDayAriaLabelPrefix = "Choose",
@@ -938,7 +1194,10 @@ export default class Month extends Component<MonthProps> {
         ? disabledDayAriaLabelPrefix
         : chooseDayAriaLabelPrefix;
 
-    return `${prefix} ${formatDate(labelDate, "MMMM yyyy", locale)}`;
+    return `${prefix} ${
+      formatCalendarName(labelDate, "monthYear", this.props) ??
+      formatDate(labelDate, "MMMM yyyy", locale)
+    }`;
   };
 
   getQuarterClassNames = (q: number) => {
@@ -963,7 +1222,10 @@ export default class Month extends Component<MonthProps> {
         includeDates ||
         filterDate ||
         disabled) &&
-      isQuarterDisabled(setQuarter(day, q), this.props);
+      isQuarterDisabled(
+        setFiscalQuarter(day, q, this.props.fiscalYearStartMonth),
+        this.props,
+      );
 
     const selection = this.getSelection();
 
@@ -985,7 +1247,13 @@ export default class Month extends Component<MonthProps> {
           this.isInSelectingRangeQuarter(q),
         "react-datepicker__quarter-text--in-range":
           startDate && endDate
-            ? isQuarterInRange(startDate, endDate, q, day)
+            ? isQuarterInRange(
+                startDate,
+                endDate,
+                q,
+                day,
+                this.props.fiscalYearStartMonth,
+              )
             : undefined,
         "react-datepicker__quarter-text--range-start":
           this.isRangeStartQuarter(q),
@@ -995,11 +1263,86 @@ export default class Month extends Component<MonthProps> {
     );
   };
 
+  getHalfYearClassNames = (h: number) => {
+    const {
+      day,
+      startDate,
+      endDate,
+      minDate,
+      maxDate,
+      excludeDates,
+      includeDates,
+      filterDate,
+      preSelection,
+      disabledKeyboardNavigation,
+      disabled,
+      fiscalYearStartMonth,
+    } = this.props;
+
+    const labelDate = setFiscalHalfYear(day, h, fiscalYearStartMonth);
+    const isDisabled =
+      (minDate ||
+        maxDate ||
+        excludeDates ||
+        includeDates ||
+        filterDate ||
+        disabled) &&
+      isHalfYearDisabled(labelDate, this.props);
+
+    const selection = this.getSelection();
+
+    return clsx(
+      "react-datepicker__half-year-text",
+      `react-datepicker__half-year-${h}`,
+      {
+        "react-datepicker__half-year-text--disabled": isDisabled,
+        "react-datepicker__half-year-text--selected": selection
+          ? this.isSelectHalfYearInList(day, h, selection)
+          : undefined,
+        "react-datepicker__half-year-text--keyboard-selected":
+          !disabledKeyboardNavigation &&
+          preSelection &&
+          this.isSelectedHalfYear(day, h, preSelection) &&
+          !this.isHalfYearSelected() &&
+          !isDisabled,
+        "react-datepicker__half-year-text--in-selecting-range":
+          this.isInSelectingRangeHalfYear(h),
+        "react-datepicker__half-year-text--in-range":
+          startDate && endDate
+            ? isHalfYearInRange(
+                startDate,
+                endDate,
+                h,
+                day,
+                fiscalYearStartMonth,
+              )
+            : undefined,
+        "react-datepicker__half-year-text--range-start":
+          !!startDate &&
+          !!endDate &&
+          isSameHalfYear(labelDate, startDate, fiscalYearStartMonth),
+        "react-datepicker__half-year-text--range-end":
+          !!startDate &&
+          !!endDate &&
+          isSameHalfYear(labelDate, endDate, fiscalYearStartMonth),
+        "react-datepicker__half-year-text--today": this.isCurrentHalfYear(
+          day,
+          h,
+        ),
+      },
+    );
+  };
+
   getMonthContent = (m: number) => {
     const { showFullMonthYearPicker, renderMonthContent, locale, day } =
       this.props;
-    const shortMonthText = getMonthShortInLocale(m, locale);
-    const fullMonthText = getMonthInLocale(m, locale);
+    const monthDate = setMonth(day, m);
+    const shortMonthText =
+      formatCalendarName(monthDate, "monthShort", this.props) ??
+      getMonthShortInLocale(m, locale);
+    const fullMonthText =
+      formatCalendarName(monthDate, "month", this.props) ??
+      getMonthInLocale(m, locale);
     if (renderMonthContent) {
       return renderMonthContent(m, shortMonthText, fullMonthText, day);
     }
@@ -1007,11 +1350,21 @@ export default class Month extends Component<MonthProps> {
   };
 
   getQuarterContent = (q: number) => {
-    const { renderQuarterContent, locale } = this.props;
-    const shortQuarter = getQuarterShortInLocale(q, locale);
+    const { renderQuarterContent, locale, numberingSystem } = this.props;
+    const shortQuarter = localizeDigits(
+      getQuarterShortInLocale(q, locale),
+      numberingSystem,
+    );
     return renderQuarterContent?.(q, shortQuarter) ?? shortQuarter;
   };
 
+  getHalfYearContent = (h: number) => {
+    const shortHalfYear = localizeDigits(`H${h}`, this.props.numberingSystem);
+    return (
+      this.props.renderHalfYearContent?.(h, shortHalfYear) ?? shortHalfYear
+    );
+  };
+
   renderMonths = () => {
     const {
       showTwoColumnMonthYearPicker,
@@ -1111,6 +1464,46 @@ export default class Month extends Component<MonthProps> {
     );
   };
 
+  renderHalfYears = () => {
+    const { day, selected } = this.props;
+    const halfYears = [1, 2];
+    return (
+      <div className="react-datepicker__half-year-wrapper">
+        {halfYears.map((h, j) => (
+          <div
+            key={j}
+            ref={this.HALF_YEAR_REFS[j]}
+            role="option"
+            onClick={(event) => {
+              this.onHalfYearClick(event, h);
+            }}
+            onKeyDown={(event) => {
+              this.onHalfYearKeyDown(event, h);
+            }}
+            onMouseEnter={
+              !this.props.usePointerEvent
+                ? () => this.onHalfYearMouseEnter(h)
+                : undefined
+            }
+            onPointerEnter={
+              this.props.usePointerEvent
+                ? () => this.onHalfYearMouseEnter(h)
+                : undefined
+            }
+            className={this.getHalfYearClassNames(h)}
+            aria-selected={
+              selected ? this.isSelectedHalfYear(day, h, selected) : undefined
+            }
+            tabIndex={Number(this.getHalfYearTabIndex(h))}
+            aria-current={this.isCurrentHalfYear(day, h) ? "date" : undefined}
+          >
+            {this.getHalfYearContent(h)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   getClassNames = () => {
     const {
       selectingDate,
@@ -1118,6 +1511,7 @@ export default class Month extends Component<MonthProps> {
       selectsEnd,
       showMonthYearPicker,
       showQuarterYearPicker,
+      showHalfYearPicker,
       showWeekPicker,
     } = this.props;
 
@@ -1129,7 +1523,9 @@ export default class Month extends Component<MonthProps> {
       },
       { "react-datepicker__monthPicker": showMonthYearPicker },
       { "react-datepicker__quarterPicker": showQuarterYearPicker },
+      { "react-datepicker__halfYearPicker": showHalfYearPicker },
       { "react-datepicker__weekPicker": showWeekPicker },
+      { "react-datepicker__month--loading": this.props.loading },
     );
   };
 
@@ -1137,6 +1533,7 @@ export default class Month extends Component<MonthProps> {
     const {
       showMonthYearPicker,
       showQuarterYearPicker,
+      showHalfYearPicker,
       day,
       ariaLabelPrefix = "Month ",
     } = this.props;
@@ -1147,10 +1544,11 @@ export default class Month extends Component<MonthProps> {
 
     // Format aria-label, return empty string if date is invalid
     const formattedAriaLabel = isValid(day)
-      ? `${formattedAriaLabelPrefix}${formatDate(day, "MMMM, yyyy", this.props.locale)}`
+      ? `${formattedAriaLabelPrefix}${formatCalendarName(day, "monthYear", this.props) ?? formatDate(day, "MMMM, yyyy", this.props.locale, this.props.calendarSystem)}`
       : "";
 
-    const shouldUseListboxRole = showMonthYearPicker || showQuarterYearPicker;
+    const shouldUseListboxRole =
+      showMonthYearPicker || showQuarterYearPicker || showHalfYearPicker;
 
     if (shouldUseListboxRole) {
       return (
@@ -1165,7 +1563,11 @@ export default class Month extends Component<MonthProps> {
           aria-label={formattedAriaLabel}
           role="listbox"
         >
-          {showMonthYearPicker ? this.renderMonths() : this.renderQuarters()}
+          {showMonthYearPicker
+            ? this.renderMonths()
+            : showQuarterYearPicker
+              ? this.renderQuarters()
+              : this.renderHalfYears()}
         </div>
       );
     }
@@ -1188,6 +1590,7 @@ export default class Month extends Component<MonthProps> {
             this.props.usePointerEvent ? this.handleMouseLeave : undefined
           }
           aria-label={formattedAriaLabel}
+          aria-busy={this.props.loading || undefined}
           role="rowgroup"
         >
           {this.renderWeeks()}
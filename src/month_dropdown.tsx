@@ -1,8 +1,12 @@
 import React, { Component } from "react";
 
+import type { CalendarSystemId } from "./calendar_system";
+import { formatCalendarName, type DateAdapter } from "./date_adapter";
 import {
   getMonthShortInLocale,
   getMonthInLocale,
+  newDate,
+  setMonth,
   type Locale,
 } from "./date_utils";
 import MonthDropdownOptions from "./month_dropdown_options";
@@ -17,6 +21,8 @@ interface MonthDropdownProps extends Omit<
 > {
   dropdownMode: "scroll" | "select";
   locale?: Locale;
+  calendarSystem?: CalendarSystemId;
+  dateAdapter?: DateAdapter<Date>;
   onChange: (month: number) => void;
   useShortMonthInDropdown?: boolean;
 }
@@ -104,8 +110,20 @@ export default class MonthDropdown extends Component<
   render(): React.ReactElement {
     const monthNames: string[] = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(
       this.props.useShortMonthInDropdown
-        ? (m: number): string => getMonthShortInLocale(m, this.props.locale)
-        : (m: number): string => getMonthInLocale(m, this.props.locale),
+        ? (m: number): string =>
+            formatCalendarName(
+              setMonth(newDate(), m),
+              "monthShort",
+              this.props,
+            ) ??
+            getMonthShortInLocale(
+              m,
+              this.props.locale,
+              this.props.calendarSystem,
+            )
+        : (m: number): string =>
+            formatCalendarName(setMonth(newDate(), m), "month", this.props) ??
+            getMonthInLocale(m, this.props.locale, this.props.calendarSystem),
     );
 
     let renderedDropdown: React.ReactElement | React.ReactElement[];
@@ -1,14 +1,12 @@
 import React, { Component } from "react";
 
+import { getCalendarSystem } from "./calendar_system";
+import { formatCalendarDate } from "./date_adapter";
 import {
-  addMonths,
   addYears,
   subYears,
-  formatDate,
-  getStartOfMonth,
   isAfter,
   isSameMonth,
-  isSameYear,
   newDate,
   getTime,
   type Locale,
@@ -45,6 +43,9 @@ export default class MonthYearDropdown extends Component<
   };
 
   renderSelectOptions = (): React.ReactElement[] => {
+    const { addMonths, getStartOfMonth } = getCalendarSystem(
+      this.props.calendarSystem,
+    );
     // Use defaults if minDate/maxDate not provided
     const minDate =
       this.props.minDate ?? subYears(this.props.date, DEFAULT_YEAR_RANGE);
@@ -59,7 +60,7 @@ export default class MonthYearDropdown extends Component<
       const timePoint = getTime(currDate);
       options.push(
         <option key={timePoint} value={timePoint}>
-          {formatDate(currDate, this.props.dateFormat, this.props.locale)}
+          {formatCalendarDate(currDate, this.props.dateFormat, this.props)}
         </option>,
       );
 
@@ -75,7 +76,11 @@ export default class MonthYearDropdown extends Component<
 
   renderSelectMode = (): React.ReactElement => (
     <select
-      value={getTime(getStartOfMonth(this.props.date))}
+      value={getTime(
+        getCalendarSystem(this.props.calendarSystem).getStartOfMonth(
+          this.props.date,
+        ),
+      )}
       className="react-datepicker__month-year-select"
       onChange={this.onSelectChange}
     >
@@ -84,10 +89,10 @@ export default class MonthYearDropdown extends Component<
   );
 
   renderReadView = (visible: boolean): React.ReactElement => {
-    const yearMonth = formatDate(
+    const yearMonth = formatCalendarDate(
       this.props.date,
       this.props.dateFormat,
-      this.props.locale,
+      this.props,
     );
 
     return (
@@ -128,10 +133,7 @@ export default class MonthYearDropdown extends Component<
 
     const changedDate = newDate(monthYearPoint);
 
-    if (
-      isSameYear(this.props.date, changedDate) &&
-      isSameMonth(this.props.date, changedDate)
-    ) {
+    if (isSameMonth(this.props.date, changedDate, this.props.calendarSystem)) {
       return;
     }
 
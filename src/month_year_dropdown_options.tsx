@@ -1,17 +1,15 @@
 import { clsx } from "clsx";
 import React, { Component } from "react";
 
+import { getCalendarSystem, type CalendarSystemId } from "./calendar_system";
 import { ClickOutsideWrapper } from "./click_outside_wrapper";
+import { formatCalendarDate, type DateAdapter } from "./date_adapter";
 import {
-  addMonths,
   addYears,
   subYears,
-  formatDate,
-  getStartOfMonth,
   newDate,
   isAfter,
   isSameMonth,
-  isSameYear,
   getTime,
   type Locale,
 } from "./date_utils";
@@ -23,7 +21,9 @@ function generateMonthYears(
   minDate: Date | undefined,
   maxDate: Date | undefined,
   currentDate: Date,
+  calendarSystem?: CalendarSystemId,
 ): Date[] {
+  const { addMonths, getStartOfMonth } = getCalendarSystem(calendarSystem);
   const list = [];
 
   // Use defaults if minDate/maxDate not provided
@@ -50,6 +50,8 @@ interface MonthYearDropdownOptionsProps {
   date: Date;
   dateFormat: string;
   locale?: Locale;
+  calendarSystem?: CalendarSystemId;
+  dateAdapter?: DateAdapter<Date>;
 }
 
 interface MonthYearDropdownOptionsState {
@@ -68,6 +70,7 @@ export default class MonthYearDropdownOptions extends Component<
         this.props.minDate,
         this.props.maxDate,
         this.props.date,
+        this.props.calendarSystem,
       ),
     };
   }
@@ -76,9 +79,11 @@ export default class MonthYearDropdownOptions extends Component<
     return this.state.monthYearsList.map<React.ReactElement>(
       (monthYear: Date): React.ReactElement => {
         const monthYearPoint = getTime(monthYear);
-        const isSameMonthYear =
-          isSameYear(this.props.date, monthYear) &&
-          isSameMonth(this.props.date, monthYear);
+        const isSameMonthYear = isSameMonth(
+          this.props.date,
+          monthYear,
+          this.props.calendarSystem,
+        );
 
         return (
           <div
@@ -98,7 +103,7 @@ export default class MonthYearDropdownOptions extends Component<
             ) : (
               ""
             )}
-            {formatDate(monthYear, this.props.dateFormat, this.props.locale)}
+            {formatCalendarDate(monthYear, this.props.dateFormat, this.props)}
           </div>
         );
       },
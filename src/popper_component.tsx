@@ -6,6 +6,7 @@ import Portal from "./portal";
 import TabLoop from "./tab_loop";
 import withFloating from "./with_floating";
 
+import type { TextDirection } from "./date_utils";
 import type { FloatingProps } from "./with_floating";
 import type { ReactNode } from "react";
 
@@ -30,6 +31,8 @@ interface PopperComponentProps
   portalId?: PortalProps["portalId"];
   popperTargetRef?: React.RefObject<HTMLElement | null>;
   monthHeaderPosition?: "top" | "middle" | "bottom";
+  // Floating UI mirrors the placement and the arrow in right-to-left popovers
+  dir?: TextDirection;
 }
 
 // Exported for testing purposes
@@ -48,6 +51,7 @@ export const PopperComponent: React.FC<PopperComponentProps> = (props) => {
     showArrow,
     popperTargetRef,
     monthHeaderPosition,
+    dir,
   } = props;
 
   // When a custom popperTargetRef is provided, use it as the position reference
@@ -79,6 +83,7 @@ export const PopperComponent: React.FC<PopperComponentProps> = (props) => {
           style={popperProps.floatingStyles}
           className={classes}
           data-placement={popperProps.placement}
+          dir={dir}
           onKeyDown={popperOnKeyDown}
         >
           {popperComponent}
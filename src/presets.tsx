@@ -0,0 +1,110 @@
+import { clsx } from "clsx";
+import React, { Component } from "react";
+
+import {
+  newDate,
+  isSameDay,
+  isDayDisabled,
+  type DateFilterOptions,
+} from "./date_utils";
+
+export interface DateRangePreset {
+  id: string;
+  label: React.ReactNode;
+  /**
+   * A fixed range, or a function computing a rolling range from the current date.
+   */
+  range: [Date, Date] | ((now: Date) => [Date, Date]);
+}
+
+interface PresetsProps extends Pick<
+  DateFilterOptions,
+  | "minDate"
+  | "maxDate"
+  | "excludeDates"
+  | "excludeDateIntervals"
+  | "includeDates"
+  | "includeDateIntervals"
+  | "filterDate"
+> {
+  presets: DateRangePreset[];
+  startDate?: Date | null;
+  endDate?: Date | null;
+  presetsAriaLabel?: string;
+  // The checks of the picker on top of the date filters, e.g. the range length
+  isRangeDisabled?: (range: [Date, Date]) => boolean;
+  onPresetSelect?: (
+    range: [Date, Date],
+    presetId: string,
+    event: React.MouseEvent<HTMLButtonElement>,
+  ) => void;
+}
+
+interface PresetsState {
+  now: Date;
+}
+
+/**
+ * `Presets` renders the list of preset ranges shown next to the calendar.
+ * Rolling presets are computed against the date the list was mounted at,
+ * which is every time the picker opens.
+ */
+export default class Presets extends Component<PresetsProps, PresetsState> {
+  static get defaultProps() {
+    return {
+      presetsAriaLabel: "Presets",
+    };
+  }
+
+  state: PresetsState = {
+    now: newDate(),
+  };
+
+  getPresetRange = ({ range }: DateRangePreset): [Date, Date] =>
+    typeof range === "function" ? range(this.state.now) : range;
+
+  isPresetSelected = ([start, end]: [Date, Date]): boolean =>
+    isSameDay(start, this.props.startDate) &&
+    isSameDay(end, this.props.endDate);
+
+  isPresetDisabled = (range: [Date, Date]): boolean =>
+    isDayDisabled(range[0], this.props) ||
+    isDayDisabled(range[1], this.props) ||
+    !!this.props.isRangeDisabled?.(range);
+
+  render(): React.ReactElement {
+    return (
+      <div className="react-datepicker__presets">
+        <ul
+          className="react-datepicker__presets-list"
+          aria-label={this.props.presetsAriaLabel}
+        >
+          {this.props.presets.map((preset) => {
+            const range = this.getPresetRange(preset);
+            const isSelected = this.isPresetSelected(range);
+            const isDisabled = this.isPresetDisabled(range);
+
+            return (
+              <li key={preset.id} className="react-datepicker__presets-item">
+                <button
+                  type="button"
+                  className={clsx("react-datepicker__preset", {
+                    "react-datepicker__preset--selected": isSelected,
+                    "react-datepicker__preset--disabled": isDisabled,
+                  })}
+                  aria-pressed={isSelected}
+                  disabled={isDisabled}
+                  onClick={(event) =>
+                    this.props.onPresetSelect?.(range, preset.id, event)
+                  }
+                >
+                  {preset.label}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  }
+}
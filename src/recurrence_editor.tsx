@@ -0,0 +1,491 @@
+import { clsx } from "clsx";
+import React, { Component } from "react";
+
+import Calendar from "./calendar";
+import {
+  RECURRENCE_WEEKDAYS,
+  addDays,
+  addMonths,
+  formatDate,
+  formatRRule,
+  getDate,
+  getDay,
+  getEndOfMonth,
+  getHighLightDaysMap,
+  getMonth,
+  getRecurrenceDates,
+  getStartOfWeek,
+  parseDate,
+  parseRRule,
+  type Locale,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type RecurrenceWeekday,
+} from "./date_utils";
+
+import type { Day } from "date-fns";
+
+const FREQUENCIES: {
+  freq: RecurrenceFrequency;
+  label: string;
+  unit: string;
+}[] = [
+  { freq: "DAILY", label: "Daily", unit: "day(s)" },
+  { freq: "WEEKLY", label: "Weekly", unit: "week(s)" },
+  { freq: "MONTHLY", label: "Monthly", unit: "month(s)" },
+  { freq: "YEARLY", label: "Yearly", unit: "year(s)" },
+];
+
+const ORDINALS = ["first", "second", "third", "fourth"];
+
+type EndCondition = "never" | "count" | "until";
+
+// Names the radio groups when React.useId isn't there, before React 18
+let instanceCount = 0;
+
+interface RecurrenceEditorProps {
+  /**
+   * The RRULE string being edited.
+   */
+  value?: string | null;
+  /**
+   * The start date of the recurrence (DTSTART).
+   */
+  startDate: Date;
+  onChange: (rrule: string, rule: RecurrenceRule) => void;
+  onStartDateChange?: (date: Date) => void;
+  locale?: Locale;
+  calendarStartDay?: Day;
+  monthsShown?: number;
+  occurrenceClassName?: string;
+  /**
+   * The prefix of the names of the radio groups, unique per editor.
+   */
+  name?: string;
+}
+
+interface RecurrenceEditorState {
+  monthDate: Date;
+  // The text of the number inputs while they don't hold a valid number
+  intervalText?: string;
+  countText?: string;
+}
+
+// The nth weekday of the month the date falls on, the last one being -1
+function getNthWeekday(date: Date): number {
+  const nth = Math.ceil(getDate(date) / 7);
+
+  return getMonth(addDays(date, 7)) !== getMonth(date) ? -1 : nth;
+}
+
+/**
+ * `RecurrenceEditor` edits an RFC 5545 recurrence rule and highlights its
+ * occurrences in the calendar. Clicking a day changes the start date of the recurrence.
+ * The rules with parts it can't edit, e.g. BYSETPOS, are shown read-only.
+ */
+export default function RecurrenceEditor(
+  props: RecurrenceEditorProps,
+): React.ReactElement {
+  // The ids of useId are the same on the server and on the client
+  const id = React.useId?.();
+
+  return (
+    <RecurrenceEditorComponent
+      {...props}
+      name={
+        props.name ?? (id ? `react-datepicker-recurrence-${id}` : undefined)
+      }
+    />
+  );
+}
+
+class RecurrenceEditorComponent extends Component<
+  RecurrenceEditorProps,
+  RecurrenceEditorState
+> {
+  static get defaultProps() {
+    return {
+      monthsShown: 1,
+      occurrenceClassName: "react-datepicker__day--highlighted",
+    };
+  }
+
+  state: RecurrenceEditorState = {
+    monthDate: this.props.startDate,
+  };
+
+  // Radio groups are named per instance, so that several editors can be on the same page
+  private radioName =
+    this.props.name ?? `react-datepicker-recurrence-${++instanceCount}`;
+
+  getDefaultRule = (freq: RecurrenceFrequency = "WEEKLY"): RecurrenceRule => {
+    const { startDate } = this.props;
+
+    switch (freq) {
+      case "DAILY":
+        return { freq, interval: 1 };
+      case "WEEKLY":
+        return {
+          freq,
+          interval: 1,
+          byDay: [{ weekday: RECURRENCE_WEEKDAYS[getDay(startDate)]! }],
+        };
+      case "MONTHLY":
+        return { freq, interval: 1, byMonthDay: [getDate(startDate)] };
+      case "YEARLY":
+        return {
+          freq,
+          interval: 1,
+          byMonth: [getMonth(startDate) + 1],
+          byMonthDay: [getDate(startDate)],
+        };
+    }
+  };
+
+  getRule = (): RecurrenceRule =>
+    (this.props.value && parseRRule(this.props.value)) || this.getDefaultRule();
+
+  // A rule with parts that can't be edited isn't replaced by the default rule
+  isUnsupportedRule = (): boolean =>
+    !!this.props.value && !parseRRule(this.props.value);
+
+  setRule = (rule: RecurrenceRule): void => {
+    this.props.onChange(formatRRule(rule), rule);
+  };
+
+  getOccurrences = (rule: RecurrenceRule): Date[] => {
+    const monthsShown =
+      this.props.monthsShown ??
+      RecurrenceEditorComponent.defaultProps.monthsShown;
+    // The last week also shows days of the following month
+    const rangeEnd = addDays(
+      getEndOfMonth(addMonths(this.state.monthDate, monthsShown - 1)),
+      7,
+    );
+
+    return getRecurrenceDates(rule, this.props.startDate, rangeEnd);
+  };
+
+  handleFrequencyChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const { interval, count, until } = this.getRule();
+
+    this.setRule({
+      ...this.getDefaultRule(event.target.value as RecurrenceFrequency),
+      interval,
+      count,
+      until,
+    });
+  };
+
+  handleIntervalChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const interval = Number(event.target.value);
+
+    if (
+      event.target.value !== "" &&
+      Number.isInteger(interval) &&
+      interval >= 1
+    ) {
+      this.setState({ intervalText: undefined });
+      this.setRule({ ...this.getRule(), interval });
+    } else {
+      this.setState({ intervalText: event.target.value });
+    }
+  };
+
+  handleWeekdayToggle = (weekday: RecurrenceWeekday) => {
+    const rule = this.getRule();
+    const byDay = rule.byDay ?? [];
+    const isSelected = byDay.some((day) => day.weekday === weekday);
+
+    // A weekly rule keeps at least one weekday
+    if (isSelected && byDay.length === 1) {
+      return;
+    }
+    this.setRule({
+      ...rule,
+      byDay: isSelected
+        ? byDay.filter((day) => day.weekday !== weekday)
+        : [...byDay, { weekday }].sort(
+            (a, b) =>
+              RECURRENCE_WEEKDAYS.indexOf(a.weekday) -
+              RECURRENCE_WEEKDAYS.indexOf(b.weekday),
+          ),
+    });
+  };
+
+  handleMonthlyModeChange = (byNthWeekday: boolean) => {
+    const { startDate } = this.props;
+    const rule = this.getRule();
+
+    this.setRule({
+      ...rule,
+      byMonthDay: byNthWeekday ? undefined : [getDate(startDate)],
+      byDay: byNthWeekday
+        ? [
+            {
+              weekday: RECURRENCE_WEEKDAYS[getDay(startDate)]!,
+              nth: getNthWeekday(startDate),
+            },
+          ]
+        : undefined,
+    });
+  };
+
+  handleEndConditionChange = (endCondition: EndCondition) => {
+    const rule = this.getRule();
+
+    this.setRule({
+      ...rule,
+      count: endCondition === "count" ? (rule.count ?? 10) : undefined,
+      until:
+        endCondition === "until"
+          ? (rule.until ?? addMonths(this.props.startDate, 3))
+          : undefined,
+    });
+  };
+
+  handleCountChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const count = Number(event.target.value);
+
+    if (event.target.value !== "" && Number.isInteger(count) && count >= 1) {
+      this.setState({ countText: undefined });
+      this.setRule({ ...this.getRule(), count, until: undefined });
+    } else {
+      this.setState({ countText: event.target.value });
+    }
+  };
+
+  handleUntilChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const until = parseDate(event.target.value, "yyyy-MM-dd", undefined, true);
+
+    if (until) {
+      this.setRule({ ...this.getRule(), until, count: undefined });
+    }
+  };
+
+  renderWeekdays = (rule: RecurrenceRule): React.ReactElement => {
+    const { locale, calendarStartDay } = this.props;
+    const weekStart = getStartOfWeek(
+      this.props.startDate,
+      locale,
+      calendarStartDay,
+    );
+
+    return (
+      <div
+        className="react-datepicker__recurrence-weekdays"
+        role="group"
+        aria-label="Repeat on"
+      >
+        {[0, 1, 2, 3, 4, 5, 6].map((offset) => {
+          const date = addDays(weekStart, offset);
+          const weekday = RECURRENCE_WEEKDAYS[getDay(date)]!;
+          const isSelected = !!rule.byDay?.some(
+            (day) => day.weekday === weekday,
+          );
+
+          return (
+            <button
+              key={weekday}
+              type="button"
+              className={clsx("react-datepicker__recurrence-weekday", {
+                "react-datepicker__recurrence-weekday--selected": isSelected,
+              })}
+              aria-label={formatDate(date, "EEEE", locale)}
+              aria-pressed={isSelected}
+              onClick={() => this.handleWeekdayToggle(weekday)}
+            >
+              {formatDate(date, "EEEEEE", locale)}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  renderMonthlyMode = (rule: RecurrenceRule): React.ReactElement => {
+    const { startDate, locale } = this.props;
+    const nth = getNthWeekday(startDate);
+    const byNthWeekday = !rule.byMonthDay && !!rule.byDay?.length;
+    const inMonth =
+      rule.freq === "YEARLY"
+        ? ` of ${formatDate(startDate, "LLLL", locale)}`
+        : "";
+
+    return (
+      <div
+        className="react-datepicker__recurrence-monthly"
+        role="radiogroup"
+        aria-label="Repeat on"
+      >
+        <label>
+          <input
+            type="radio"
+            name={`${this.radioName}-monthly`}
+            checked={!byNthWeekday}
+            onChange={() => this.handleMonthlyModeChange(false)}
+          />
+          {`On day ${getDate(startDate)}${inMonth}`}
+        </label>
+        <label>
+          <input
+            type="radio"
+            name={`${this.radioName}-monthly`}
+            checked={byNthWeekday}
+            onChange={() => this.handleMonthlyModeChange(true)}
+          />
+          {`On the ${nth === -1 ? "last" : ORDINALS[nth - 1]} ${formatDate(
+            startDate,
+            "EEEE",
+            locale,
+          )}${inMonth}`}
+        </label>
+      </div>
+    );
+  };
+
+  renderEndCondition = (rule: RecurrenceRule): React.ReactElement => {
+    const endCondition: EndCondition = rule.count
+      ? "count"
+      : rule.until
+        ? "until"
+        : "never";
+
+    return (
+      <div
+        className="react-datepicker__recurrence-end"
+        role="radiogroup"
+        aria-label="Ends"
+      >
+        <label>
+          <input
+            type="radio"
+            name={`${this.radioName}-end`}
+            checked={endCondition === "never"}
+            onChange={() => this.handleEndConditionChange("never")}
+          />
+          Never
+        </label>
+        <label>
+          <input
+            type="radio"
+            name={`${this.radioName}-end`}
+            checked={endCondition === "count"}
+            onChange={() => this.handleEndConditionChange("count")}
+          />
+          After
+        </label>
+        <input
+          type="number"
+          className="react-datepicker__recurrence-count"
+          aria-label="Occurrences"
+          min={1}
+          value={this.state.countText ?? rule.count ?? ""}
+          disabled={endCondition !== "count"}
+          onChange={this.handleCountChange}
+          onBlur={() => this.setState({ countText: undefined })}
+        />
+        <label>
+          <input
+            type="radio"
+            name={`${this.radioName}-end`}
+            checked={endCondition === "until"}
+            onChange={() => this.handleEndConditionChange("until")}
+          />
+          On
+        </label>
+        <input
+          type="date"
+          className="react-datepicker__recurrence-until"
+          aria-label="End date"
+          value={rule.until ? formatDate(rule.until, "yyyy-MM-dd") : ""}
+          disabled={endCondition !== "until"}
+          onChange={this.handleUntilChange}
+        />
+      </div>
+    );
+  };
+
+  renderControls = (rule: RecurrenceRule): React.ReactElement => {
+    const unit = FREQUENCIES.find(({ freq }) => freq === rule.freq)?.unit;
+
+    return (
+      <div className="react-datepicker__recurrence-controls">
+        <label className="react-datepicker__recurrence-field">
+          Repeat
+          <select
+            className="react-datepicker__recurrence-frequency"
+            value={rule.freq}
+            onChange={this.handleFrequencyChange}
+          >
+            {FREQUENCIES.map(({ freq, label }) => (
+              <option key={freq} value={freq}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="react-datepicker__recurrence-field">
+          Every
+          <input
+            type="number"
+            className="react-datepicker__recurrence-interval"
+            min={1}
+            value={this.state.intervalText ?? rule.interval}
+            onChange={this.handleIntervalChange}
+            onBlur={() => this.setState({ intervalText: undefined })}
+          />
+          {unit}
+        </label>
+        {rule.freq === "WEEKLY" && this.renderWeekdays(rule)}
+        {(rule.freq === "MONTHLY" || rule.freq === "YEARLY") &&
+          this.renderMonthlyMode(rule)}
+        {this.renderEndCondition(rule)}
+      </div>
+    );
+  };
+
+  render(): React.ReactElement {
+    const unsupported = this.isUnsupportedRule();
+    const rule = this.getRule();
+    const occurrenceClassName =
+      this.props.occurrenceClassName ??
+      RecurrenceEditorComponent.defaultProps.occurrenceClassName;
+
+    return (
+      <div className="react-datepicker__recurrence">
+        <Calendar
+          inline
+          dateFormat="MM/dd/yyyy"
+          dropdownMode="scroll"
+          selected={this.props.startDate}
+          preSelection={this.props.startDate}
+          locale={this.props.locale}
+          calendarStartDay={this.props.calendarStartDay}
+          monthsShown={this.props.monthsShown}
+          highlightDates={
+            unsupported
+              ? undefined
+              : getHighLightDaysMap([
+                  { [occurrenceClassName]: this.getOccurrences(rule) },
+                ])
+          }
+          onSelect={(date: Date) => this.props.onStartDateChange?.(date)}
+          onMonthChange={(monthDate: Date) => this.setState({ monthDate })}
+          onClickOutside={() => {}}
+        />
+        {unsupported ? (
+          <div
+            className="react-datepicker__recurrence-unsupported"
+            role="status"
+          >
+            {"This rule can't be edited here: "}
+            <code>{this.props.value}</code>
+          </div>
+        ) : (
+          this.renderControls(rule)
+        )}
+      </div>
+    );
+  }
+}
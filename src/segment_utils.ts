@@ -0,0 +1,137 @@
+import { formatDate, newDate, setTime, type Locale } from "./date_utils";
+
+export type SegmentType =
+  | "year"
+  | "month"
+  | "day"
+  | "hour"
+  | "minute"
+  | "second"
+  | "dayPeriod";
+
+/**
+ * The aria labels of the segments of the segmented date and time fields.
+ */
+export interface SegmentAriaLabels {
+  yearAriaLabel?: string;
+  monthAriaLabel?: string;
+  dayAriaLabel?: string;
+  hourAriaLabel?: string;
+  minuteAriaLabel?: string;
+  secondAriaLabel?: string;
+  dayPeriodAriaLabel?: string;
+  /**
+   * The aria value text of the segments that are not filled in.
+   */
+  emptySegmentAriaLabel?: string;
+}
+
+const DEFAULT_SEGMENT_ARIA_LABELS: Record<SegmentType, string> = {
+  year: "Year",
+  month: "Month",
+  day: "Day",
+  hour: "Hours",
+  minute: "Minutes",
+  second: "Seconds",
+  dayPeriod: "AM/PM",
+};
+
+/**
+ * Gets the aria label of a segment, the English one by default.
+ *
+ * @param type - The type of the segment.
+ * @param labels - The aria labels passed as props.
+ * @returns The aria label of the segment.
+ */
+export function getSegmentAriaLabel(
+  type: SegmentType,
+  labels: SegmentAriaLabels,
+): string {
+  return (
+    labels[`${type}AriaLabel` as const] ?? DEFAULT_SEGMENT_ARIA_LABELS[type]
+  );
+}
+
+/**
+ * Gets the aria value text of a segment: its text, or the empty segment
+ * label when it is not filled in.
+ *
+ * @param value - The value of the segment.
+ * @param text - The text of the segment.
+ * @param labels - The aria labels passed as props.
+ * @returns The aria value text.
+ */
+export function getSegmentAriaValueText(
+  value: number | undefined,
+  text: string,
+  labels: SegmentAriaLabels,
+): string {
+  return value === undefined ? (labels.emptySegmentAriaLabel ?? "Empty") : text;
+}
+
+/**
+ * Adds a digit to the digits typed into a segment, starting over with the
+ * digit when the value would be too large, e.g. "1" then "3" in a month is
+ * 3.
+ *
+ * @param typed - The digits typed into the segment before.
+ * @param digit - The typed digit.
+ * @param min - The smallest value of the segment.
+ * @param max - The largest value of the segment.
+ * @param maxLength - The number of digits of the segment.
+ * @returns The value when it is within the range, the digits to keep typing
+ * into the segment, and whether the segment is done because no other digit
+ * can follow.
+ */
+export function typeSegmentDigit(
+  typed: string,
+  digit: string,
+  min: number,
+  max: number,
+  maxLength: number = String(max).length,
+): { value?: number; typed: string; done: boolean } {
+  let digits = typed + digit;
+  if (Number(digits) > max) {
+    digits = digit;
+  }
+  const value = Number(digits);
+  const done = digits.length >= maxLength || value * 10 > max;
+
+  return {
+    value: value >= min && value <= max ? value : undefined,
+    typed: done ? "" : digits,
+    done,
+  };
+}
+
+/**
+ * Wraps a value around the range of a segment, e.g. 13 to 1 for the hours
+ * of 12-hour clocks.
+ *
+ * @param value - The value.
+ * @param min - The smallest value of the segment.
+ * @param max - The largest value of the segment.
+ * @returns The value within the range.
+ */
+export function wrapSegmentValue(
+  value: number,
+  min: number,
+  max: number,
+): number {
+  const count = max - min + 1;
+
+  return ((((value - min) % count) + count) % count) + min;
+}
+
+/**
+ * Gets the texts of the AM and PM of the locale.
+ *
+ * @param locale - The locale.
+ * @returns The AM and the PM.
+ */
+export function getDayPeriodLabels(locale?: Locale): [string, string] {
+  return [
+    formatDate(setTime(newDate(), { hour: 0 }), "a", locale),
+    formatDate(setTime(newDate(), { hour: 12 }), "a", locale),
+  ];
+}
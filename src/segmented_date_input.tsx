@@ -0,0 +1,488 @@
+import { clsx } from "clsx";
+import React, { Component } from "react";
+
+import {
+  KeyType,
+  addZero,
+  formatDate,
+  getDate,
+  getDateFormatTokens,
+  getDaysInMonth,
+  getEndOfDay,
+  getHours,
+  getMinutes,
+  getMonth,
+  getSeconds,
+  getStartOfDay,
+  getYear,
+  hasTimeFormat,
+  isAfter,
+  isBefore,
+  newDate,
+  setTime,
+  getTimeOfDay,
+  type Locale,
+} from "./date_utils";
+import {
+  getDayPeriodLabels,
+  getSegmentAriaLabel,
+  getSegmentAriaValueText,
+  typeSegmentDigit,
+  wrapSegmentValue,
+  type SegmentAriaLabels,
+  type SegmentType,
+} from "./segment_utils";
+
+type DateSegmentValues = Partial<
+  Record<Exclude<SegmentType, "dayPeriod">, number>
+>;
+
+interface DateSegment {
+  type?: SegmentType;
+  // The format token, or the literal text
+  token: string;
+  isLiteral: boolean;
+}
+
+interface SegmentedDateInputProps extends SegmentAriaLabels {
+  date?: Date | null;
+  dateFormat: string;
+  locale?: Locale;
+  minDate?: Date | null;
+  maxDate?: Date | null;
+  onChange: (date: Date | null) => void;
+  groupRef?: (group: HTMLDivElement | null) => void;
+  onFocus?: React.FocusEventHandler<HTMLElement>;
+  onBlur?: React.FocusEventHandler<HTMLElement>;
+  onClick?: React.MouseEventHandler<HTMLElement>;
+  onKeyDown?: React.KeyboardEventHandler<HTMLElement>;
+  id?: string;
+  name?: string;
+  className?: string;
+  title?: string;
+  disabled?: boolean;
+  readOnly?: boolean;
+  tabIndex?: number;
+  ariaProps?: Record<string, string>;
+}
+
+interface SegmentedDateInputState {
+  values: DateSegmentValues;
+  // The time of the date the values were taken from
+  dateTime?: number;
+  typed: string;
+}
+
+const SEGMENT_TYPES: Record<string, SegmentType> = {
+  y: "year",
+  M: "month",
+  L: "month",
+  d: "day",
+  H: "hour",
+  h: "hour",
+  m: "minute",
+  s: "second",
+  a: "dayPeriod",
+};
+
+function getDateValues(date?: Date | null): DateSegmentValues {
+  return date
+    ? {
+        year: getYear(date),
+        month: getMonth(date) + 1,
+        day: getDate(date),
+        hour: getHours(date),
+        minute: getMinutes(date),
+        second: getSeconds(date),
+      }
+    : {};
+}
+
+/**
+ * `SegmentedDateInput` is a date field built from the tokens of the date
+ * format, like the native `datetime-local` input. Each segment is a spin
+ * button that is changed with the arrow keys or by typing its digits, and
+ * moves on to the next segment when it is complete. The date is reported
+ * once all the segments are filled in, clamped to the min and max dates.
+ */
+export default class SegmentedDateInput extends Component<
+  SegmentedDateInputProps,
+  SegmentedDateInputState
+> {
+  state: SegmentedDateInputState = {
+    values: getDateValues(this.props.date),
+    dateTime: this.props.date?.getTime(),
+    typed: "",
+  };
+
+  static getDerivedStateFromProps(
+    props: SegmentedDateInputProps,
+    state: SegmentedDateInputState,
+  ): Partial<SegmentedDateInputState> | null {
+    // A date from outside, or a date that was not taken, replaces the values
+    const dateTime = props.date?.getTime();
+    if (dateTime !== state.dateTime) {
+      return { values: getDateValues(props.date), dateTime };
+    }
+    return null;
+  }
+
+  group: HTMLDivElement | null = null;
+
+  segmentRefs: (HTMLSpanElement | null)[] = [];
+
+  getSegments = (): DateSegment[] =>
+    getDateFormatTokens(this.props.dateFormat, this.props.locale).map(
+      ({ value, isLiteral }) => ({
+        type: isLiteral ? undefined : SEGMENT_TYPES[value.charAt(0)],
+        token: value,
+        isLiteral,
+      }),
+    );
+
+  isTwelveHour = (): boolean =>
+    this.getSegments().some(
+      ({ token, type }) => type === "hour" && /^h/.test(token),
+    );
+
+  getRange = (type: SegmentType): [number, number] => {
+    const { year, month } = this.state.values;
+    switch (type) {
+      case "year":
+        return [1, 9999];
+      case "month":
+        return [1, 12];
+      case "day":
+        return [
+          1,
+          month === undefined
+            ? 31
+            : getDaysInMonth(new Date(year ?? 2000, month - 1)),
+        ];
+      case "hour":
+        return this.isTwelveHour() ? [1, 12] : [0, 23];
+      case "dayPeriod":
+        return [0, 1];
+      default:
+        return [0, 59];
+    }
+  };
+
+  // The value of a segment as it is shown, e.g. 1-12 for the hours of a 12-hour clock
+  getSegmentValue = (type: SegmentType): number | undefined => {
+    const { hour } = this.state.values;
+    if (type === "dayPeriod") {
+      return hour === undefined ? undefined : Number(hour >= 12);
+    }
+    if (type === "hour" && hour !== undefined && this.isTwelveHour()) {
+      return hour % 12 || 12;
+    }
+    return this.state.values[type];
+  };
+
+  getSegmentText = (segment: DateSegment): string => {
+    const { token, type } = segment;
+    const value = type && this.getSegmentValue(type);
+    if (value === undefined) {
+      return type ? "-".repeat(Math.max(token.length, 2)) : "";
+    }
+
+    switch (type) {
+      case "year":
+        return token === "yy"
+          ? addZero(value % 100)
+          : String(value).padStart(token.length, "0");
+      case "month":
+        return token.length > 2
+          ? formatDate(new Date(2000, value - 1, 1), token, this.props.locale)
+          : token.length === 2
+            ? addZero(value)
+            : String(value);
+      case "dayPeriod":
+        return getDayPeriodLabels(this.props.locale)[value] ?? "";
+      default:
+        return token.length === 2 ? addZero(value) : String(value);
+    }
+  };
+
+  // The tokens that are not segments, e.g. the weekday, are shown for the date
+  getTokenText = (token: string): string => {
+    const date = this.getDate();
+    return date ? formatDate(date, token, this.props.locale) : "";
+  };
+
+  getDate = (values = this.state.values): Date | null => {
+    const types = this.getSegments().flatMap(({ type }) =>
+      type && type !== "dayPeriod" ? [type] : [],
+    );
+    if (types.some((type) => values[type] === undefined)) {
+      return null;
+    }
+
+    // The parts that are not in the format are taken from the date
+    const refDate = this.props.date ?? getStartOfDay(newDate());
+    const date = new Date(refDate);
+    const year = values.year ?? getYear(refDate);
+    const month = (values.month ?? getMonth(refDate) + 1) - 1;
+    date.setFullYear(
+      year,
+      month,
+      Math.min(
+        values.day ?? getDate(refDate),
+        getDaysInMonth(new Date(year, month)),
+      ),
+    );
+
+    return types.some((type) => type === "hour")
+      ? setTime(date, {
+          hour: values.hour,
+          minute: values.minute ?? 0,
+          second: values.second ?? 0,
+          millisecond: 0,
+        })
+      : date;
+  };
+
+  clampDate = (date: Date): Date => {
+    const { minDate, maxDate, dateFormat } = this.props;
+    // Without a time in the format only the day is clamped
+    const hasTime = hasTimeFormat(dateFormat);
+    if (minDate && isBefore(date, hasTime ? minDate : getStartOfDay(minDate))) {
+      return hasTime ? minDate : setTime(minDate, getTimeOfDay(date));
+    }
+    if (maxDate && isAfter(date, hasTime ? maxDate : getEndOfDay(maxDate))) {
+      return hasTime ? maxDate : setTime(maxDate, getTimeOfDay(date));
+    }
+    return date;
+  };
+
+  setSegmentValue = (type: SegmentType, value?: number): void => {
+    const values = { ...this.state.values };
+    const hour = values.hour ?? 0;
+
+    if (type === "dayPeriod") {
+      values.hour = value === undefined ? undefined : (hour % 12) + value * 12;
+    } else if (type === "hour" && value !== undefined && this.isTwelveHour()) {
+      values.hour = (value % 12) + (hour >= 12 ? 12 : 0);
+    } else if (type === "year" && value !== undefined) {
+      // Two-digit years are in this century
+      values.year =
+        this.getSegments().find((segment) => segment.type === "year")?.token ===
+          "yy" && value < 100
+          ? 2000 + value
+          : value;
+    } else {
+      values[type] = value;
+    }
+
+    const wasComplete = this.getDate() !== null;
+    const date = this.getDate(values);
+    if (date) {
+      // The segments show the date that is reported, e.g. the 28th after
+      // changing January 31st to February
+      const clampedDate = this.clampDate(date);
+      this.setState({
+        values: getDateValues(clampedDate),
+        dateTime: clampedDate.getTime(),
+      });
+      this.props.onChange(clampedDate);
+    } else {
+      // The date is empty until all the segments are filled in again
+      this.setState({ values, dateTime: undefined });
+      if (wasComplete) {
+        this.props.onChange(null);
+      }
+    }
+  };
+
+  focusSegment = (index: number, step: number): void => {
+    const segments = this.getSegments();
+    for (let i = index + step; i >= 0 && i < segments.length; i += step) {
+      if (segments[i]?.type) {
+        this.segmentRefs[i]?.focus();
+        return;
+      }
+    }
+  };
+
+  handleDigit = (segment: DateSegment, index: number, digit: string): void => {
+    const type = segment.type as SegmentType;
+    const [min, max] = this.getRange(type);
+    const { value, typed, done } = typeSegmentDigit(
+      this.state.typed,
+      digit,
+      min,
+      max,
+      type === "year" ? (segment.token === "yy" ? 2 : 4) : undefined,
+    );
+
+    if (value !== undefined) {
+      this.setSegmentValue(type, value);
+    }
+    this.setState({ typed });
+    if (done) {
+      this.focusSegment(index, 1);
+    }
+  };
+
+  handleKeyDown = (
+    event: React.KeyboardEvent<HTMLSpanElement>,
+    segment: DateSegment,
+    index: number,
+  ): void => {
+    const { key } = event;
+    const type = segment.type as SegmentType;
+
+    if (this.props.disabled || this.props.readOnly) {
+      this.props.onKeyDown?.(event);
+      return;
+    }
+
+    if (key === KeyType.ArrowUp || key === KeyType.ArrowDown) {
+      const [min, max] = this.getRange(type);
+      const value = this.getSegmentValue(type);
+      const today = getDateValues(newDate());
+      this.setSegmentValue(
+        type,
+        value === undefined
+          ? type === "dayPeriod" || type === "hour"
+            ? min
+            : (today[type] ?? min)
+          : wrapSegmentValue(
+              value + (key === KeyType.ArrowUp ? 1 : -1),
+              min,
+              max,
+            ),
+      );
+    } else if (key === KeyType.ArrowLeft || key === KeyType.ArrowRight) {
+      this.focusSegment(index, key === KeyType.ArrowLeft ? -1 : 1);
+    } else if (key === KeyType.Backspace || key === "Delete") {
+      this.setState({ typed: "" });
+      this.setSegmentValue(type, undefined);
+    } else if (type === "dayPeriod" && /^[a-z]$/i.test(key)) {
+      const [am, pm] = getDayPeriodLabels(this.props.locale);
+      const letter = key.toLowerCase();
+      if (letter === am.charAt(0).toLowerCase()) {
+        this.setSegmentValue(type, 0);
+      } else if (letter === pm.charAt(0).toLowerCase()) {
+        this.setSegmentValue(type, 1);
+      }
+    } else if (/^\d$/.test(key) && type !== "dayPeriod") {
+      this.handleDigit(segment, index, key);
+    } else {
+      this.props.onKeyDown?.(event);
+      return;
+    }
+    event.preventDefault();
+  };
+
+  // Focus moving between the segments stays inside the field
+  isInside = (element: EventTarget | null): boolean =>
+    element instanceof Node && !!this.group?.contains(element);
+
+  handleFocus = (event: React.FocusEvent<HTMLElement>): void => {
+    if (event.target === this.group) {
+      this.focusSegment(-1, 1);
+    }
+    if (!this.isInside(event.relatedTarget)) {
+      this.props.onFocus?.(event);
+    }
+  };
+
+  handleBlur = (event: React.FocusEvent<HTMLElement>): void => {
+    this.setState({ typed: "" });
+    if (!this.isInside(event.relatedTarget)) {
+      this.props.onBlur?.(event);
+    }
+  };
+
+  render(): React.ReactElement {
+    const { disabled, readOnly } = this.props;
+    const segments = this.getSegments();
+    const date = this.getDate();
+
+    return (
+      <div
+        ref={(group) => {
+          this.group = group;
+          this.props.groupRef?.(group);
+        }}
+        id={this.props.id}
+        className={clsx(
+          "react-datepicker__segmented-input",
+          this.props.className,
+          {
+            "react-datepicker__segmented-input--disabled": disabled,
+          },
+        )}
+        role="group"
+        title={this.props.title}
+        tabIndex={-1}
+        aria-disabled={disabled || undefined}
+        onFocus={this.handleFocus}
+        onBlur={this.handleBlur}
+        onClick={this.props.onClick}
+        {...this.props.ariaProps}
+      >
+        {segments.map((segment, index) => {
+          if (!segment.type) {
+            return (
+              <span
+                key={index}
+                className="react-datepicker__segmented-input-literal"
+                aria-hidden="true"
+              >
+                {segment.isLiteral
+                  ? segment.token
+                  : this.getTokenText(segment.token)}
+              </span>
+            );
+          }
+
+          const [min, max] = this.getRange(segment.type);
+          const value = this.getSegmentValue(segment.type);
+          const text = this.getSegmentText(segment);
+          return (
+            <span
+              key={index}
+              ref={(element) => {
+                this.segmentRefs[index] = element;
+              }}
+              className={clsx(
+                "react-datepicker__segmented-input-segment",
+                `react-datepicker__segmented-input-segment--${segment.type}`,
+                {
+                  "react-datepicker__segmented-input-segment--placeholder":
+                    value === undefined,
+                },
+              )}
+              role="spinbutton"
+              tabIndex={disabled ? undefined : (this.props.tabIndex ?? 0)}
+              aria-label={getSegmentAriaLabel(segment.type, this.props)}
+              aria-valuemin={min}
+              aria-valuemax={max}
+              aria-valuenow={value}
+              aria-valuetext={getSegmentAriaValueText(value, text, this.props)}
+              aria-readonly={readOnly || undefined}
+              aria-disabled={disabled || undefined}
+              onKeyDown={(event) => this.handleKeyDown(event, segment, index)}
+            >
+              {text}
+            </span>
+          );
+        })}
+        {this.props.name && (
+          <input
+            type="hidden"
+            name={this.props.name}
+            value={
+              date
+                ? formatDate(date, this.props.dateFormat, this.props.locale)
+                : ""
+            }
+          />
+        )}
+      </div>
+    );
+  }
+}
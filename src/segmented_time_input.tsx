@@ -0,0 +1,332 @@
+import { clsx } from "clsx";
+import React, { Component } from "react";
+
+import { getIntlFormatter } from "./calendar_system";
+import {
+  KeyType,
+  addZero,
+  getIntlLocale,
+  newDate,
+  setTime,
+  type HourCycle,
+  type Locale,
+} from "./date_utils";
+import {
+  getDayPeriodLabels,
+  getSegmentAriaLabel,
+  getSegmentAriaValueText,
+  typeSegmentDigit,
+  wrapSegmentValue,
+  type SegmentAriaLabels,
+} from "./segment_utils";
+
+type TimeSegmentType = "hour" | "minute" | "second" | "dayPeriod";
+
+interface TimeSegment {
+  type: TimeSegmentType;
+  label: string;
+  min: number;
+  max: number;
+  value?: number;
+  text: string;
+}
+
+interface TimeValue {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+interface SegmentedTimeInputProps extends Pick<
+  SegmentAriaLabels,
+  | "hourAriaLabel"
+  | "minuteAriaLabel"
+  | "secondAriaLabel"
+  | "dayPeriodAriaLabel"
+  | "emptySegmentAriaLabel"
+> {
+  /**
+   * The time, "HH:mm" or "HH:mm:ss", or an empty string.
+   */
+  value?: string;
+  onChange: (time: string) => void;
+  hourCycle: HourCycle;
+  showSeconds?: boolean;
+  locale?: Locale;
+  label?: string;
+}
+
+interface SegmentedTimeInputState {
+  typed: string;
+}
+
+const HOUR_RANGES: Record<HourCycle, [number, number]> = {
+  h11: [0, 11],
+  h12: [1, 12],
+  h23: [0, 23],
+  h24: [1, 24],
+};
+
+function parseTimeValue(value?: string): TimeValue | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+
+  return match
+    ? {
+        hours: Number(match[1]),
+        minutes: Number(match[2]),
+        seconds: Number(match[3] ?? 0),
+      }
+    : null;
+}
+
+function isTwelveHourCycle(hourCycle: HourCycle): boolean {
+  return hourCycle === "h11" || hourCycle === "h12";
+}
+
+function toDisplayHour(hours: number, hourCycle: HourCycle): number {
+  switch (hourCycle) {
+    case "h11":
+      return hours % 12;
+    case "h12":
+      return hours % 12 || 12;
+    case "h24":
+      return hours || 24;
+    default:
+      return hours;
+  }
+}
+
+// 12-hour clocks keep the AM/PM of the hours
+function fromDisplayHour(
+  displayHour: number,
+  hourCycle: HourCycle,
+  hours: number,
+): number {
+  return isTwelveHourCycle(hourCycle)
+    ? (displayHour % 12) + (hours >= 12 ? 12 : 0)
+    : displayHour % 24;
+}
+
+/**
+ * `SegmentedTimeInput` is a time field with a segment for the hours, the
+ * minutes, the optional seconds and the AM/PM of 12-hour clocks. Each
+ * segment is a spin button that is changed with the arrow keys, wrapping
+ * around, or by typing its digits.
+ */
+export default class SegmentedTimeInput extends Component<
+  SegmentedTimeInputProps,
+  SegmentedTimeInputState
+> {
+  state: SegmentedTimeInputState = {
+    typed: "",
+  };
+
+  segmentRefs: (HTMLSpanElement | null)[] = [];
+
+  // Some locales, e.g. Korean, put the AM/PM before the hours
+  isDayPeriodFirst = (): boolean => {
+    const parts = getIntlFormatter(getIntlLocale(this.props.locale), {
+      hour: "numeric",
+      hourCycle: this.props.hourCycle,
+    }).formatToParts(setTime(newDate(), { hour: 15 }));
+    const types = parts.map((part) => part.type);
+
+    return (
+      types.includes("dayPeriod") &&
+      types.indexOf("dayPeriod") < types.indexOf("hour")
+    );
+  };
+
+  getSegments = (): TimeSegment[] => {
+    const { hourCycle, showSeconds } = this.props;
+    const time = parseTimeValue(this.props.value);
+    const [minHour, maxHour] = HOUR_RANGES[hourCycle];
+    const displayHour = time && toDisplayHour(time.hours, hourCycle);
+    const segments: TimeSegment[] = [
+      {
+        type: "hour",
+        label: getSegmentAriaLabel("hour", this.props),
+        min: minHour,
+        max: maxHour,
+        value: displayHour ?? undefined,
+        text: displayHour === null ? "--" : addZero(displayHour),
+      },
+      {
+        type: "minute",
+        label: getSegmentAriaLabel("minute", this.props),
+        min: 0,
+        max: 59,
+        value: time?.minutes,
+        text: time ? addZero(time.minutes) : "--",
+      },
+    ];
+
+    if (showSeconds) {
+      segments.push({
+        type: "second",
+        label: getSegmentAriaLabel("second", this.props),
+        min: 0,
+        max: 59,
+        value: time?.seconds,
+        text: time ? addZero(time.seconds) : "--",
+      });
+    }
+
+    if (isTwelveHourCycle(hourCycle)) {
+      const [am, pm] = getDayPeriodLabels(this.props.locale);
+      const dayPeriod: TimeSegment = {
+        type: "dayPeriod",
+        label: getSegmentAriaLabel("dayPeriod", this.props),
+        min: 0,
+        max: 1,
+        value: time ? Number(time.hours >= 12) : undefined,
+        text: time ? (time.hours >= 12 ? pm : am) : "--",
+      };
+      return this.isDayPeriodFirst()
+        ? [dayPeriod, ...segments]
+        : [...segments, dayPeriod];
+    }
+
+    return segments;
+  };
+
+  getTimeValue = (): TimeValue =>
+    parseTimeValue(this.props.value) ?? { hours: 0, minutes: 0, seconds: 0 };
+
+  setSegmentValue = (type: TimeSegmentType, value: number): void => {
+    const time = this.getTimeValue();
+
+    switch (type) {
+      case "hour":
+        time.hours = fromDisplayHour(value, this.props.hourCycle, time.hours);
+        break;
+      case "minute":
+        time.minutes = value;
+        break;
+      case "second":
+        time.seconds = value;
+        break;
+      case "dayPeriod":
+        time.hours = (time.hours % 12) + (value ? 12 : 0);
+        break;
+    }
+
+    this.props.onChange(
+      `${addZero(time.hours)}:${addZero(time.minutes)}${
+        this.props.showSeconds ? `:${addZero(time.seconds)}` : ""
+      }`,
+    );
+  };
+
+  focusSegment = (index: number): void => {
+    this.segmentRefs[index]?.focus();
+  };
+
+  handleDigit = (segment: TimeSegment, index: number, digit: string): void => {
+    const { value, typed, done } = typeSegmentDigit(
+      this.state.typed,
+      digit,
+      segment.min,
+      segment.max,
+    );
+
+    if (value !== undefined) {
+      this.setSegmentValue(segment.type, value);
+    }
+    this.setState({ typed });
+    if (done) {
+      this.focusSegment(index + 1);
+    }
+  };
+
+  handleKeyDown = (
+    event: React.KeyboardEvent<HTMLSpanElement>,
+    segment: TimeSegment,
+    index: number,
+  ): void => {
+    const { key } = event;
+
+    if (key === KeyType.ArrowUp || key === KeyType.ArrowDown) {
+      const step = key === KeyType.ArrowUp ? 1 : -1;
+      const value =
+        segment.value === undefined
+          ? segment.min
+          : wrapSegmentValue(segment.value + step, segment.min, segment.max);
+      this.setSegmentValue(segment.type, value);
+    } else if (key === KeyType.ArrowLeft) {
+      this.focusSegment(index - 1);
+    } else if (key === KeyType.ArrowRight) {
+      this.focusSegment(index + 1);
+    } else if (segment.type === "dayPeriod") {
+      const [am, pm] = getDayPeriodLabels(this.props.locale);
+      const letter = key.toLowerCase();
+      if (letter === am.charAt(0).toLowerCase()) {
+        this.setSegmentValue(segment.type, 0);
+      } else if (letter === pm.charAt(0).toLowerCase()) {
+        this.setSegmentValue(segment.type, 1);
+      } else {
+        return;
+      }
+    } else if (/^\d$/.test(key)) {
+      this.handleDigit(segment, index, key);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  render(): React.ReactElement {
+    const segments = this.getSegments();
+
+    return (
+      <div
+        className="react-datepicker-time__segments"
+        role="group"
+        aria-label={this.props.label}
+      >
+        {segments.map((segment, index) => (
+          <React.Fragment key={segment.type}>
+            {segment.type !== "dayPeriod" &&
+              segments[index - 1] &&
+              segments[index - 1]?.type !== "dayPeriod" && (
+                <span
+                  className="react-datepicker-time__segment-separator"
+                  aria-hidden="true"
+                >
+                  :
+                </span>
+              )}
+            <span
+              ref={(element) => {
+                this.segmentRefs[index] = element;
+              }}
+              className={clsx(
+                "react-datepicker-time__segment",
+                `react-datepicker-time__segment--${segment.type}`,
+                {
+                  "react-datepicker-time__segment--placeholder":
+                    segment.value === undefined,
+                },
+              )}
+              role="spinbutton"
+              tabIndex={0}
+              aria-label={segment.label}
+              aria-valuemin={segment.min}
+              aria-valuemax={segment.max}
+              aria-valuenow={segment.value}
+              aria-valuetext={getSegmentAriaValueText(
+                segment.value,
+                segment.text,
+                this.props,
+              )}
+              onFocus={() => this.setState({ typed: "" })}
+              onKeyDown={(event) => this.handleKeyDown(event, segment, index)}
+            >
+              {segment.text}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  }
+}
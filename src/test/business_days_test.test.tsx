@@ -0,0 +1,151 @@
+import { fireEvent, render } from "@testing-library/react";
+import { he } from "date-fns/locale";
+import React from "react";
+
+import {
+  addBusinessDays,
+  countBusinessDays,
+  isBusinessDay,
+  KeyType,
+} from "../date_utils";
+import DatePicker from "../index";
+
+import { getKey, getDayNode } from "./test_utils";
+
+// Friday
+const selected = new Date(2024, 5, 14);
+const holidays = [{ date: "2024-06-19", holidayName: "Juneteenth" }];
+
+describe("business days", () => {
+  it("should check if a date is a working day", () => {
+    expect(isBusinessDay(selected)).toBe(true);
+    expect(isBusinessDay(new Date(2024, 5, 15))).toBe(false);
+    expect(isBusinessDay(new Date(2024, 5, 19), { holidays })).toBe(false);
+    expect(
+      isBusinessDay(new Date(2024, 5, 19), {
+        holidays: [new Date(2024, 5, 19)],
+      }),
+    ).toBe(false);
+    expect(isBusinessDay(selected, { locale: he })).toBe(false);
+    expect(isBusinessDay(selected, { weekendDays: [0] })).toBe(true);
+  });
+
+  it("should read the holidays of a calendar once", () => {
+    const readDate = jest.fn(() => new Date(2024, 5, 19));
+    const calendar = {
+      holidays: [
+        {
+          get date() {
+            return readDate();
+          },
+        },
+      ],
+    };
+
+    expect(isBusinessDay(new Date(2024, 5, 18), calendar)).toBe(true);
+    const readCount = readDate.mock.calls.length;
+
+    expect(isBusinessDay(new Date(2024, 5, 19), calendar)).toBe(false);
+    expect(readDate).toHaveBeenCalledTimes(readCount);
+  });
+
+  it("should add working days", () => {
+    expect(addBusinessDays(selected, 1)).toEqual(new Date(2024, 5, 17));
+    expect(addBusinessDays(selected, 3, { holidays })).toEqual(
+      new Date(2024, 5, 20),
+    );
+    expect(addBusinessDays(new Date(2024, 5, 17), -1)).toEqual(selected);
+    expect(addBusinessDays(new Date(2024, 5, 13), 1, { locale: he })).toEqual(
+      new Date(2024, 5, 16),
+    );
+  });
+
+  it("should count the working days of a range", () => {
+    const start = new Date(2024, 5, 10);
+    const end = new Date(2024, 5, 21);
+
+    expect(countBusinessDays(start, end)).toBe(10);
+    expect(countBusinessDays(start, end, { holidays })).toBe(9);
+    expect(countBusinessDays(end, start)).toBe(10);
+    expect(countBusinessDays(selected, selected)).toBe(1);
+  });
+});
+
+describe("businessDays", () => {
+  it("should disable the weekend days and the holidays", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        businessDays
+        holidays={holidays}
+        selected={selected}
+      />,
+    );
+
+    expect(getDayNode(container, 15).getAttribute("aria-disabled")).toBe(
+      "true",
+    );
+    expect(getDayNode(container, 19).getAttribute("aria-disabled")).toBe(
+      "true",
+    );
+    expect(getDayNode(container, 18).getAttribute("aria-disabled")).toBe(
+      "false",
+    );
+  });
+
+  it("should not disable the weekend days without the prop", () => {
+    const { container } = render(
+      <DatePicker inline holidays={holidays} selected={selected} />,
+    );
+
+    expect(getDayNode(container, 15).getAttribute("aria-disabled")).toBe(
+      "false",
+    );
+  });
+
+  it("should skip the non-working days with the arrow keys", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        businessDays
+        holidays={holidays}
+        selected={selected}
+      />,
+    );
+
+    fireEvent.keyDown(getDayNode(container, 14), getKey(KeyType.ArrowRight));
+    expect(
+      container.querySelector('.react-datepicker__day[tabindex="0"]')
+        ?.textContent,
+    ).toBe("17");
+
+    fireEvent.keyDown(getDayNode(container, 17), getKey(KeyType.ArrowLeft));
+    expect(
+      container.querySelector('.react-datepicker__day[tabindex="0"]')
+        ?.textContent,
+    ).toBe("14");
+  });
+
+  it("should report the number of working days of the range", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        businessDays
+        holidays={holidays}
+        startDate={new Date(2024, 5, 10)}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 21));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 5, 10),
+      new Date(2024, 5, 21),
+    ]);
+    expect(onChange.mock.calls[0][2]).toEqual({ businessDayCount: 9 });
+  });
+});
@@ -0,0 +1,220 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { getCalendarSystem } from "../calendar_system";
+import { formatDate, parseDate, safeDateFormat } from "../date_utils";
+import DatePicker from "../index";
+
+const getHeader = (container: HTMLElement) =>
+  container.querySelector(".react-datepicker__current-month") as HTMLElement;
+
+const getDaysInMonth = (container: HTMLElement) =>
+  Array.from(
+    container.querySelectorAll(
+      ".react-datepicker__day:not(.react-datepicker__day--outside-month)",
+    ),
+  ) as HTMLElement[];
+
+describe("calendar systems", () => {
+  it("should count the days of the Umm al-Qura calendar", () => {
+    const islamic = getCalendarSystem("islamic-umalqura");
+    const date = new Date(2025, 2, 1);
+
+    expect(islamic.getYear(date)).toBe(1446);
+    expect(islamic.getMonth(date)).toBe(8);
+    expect(islamic.getDate(date)).toBe(1);
+    expect(islamic.getDaysInMonth(date)).toBe(29);
+    expect(islamic.getStartOfMonth(new Date(2025, 2, 20))).toEqual(date);
+    expect(islamic.addMonths(date, 1)).toEqual(new Date(2025, 2, 30));
+    expect(islamic.toDate(1446, 8, 1)).toEqual(date);
+    expect(islamic.toDate(1446, 8, 30)).toBeNull();
+  });
+
+  it("should count the days of the Persian calendar", () => {
+    const persian = getCalendarSystem("persian");
+    const date = new Date(2025, 2, 1);
+
+    expect(persian.getYear(date)).toBe(1403);
+    expect(persian.getMonth(date)).toBe(11);
+    expect(persian.getDate(date)).toBe(11);
+    expect(persian.getStartOfYear(date)).toEqual(new Date(2024, 2, 20));
+    expect(persian.addMonths(date, 1)).toEqual(new Date(2025, 2, 31));
+    expect(persian.setYear(date, 1404)).toEqual(new Date(2026, 2, 2));
+  });
+
+  it("should offset the years of the Buddhist calendar", () => {
+    const buddhist = getCalendarSystem("buddhist");
+
+    expect(buddhist.getYear(new Date(2025, 2, 1))).toBe(2568);
+    expect(buddhist.setYear(new Date(2025, 2, 1), 2570)).toEqual(
+      new Date(2027, 2, 1),
+    );
+    expect(buddhist.toDate(2568, 1, 29)).toBeNull();
+  });
+
+  it("should format and parse dates in the calendar system", () => {
+    const date = new Date(2025, 2, 1);
+
+    expect(formatDate(date, "MM/dd/yyyy", undefined, "islamic-umalqura")).toBe(
+      "09/01/1446",
+    );
+    expect(formatDate(date, "MMMM yyyy", undefined, "islamic-umalqura")).toBe(
+      "Ramadan 1446",
+    );
+    expect(formatDate(date, "dd/MM/yyyy", undefined, "persian")).toBe(
+      "11/12/1403",
+    );
+    expect(formatDate(date, "MM/dd/yyyy", undefined, "buddhist")).toBe(
+      "03/01/2568",
+    );
+    expect(formatDate(date, "MM/dd/yyyy", undefined, "japanese")).toBe(
+      "03/01/7 Reiwa",
+    );
+    expect(formatDate(date, "MM/dd/yyyy HH:mm", undefined, "buddhist")).toBe(
+      "03/01/2568 00:00",
+    );
+
+    expect(
+      parseDate(
+        "09/01/1446",
+        "MM/dd/yyyy",
+        undefined,
+        true,
+        undefined,
+        "islamic-umalqura",
+      ),
+    ).toEqual(date);
+    expect(
+      parseDate(
+        "Esfand 11, 1403",
+        "MMMM d, yyyy",
+        undefined,
+        true,
+        undefined,
+        "persian",
+      ),
+    ).toEqual(date);
+    expect(
+      parseDate(
+        "09/30/1446",
+        "MM/dd/yyyy",
+        undefined,
+        true,
+        undefined,
+        "islamic-umalqura",
+      ),
+    ).toBeNull();
+  });
+
+  it("should format the dates of the time zone in the calendar system", () => {
+    // March 21, 2025 at 5:00 in Tokyo, the first day of 1404
+    const date = new Date(Date.UTC(2025, 2, 20, 20));
+
+    expect(
+      safeDateFormat(date, {
+        dateFormat: "yyyy/MM/dd HH:mm",
+        timeZone: "Asia/Tokyo",
+        calendarSystem: "persian",
+      }),
+    ).toBe("1404/01/01 05:00");
+  });
+});
+
+describe("calendarSystem", () => {
+  it("should render the month of the calendar system", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        calendarSystem="islamic-umalqura"
+        selected={new Date(2025, 2, 10)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getHeader(container).textContent).toBe("Ramadan 1446");
+    const days = getDaysInMonth(container);
+    expect(days).toHaveLength(29);
+    expect(days[0]?.textContent).toBe("1");
+    expect(days[0]?.getAttribute("aria-label")).toContain("Ramadan 1, 1446");
+  });
+
+  it("should select a Date", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        calendarSystem="islamic-umalqura"
+        selected={new Date(2025, 2, 10)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDaysInMonth(container)[0]!);
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2025, 2, 1));
+  });
+
+  it("should navigate by months of the calendar system", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        calendarSystem="persian"
+        selected={new Date(2025, 2, 1)}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(
+        ".react-datepicker__navigation--next",
+      ) as HTMLElement,
+    );
+
+    expect(getHeader(container).textContent).toBe("Farvardin 1404");
+    expect(getDaysInMonth(container)).toHaveLength(31);
+  });
+
+  it("should format and parse the input in the calendar system", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        calendarSystem="buddhist"
+        dateFormat="dd/MM/yyyy"
+        selected={new Date(2025, 2, 1)}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    expect(input.value).toBe("01/03/2568");
+
+    fireEvent.change(input, { target: { value: "15/04/2568" } });
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2025, 3, 15));
+  });
+
+  it("should list the years of the calendar system in the year dropdown", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showYearDropdown
+        dropdownMode="select"
+        calendarSystem="buddhist"
+        selected={new Date(2025, 2, 1)}
+        minDate={new Date(2024, 0, 1)}
+        maxDate={new Date(2026, 11, 31)}
+        onChange={() => {}}
+      />,
+    );
+    const select = container.querySelector(
+      ".react-datepicker__year-select",
+    ) as HTMLSelectElement;
+
+    expect(select.value).toBe("2568");
+    expect(Array.from(select.options).map((option) => option.value)).toEqual([
+      "2567",
+      "2568",
+      "2569",
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+
+import DatePicker from "../index";
+
+import { getDayNode, hasClass } from "./test_utils";
+
+describe("compareRangeMode", () => {
+  const startDate = new Date(2024, 2, 10);
+  const endDate = new Date(2024, 2, 16);
+
+  it("should render the comparison range with its own classes", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="custom"
+        startDate={startDate}
+        endDate={endDate}
+        compareStartDate={new Date(2024, 2, 20)}
+        compareEndDate={new Date(2024, 2, 22)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(hasClass(container, 20, "compare-range-start")).toBe(true);
+    expect(hasClass(container, 21, "in-compare-range")).toBe(true);
+    expect(hasClass(container, 22, "compare-range-end")).toBe(true);
+    expect(hasClass(container, 21, "in-range")).toBe(false);
+    expect(hasClass(container, 12, "in-compare-range")).toBe(false);
+  });
+
+  it("should derive the previous period from the range", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="previousPeriod"
+        startDate={startDate}
+        endDate={endDate}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(hasClass(container, 3, "compare-range-start")).toBe(true);
+    expect(hasClass(container, 9, "compare-range-end")).toBe(true);
+    expect(hasClass(container, 10, "in-compare-range")).toBe(false);
+  });
+
+  it("should report both ranges when the range is picked", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="previousYear"
+        startDate={startDate}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 16));
+
+    expect(onChange.mock.calls[0][0]).toEqual({
+      range: [startDate, endDate],
+      compareRange: [new Date(2023, 2, 10), new Date(2023, 2, 16)],
+    });
+  });
+
+  it("should pick the comparison range after switching to it", () => {
+    const onChange = jest.fn();
+    const compareStartDate = new Date(2024, 2, 20);
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="custom"
+        startDate={startDate}
+        endDate={endDate}
+        compareStartDate={compareStartDate}
+        compareEndDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Compare to" }));
+    expect(
+      screen
+        .getByRole("button", { name: "Compare to" })
+        .getAttribute("aria-pressed"),
+    ).toBe("true");
+
+    fireEvent.mouseEnter(getDayNode(container, 22));
+    expect(hasClass(container, 21, "in-selecting-range")).toBe(true);
+
+    fireEvent.click(getDayNode(container, 22));
+
+    expect(onChange.mock.calls[0][0]).toEqual({
+      range: [startDate, endDate],
+      compareRange: [compareStartDate, new Date(2024, 2, 22)],
+    });
+  });
+
+  it("should only render the toggle when the comparison range is picked by the user", () => {
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="previousPeriod"
+        startDate={startDate}
+        endDate={endDate}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(screen.queryByRole("button", { name: "Compare to" })).toBeNull();
+  });
+
+  it("should clear both ranges", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        isClearable
+        selectsRange
+        compareRangeMode="previousPeriod"
+        startDate={startDate}
+        endDate={endDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(
+        ".react-datepicker__close-icon",
+      ) as HTMLButtonElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual({
+      range: [null, null],
+      compareRange: [null, null],
+    });
+  });
+});
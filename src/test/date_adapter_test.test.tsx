@@ -0,0 +1,502 @@
+import { fireEvent, render } from "@testing-library/react";
+import { format, isValid, parse } from "date-fns";
+import React from "react";
+
+import {
+  createDayjsAdapter,
+  createLuxonAdapter,
+  dateFnsAdapter,
+  isoDateAdapter,
+  isoDateTimeAdapter,
+  type DateAdapter,
+} from "../date_adapter";
+import DatePicker from "../index";
+
+// Dates as timestamps, with "D" formatting the day of the year
+const timestampAdapter: DateAdapter<number> = {
+  toDate: (value) => new Date(value),
+  fromDate: (date) => date.getTime(),
+  format: (date, formatStr) =>
+    formatStr === "D" ? format(date, "yyyy-DDD") : format(date, formatStr),
+  parse: (value, formatStr) => {
+    const date = parse(value, formatStr === "D" ? "yyyy-DDD" : formatStr, 0);
+    return isValid(date) ? date : null;
+  },
+};
+
+// A DateTime with the Luxon API the adapter needs, formatting like date-fns
+class FakeDateTime {
+  constructor(
+    private readonly date: Date,
+    readonly locale = "en-US",
+  ) {}
+
+  static fromJSDate(date: Date) {
+    return new FakeDateTime(date);
+  }
+
+  static fromFormat(
+    text: string,
+    formatStr: string,
+    options?: { locale?: string },
+  ) {
+    return new FakeDateTime(parse(text, formatStr, 0), options?.locale);
+  }
+
+  get isValid() {
+    return isValid(this.date);
+  }
+
+  toJSDate() {
+    return this.date;
+  }
+
+  setLocale(locale: string) {
+    return new FakeDateTime(this.date, locale);
+  }
+
+  toFormat(formatStr: string) {
+    return format(this.date, formatStr);
+  }
+}
+
+// A Day.js object with the API the adapter needs, formatting like date-fns
+class FakeDayjs {
+  constructor(
+    private readonly date: Date,
+    readonly localeName = "en",
+  ) {}
+
+  isValid() {
+    return isValid(this.date);
+  }
+
+  toDate() {
+    return this.date;
+  }
+
+  locale(locale: string) {
+    return new FakeDayjs(this.date, locale);
+  }
+
+  format(formatStr: string) {
+    return format(this.date, formatStr);
+  }
+}
+
+const fakeDayjs = (
+  date?: Date | string,
+  formatStr?: string,
+  locale?: string,
+  strict?: boolean,
+) => {
+  if (typeof date !== "string") {
+    return new FakeDayjs(date ?? new Date());
+  }
+  const parsed = parse(date, formatStr ?? "", 0);
+  return new FakeDayjs(
+    !strict || (isValid(parsed) && format(parsed, formatStr ?? "") === date)
+      ? parsed
+      : new Date(NaN),
+    locale,
+  );
+};
+
+describe("date adapters", () => {
+  it("should format and parse with date-fns", () => {
+    const date = new Date(2025, 2, 1);
+
+    expect(dateFnsAdapter.format(date, "yyyy-MM-dd")).toBe("2025-03-01");
+    expect(
+      dateFnsAdapter.parse("2025-03-01", "yyyy-MM-dd", undefined, true),
+    ).toEqual(date);
+    expect(dateFnsAdapter.toDate(new Date(NaN))).toBeNull();
+    expect(dateFnsAdapter.fromDate(date)).toBe(date);
+  });
+
+  it("should convert Luxon dates", () => {
+    const adapter = createLuxonAdapter(FakeDateTime);
+    const date = new Date(2025, 2, 1);
+
+    expect(adapter.fromDate(date).toJSDate()).toBe(date);
+    expect(adapter.toDate(FakeDateTime.fromJSDate(date))).toBe(date);
+    expect(adapter.toDate(FakeDateTime.fromJSDate(new Date(NaN)))).toBeNull();
+    expect(adapter.format(date, "dd.MM.yyyy")).toBe("01.03.2025");
+    expect(adapter.parse("01.03.2025", "dd.MM.yyyy", "de", true)).toEqual(date);
+    expect(adapter.parse("1.3.2025", "d.M.yyyy", undefined, true)).toEqual(
+      date,
+    );
+    expect(adapter.parse("01.3.2025", "d.M.yyyy", undefined, true)).toBeNull();
+    expect(adapter.parse("2025", "dd.MM.yyyy", undefined, false)).toBeNull();
+  });
+
+  it("should convert Day.js dates", () => {
+    const adapter = createDayjsAdapter(fakeDayjs);
+    const date = new Date(2025, 2, 1);
+
+    expect(adapter.fromDate(date).toDate()).toBe(date);
+    expect(adapter.toDate(fakeDayjs(date))).toBe(date);
+    expect(adapter.toDate(fakeDayjs(new Date(NaN)))).toBeNull();
+    expect(adapter.format(date, "dd.MM.yyyy")).toBe("01.03.2025");
+    expect(adapter.parse("01.03.2025", "dd.MM.yyyy", "de", true)).toEqual(date);
+    expect(adapter.parse("01.3.2025", "d.M.yyyy", undefined, true)).toBeNull();
+    expect(adapter.parse("2025", "dd.MM.yyyy", undefined, false)).toBeNull();
+  });
+
+  it("should convert ISO dates without shifting them", () => {
+    const date = new Date(2026, 2, 14);
+
+    expect(isoDateAdapter.toDate("2026-03-14")).toEqual(date);
+    expect(isoDateAdapter.fromDate(date)).toBe("2026-03-14");
+    expect(isoDateAdapter.fromDate(new Date(2026, 2, 14, 23, 59))).toBe(
+      "2026-03-14",
+    );
+    expect(isoDateAdapter.toDate("2026-03-14T10:00:00Z")).toBeNull();
+    expect(isoDateAdapter.toDate("2026-02-30")).toBeNull();
+  });
+
+  it("should convert ISO date-times", () => {
+    const date = new Date(2026, 2, 14, 9, 30);
+
+    expect(isoDateTimeAdapter.toDate("2026-03-14T09:30:00")).toEqual(date);
+    expect(isoDateTimeAdapter.toDate("2026-03-14")).toEqual(
+      new Date(2026, 2, 14),
+    );
+    expect(
+      isoDateTimeAdapter.toDate(isoDateTimeAdapter.fromDate(date)),
+    ).toEqual(date);
+    expect(isoDateTimeAdapter.toDate("14/03/2026")).toBeNull();
+  });
+});
+
+describe("dateAdapter", () => {
+  it("should format and parse the input with the adapter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        dateAdapter={timestampAdapter}
+        dateFormat="D"
+        selected={new Date(2025, 2, 1).getTime()}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    expect(input.value).toBe("2025-060");
+
+    fireEvent.change(input, { target: { value: "2025-061" } });
+
+    expect(onChange.mock.calls[0][0]).toBe(new Date(2025, 2, 2).getTime());
+  });
+
+  it("should format the input in the time zone with the adapter", () => {
+    const { container } = render(
+      <DatePicker
+        dateAdapter={timestampAdapter}
+        dateFormat="D"
+        timeZone="Asia/Tokyo"
+        selected={Date.UTC(2025, 2, 1, 20)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "2025-061",
+    );
+  });
+
+  it("should select multiple ranges of dates of the adapter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        dateAdapter={timestampAdapter}
+        selectedRanges={[{ start: new Date(2025, 2, 10).getTime(), end: null }]}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--012") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      {
+        start: new Date(2025, 2, 10).getTime(),
+        end: new Date(2025, 2, 12).getTime(),
+      },
+    ]);
+  });
+
+  it("should compare ranges of dates of the adapter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        compareRangeMode="previousYear"
+        dateAdapter={timestampAdapter}
+        startDate={new Date(2025, 2, 10).getTime()}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--012") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual({
+      range: [new Date(2025, 2, 10).getTime(), new Date(2025, 2, 12).getTime()],
+      compareRange: [
+        new Date(2024, 2, 10).getTime(),
+        new Date(2024, 2, 12).getTime(),
+      ],
+    });
+  });
+  it("should select the dates of the adapter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        dateAdapter={timestampAdapter}
+        selected={new Date(2025, 2, 1).getTime()}
+        maxDate={new Date(2025, 2, 20).getTime()}
+        onChange={onChange}
+      />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__day--selected")?.textContent,
+    ).toBe("1");
+    expect(
+      container
+        .querySelector(".react-datepicker__day--021")
+        ?.classList.contains("react-datepicker__day--disabled"),
+    ).toBe(true);
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--015") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toBe(new Date(2025, 2, 15).getTime());
+  });
+
+  it("should select a range of dates of the adapter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        dateAdapter={timestampAdapter}
+        startDate={new Date(2025, 2, 1).getTime()}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--015") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2025, 2, 1).getTime(),
+      new Date(2025, 2, 15).getTime(),
+    ]);
+  });
+
+  it("should format the input with the adapter", () => {
+    const { container } = render(
+      <DatePicker
+        dateAdapter={timestampAdapter}
+        dateFormat="D"
+        selected={new Date(2025, 0, 31).getTime()}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "2025-031",
+    );
+  });
+
+  it("should format the names of the calendar with the adapter", () => {
+    const { container } = render(
+      <DatePicker
+        dateAdapter={{
+          ...timestampAdapter,
+          calendarFormats: {
+            monthYear: "MM/yyyy",
+            month: "'month' M",
+            monthShort: "M",
+            weekday: "'weekday' i",
+            weekdayShort: "'day' i",
+            weekdayMin: "i",
+            day: "yyyy-DDD",
+          },
+        }}
+        selected={new Date(2025, 2, 1).getTime()}
+        onChange={() => {}}
+        showMonthDropdown
+        dropdownMode="select"
+        inline
+      />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__current-month")?.textContent,
+    ).toBe("03/2025");
+    expect(
+      Array.from(
+        container.querySelectorAll(".react-datepicker__day-name"),
+        (dayName) => dayName.textContent,
+      ),
+    ).toEqual([
+      "weekday 77",
+      "weekday 11",
+      "weekday 22",
+      "weekday 33",
+      "weekday 44",
+      "weekday 55",
+      "weekday 66",
+    ]);
+    expect(
+      container
+        .querySelector(
+          ".react-datepicker__day--001:not(.react-datepicker__day--outside-month)",
+        )
+        ?.getAttribute("aria-label"),
+    ).toBe("Choose 2025-060");
+    expect(
+      container.querySelector(".react-datepicker__month-select option")
+        ?.textContent,
+    ).toBe("month 1");
+  });
+
+  it("should format the title of the month with the adapter", () => {
+    const { container } = render(
+      <DatePicker
+        dateAdapter={{
+          ...timestampAdapter,
+          calendarFormats: {
+            monthYear: "MM/yyyy",
+            month: "M",
+            monthShort: "M",
+            weekday: "i",
+            weekdayShort: "i",
+            weekdayMin: "i",
+            day: "i",
+          },
+        }}
+        dateFormatCalendar="yyyy-MM"
+        selected={new Date(2025, 2, 1).getTime()}
+        onChange={() => {}}
+        inline
+      />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__current-month")?.textContent,
+    ).toBe("2025-03");
+  });
+});
+
+describe("valueType", () => {
+  it("should select ISO dates with the valueType", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        valueType="iso-date"
+        selected="2026-03-14"
+        minDate="2026-03-02"
+        excludeDates={[{ date: "2026-03-20", message: "Closed" }]}
+        onChange={onChange}
+      />,
+    );
+    const getDay = (day: string) =>
+      container.querySelector(
+        `.react-datepicker__day--0${day}:not(.react-datepicker__day--outside-month)`,
+      ) as HTMLElement;
+
+    expect(getDay("14").classList).toContain("react-datepicker__day--selected");
+    expect(getDay("01").classList).toContain("react-datepicker__day--disabled");
+    expect(getDay("20").classList).toContain("react-datepicker__day--disabled");
+
+    fireEvent.click(getDay("15"));
+
+    expect(onChange.mock.calls[0][0]).toBe("2026-03-15");
+  });
+
+  it("should select ISO date ranges with the valueType", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        valueType="iso-date"
+        startDate="2026-03-14"
+        endDate={null}
+        excludeDates={["2026-03-20"]}
+        onChange={onChange}
+      />,
+    );
+
+    expect(
+      container
+        .querySelector(".react-datepicker__day--020")
+        ?.classList.contains("react-datepicker__day--disabled"),
+    ).toBe(true);
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--018") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual(["2026-03-14", "2026-03-18"]);
+  });
+
+  it("should select ISO dates in the time zone", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        valueType="iso-date"
+        timeZone="Asia/Tokyo"
+        selected="2026-03-10"
+        onChange={onChange}
+      />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__day--selected")?.textContent,
+    ).toBe("10");
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--014") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toBe("2026-03-14");
+  });
+
+  it("should type the input with the valueType", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        valueType="iso-datetime"
+        dateFormat="yyyy-MM-dd"
+        selected="2026-03-14T09:30:00"
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    expect(input.value).toBe("2026-03-14");
+
+    fireEvent.change(input, { target: { value: "2026-03-15" } });
+
+    expect(onChange.mock.calls[0][0]).toBe(
+      isoDateTimeAdapter.fromDate(new Date(2026, 2, 15, 9, 30)),
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { applyDateMask, getDateMask, type DateMaskField } from "../date_mask";
+import DatePicker from "../index";
+
+const mask = (
+  text: string,
+  dateFormat: string,
+  caret = text.length,
+  rangeSeparator?: string,
+) =>
+  applyDateMask(
+    text,
+    caret,
+    getDateMask(dateFormat, undefined, rangeSeparator) as DateMaskField[],
+  );
+
+// Sets the value past React's value tracker, so that the change is seen
+const typeInto = (input: HTMLInputElement, value: string, caret?: number) => {
+  Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value",
+  )?.set?.call(input, value);
+  input.setSelectionRange(caret ?? value.length, caret ?? value.length);
+  fireEvent.change(input);
+};
+
+describe("applyDateMask", () => {
+  it("should insert the separators of the date format", () => {
+    expect(mask("03142026", "MM/dd/yyyy")).toEqual({
+      value: "03/14/2026",
+      caret: 10,
+    });
+    expect(mask("031", "MM/dd/yyyy").value).toBe("03/1");
+    expect(mask("03", "MM/dd/yyyy").value).toBe("03");
+    expect(mask("03/", "MM/dd/yyyy").value).toBe("03/");
+  });
+
+  it("should reject the characters not allowed at each position", () => {
+    expect(mask("1x3", "MM/dd/yyyy").value).toBe("1");
+    expect(mask("13", "MM/dd/yyyy").value).toBe("1");
+    expect(mask("0332", "MM/dd/yyyy").value).toBe("03/3");
+    expect(mask("03142026123", "MM/dd/yyyy").value).toBe("03/14/2026");
+  });
+
+  it("should pad the values that can't take another digit", () => {
+    expect(mask("3142026", "MM/dd/yyyy").value).toBe("03/14/2026");
+    expect(mask("3/4/2026", "MM/dd/yyyy").value).toBe("03/04/2026");
+    expect(mask("3/4/2026", "M/d/yyyy").value).toBe("3/4/2026");
+  });
+
+  it("should keep the caret after the same characters", () => {
+    // "5" was typed after "03/1", before "4/2026"
+    expect(mask("03/154/2026", "MM/dd/yyyy", 5)).toEqual({
+      value: "03/15/4202",
+      caret: 5,
+    });
+    // The separator was deleted
+    expect(mask("0314/2026", "MM/dd/yyyy", 2)).toEqual({
+      value: "03/14/2026",
+      caret: 2,
+    });
+  });
+
+  it("should mask month-year formats and the times", () => {
+    expect(mask("0928", "MM/yy").value).toBe("09/28");
+    expect(mask("06152024305p", "MM/dd/yyyy h:mm aa").value).toBe(
+      "06/15/2024 3:05 PM",
+    );
+  });
+
+  it("should mask the start and end dates of a range", () => {
+    expect(mask("0314202603202026", "MM/dd/yyyy", 16, " - ").value).toBe(
+      "03/14/2026 - 03/20/2026",
+    );
+  });
+
+  it("should not mask the names of the months", () => {
+    expect(getDateMask("MMMM d, yyyy")).toBeNull();
+  });
+});
+
+describe("mask", () => {
+  it("should format the input as it is typed", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker mask selected={null} onChange={onChange} />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    typeInto(input, "03142026");
+
+    expect(input.value).toBe("03/14/2026");
+    expect(input.selectionStart).toBe(10);
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2026, 2, 14));
+  });
+
+  it("should keep the caret where the text was typed", () => {
+    const { container } = render(
+      <DatePicker mask selected={null} onChange={() => {}} />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    typeInto(input, "0314");
+    typeInto(input, "03/1x4", 5);
+
+    expect(input.value).toBe("03/14");
+    expect(input.selectionStart).toBe(4);
+  });
+
+  it("should mask date ranges", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        mask
+        selectsRange
+        startDate={null}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    typeInto(input, "0314202603202026");
+
+    expect(input.value).toBe("03/14/2026 - 03/20/2026");
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2026, 2, 14),
+      new Date(2026, 2, 20),
+    ]);
+  });
+
+  it("should not mask the input without the prop", () => {
+    const { container } = render(
+      <DatePicker selected={null} onChange={() => {}} />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    typeInto(input, "03142026");
+
+    expect(input.value).toBe("03142026");
+  });
+});
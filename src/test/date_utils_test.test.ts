@@ -20,6 +20,14 @@ import {
   isSameYear,
   isDayDisabled,
   isDayExcluded,
+  isRangeLengthInvalid,
+  getRangeLengthLimit,
+  getNextSelectedRanges,
+  mergeSelectedRanges,
+  getDerivedCompareRange,
+  parseRRule,
+  formatRRule,
+  getRecurrenceDates,
   isMonthDisabled,
   isQuarterDisabled,
   isYearDisabled,
@@ -37,6 +45,12 @@ import {
   parseDate,
   isMonthInRange,
   isQuarterInRange,
+  isHalfYearInRange,
+  isHalfYearDisabled,
+  getFiscalYear,
+  getFiscalQuarter,
+  getFiscalHalfYear,
+  getStartOfQuarter,
   isYearInRange,
   getStartOfYear,
   getYearsPeriod,
@@ -416,6 +430,322 @@ describe("date_utils", () => {
     });
   });
 
+  describe("getRangeLengthLimit", () => {
+    it("should return a fixed limit as is", () => {
+      expect(getRangeLengthLimit(3, newDate())).toBe(3);
+    });
+
+    it("should compute the limit from the start date", () => {
+      const startDate = new Date(2024, 0, 5);
+      const limit = (date: Date) => (date.getDay() === 5 ? 2 : 4);
+      expect(getRangeLengthLimit(limit, startDate)).toBe(2);
+      expect(getRangeLengthLimit(limit, addDays(startDate, 1))).toBe(4);
+    });
+
+    it("should return undefined when there is no limit", () => {
+      expect(getRangeLengthLimit(undefined, newDate())).toBeUndefined();
+    });
+  });
+
+  describe("isRangeLengthInvalid", () => {
+    const startDate = new Date(2024, 0, 10);
+
+    it("should be valid when there are no limits", () => {
+      expect(isRangeLengthInvalid(startDate, addDays(startDate, 100))).toBe(
+        false,
+      );
+    });
+
+    it("should be invalid when shorter than minRangeLength", () => {
+      expect(
+        isRangeLengthInvalid(startDate, addDays(startDate, 2), {
+          minRangeLength: 3,
+        }),
+      ).toBe(true);
+      expect(
+        isRangeLengthInvalid(startDate, addDays(startDate, 3), {
+          minRangeLength: 3,
+        }),
+      ).toBe(false);
+    });
+
+    it("should be invalid when longer than maxRangeLength", () => {
+      expect(
+        isRangeLengthInvalid(startDate, addDays(startDate, 31), {
+          maxRangeLength: 30,
+        }),
+      ).toBe(true);
+      expect(
+        isRangeLengthInvalid(startDate, addDays(startDate, 30), {
+          maxRangeLength: 30,
+        }),
+      ).toBe(false);
+    });
+
+    it("should count calendar days regardless of the time of day", () => {
+      const endDate = setHours(addDays(startDate, 3), 1);
+      expect(
+        isRangeLengthInvalid(setHours(startDate, 23), endDate, {
+          minRangeLength: 3,
+        }),
+      ).toBe(false);
+    });
+
+    it("should use limits computed from the start date", () => {
+      expect(
+        isRangeLengthInvalid(startDate, addDays(startDate, 5), {
+          maxRangeLength: () => 4,
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe("getDerivedCompareRange", () => {
+    const startDate = new Date(2024, 2, 10);
+    const endDate = new Date(2024, 2, 16);
+
+    it("should derive the period right before the range", () => {
+      expect(
+        getDerivedCompareRange(startDate, endDate, "previousPeriod"),
+      ).toEqual([new Date(2024, 2, 3), new Date(2024, 2, 9)]);
+    });
+
+    it("should derive the same period a year earlier", () => {
+      expect(
+        getDerivedCompareRange(startDate, endDate, "previousYear"),
+      ).toEqual([new Date(2023, 2, 10), new Date(2023, 2, 16)]);
+    });
+
+    it("should not derive anything from an incomplete range", () => {
+      expect(getDerivedCompareRange(startDate, null, "previousPeriod")).toEqual(
+        [null, null],
+      );
+    });
+  });
+
+  describe("parseRRule", () => {
+    it("should parse the supported rule parts", () => {
+      expect(
+        parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=5"),
+      ).toEqual({
+        freq: "MONTHLY",
+        interval: 2,
+        byDay: [
+          { weekday: "TU", nth: 2 },
+          { weekday: "FR", nth: -1 },
+        ],
+        count: 5,
+      });
+    });
+
+    it("should parse date and UTC date-time UNTIL values", () => {
+      expect(parseRRule("FREQ=DAILY;UNTIL=20240131")?.until).toEqual(
+        new Date(2024, 0, 31),
+      );
+      expect(parseRRule("FREQ=DAILY;UNTIL=20240131T120000Z")?.until).toEqual(
+        new Date(Date.UTC(2024, 0, 31, 12)),
+      );
+    });
+
+    it("should not parse invalid or unsupported rules", () => {
+      expect(parseRRule("INTERVAL=2")).toBeNull();
+      expect(parseRRule("FREQ=HOURLY")).toBeNull();
+      expect(parseRRule("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+      expect(parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20240131")).toBeNull();
+      expect(parseRRule("FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1")).toBeNull();
+    });
+  });
+
+  describe("formatRRule", () => {
+    it("should format a rule", () => {
+      expect(
+        formatRRule({
+          freq: "WEEKLY",
+          interval: 2,
+          byDay: [{ weekday: "MO" }, { weekday: "WE" }],
+          until: new Date(2024, 0, 31),
+        }),
+      ).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240131");
+    });
+
+    it("should round-trip through parseRRule", () => {
+      const rrule = "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=3";
+
+      expect(formatRRule(parseRRule(rrule)!)).toBe(rrule);
+    });
+  });
+
+  describe("getRecurrenceDates", () => {
+    const rangeEnd = new Date(2024, 11, 31);
+
+    it("should expand weekly rules on the given weekdays", () => {
+      expect(
+        getRecurrenceDates(
+          parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4")!,
+          new Date(2024, 0, 3),
+          rangeEnd,
+        ),
+      ).toEqual([
+        new Date(2024, 0, 3),
+        new Date(2024, 0, 15),
+        new Date(2024, 0, 17),
+        new Date(2024, 0, 29),
+      ]);
+    });
+
+    it("should expand monthly rules on the nth weekday", () => {
+      expect(
+        getRecurrenceDates(
+          parseRRule("FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20240430")!,
+          new Date(2024, 0, 1, 9),
+          rangeEnd,
+        ),
+      ).toEqual([
+        new Date(2024, 0, 26, 9),
+        new Date(2024, 1, 23, 9),
+        new Date(2024, 2, 29, 9),
+        new Date(2024, 3, 26, 9),
+      ]);
+    });
+
+    it("should skip months without the day of the start date", () => {
+      expect(
+        getRecurrenceDates(
+          parseRRule("FREQ=MONTHLY;COUNT=3")!,
+          new Date(2024, 0, 31),
+          rangeEnd,
+        ),
+      ).toEqual([
+        new Date(2024, 0, 31),
+        new Date(2024, 2, 31),
+        new Date(2024, 4, 31),
+      ]);
+    });
+
+    it("should stop at the end of the range", () => {
+      expect(
+        getRecurrenceDates(
+          parseRRule("FREQ=DAILY;INTERVAL=3")!,
+          new Date(2024, 0, 1),
+          new Date(2024, 0, 10),
+        ),
+      ).toEqual([
+        new Date(2024, 0, 1),
+        new Date(2024, 0, 4),
+        new Date(2024, 0, 7),
+        new Date(2024, 0, 10),
+      ]);
+    });
+
+    it("should expand yearly rules", () => {
+      expect(
+        getRecurrenceDates(
+          parseRRule("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH")!,
+          new Date(2024, 0, 1),
+          new Date(2026, 11, 31),
+        ),
+      ).toEqual([
+        new Date(2024, 10, 28),
+        new Date(2025, 10, 27),
+        new Date(2026, 10, 26),
+      ]);
+    });
+  });
+
+  describe("mergeSelectedRanges", () => {
+    it("should sort ranges and merge the overlapping ones", () => {
+      const ranges = [
+        { start: new Date(2024, 0, 20), end: new Date(2024, 0, 25) },
+        { start: new Date(2024, 0, 1), end: new Date(2024, 0, 5) },
+        { start: new Date(2024, 0, 5), end: new Date(2024, 0, 8) },
+        { start: new Date(2024, 0, 2), end: new Date(2024, 0, 3) },
+      ];
+
+      expect(mergeSelectedRanges(ranges)).toEqual([
+        { start: new Date(2024, 0, 1), end: new Date(2024, 0, 8) },
+        { start: new Date(2024, 0, 20), end: new Date(2024, 0, 25) },
+      ]);
+    });
+
+    it("should keep the pending range last", () => {
+      const pendingRange = { start: new Date(2024, 0, 2), end: null };
+      const range = {
+        start: new Date(2024, 0, 10),
+        end: new Date(2024, 0, 12),
+      };
+
+      expect(mergeSelectedRanges([pendingRange, range])).toEqual([
+        range,
+        pendingRange,
+      ]);
+    });
+
+    it("should not mutate the given ranges", () => {
+      const range = { start: new Date(2024, 0, 1), end: new Date(2024, 0, 5) };
+      mergeSelectedRanges([
+        range,
+        { start: new Date(2024, 0, 3), end: new Date(2024, 0, 9) },
+      ]);
+
+      expect(range.end).toEqual(new Date(2024, 0, 5));
+    });
+  });
+
+  describe("getNextSelectedRanges", () => {
+    const range = { start: new Date(2024, 0, 10), end: new Date(2024, 0, 15) };
+
+    it("should start a new pending range", () => {
+      expect(getNextSelectedRanges([range], new Date(2024, 0, 20))).toEqual([
+        range,
+        { start: new Date(2024, 0, 20), end: null },
+      ]);
+    });
+
+    it("should complete the pending range", () => {
+      expect(
+        getNextSelectedRanges(
+          [range, { start: new Date(2024, 0, 20), end: null }],
+          new Date(2024, 0, 22),
+        ),
+      ).toEqual([
+        range,
+        { start: new Date(2024, 0, 20), end: new Date(2024, 0, 22) },
+      ]);
+    });
+
+    it("should restart the pending range when the date is before its start", () => {
+      expect(
+        getNextSelectedRanges(
+          [{ start: new Date(2024, 0, 20), end: null }],
+          new Date(2024, 0, 18),
+        ),
+      ).toEqual([{ start: new Date(2024, 0, 18), end: null }]);
+    });
+
+    it("should swap the pending range when swapRange is set", () => {
+      expect(
+        getNextSelectedRanges(
+          [{ start: new Date(2024, 0, 20), end: null }],
+          new Date(2024, 0, 18),
+          true,
+        ),
+      ).toEqual([{ start: new Date(2024, 0, 18), end: new Date(2024, 0, 20) }]);
+    });
+
+    it("should remove the range containing the date", () => {
+      expect(getNextSelectedRanges([range], new Date(2024, 0, 12))).toEqual([]);
+    });
+
+    it("should merge the completed range with the ranges it overlaps", () => {
+      expect(
+        getNextSelectedRanges(
+          [range, { start: new Date(2024, 0, 5), end: null }],
+          new Date(2024, 0, 12),
+        ),
+      ).toEqual([{ start: new Date(2024, 0, 5), end: new Date(2024, 0, 15) }]);
+    });
+  });
+
   describe("isMonthDisabled", () => {
     it("should be enabled by default", () => {
       const day = newDate();
@@ -1271,6 +1601,83 @@ describe("date_utils", () => {
     });
   });
 
+  describe("fiscal year", () => {
+    it("should name the fiscal year after the year it ends in", () => {
+      expect(getFiscalYear(newDate("2025-06-30"), 6)).toBe(2025);
+      expect(getFiscalYear(newDate("2025-07-01"), 6)).toBe(2026);
+      expect(getFiscalYear(newDate("2025-07-01"))).toBe(2025);
+    });
+
+    it("should get the quarter and half of the fiscal year", () => {
+      expect(getFiscalQuarter(newDate("2025-07-01"), 6)).toBe(1);
+      expect(getFiscalQuarter(newDate("2026-03-15"), 6)).toBe(3);
+      expect(getFiscalHalfYear(newDate("2025-12-31"), 6)).toBe(1);
+      expect(getFiscalHalfYear(newDate("2026-01-01"), 6)).toBe(2);
+    });
+
+    it("should get the start of the fiscal quarter", () => {
+      expect(getStartOfQuarter(newDate("2025-05-20"), 3)).toEqual(
+        newDate("2025-04-01"),
+      );
+      expect(getStartOfQuarter(newDate("2026-02-20"), 3)).toEqual(
+        newDate("2026-01-01"),
+      );
+      expect(getStartOfQuarter(newDate("2026-03-20"), 3)).toEqual(
+        newDate("2026-01-01"),
+      );
+    });
+
+    it("should check if a fiscal quarter is in range", () => {
+      const day = newDate("2025-08-01");
+      const startDate = newDate("2025-10-01");
+      const endDate = newDate("2026-03-31");
+
+      expect(isQuarterInRange(startDate, endDate, 1, day, 6)).toBe(false);
+      expect(isQuarterInRange(startDate, endDate, 2, day, 6)).toBe(true);
+      expect(isQuarterInRange(startDate, endDate, 3, day, 6)).toBe(true);
+      expect(isQuarterInRange(startDate, endDate, 4, day, 6)).toBe(false);
+    });
+
+    it("should check if a half-year is in range", () => {
+      const day = newDate("2025-08-01");
+      const startDate = newDate("2026-01-01");
+      const endDate = newDate("2026-05-01");
+
+      expect(isHalfYearInRange(startDate, endDate, 1, day, 6)).toBe(false);
+      expect(isHalfYearInRange(startDate, endDate, 2, day, 6)).toBe(true);
+      expect(isHalfYearInRange(startDate, endDate, 2, day)).toBe(false);
+    });
+
+    it("should disable a half-year before the min date", () => {
+      const minDate = newDate("2026-02-15");
+
+      expect(isHalfYearDisabled(newDate("2025-07-01"), { minDate })).toBe(true);
+      expect(isHalfYearDisabled(newDate("2026-01-01"), { minDate })).toBe(
+        false,
+      );
+      expect(
+        isHalfYearDisabled(newDate("2025-10-01"), {
+          minDate,
+          fiscalYearStartMonth: 3,
+        }),
+      ).toBe(false);
+    });
+
+    it("should disable a fiscal quarter with excluded dates", () => {
+      const excludeDates = [newDate("2026-01-15")];
+
+      expect(
+        isQuarterDisabled(newDate("2025-12-01"), {
+          excludeDates,
+          fiscalYearStartMonth: 1,
+        }),
+      ).toBe(true);
+      expect(isQuarterDisabled(newDate("2025-12-01"), { excludeDates })).toBe(
+        false,
+      );
+    });
+  });
+
   describe("isYearInRange", () => {
     it("should return true if the year passed is in range", () => {
       const startDate = newDate("2000-01-01");
@@ -0,0 +1,215 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import DatePicker from "../index";
+
+const getHeader = (container: HTMLElement) =>
+  container.querySelector(".react-datepicker-year-header") as HTMLElement;
+
+const getQuarter = (container: HTMLElement, q: number) =>
+  container.querySelector(`.react-datepicker__quarter-${q}`) as HTMLElement;
+
+const getHalfYear = (container: HTMLElement, h: number) =>
+  container.querySelector(`.react-datepicker__half-year-${h}`) as HTMLElement;
+
+describe("fiscalYearStartMonth", () => {
+  it("should show the fiscal year in the header", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showQuarterYearPicker
+        fiscalYearStartMonth={6}
+        selected={new Date(2025, 8, 10)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getHeader(container).textContent).toBe("FY2026");
+  });
+
+  it("should keep the calendar year without a fiscal year", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showQuarterYearPicker
+        selected={new Date(2025, 8, 10)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getHeader(container).textContent).toBe("2025");
+  });
+
+  it("should select the start of the fiscal quarter", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showQuarterYearPicker
+        fiscalYearStartMonth={6}
+        selected={new Date(2025, 8, 10)}
+        onChange={onChange}
+      />,
+    );
+
+    expect(
+      getQuarter(container, 1).classList.contains(
+        "react-datepicker__quarter-text--selected",
+      ),
+    ).toBe(true);
+
+    fireEvent.click(getQuarter(container, 3));
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2026, 0, 1));
+  });
+
+  it("should render fiscal quarters in range and disabled", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showQuarterYearPicker
+        fiscalYearStartMonth={3}
+        startDate={new Date(2025, 6, 1)}
+        endDate={new Date(2026, 0, 1)}
+        minDate={new Date(2025, 5, 15)}
+        onChange={() => {}}
+      />,
+    );
+
+    const isInRange = (q: number) =>
+      getQuarter(container, q).classList.contains(
+        "react-datepicker__quarter-text--in-range",
+      );
+    expect(isInRange(1)).toBe(false);
+    expect(isInRange(2)).toBe(true);
+    expect(isInRange(4)).toBe(true);
+    expect(getQuarter(container, 1).getAttribute("class")).not.toContain(
+      "react-datepicker__quarter-text--disabled",
+    );
+  });
+
+  it("should disable the fiscal quarters before the min date", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showQuarterYearPicker
+        fiscalYearStartMonth={3}
+        selected={new Date(2025, 9, 1)}
+        minDate={new Date(2025, 7, 15)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getQuarter(container, 1).classList.contains(
+        "react-datepicker__quarter-text--disabled",
+      ),
+    ).toBe(true);
+    expect(
+      getQuarter(container, 2).classList.contains(
+        "react-datepicker__quarter-text--disabled",
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("showHalfYearPicker", () => {
+  it("should render the halves of the year", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showHalfYearPicker
+        selected={new Date(2025, 8, 10)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getHalfYear(container, 1).textContent).toBe("H1");
+    expect(getHalfYear(container, 2).textContent).toBe("H2");
+    expect(
+      getHalfYear(container, 2).classList.contains(
+        "react-datepicker__half-year-text--selected",
+      ),
+    ).toBe(true);
+    expect(
+      container.querySelector(".react-datepicker__halfYearPicker"),
+    ).not.toBeNull();
+  });
+
+  it("should select the start of the half-year", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showHalfYearPicker
+        fiscalYearStartMonth={6}
+        selected={new Date(2025, 8, 10)}
+        onChange={onChange}
+      />,
+    );
+
+    expect(getHeader(container).textContent).toBe("FY2026");
+
+    fireEvent.click(getHalfYear(container, 2));
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2026, 0, 1));
+  });
+
+  it("should render the half-years in range", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showHalfYearPicker
+        startDate={new Date(2025, 6, 1)}
+        endDate={new Date(2025, 6, 1)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getHalfYear(container, 1).classList.contains(
+        "react-datepicker__half-year-text--in-range",
+      ),
+    ).toBe(false);
+    expect(
+      getHalfYear(container, 2).classList.contains(
+        "react-datepicker__half-year-text--range-start",
+      ),
+    ).toBe(true);
+  });
+
+  it("should move between the half-years with the arrow keys", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showHalfYearPicker
+        selected={new Date(2025, 1, 10)}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.keyDown(getHalfYear(container, 1), { key: "ArrowRight" });
+
+    expect(
+      getHalfYear(container, 2).classList.contains(
+        "react-datepicker__half-year-text--keyboard-selected",
+      ),
+    ).toBe(true);
+  });
+
+  it("should render custom half-year content", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showHalfYearPicker
+        selected={new Date(2025, 1, 10)}
+        renderHalfYearContent={(h) => `Half ${h}`}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getHalfYear(container, 1).textContent).toBe("Half 1");
+  });
+});
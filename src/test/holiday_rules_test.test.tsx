@@ -0,0 +1,156 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import {
+  getEasterSunday,
+  getHolidayRuleDates,
+  isBusinessDay,
+  type HolidayRuleItem,
+} from "../date_utils";
+import DatePicker from "../index";
+
+const holidays: HolidayRuleItem[] = [
+  { rule: { month: 12, day: 25 }, holidayName: "Christmas Day" },
+  { rule: { month: 11, weekday: 4, nth: 4 }, holidayName: "Thanksgiving" },
+  { rule: { month: 5, weekday: 1, nth: -1 }, holidayName: "Memorial Day" },
+  { rule: { easterOffset: 1 }, holidayName: "Easter Monday" },
+];
+
+const getHolidayTitles = (container: HTMLElement) =>
+  Array.from(
+    container.querySelectorAll(
+      ".react-datepicker__day--holidays:not(.react-datepicker__day--outside-month)",
+    ),
+  ).map((day) => day.getAttribute("title"));
+
+describe("getEasterSunday", () => {
+  it("should compute Easter Sunday", () => {
+    expect(getEasterSunday(2024)).toEqual(new Date(2024, 2, 31));
+    expect(getEasterSunday(2025)).toEqual(new Date(2025, 3, 20));
+    expect(getEasterSunday(2038)).toEqual(new Date(2038, 3, 25));
+  });
+});
+
+describe("getHolidayRuleDates", () => {
+  it("should expand the rules in the range", () => {
+    expect(
+      getHolidayRuleDates(
+        holidays,
+        new Date(2024, 0, 1),
+        new Date(2024, 11, 31),
+      ),
+    ).toEqual([
+      { date: new Date(2024, 3, 1), holidayName: "Easter Monday" },
+      { date: new Date(2024, 4, 27), holidayName: "Memorial Day" },
+      { date: new Date(2024, 10, 28), holidayName: "Thanksgiving" },
+      { date: new Date(2024, 11, 25), holidayName: "Christmas Day" },
+    ]);
+  });
+
+  it("should skip the days the months don't have", () => {
+    expect(
+      getHolidayRuleDates(
+        [
+          { rule: { month: 2, day: 30 }, holidayName: "February 30" },
+          { rule: { month: 2, weekday: 1, nth: 5 }, holidayName: "5th Monday" },
+        ],
+        new Date(2024, 0, 1),
+        new Date(2024, 11, 31),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should move the holidays on the weekend to the observed days", () => {
+    const getObserved = (
+      observed: HolidayRuleItem["observed"],
+      rule: HolidayRuleItem["rule"],
+      year: number,
+    ) =>
+      getHolidayRuleDates(
+        [{ rule, holidayName: "Holiday", observed }],
+        new Date(year - 1, 11, 1),
+        new Date(year, 11, 31),
+      ).map(({ date }) => date);
+
+    // July 4, 2026 is a Saturday
+    expect(getObserved("nearest", { month: 7, day: 4 }, 2026)).toEqual([
+      new Date(2026, 6, 3),
+    ]);
+    // December 25, 2022 is a Sunday
+    expect(getObserved("nearest", { month: 12, day: 25 }, 2022)).toEqual([
+      new Date(2021, 11, 24),
+      new Date(2022, 11, 26),
+    ]);
+    expect(getObserved("preceding", { month: 12, day: 25 }, 2022)).toEqual([
+      new Date(2021, 11, 24),
+      new Date(2022, 11, 23),
+    ]);
+    // January 1, 2028 is a Saturday, observed in 2027
+    expect(getObserved("nearest", { month: 1, day: 1 }, 2027)).toEqual([
+      new Date(2027, 0, 1),
+      new Date(2027, 11, 31),
+    ]);
+  });
+
+  it("should be the holidays of the business days", () => {
+    expect(isBusinessDay(new Date(2025, 11, 25), { holidays })).toBe(false);
+    expect(isBusinessDay(new Date(2025, 11, 24), { holidays })).toBe(true);
+  });
+});
+
+describe("holiday rules", () => {
+  it("should show the holidays of the rules in the months shown", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        holidays={holidays}
+        selected={new Date(2030, 10, 1)}
+      />,
+    );
+
+    expect(getHolidayTitles(container)).toEqual(["Thanksgiving"]);
+
+    fireEvent.click(
+      container.querySelector(
+        ".react-datepicker__navigation--next",
+      ) as HTMLElement,
+    );
+
+    expect(getHolidayTitles(container)).toEqual(["Christmas Day"]);
+  });
+
+  it("should show the holidays of the rules along with the dates", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        holidays={[
+          ...holidays,
+          { date: "2030-12-24", holidayName: "Christmas Eve" },
+          { date: "2030-12-25", holidayName: "Office party" },
+        ]}
+        selected={new Date(2030, 11, 1)}
+      />,
+    );
+
+    expect(getHolidayTitles(container)).toEqual([
+      "Christmas Eve",
+      "Office party, Christmas Day",
+    ]);
+  });
+
+  it("should disable the holidays of the rules in business-day mode", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        businessDays
+        holidays={holidays}
+        selected={new Date(2030, 11, 2)}
+      />,
+    );
+    const christmas = container.querySelector(
+      '.react-datepicker__day[title="Christmas Day"]',
+    );
+
+    expect(christmas?.getAttribute("aria-disabled")).toBe("true");
+  });
+});
@@ -0,0 +1,224 @@
+import { render } from "@testing-library/react";
+import React from "react";
+
+import { getHolidaysMap } from "../date_utils";
+import {
+  parseICalendarEvents,
+  parseICalendarHolidays,
+  parseICalendarIntervals,
+} from "../icalendar";
+import DatePicker from "../index";
+
+const ics = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Example//HR//EN",
+  "BEGIN:VEVENT",
+  "UID:1",
+  "DTSTART;VALUE=DATE:20240101",
+  "DTEND;VALUE=DATE:20240102",
+  "SUMMARY:New Year's Day",
+  "RRULE:FREQ=YEARLY",
+  "EXDATE;VALUE=DATE:20250101",
+  "BEGIN:VALARM",
+  "TRIGGER:-PT15M",
+  "SUMMARY:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:2",
+  "DTSTART;VALUE=DATE:20241224",
+  "DTEND;VALUE=DATE:20241227",
+  "SUMMARY:Winter break\\, office",
+  "  closed",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:3",
+  "DTSTART:20240614T090000",
+  "DTEND:20240614T170000",
+  "SUMMARY:Company offsite",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:4",
+  "DTSTART;VALUE=DATE:20240704",
+  "STATUS:CANCELLED",
+  "SUMMARY:Cancelled",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+const range = { rangeEnd: new Date(2026, 11, 31) };
+
+describe("parseICalendarEvents", () => {
+  it("should parse the all-day, multi-day and timed events", () => {
+    expect(parseICalendarEvents(ics, range)).toEqual([
+      {
+        summary: "New Year's Day",
+        start: new Date(2024, 0, 1),
+        end: new Date(2024, 0, 1),
+      },
+      {
+        summary: "New Year's Day",
+        start: new Date(2026, 0, 1),
+        end: new Date(2026, 0, 1),
+      },
+      {
+        summary: "Winter break, office closed",
+        start: new Date(2024, 11, 24),
+        end: new Date(2024, 11, 26),
+      },
+      {
+        summary: "Company offsite",
+        start: new Date(2024, 5, 14),
+        end: new Date(2024, 5, 14),
+      },
+    ]);
+  });
+
+  it("should only expand the recurrences in the range", () => {
+    expect(
+      parseICalendarEvents(ics, {
+        rangeStart: new Date(2025, 0, 1),
+        rangeEnd: new Date(2027, 11, 31),
+      }).map(({ start }) => start),
+    ).toEqual([new Date(2026, 0, 1), new Date(2027, 0, 1)]);
+  });
+
+  it("should give a day to the events without an end", () => {
+    expect(
+      parseICalendarEvents(
+        [
+          "BEGIN:VEVENT",
+          "DTSTART;VALUE=DATE:20240527",
+          "SUMMARY:Memorial Day",
+          "END:VEVENT",
+          "BEGIN:VEVENT",
+          "DTSTART;VALUE=DATE:20240805",
+          "DURATION:P1W",
+          "SUMMARY:Summer shutdown",
+          "END:VEVENT",
+        ].join("\n"),
+      ),
+    ).toEqual([
+      {
+        summary: "Memorial Day",
+        start: new Date(2024, 4, 27),
+        end: new Date(2024, 4, 27),
+      },
+      {
+        summary: "Summer shutdown",
+        start: new Date(2024, 7, 5),
+        end: new Date(2024, 7, 11),
+      },
+    ]);
+  });
+
+  it("should read the date-times in the time zone of their TZID", () => {
+    expect(
+      parseICalendarEvents(
+        [
+          "BEGIN:VEVENT",
+          'DTSTART;X-LINK="https://example.com/?event=1";TZID=Asia/Tokyo:20240615T070000',
+          "DTEND;TZID=Asia/Tokyo:20240615T080000",
+          "SUMMARY:Early meeting",
+          "END:VEVENT",
+        ].join("\n"),
+      ),
+    ).toEqual([
+      {
+        summary: "Early meeting",
+        start: new Date(2024, 5, 14),
+        end: new Date(2024, 5, 14),
+      },
+    ]);
+  });
+
+  it("should leave out the events that cannot be read", () => {
+    expect(
+      parseICalendarEvents(
+        [
+          "BEGIN:VEVENT",
+          "DTSTART;TZID=Not/A_Zone:20240615T070000",
+          "SUMMARY:Unknown time zone",
+          "END:VEVENT",
+          "BEGIN:VEVENT",
+          "DTSTART;VALUE=DATE:20240617",
+          "RRULE:FREQ=HOURLY",
+          "SUMMARY:Unsupported recurrence",
+          "END:VEVENT",
+        ].join("\n"),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("parseICalendarHolidays", () => {
+  it("should give a holiday for each day of the events", () => {
+    const holidays = parseICalendarHolidays(ics, range);
+
+    expect(holidays).toHaveLength(6);
+    expect(holidays.slice(2, 5)).toEqual([
+      {
+        date: new Date(2024, 11, 24),
+        holidayName: "Winter break, office closed",
+      },
+      {
+        date: new Date(2024, 11, 25),
+        holidayName: "Winter break, office closed",
+      },
+      {
+        date: new Date(2024, 11, 26),
+        holidayName: "Winter break, office closed",
+      },
+    ]);
+    expect(getHolidaysMap(holidays).get("12.25.2024")?.holidayNames).toEqual([
+      "Winter break, office closed",
+    ]);
+  });
+
+  it("should show the holidays in the date picker", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        holidays={parseICalendarHolidays(ics, range)}
+        selected={new Date(2024, 11, 1)}
+      />,
+    );
+
+    expect(
+      Array.from(
+        container.querySelectorAll(".react-datepicker__day--holidays"),
+      ).map((day) => day.getAttribute("title")),
+    ).toEqual([
+      "Winter break, office closed",
+      "Winter break, office closed",
+      "Winter break, office closed",
+    ]);
+  });
+});
+
+describe("parseICalendarIntervals", () => {
+  it("should exclude the days of the events", () => {
+    const intervals = parseICalendarIntervals(ics, range);
+
+    expect(intervals[2]).toEqual({
+      start: new Date(2024, 11, 24),
+      end: new Date(2024, 11, 26),
+    });
+
+    const { container } = render(
+      <DatePicker
+        inline
+        excludeDateIntervals={intervals}
+        selected={new Date(2024, 11, 1)}
+      />,
+    );
+    const disabledDays = Array.from(
+      container.querySelectorAll(
+        '.react-datepicker__day[aria-disabled="true"]:not(.react-datepicker__day--outside-month)',
+      ),
+    ).map((day) => day.textContent);
+
+    expect(disabledDays).toEqual(["24", "25", "26"]);
+  });
+});
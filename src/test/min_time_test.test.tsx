@@ -25,6 +25,8 @@ const DatePickerWithState = (
       | "selectsRange"
       | "selectsMultiple"
       | "formatMultipleDates"
+      | "selectsMultipleRanges"
+      | "compareRangeMode"
       | "onSelect"
     >,
 ) => {
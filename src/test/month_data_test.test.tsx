@@ -0,0 +1,276 @@
+import { act, fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { KeyType } from "../date_utils";
+import DatePicker, { type MonthDayData } from "../index";
+
+import { getKey, getDayNode } from "./test_utils";
+
+const selected = new Date(2024, 5, 14);
+
+const clickNext = (container: HTMLElement) =>
+  fireEvent.click(
+    container.querySelector(
+      ".react-datepicker__navigation--next",
+    ) as HTMLElement,
+  );
+
+const clickPrevious = (container: HTMLElement) =>
+  fireEvent.click(
+    container.querySelector(
+      ".react-datepicker__navigation--previous",
+    ) as HTMLElement,
+  );
+
+const flushPromises = () => act(async () => {});
+
+describe("loadMonthData", () => {
+  it("should load the data of every month shown and the months around them", async () => {
+    const loadMonthData = jest.fn(() => Promise.resolve({}));
+
+    render(
+      <DatePicker
+        inline
+        monthsShown={2}
+        selected={selected}
+        loadMonthData={loadMonthData}
+      />,
+    );
+    await flushPromises();
+
+    expect(loadMonthData).toHaveBeenCalledTimes(4);
+    expect(loadMonthData.mock.calls.map((call) => call.slice(0, 2))).toEqual([
+      [new Date(2024, 4, 1), new Date(2024, 4, 31, 23, 59, 59, 999)],
+      [new Date(2024, 5, 1), new Date(2024, 5, 30, 23, 59, 59, 999)],
+      [new Date(2024, 6, 1), new Date(2024, 6, 31, 23, 59, 59, 999)],
+      [new Date(2024, 7, 1), new Date(2024, 7, 31, 23, 59, 59, 999)],
+    ]);
+  });
+
+  it("should show the days as loading until the data loads", async () => {
+    const resolves: ((dayData: MonthDayData) => void)[] = [];
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          new Promise((resolveMonthData) => {
+            resolves.push(resolveMonthData);
+          })
+        }
+      />,
+    );
+    const month = container.querySelector(".react-datepicker__month");
+
+    expect(month?.classList.contains("react-datepicker__month--loading")).toBe(
+      true,
+    );
+    expect(month?.getAttribute("aria-busy")).toBe("true");
+
+    await act(async () => resolves.forEach((resolve) => resolve({})));
+
+    expect(month?.classList.contains("react-datepicker__month--loading")).toBe(
+      false,
+    );
+    expect(month?.getAttribute("aria-busy")).toBeNull();
+  });
+
+  it("should apply the data to the days", async () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          Promise.resolve({
+            "2024-06-18": {
+              disabled: true,
+              className: "sold-out",
+              label: "Sold out",
+            },
+            "2024-06-19": { content: "$120" },
+          })
+        }
+      />,
+    );
+    await flushPromises();
+
+    const soldOut = getDayNode(container, 18);
+    expect(soldOut.getAttribute("aria-disabled")).toBe("true");
+    expect(soldOut.classList.contains("sold-out")).toBe(true);
+    expect(soldOut.getAttribute("title")).toBe("Sold out");
+    expect(soldOut.getAttribute("aria-label")).toContain(
+      "June 18th, 2024, Sold out",
+    );
+    expect(
+      getDayNode(container, 19).querySelector(".react-datepicker__day-data")
+        ?.textContent,
+    ).toBe("$120");
+  });
+
+  it("should skip the days disabled by the data with the arrow keys", async () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          Promise.resolve({ "2024-06-15": { disabled: true } })
+        }
+      />,
+    );
+    await flushPromises();
+
+    fireEvent.keyDown(getDayNode(container, 14), { key: "ArrowRight" });
+
+    expect(
+      container.querySelector('.react-datepicker__day[tabindex="0"]')
+        ?.textContent,
+    ).toBe("16");
+  });
+
+  it("should abort the requests of the months no longer shown", async () => {
+    const signals: AbortSignal[] = [];
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={(_monthStart, _monthEnd, signal) => {
+          signals.push(signal);
+          return new Promise(() => {});
+        }}
+      />,
+    );
+
+    clickNext(container);
+    await flushPromises();
+
+    // May is no longer around the month shown, unlike June, July and August
+    expect(signals).toHaveLength(4);
+    expect(signals.map((signal) => signal.aborted)).toEqual([
+      true,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it("should keep the data of the months already loaded", async () => {
+    const loadMonthData = jest.fn((monthStart: Date) =>
+      Promise.resolve({
+        [`${monthStart.getFullYear()}-0${monthStart.getMonth() + 1}-10`]: {
+          className: "loaded",
+        },
+      }),
+    );
+    const { container } = render(
+      <DatePicker inline selected={selected} loadMonthData={loadMonthData} />,
+    );
+    await flushPromises();
+
+    clickNext(container);
+    await flushPromises();
+    clickPrevious(container);
+    await flushPromises();
+
+    expect(loadMonthData).toHaveBeenCalledTimes(4);
+    expect(getDayNode(container, 10).classList.contains("loaded")).toBe(true);
+    expect(
+      container
+        .querySelector(".react-datepicker__month")
+        ?.classList.contains("react-datepicker__month--loading"),
+    ).toBe(false);
+  });
+
+  it("should apply the data to the days of the months around", async () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          Promise.resolve({ "2024-07-01": { className: "loaded" } })
+        }
+      />,
+    );
+    await flushPromises();
+
+    expect(
+      container
+        .querySelector(
+          ".react-datepicker__day--outside-month.react-datepicker__day--001",
+        )
+        ?.classList.contains("loaded"),
+    ).toBe(true);
+  });
+
+  it("should not select the days of the months that are loading", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        onChange={onChange}
+        loadMonthData={() => new Promise(() => {})}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 18));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should keep the data while the calendar is closed", async () => {
+    const onChange = jest.fn();
+    const loadMonthData = jest.fn(() =>
+      Promise.resolve({ "2024-06-18": { disabled: true } }),
+    );
+    const { container } = render(
+      <DatePicker
+        selected={selected}
+        onChange={onChange}
+        loadMonthData={loadMonthData}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    fireEvent.focus(input);
+    await flushPromises();
+    fireEvent.keyDown(input, getKey(KeyType.Escape));
+
+    expect(container.querySelector(".react-datepicker")).toBeNull();
+
+    fireEvent.change(input, { target: { value: "06/18/2024" } });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.change(input, { target: { value: "06/17/2024" } });
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    fireEvent.focus(input);
+    await flushPromises();
+    expect(loadMonthData).toHaveBeenCalledTimes(3);
+  });
+
+  it("should load the data again when loadMonthData changes", async () => {
+    const { container, rerender } = render(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          Promise.resolve({ "2024-06-10": { className: "first" } })
+        }
+      />,
+    );
+    await flushPromises();
+
+    rerender(
+      <DatePicker
+        inline
+        selected={selected}
+        loadMonthData={() =>
+          Promise.resolve({ "2024-06-10": { className: "second" } })
+        }
+      />,
+    );
+    await flushPromises();
+
+    expect(getDayNode(container, 10).classList.contains("first")).toBe(false);
+    expect(getDayNode(container, 10).classList.contains("second")).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import DatePicker from "../index";
+
+import { getDayNode, hasClass } from "./test_utils";
+
+describe("selectsMultipleRanges", () => {
+  const selectedRanges = [
+    { start: new Date(2024, 0, 3), end: new Date(2024, 0, 5) },
+    { start: new Date(2024, 0, 15), end: new Date(2024, 0, 18) },
+  ];
+
+  it("should render the start, middle and end of every range", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={selectedRanges}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(hasClass(container, 3, "range-start")).toBe(true);
+    expect(hasClass(container, 4, "in-range")).toBe(true);
+    expect(hasClass(container, 4, "range-start")).toBe(false);
+    expect(hasClass(container, 4, "range-end")).toBe(false);
+    expect(hasClass(container, 5, "range-end")).toBe(true);
+    expect(hasClass(container, 15, "range-start")).toBe(true);
+    expect(hasClass(container, 18, "range-end")).toBe(true);
+    expect(hasClass(container, 10, "in-range")).toBe(false);
+  });
+
+  it("should render the start of the pending range as selected", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={[
+          ...selectedRanges,
+          { start: new Date(2024, 0, 24), end: null },
+        ]}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(hasClass(container, 24, "selected")).toBe(true);
+    expect(hasClass(container, 24, "in-range")).toBe(false);
+  });
+
+  it("should preview the pending range while hovering", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={[{ start: new Date(2024, 0, 10), end: null }]}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.mouseEnter(getDayNode(container, 12));
+
+    expect(hasClass(container, 10, "selecting-range-start")).toBe(true);
+    expect(hasClass(container, 11, "in-selecting-range")).toBe(true);
+    expect(hasClass(container, 12, "selecting-range-end")).toBe(true);
+  });
+
+  it("should start a new range on click", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={selectedRanges}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 24));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      ...selectedRanges,
+      { start: new Date(2024, 0, 24), end: null },
+    ]);
+  });
+
+  it("should complete the pending range on click", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={[{ start: new Date(2024, 0, 24), end: null }]}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 26));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      { start: new Date(2024, 0, 24), end: new Date(2024, 0, 26) },
+    ]);
+  });
+
+  it("should remove a range when clicking inside it", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={selectedRanges}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 16));
+
+    expect(onChange.mock.calls[0][0]).toEqual([selectedRanges[0]]);
+  });
+
+  it("should merge overlapping ranges", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsMultipleRanges
+        selectedRanges={[
+          ...selectedRanges,
+          { start: new Date(2024, 0, 4), end: null },
+        ]}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 16));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      { start: new Date(2024, 0, 3), end: new Date(2024, 0, 18) },
+    ]);
+  });
+
+  it("should keep the calendar open until the pending range is completed", () => {
+    const { container, rerender } = render(
+      <DatePicker
+        selectsMultipleRanges
+        selectedRanges={[]}
+        openToDate={new Date(2024, 0, 1)}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.click(container.querySelector("input") as HTMLInputElement);
+    fireEvent.click(getDayNode(container, 10));
+
+    expect(container.querySelector(".react-datepicker")).not.toBeNull();
+
+    rerender(
+      <DatePicker
+        selectsMultipleRanges
+        selectedRanges={[{ start: new Date(2024, 0, 10), end: null }]}
+        openToDate={new Date(2024, 0, 1)}
+        onChange={() => {}}
+      />,
+    );
+    fireEvent.click(getDayNode(container, 12));
+
+    expect(container.querySelector(".react-datepicker")).toBeNull();
+  });
+
+  it("should show every range in the input", () => {
+    const { container } = render(
+      <DatePicker
+        selectsMultipleRanges
+        selectedRanges={selectedRanges}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "01/03/2024 - 01/05/2024, 01/15/2024 - 01/18/2024",
+    );
+  });
+
+  it("should clear every range", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        isClearable
+        selectsMultipleRanges
+        selectedRanges={selectedRanges}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(
+        ".react-datepicker__close-icon",
+      ) as HTMLButtonElement,
+    );
+
+    expect(onChange).toHaveBeenCalledWith([], expect.anything());
+  });
+});
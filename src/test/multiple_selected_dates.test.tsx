@@ -25,6 +25,8 @@ describe("Multiple Dates Selected", function () {
         | "disabledKeyboardNavigation"
         | "onSelect"
         | "selectsRange"
+        | "selectsMultipleRanges"
+        | "compareRangeMode"
       > & {
         selectsMultiple?: true;
       },
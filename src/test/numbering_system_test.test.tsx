@@ -0,0 +1,127 @@
+import { fireEvent, render } from "@testing-library/react";
+import { faIR } from "date-fns/locale";
+import React from "react";
+
+import {
+  delocalizeDigits,
+  getNumberingSystem,
+  localizeDigits,
+  parseDate,
+} from "../date_utils";
+import DatePicker from "../index";
+
+import { setupMockResizeObserver } from "./test_utils";
+
+const selected = new Date(2026, 2, 14);
+
+describe("numbering systems", () => {
+  it("should get the numbering system of the locale", () => {
+    expect(getNumberingSystem("ar-EG")).toBe("arab");
+    expect(getNumberingSystem(faIR)).toBe("arabext");
+    expect(getNumberingSystem("en-US")).toBe("latn");
+    expect(getNumberingSystem("en-US", "deva")).toBe("deva");
+  });
+
+  it("should write the digits of a numbering system", () => {
+    expect(localizeDigits("14/03/2026", "arab")).toBe("١٤/٠٣/٢٠٢٦");
+    expect(localizeDigits("14/03/2026", "deva")).toBe("१४/०३/२०२६");
+    expect(localizeDigits("14/03/2026", "latn")).toBe("14/03/2026");
+    expect(delocalizeDigits("١٤/٠٣/٢٠٢٦")).toBe("14/03/2026");
+    expect(delocalizeDigits("۱۴/۰۳/۲۰۲۶")).toBe("14/03/2026");
+  });
+
+  it("should parse native and Latin digits", () => {
+    expect(parseDate("١٤/٠٣/٢٠٢٦", "dd/MM/yyyy", undefined, true)).toEqual(
+      selected,
+    );
+    expect(parseDate("14/03/2026", "dd/MM/yyyy", undefined, true)).toEqual(
+      selected,
+    );
+  });
+});
+
+describe("numberingSystem", () => {
+  beforeEach(() => {
+    setupMockResizeObserver();
+  });
+
+  it("should write the days, week numbers and header in the numbering system", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showWeekNumbers
+        numberingSystem="arab"
+        selected={selected}
+      />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__day--selected")?.textContent,
+    ).toBe("١٤");
+    expect(
+      container.querySelector(".react-datepicker__current-month")?.textContent,
+    ).toBe("March ٢٠٢٦");
+    expect(
+      container.querySelector(".react-datepicker__week-number")?.textContent,
+    ).toBe("٩");
+  });
+
+  it("should write the years and times in the numbering system", () => {
+    const { container: yearPicker } = render(
+      <DatePicker
+        inline
+        showYearPicker
+        numberingSystem="deva"
+        selected={selected}
+      />,
+    );
+    const { container: timeList } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        timeFormat="HH:mm"
+        numberingSystem="deva"
+        selected={selected}
+      />,
+    );
+
+    expect(
+      yearPicker.querySelector(".react-datepicker__year-text--selected")
+        ?.textContent,
+    ).toBe("२०२६");
+    expect(
+      timeList.querySelector(".react-datepicker__time-list-item")?.textContent,
+    ).toBe("००:००");
+  });
+
+  it("should detect the numbering system from the locale", () => {
+    const { container } = render(
+      <DatePicker inline locale={faIR} selected={selected} />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__day--selected")?.textContent,
+    ).toBe("۱۴");
+  });
+
+  it("should write the input in the numbering system and parse both digits", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        numberingSystem="arab"
+        dateFormat="dd/MM/yyyy"
+        selected={selected}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    expect(input.value).toBe("١٤/٠٣/٢٠٢٦");
+
+    fireEvent.change(input, { target: { value: "١٥/٠٣/٢٠٢٦" } });
+    fireEvent.change(input, { target: { value: "16/03/2026" } });
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2026, 2, 15));
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2026, 2, 16));
+  });
+});
@@ -0,0 +1,214 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+
+import { getStartOfDay, subDays } from "../date_utils";
+import DatePicker from "../index";
+
+import type { DateRangePreset } from "../presets";
+
+describe("presets", () => {
+  const lastSevenDays = jest.fn((now: Date): [Date, Date] => [
+    getStartOfDay(subDays(now, 6)),
+    getStartOfDay(now),
+  ]);
+  const presets: DateRangePreset[] = [
+    {
+      id: "christmas",
+      label: "Christmas week",
+      range: [new Date(2024, 11, 23), new Date(2024, 11, 29)],
+    },
+    { id: "last-7-days", label: "Last 7 days", range: lastSevenDays },
+  ];
+
+  beforeEach(() => {
+    lastSevenDays.mockClear();
+  });
+
+  it("should render an accessible list of presets next to the calendar", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={null}
+        presets={presets}
+        onChange={() => {}}
+      />,
+    );
+
+    const list = screen.getByRole("list", { name: "Presets" });
+    expect(list.querySelectorAll("button")).toHaveLength(2);
+    expect(
+      container.querySelector(
+        ".react-datepicker__navigation--previous--with-presets",
+      ),
+    ).not.toBeNull();
+  });
+
+  it("should not render presets without selectsRange", () => {
+    const { container } = render(
+      <DatePicker inline selected={null} presets={presets} />,
+    );
+
+    expect(container.querySelector(".react-datepicker__presets")).toBeNull();
+  });
+
+  it("should report the picked range and preset id to onChange", () => {
+    const onChange = jest.fn();
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={null}
+        presets={presets}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Christmas week" }));
+
+    expect(onChange).toHaveBeenCalledWith(
+      [new Date(2024, 11, 23), new Date(2024, 11, 29)],
+      expect.anything(),
+      { presetId: "christmas" },
+    );
+  });
+
+  it("should highlight the preset matching the selected range", () => {
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={new Date(2024, 11, 23)}
+        endDate={new Date(2024, 11, 29)}
+        presets={presets}
+        onChange={() => {}}
+      />,
+    );
+
+    const christmas = screen.getByRole("button", { name: "Christmas week" });
+    expect(christmas.getAttribute("aria-pressed")).toBe("true");
+    expect(
+      christmas.classList.contains("react-datepicker__preset--selected"),
+    ).toBe(true);
+    expect(
+      screen
+        .getByRole("button", { name: "Last 7 days" })
+        .getAttribute("aria-pressed"),
+    ).toBe("false");
+  });
+
+  it("should disable presets with disabled days", () => {
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={null}
+        maxDate={new Date(2024, 11, 25)}
+        presets={presets}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      (
+        screen.getByRole("button", {
+          name: "Christmas week",
+        }) as HTMLButtonElement
+      ).disabled,
+    ).toBe(true);
+  });
+
+  it("should disable presets out of the range length or on non-working days", () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={null}
+        maxRangeLength={3}
+        presets={presets}
+        onChange={onChange}
+      />,
+    );
+    const christmasWeek = screen.getByRole("button", {
+      name: "Christmas week",
+    }) as HTMLButtonElement;
+
+    expect(christmasWeek.disabled).toBe(true);
+
+    // Sunday, December 29th is not a working day
+    rerender(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={null}
+        businessDays
+        presets={presets}
+        onChange={onChange}
+      />,
+    );
+
+    expect(christmasWeek.disabled).toBe(true);
+    fireEvent.click(christmasWeek);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should compute rolling presets each time the picker opens", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        startDate={null}
+        endDate={null}
+        presets={presets}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    fireEvent.click(input);
+    const firstNow = lastSevenDays.mock.calls[0]?.[0];
+    fireEvent.click(screen.getByRole("button", { name: "Last 7 days" }));
+
+    expect(onChange).toHaveBeenCalledWith(
+      [
+        getStartOfDay(subDays(firstNow as Date, 6)),
+        getStartOfDay(firstNow as Date),
+      ],
+      expect.anything(),
+      { presetId: "last-7-days" },
+    );
+    expect(container.querySelector(".react-datepicker")).toBeNull();
+
+    lastSevenDays.mockClear();
+    fireEvent.click(input);
+    const secondNow = lastSevenDays.mock.calls[0]?.[0];
+
+    expect(secondNow).toBeInstanceOf(Date);
+    expect(secondNow).not.toBe(firstNow);
+  });
+
+  it("should keep the calendar open when shouldCloseOnSelect is false", () => {
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        startDate={null}
+        endDate={null}
+        presets={presets}
+        shouldCloseOnSelect={false}
+        openToDate={new Date(2024, 11, 23)}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.click(container.querySelector("input") as HTMLInputElement);
+    fireEvent.click(screen.getByRole("button", { name: "Christmas week" }));
+
+    expect(container.querySelector(".react-datepicker")).not.toBeNull();
+  });
+});
@@ -0,0 +1,271 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { KeyType, addDays, getDay } from "../date_utils";
+import DatePicker from "../index";
+
+import { getKey, getDayNode } from "./test_utils";
+
+describe("minRangeLength and maxRangeLength", () => {
+  const startDate = new Date(2024, 0, 10);
+
+  it("should disable end days outside of the allowed range length while a start is picked", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={startDate}
+        endDate={null}
+        minRangeLength={3}
+        maxRangeLength={5}
+        onChange={() => {}}
+      />,
+    );
+
+    const isDisabled = (offset: number) =>
+      getDayNode(container, addDays(startDate, offset)).classList.contains(
+        "react-datepicker__day--disabled",
+      );
+
+    // The start day would end a range of 0 days
+    expect(isDisabled(0)).toBe(true);
+    expect(isDisabled(1)).toBe(true);
+    expect(isDisabled(2)).toBe(true);
+    expect(isDisabled(3)).toBe(false);
+    expect(isDisabled(5)).toBe(false);
+    expect(isDisabled(6)).toBe(true);
+    expect(isDisabled(-1)).toBe(false);
+  });
+
+  it("should not disable days once the range is complete", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={startDate}
+        endDate={addDays(startDate, 4)}
+        minRangeLength={3}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getDayNode(container, addDays(startDate, 1)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(false);
+  });
+
+  it("should disable days before the start when swapRange is set", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        swapRange
+        startDate={startDate}
+        endDate={null}
+        minRangeLength={3}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getDayNode(container, addDays(startDate, -2)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(true);
+    expect(
+      getDayNode(container, addDays(startDate, -3)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(false);
+  });
+
+  it("should compute the limits from the start date", () => {
+    // Weekend starts need at least 2 nights, other days at least 4
+    const minRangeLength = (date: Date) =>
+      getDay(date) === 5 || getDay(date) === 6 ? 2 : 4;
+    const friday = new Date(2024, 0, 12);
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={friday}
+        endDate={null}
+        minRangeLength={minRangeLength}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getDayNode(container, addDays(friday, 2)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(false);
+  });
+
+  it("should not complete a range that is too short and report the error", () => {
+    const onChange = jest.fn();
+    const onInputError = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={startDate}
+        endDate={null}
+        minRangeLength={3}
+        onChange={onChange}
+        onInputError={onInputError}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, startDate));
+    fireEvent.keyDown(getDayNode(container, startDate), getKey(KeyType.Enter));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onInputError).toHaveBeenCalledWith({
+      code: 2,
+      msg: "Date range length not valid.",
+    });
+  });
+
+  it("should complete a range within the allowed length", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={startDate}
+        endDate={null}
+        minRangeLength={3}
+        maxRangeLength={30}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, addDays(startDate, 3)));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toEqual([
+      startDate,
+      addDays(startDate, 3),
+    ]);
+  });
+
+  it("should keep the calendar open when a range of invalid length is picked with the keyboard", () => {
+    const onChange = jest.fn();
+    const onInputError = jest.fn();
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        startDate={startDate}
+        endDate={null}
+        minRangeLength={3}
+        onChange={onChange}
+        onInputError={onInputError}
+      />,
+    );
+
+    fireEvent.click(container.querySelector("input") as HTMLInputElement);
+    const startDay = getDayNode(container, startDate);
+    fireEvent.keyDown(startDay, getKey(KeyType.ArrowRight));
+    fireEvent.keyDown(
+      getDayNode(container, addDays(startDate, 1)),
+      getKey(KeyType.Enter),
+    );
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onInputError).toHaveBeenCalledWith({
+      code: 2,
+      msg: "Date range length not valid.",
+    });
+    expect(container.querySelector(".react-datepicker")).not.toBeNull();
+  });
+
+  it("should resolve the limits from the same start as the selection with swapRange", () => {
+    const onChange = jest.fn();
+    const maxRangeLength = jest.fn((start: Date) =>
+      getDay(start) === 1 ? 10 : 2,
+    );
+    // Wednesday, January 10th is picked, and Monday, January 1st comes before it
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        swapRange
+        startDate={startDate}
+        endDate={null}
+        maxRangeLength={maxRangeLength}
+        onChange={onChange}
+      />,
+    );
+    const monday = new Date(2024, 0, 1);
+
+    expect(
+      getDayNode(container, monday).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(false);
+
+    fireEvent.click(getDayNode(container, monday));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should disable the days that would start a range too long before its end", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        startDate={null}
+        endDate={startDate}
+        openToDate={startDate}
+        maxRangeLength={3}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getDayNode(container, addDays(startDate, -4)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(true);
+    expect(
+      getDayNode(container, addDays(startDate, -3)).classList.contains(
+        "react-datepicker__day--disabled",
+      ),
+    ).toBe(false);
+  });
+
+  it("should reject typed ranges outside of the allowed length", () => {
+    const onChange = jest.fn();
+    const onInputError = jest.fn();
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        startDate={null}
+        endDate={null}
+        minRangeLength={3}
+        onChange={onChange}
+        onInputError={onInputError}
+      />,
+    );
+
+    const input = container.querySelector("input") as HTMLInputElement;
+    fireEvent.change(input, {
+      target: { value: "01/10/2024 - 01/11/2024" },
+    });
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onInputError).toHaveBeenCalledWith({
+      code: 2,
+      msg: "Date range length not valid.",
+    });
+
+    fireEvent.change(input, {
+      target: { value: "01/10/2024 - 01/14/2024" },
+    });
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import React from "react";
+
+import DatePicker from "../index";
+
+import { setupMockResizeObserver, getDayNode } from "./test_utils";
+
+const getTimeOption = (caption: string, time: string) =>
+  within(screen.getByRole("listbox", { name: caption })).getByText(time);
+
+describe("showRangeTimeSelect", () => {
+  beforeEach(() => {
+    setupMockResizeObserver();
+  });
+
+  it("should render separate start and end time lists", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 12, 17)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      container.querySelectorAll(".react-datepicker__time-container"),
+    ).toHaveLength(2);
+    expect(
+      getTimeOption("Time (Start)", "9:00 AM").getAttribute("aria-selected"),
+    ).toBe("true");
+    expect(
+      getTimeOption("Time (End)", "5:00 PM").getAttribute("aria-selected"),
+    ).toBe("true");
+  });
+
+  it("should caption the lists with the start and end time captions", () => {
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        timeCaption="Heure"
+        startTimeCaption="Début"
+        endTimeCaption="Fin"
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 12, 17)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      getTimeOption("Heure (Début)", "9:00 AM").getAttribute("aria-selected"),
+    ).toBe("true");
+    expect(
+      getTimeOption("Heure (Fin)", "5:00 PM").getAttribute("aria-selected"),
+    ).toBe("true");
+  });
+
+  it("should apply each list to its own end of the range", () => {
+    const onChange = jest.fn();
+    const startDate = new Date(2024, 0, 10, 9);
+    const endDate = new Date(2024, 0, 12, 17);
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={startDate}
+        endDate={endDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getTimeOption("Time (Start)", "10:30 AM"));
+    fireEvent.click(getTimeOption("Time (End)", "6:00 PM"));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 0, 10, 10, 30),
+      endDate,
+    ]);
+    expect(onChange.mock.calls[1][0]).toEqual([
+      startDate,
+      new Date(2024, 0, 12, 18),
+    ]);
+  });
+
+  it("should disable end times that are not after the start time on the same day", () => {
+    const onChange = jest.fn();
+    render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 10, 17)}
+        onChange={onChange}
+      />,
+    );
+
+    expect(
+      getTimeOption("Time (End)", "9:00 AM").getAttribute("aria-disabled"),
+    ).toBe("true");
+    expect(
+      getTimeOption("Time (End)", "9:30 AM").getAttribute("aria-disabled"),
+    ).toBeNull();
+    expect(
+      getTimeOption("Time (Start)", "5:00 PM").getAttribute("aria-disabled"),
+    ).toBe("true");
+
+    fireEvent.click(getTimeOption("Time (End)", "8:00 AM"));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should keep the start time when the start date changes", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 12, 17)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 15));
+
+    expect(onChange.mock.calls[0][0]).toEqual([new Date(2024, 0, 15, 9), null]);
+  });
+
+  it("should keep the end time when the range is picked again", () => {
+    const onChange = jest.fn();
+    const { container, rerender } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 12, 17)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 15));
+    rerender(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        startDate={onChange.mock.calls[0][0][0]}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+    fireEvent.click(getDayNode(container, 18));
+
+    expect(onChange.mock.calls[1][0]).toEqual([
+      new Date(2024, 0, 15, 9),
+      new Date(2024, 0, 18, 17),
+    ]);
+  });
+
+  it("should move an end on the start day past the start time", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        timeIntervals={15}
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 10));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 0, 10, 9),
+      new Date(2024, 0, 10, 9, 15),
+    ]);
+  });
+
+  it("should show both date times in the input", () => {
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        showTimeSelect
+        showRangeTimeSelect
+        dateFormat="MM/dd/yyyy h:mm aa"
+        startDate={new Date(2024, 0, 10, 9)}
+        endDate={new Date(2024, 0, 12, 17)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "01/10/2024 9:00 AM - 01/12/2024 5:00 PM",
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+
+import RecurrenceEditor from "../recurrence_editor";
+
+import { getDayNode, hasClass } from "./test_utils";
+
+const isHighlighted = (container: HTMLElement, day: number) =>
+  hasClass(container, day, "highlighted");
+
+describe("RecurrenceEditor", () => {
+  const startDate = new Date(2024, 0, 10);
+
+  it("should highlight the occurrences of the rule", () => {
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3"
+        startDate={startDate}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(isHighlighted(container, 10)).toBe(true);
+    expect(isHighlighted(container, 15)).toBe(true);
+    expect(isHighlighted(container, 17)).toBe(true);
+    expect(isHighlighted(container, 22)).toBe(false);
+    expect(isHighlighted(container, 16)).toBe(false);
+  });
+
+  it("should toggle weekdays", () => {
+    const onChange = jest.fn();
+    render(
+      <RecurrenceEditor
+        value="FREQ=WEEKLY;BYDAY=WE"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    const friday = screen.getByRole("button", { name: "Friday" });
+    expect(friday.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(friday);
+
+    expect(onChange.mock.calls[0][0]).toBe("FREQ=WEEKLY;BYDAY=WE,FR");
+  });
+
+  it("should keep at least one weekday", () => {
+    const onChange = jest.fn();
+    render(
+      <RecurrenceEditor
+        value="FREQ=WEEKLY;BYDAY=WE"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Wednesday" }));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should change the frequency and the interval", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=WEEKLY;BYDAY=WE"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(
+      container.querySelector(
+        ".react-datepicker__recurrence-frequency",
+      ) as HTMLSelectElement,
+      { target: { value: "MONTHLY" } },
+    );
+    fireEvent.change(
+      container.querySelector(
+        ".react-datepicker__recurrence-interval",
+      ) as HTMLInputElement,
+      { target: { value: "3" } },
+    );
+
+    expect(onChange.mock.calls[0][0]).toBe("FREQ=MONTHLY;BYMONTHDAY=10");
+    expect(onChange.mock.calls[1][0]).toBe("FREQ=WEEKLY;INTERVAL=3;BYDAY=WE");
+  });
+
+  it("should repeat monthly on the nth weekday", () => {
+    const onChange = jest.fn();
+    render(
+      <RecurrenceEditor
+        value="FREQ=MONTHLY;BYMONTHDAY=10"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByLabelText("On the second Wednesday"));
+
+    expect(onChange.mock.calls[0][0]).toBe("FREQ=MONTHLY;BYDAY=2WE");
+  });
+
+  it("should set the end condition", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=DAILY"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByLabelText("After"));
+    fireEvent.click(screen.getByLabelText("On"));
+    fireEvent.change(
+      container.querySelector(
+        ".react-datepicker__recurrence-until",
+      ) as HTMLInputElement,
+      { target: { value: "2024-02-29" } },
+    );
+
+    expect(onChange.mock.calls[0][0]).toBe("FREQ=DAILY;COUNT=10");
+    expect(onChange.mock.calls[1][0]).toBe("FREQ=DAILY;UNTIL=20240410");
+    expect(onChange.mock.calls[2][0]).toBe("FREQ=DAILY;UNTIL=20240229");
+  });
+
+  it("should change the start date from the calendar", () => {
+    const onStartDateChange = jest.fn();
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=DAILY"
+        startDate={startDate}
+        onChange={() => {}}
+        onStartDateChange={onStartDateChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 12));
+
+    expect(onStartDateChange).toHaveBeenCalledWith(new Date(2024, 0, 12));
+  });
+
+  it("should show the rules it can't edit read-only", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+
+    expect(screen.getByRole("status").textContent).toContain(
+      "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+    );
+    expect(
+      container.querySelector(".react-datepicker__recurrence-controls"),
+    ).toBeNull();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should let the number inputs be cleared", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <RecurrenceEditor
+        value="FREQ=DAILY;INTERVAL=2"
+        startDate={startDate}
+        onChange={onChange}
+      />,
+    );
+    const interval = container.querySelector(
+      ".react-datepicker__recurrence-interval",
+    ) as HTMLInputElement;
+
+    fireEvent.change(interval, { target: { value: "" } });
+    expect(interval.value).toBe("");
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.change(interval, { target: { value: "3" } });
+    expect(onChange.mock.calls[0][0]).toBe("FREQ=DAILY;INTERVAL=3");
+  });
+
+  it("should name the radio groups after the name prop", () => {
+    const { container } = render(
+      <RecurrenceEditor
+        name="event-recurrence"
+        value="FREQ=DAILY"
+        startDate={startDate}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      container.querySelector('input[type="radio"]')?.getAttribute("name"),
+    ).toBe("event-recurrence-end");
+  });
+});
@@ -0,0 +1,153 @@
+import { fireEvent, render } from "@testing-library/react";
+import { addDays, startOfDay } from "date-fns";
+import { de } from "date-fns/locale";
+import React from "react";
+
+import {
+  parseRelativeDate,
+  registerLocale,
+  registerRelativeDateWords,
+} from "../date_utils";
+import DatePicker from "../index";
+
+// Wednesday
+const today = new Date(2024, 5, 12, 10, 30);
+
+describe("parseRelativeDate", () => {
+  it("should parse the days around today", () => {
+    expect(parseRelativeDate("today", undefined, today)).toEqual(
+      new Date(2024, 5, 12),
+    );
+    expect(parseRelativeDate(" Tomorrow ", undefined, today)).toEqual(
+      new Date(2024, 5, 13),
+    );
+    expect(parseRelativeDate("yesterday", undefined, today)).toEqual(
+      new Date(2024, 5, 11),
+    );
+  });
+
+  it("should parse the offsets from today", () => {
+    expect(parseRelativeDate("+3d", undefined, today)).toEqual(
+      new Date(2024, 5, 15),
+    );
+    expect(parseRelativeDate("-2w", undefined, today)).toEqual(
+      new Date(2024, 4, 29),
+    );
+    expect(parseRelativeDate("+1 month", undefined, today)).toEqual(
+      new Date(2024, 6, 12),
+    );
+    expect(parseRelativeDate("in 2 years", undefined, today)).toEqual(
+      new Date(2026, 5, 12),
+    );
+    expect(parseRelativeDate("3 days ago", undefined, today)).toEqual(
+      new Date(2024, 5, 9),
+    );
+    expect(parseRelativeDate("+3x", undefined, today)).toBeNull();
+  });
+
+  it("should parse the weekdays", () => {
+    expect(parseRelativeDate("fri", undefined, today)).toEqual(
+      new Date(2024, 5, 14),
+    );
+    expect(parseRelativeDate("wednesday", undefined, today)).toEqual(
+      new Date(2024, 5, 12),
+    );
+    expect(parseRelativeDate("next wed", undefined, today)).toEqual(
+      new Date(2024, 5, 19),
+    );
+    expect(parseRelativeDate("last thurs", undefined, today)).toEqual(
+      new Date(2024, 5, 6),
+    );
+  });
+
+  it("should parse the start and end of the periods", () => {
+    expect(parseRelativeDate("end of month", undefined, today)).toEqual(
+      new Date(2024, 5, 30),
+    );
+    expect(parseRelativeDate("start of next month", undefined, today)).toEqual(
+      new Date(2024, 6, 1),
+    );
+    expect(parseRelativeDate("start of week", undefined, today, 1)).toEqual(
+      new Date(2024, 5, 10),
+    );
+    expect(parseRelativeDate("end of last year", undefined, today)).toEqual(
+      new Date(2023, 11, 31),
+    );
+    expect(parseRelativeDate("next week", undefined, today)).toEqual(
+      new Date(2024, 5, 19),
+    );
+    expect(parseRelativeDate("month", undefined, today)).toBeNull();
+    expect(parseRelativeDate("06/15", undefined, today)).toBeNull();
+  });
+
+  it("should parse the words registered for the locale", () => {
+    registerLocale("de", de);
+    registerRelativeDateWords("de", {
+      tomorrow: ["morgen"],
+      next: ["nächsten", "nächste"],
+      endOf: ["ende des"],
+      units: {
+        day: ["t", "tag", "tage"],
+        week: ["w", "woche", "wochen"],
+        month: ["m", "monat", "monats"],
+        year: ["j", "jahr", "jahres"],
+      },
+    });
+
+    expect(parseRelativeDate("morgen", "de", today)).toEqual(
+      new Date(2024, 5, 13),
+    );
+    expect(parseRelativeDate("nächsten Freitag", "de", today)).toEqual(
+      new Date(2024, 5, 14),
+    );
+    expect(parseRelativeDate("Ende des Monats", "de", today)).toEqual(
+      new Date(2024, 5, 30),
+    );
+    expect(parseRelativeDate("+2t", "de", today)).toEqual(
+      new Date(2024, 5, 14),
+    );
+  });
+});
+
+describe("relativeDateParsing", () => {
+  it("should select the date typed relative to today", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker relativeDateParsing selected={null} onChange={onChange} />,
+    );
+
+    fireEvent.change(container.querySelector("input") as HTMLInputElement, {
+      target: { value: "tomorrow" },
+    });
+
+    expect(onChange.mock.calls[0][0]).toEqual(
+      addDays(startOfDay(new Date()), 1),
+    );
+  });
+
+  it("should still parse the date format first", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker relativeDateParsing selected={null} onChange={onChange} />,
+    );
+
+    fireEvent.change(container.querySelector("input") as HTMLInputElement, {
+      target: { value: "06/15/2024" },
+    });
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15));
+  });
+
+  it("should not parse relative dates without the prop", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker selected={null} onChange={onChange} />,
+    );
+
+    fireEvent.change(container.querySelector("input") as HTMLInputElement, {
+      target: { value: "tomorrow" },
+    });
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { fireEvent, render } from "@testing-library/react";
+import { ar, he } from "date-fns/locale";
+import React from "react";
+
+import { getLocaleDirection, KeyType, registerLocale } from "../date_utils";
+import DatePicker from "../index";
+
+import { getKey } from "./test_utils";
+
+const selected = new Date(2024, 5, 12);
+
+// The day focused with the keyboard
+const getPreSelectedDay = (container: HTMLElement) =>
+  container.querySelector(
+    '.react-datepicker__day[tabindex="0"]',
+  ) as HTMLElement;
+
+describe("getLocaleDirection", () => {
+  it("should get the direction of the text of the locale", () => {
+    registerLocale("ar-SA", ar);
+
+    expect(getLocaleDirection("ar-SA")).toBe("rtl");
+    expect(getLocaleDirection(he)).toBe("rtl");
+    expect(getLocaleDirection("fa-IR")).toBe("rtl");
+    expect(getLocaleDirection("en-US")).toBe("ltr");
+    expect(getLocaleDirection()).toBe("ltr");
+  });
+});
+
+describe("dir", () => {
+  it("should lay out the calendar from right to left for the locale", () => {
+    const { container } = render(
+      <DatePicker inline locale={he} selected={selected} />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker")?.getAttribute("dir"),
+    ).toBe("rtl");
+  });
+
+  it("should prefer the dir prop to the locale", () => {
+    const { container } = render(
+      <DatePicker inline dir="ltr" locale={he} selected={selected} />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker")?.getAttribute("dir"),
+    ).toBe("ltr");
+  });
+
+  it("should set the direction of the input and the popper", () => {
+    const { container } = render(
+      <DatePicker dir="rtl" open selected={selected} onChange={() => {}} />,
+    );
+
+    expect(
+      container
+        .querySelector(".react-datepicker__input-container")
+        ?.getAttribute("dir"),
+    ).toBe("rtl");
+    expect(
+      container.querySelector(".react-datepicker-popper")?.getAttribute("dir"),
+    ).toBe("rtl");
+  });
+
+  it("should swap the left and right arrow keys of the days", () => {
+    const { container } = render(
+      <DatePicker inline dir="rtl" selected={selected} />,
+    );
+
+    fireEvent.keyDown(getPreSelectedDay(container), getKey(KeyType.ArrowLeft));
+    expect(getPreSelectedDay(container).textContent).toBe("13");
+
+    fireEvent.keyDown(getPreSelectedDay(container), getKey(KeyType.ArrowRight));
+    fireEvent.keyDown(getPreSelectedDay(container), getKey(KeyType.ArrowRight));
+    expect(getPreSelectedDay(container).textContent).toBe("11");
+  });
+
+  it("should swap the left and right arrow keys of the months", () => {
+    const { container } = render(
+      <DatePicker inline showMonthYearPicker dir="rtl" selected={selected} />,
+    );
+    const month = container.querySelector(
+      ".react-datepicker__month-text--selected",
+    ) as HTMLElement;
+
+    fireEvent.keyDown(month, getKey(KeyType.ArrowLeft));
+
+    expect(
+      container.querySelector(
+        ".react-datepicker__month-text--keyboard-selected",
+      )?.textContent,
+    ).toBe("Jul");
+  });
+});
@@ -0,0 +1,187 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { KeyType, formatDate, formatSecondaryTime } from "../date_utils";
+import DatePicker from "../index";
+
+import { getKey, setupMockResizeObserver } from "./test_utils";
+
+// 10:00 in New York, 07:00 in Los Angeles
+const selected = new Date("2024-01-15T15:00:00Z");
+
+describe("secondaryTimeZone", () => {
+  beforeEach(() => {
+    setupMockResizeObserver();
+  });
+
+  it("should format the time in the secondary time zone", () => {
+    expect(formatSecondaryTime(selected, "America/New_York", "HH:mm")).toBe(
+      "10:00 EST",
+    );
+    expect(formatSecondaryTime(selected, "America/Los_Angeles")).toBe(
+      "7:00 AM PST",
+    );
+  });
+
+  it("should show the secondary time next to each time of the list", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        timeFormat="HH:mm"
+        timeZone="America/New_York"
+        secondaryTimeZone="America/Los_Angeles"
+        selected={selected}
+        onChange={() => {}}
+      />,
+    );
+    const selectedTime = container.querySelector(
+      ".react-datepicker__time-list-item--selected",
+    );
+
+    expect(selectedTime?.firstChild?.textContent).toBe("10:00");
+    expect(
+      selectedTime?.querySelector(".react-datepicker__time-list-item-secondary")
+        ?.textContent,
+    ).toBe("07:00 PST");
+  });
+
+  it("should not show secondary times without the prop", () => {
+    const { container } = render(
+      <DatePicker inline showTimeSelect selected={selected} />,
+    );
+
+    expect(
+      container.querySelector(".react-datepicker__time-list-item-secondary"),
+    ).toBeNull();
+  });
+
+  it("should show both times in the input", () => {
+    const { container } = render(
+      <DatePicker
+        dateFormat="HH:mm zzz"
+        timeFormat="HH:mm"
+        timeZone="America/New_York"
+        secondaryTimeZone="America/Los_Angeles"
+        selected={selected}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "10:00 EST (07:00 PST)",
+    );
+  });
+
+  it("should not show the secondary time when the format has no time", () => {
+    const { container } = render(
+      <DatePicker
+        dateFormat="yyyy-MM-dd"
+        timeZone="America/New_York"
+        secondaryTimeZone="America/Los_Angeles"
+        selected={selected}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "2024-01-15",
+    );
+  });
+
+  it("should show both times for each date of a range", () => {
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        dateFormat="HH:mm"
+        timeFormat="HH:mm"
+        timeZone="America/New_York"
+        secondaryTimeZone="America/Los_Angeles"
+        startDate={selected}
+        endDate={new Date("2024-01-16T17:30:00Z")}
+        onChange={() => {}}
+      />,
+    );
+
+    expect((container.querySelector("input") as HTMLInputElement).value).toBe(
+      "10:00 (07:00 PST) - 12:30 (09:30 PST)",
+    );
+  });
+
+  it("should parse the input without the secondary time", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        dateFormat="yyyy-MM-dd HH:mm"
+        timeFormat="HH:mm"
+        secondaryTimeZone="America/Los_Angeles"
+        selected={new Date(2024, 0, 15, 10, 0)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(container.querySelector("input") as HTMLInputElement, {
+      target: { value: "2024-01-16 10:00 (07:00 PST)" },
+    });
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 0, 16, 10, 0));
+  });
+
+  it("should announce both times", () => {
+    const ref = React.createRef<DatePicker>();
+    render(
+      <DatePicker
+        ref={ref}
+        showTimeSelect
+        timeFormat="HH:mm"
+        secondaryTimeZone="America/Los_Angeles"
+        selected={selected}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(ref.current?.renderAriaLiveRegion().props.children).toContain(
+      "(07:00 PST)",
+    );
+  });
+
+  it("should select the times of a time-only picker with the keyboard", () => {
+    const rafSpy = jest
+      .spyOn(window, "requestAnimationFrame")
+      .mockImplementation((callback) => {
+        callback(0);
+        return 0;
+      });
+    Element.prototype.scrollIntoView = jest.fn();
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        showTimeSelect
+        showTimeSelectOnly
+        timeIntervals={30}
+        dateFormat="p"
+        secondaryTimeZone="Europe/Berlin"
+        selected={new Date(2024, 0, 15, 16)}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    fireEvent.focus(input);
+    fireEvent.keyDown(input, getKey(KeyType.ArrowDown));
+
+    const highlighted = container.querySelector(
+      ".react-datepicker__time-list-item[tabindex='0']",
+    );
+    expect(highlighted?.textContent).toBe("4:30 PM5:30 PM GMT+1");
+
+    fireEvent.change(input, { target: { value: "invalid time" } });
+    fireEvent.keyDown(input, getKey(KeyType.Enter));
+
+    expect(
+      formatDate(onChange.mock.calls[onChange.mock.calls.length - 1][0], "p"),
+    ).toBe("4:30 PM");
+
+    rafSpy.mockRestore();
+  });
+});
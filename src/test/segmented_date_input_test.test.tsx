@@ -0,0 +1,277 @@
+import { act, fireEvent, render } from "@testing-library/react";
+import React, { useState } from "react";
+
+import { getDateFormatTokens } from "../date_utils";
+import DatePicker from "../index";
+
+const getSegment = (container: HTMLElement, label: string) =>
+  container.querySelector(
+    `.react-datepicker__segmented-input-segment[aria-label="${label}"]`,
+  ) as HTMLElement;
+
+const getSegmentTexts = (container: HTMLElement) =>
+  Array.from(
+    container.querySelectorAll(".react-datepicker__segmented-input-segment"),
+    (segment) => segment.textContent,
+  );
+
+const ControlledDatePicker = ({
+  initialDate,
+  dateFormat,
+}: {
+  initialDate: Date | null;
+  dateFormat?: string;
+}) => {
+  const [selected, setSelected] = useState(initialDate);
+
+  return (
+    <DatePicker
+      segmentedDateInput
+      dateFormat={dateFormat}
+      selected={selected}
+      onChange={setSelected}
+    />
+  );
+};
+
+describe("getDateFormatTokens", () => {
+  it("should split a date format with the long formats of the locale", () => {
+    expect(getDateFormatTokens("P").map(({ value }) => value)).toEqual([
+      "MM",
+      "/",
+      "dd",
+      "/",
+      "yyyy",
+    ]);
+  });
+});
+
+describe("segmentedDateInput", () => {
+  it("should show a segment for each part of the date format", () => {
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        selected={new Date(2024, 5, 15)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(container.querySelector("input")).toBeNull();
+    expect(getSegmentTexts(container)).toEqual(["06", "15", "2024"]);
+    expect(getSegment(container, "Day").getAttribute("role")).toBe(
+      "spinbutton",
+    );
+    expect(getSegment(container, "Day").getAttribute("aria-valuemax")).toBe(
+      "30",
+    );
+  });
+
+  it("should wrap around with the arrow keys", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        selected={new Date(2024, 5, 30)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.keyDown(getSegment(container, "Day"), { key: "ArrowUp" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 1));
+
+    fireEvent.keyDown(getSegment(container, "Month"), { key: "ArrowDown" });
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2024, 4, 30));
+  });
+
+  it("should type the digits of a segment and move to the next one", () => {
+    const { container } = render(
+      <ControlledDatePicker initialDate={new Date(2024, 5, 15)} />,
+    );
+    const month = getSegment(container, "Month");
+
+    act(() => {
+      month.focus();
+    });
+    fireEvent.keyDown(month, { key: "1" });
+    fireEvent.keyDown(month, { key: "2" });
+
+    expect(document.activeElement).toBe(getSegment(container, "Day"));
+
+    fireEvent.keyDown(getSegment(container, "Day"), { key: "4" });
+
+    expect(document.activeElement).toBe(getSegment(container, "Year"));
+    expect(getSegmentTexts(container)).toEqual(["12", "04", "2024"]);
+  });
+
+  it("should show the last day of a shorter month", () => {
+    const { container } = render(
+      <ControlledDatePicker initialDate={new Date(2026, 0, 31)} />,
+    );
+
+    fireEvent.keyDown(getSegment(container, "Month"), { key: "ArrowUp" });
+
+    expect(getSegmentTexts(container)).toEqual(["02", "28", "2026"]);
+
+    fireEvent.keyDown(getSegment(container, "Month"), { key: "ArrowUp" });
+
+    expect(getSegmentTexts(container)).toEqual(["03", "28", "2026"]);
+  });
+
+  it("should clamp the date to the min and max dates", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        selected={new Date(2024, 5, 15, 9, 30)}
+        minDate={new Date(2024, 5, 10)}
+        maxDate={new Date(2024, 6, 20)}
+        onChange={onChange}
+      />,
+    );
+    const day = getSegment(container, "Day");
+
+    fireEvent.keyDown(day, { key: "0" });
+    fireEvent.keyDown(day, { key: "5" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 10, 9, 30));
+
+    fireEvent.keyDown(getSegment(container, "Year"), { key: "ArrowUp" });
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2024, 6, 20, 9, 30));
+  });
+
+  it("should clamp the date to the min and max dates in the time zone", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        timeZone="Asia/Tokyo"
+        selected={new Date(Date.UTC(2024, 5, 15, 0, 30))}
+        minDate={new Date(Date.UTC(2024, 5, 9, 20))}
+        onChange={onChange}
+      />,
+    );
+    const day = getSegment(container, "Day");
+
+    fireEvent.keyDown(day, { key: "0" });
+    fireEvent.keyDown(day, { key: "5" });
+    expect(onChange.mock.calls[0][0]).toEqual(
+      new Date(Date.UTC(2024, 5, 10, 0, 30)),
+    );
+  });
+
+  it("should label the segments with the aria label props", () => {
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        dateFormat="dd.MM.yyyy HH:mm"
+        yearAriaLabel="Jahr"
+        monthAriaLabel="Monat"
+        dayAriaLabel="Tag"
+        hourAriaLabel="Stunden"
+        minuteAriaLabel="Minuten"
+        selected={new Date(2024, 5, 15, 15, 5)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      Array.from(
+        container.querySelectorAll(
+          ".react-datepicker__segmented-input-segment",
+        ),
+        (segment) => segment.getAttribute("aria-label"),
+      ),
+    ).toEqual(["Tag", "Monat", "Jahr", "Stunden", "Minuten"]);
+  });
+
+  it("should describe the empty segments with the emptySegmentAriaLabel", () => {
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        emptySegmentAriaLabel="Leer"
+        selected={null}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getSegment(container, "Day").getAttribute("aria-valuetext")).toBe(
+      "Leer",
+    );
+  });
+
+  it("should clear the date with a segment", () => {
+    const { container } = render(
+      <ControlledDatePicker initialDate={new Date(2024, 5, 15)} />,
+    );
+
+    fireEvent.keyDown(getSegment(container, "Day"), { key: "Backspace" });
+
+    expect(getSegmentTexts(container)).toEqual(["06", "--", "2024"]);
+    expect(getSegment(container, "Day").getAttribute("aria-valuetext")).toBe(
+      "Empty",
+    );
+
+    fireEvent.keyDown(getSegment(container, "Day"), { key: "ArrowUp" });
+
+    expect(getSegment(container, "Day").textContent).not.toBe("--");
+  });
+
+  it("should edit the time segments", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        dateFormat="MM/dd/yyyy h:mm aa"
+        selected={new Date(2024, 5, 15, 15, 5)}
+        onChange={onChange}
+      />,
+    );
+
+    expect(getSegmentTexts(container)).toEqual([
+      "06",
+      "15",
+      "2024",
+      "3",
+      "05",
+      "PM",
+    ]);
+
+    fireEvent.keyDown(getSegment(container, "AM/PM"), { key: "a" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15, 3, 5));
+
+    fireEvent.keyDown(getSegment(container, "Hours"), { key: "ArrowDown" });
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2024, 5, 15, 14, 5));
+  });
+
+  it("should open the calendar when a segment is focused", () => {
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        selected={new Date(2024, 5, 15)}
+        onChange={() => {}}
+      />,
+    );
+
+    act(() => {
+      getSegment(container, "Month").focus();
+    });
+
+    expect(container.querySelector(".react-datepicker")).not.toBeNull();
+  });
+
+  it("should keep the text input for date ranges", () => {
+    const { container } = render(
+      <DatePicker
+        segmentedDateInput
+        selectsRange
+        startDate={new Date(2024, 5, 15)}
+        endDate={null}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(container.querySelector("input")).not.toBeNull();
+    expect(
+      container.querySelector(".react-datepicker__segmented-input"),
+    ).toBeNull();
+  });
+});
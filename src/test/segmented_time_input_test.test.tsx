@@ -0,0 +1,194 @@
+import { act, fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { getLocaleHourCycle, type HourCycle } from "../date_utils";
+import DatePicker from "../index";
+
+const getSegment = (container: HTMLElement, label: string) =>
+  container.querySelector(
+    `.react-datepicker-time__segment[aria-label="${label}"]`,
+  ) as HTMLElement;
+
+const getSegmentTexts = (container: HTMLElement) =>
+  Array.from(
+    container.querySelectorAll(".react-datepicker-time__segment"),
+    (segment) => segment.textContent,
+  );
+
+const renderSegmentedTimeInput = ({
+  selected = new Date(2024, 5, 15, 15, 5),
+  hourCycle,
+  showTimeInputSeconds,
+}: {
+  selected?: Date | null;
+  hourCycle?: HourCycle;
+  showTimeInputSeconds?: boolean;
+} = {}) => {
+  const onChange = jest.fn();
+  const { container } = render(
+    <DatePicker
+      inline
+      showTimeInput
+      segmentedTimeInput
+      selected={selected}
+      hourCycle={hourCycle}
+      showTimeInputSeconds={showTimeInputSeconds}
+      onChange={onChange}
+    />,
+  );
+
+  return { container, onChange };
+};
+
+describe("getLocaleHourCycle", () => {
+  it("should get the hour cycle of the locale", () => {
+    expect(getLocaleHourCycle()).toBe("h12");
+    expect(getLocaleHourCycle("de")).toBe("h23");
+  });
+});
+
+describe("segmentedTimeInput", () => {
+  it("should show the hours, minutes and AM/PM of the locale", () => {
+    const { container } = renderSegmentedTimeInput();
+
+    expect(getSegmentTexts(container)).toEqual(["03", "05", "PM"]);
+    expect(
+      container
+        .querySelector(".react-datepicker-time__segments")
+        ?.getAttribute("aria-label"),
+    ).toBe("Time");
+    expect(getSegment(container, "Hours").getAttribute("role")).toBe(
+      "spinbutton",
+    );
+    expect(getSegment(container, "Hours").getAttribute("aria-valuemax")).toBe(
+      "12",
+    );
+    expect(getSegment(container, "AM/PM").getAttribute("aria-valuetext")).toBe(
+      "PM",
+    );
+  });
+
+  it("should follow the hour cycle", () => {
+    const { container } = renderSegmentedTimeInput({
+      hourCycle: "h23",
+      showTimeInputSeconds: true,
+    });
+
+    expect(getSegmentTexts(container)).toEqual(["15", "05", "00"]);
+    expect(getSegment(container, "Hours").getAttribute("aria-valuemax")).toBe(
+      "23",
+    );
+  });
+
+  it("should wrap around with the arrow keys", () => {
+    const { container, onChange } = renderSegmentedTimeInput({
+      selected: new Date(2024, 5, 15, 23, 59),
+      hourCycle: "h23",
+    });
+
+    fireEvent.keyDown(getSegment(container, "Minutes"), { key: "ArrowUp" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15, 23, 0));
+
+    fireEvent.keyDown(getSegment(container, "Hours"), { key: "ArrowUp" });
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2024, 5, 15, 0, 59));
+  });
+
+  it("should keep the AM/PM when the hours wrap around", () => {
+    const { container, onChange } = renderSegmentedTimeInput({
+      selected: new Date(2024, 5, 15, 12, 30),
+    });
+
+    fireEvent.keyDown(getSegment(container, "Hours"), { key: "ArrowDown" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15, 23, 30));
+  });
+
+  it("should toggle the AM/PM", () => {
+    const { container, onChange } = renderSegmentedTimeInput();
+
+    fireEvent.keyDown(getSegment(container, "AM/PM"), { key: "ArrowDown" });
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15, 3, 5));
+
+    fireEvent.keyDown(getSegment(container, "AM/PM"), { key: "p" });
+    expect(onChange.mock.calls[1][0]).toEqual(new Date(2024, 5, 15, 15, 5));
+  });
+
+  it("should type the digits of a segment and move to the next one", () => {
+    const { container, onChange } = renderSegmentedTimeInput({
+      hourCycle: "h23",
+    });
+    const hours = getSegment(container, "Hours");
+
+    act(() => {
+      hours.focus();
+    });
+    fireEvent.keyDown(hours, { key: "0" });
+    fireEvent.keyDown(hours, { key: "9" });
+
+    expect(onChange).toHaveBeenLastCalledWith(new Date(2024, 5, 15, 9, 5));
+    expect(document.activeElement).toBe(getSegment(container, "Minutes"));
+  });
+
+  it("should move between the segments with the arrow keys", () => {
+    const { container } = renderSegmentedTimeInput();
+    const minutes = getSegment(container, "Minutes");
+
+    act(() => {
+      minutes.focus();
+    });
+    fireEvent.keyDown(minutes, { key: "ArrowRight" });
+    expect(document.activeElement).toBe(getSegment(container, "AM/PM"));
+
+    fireEvent.keyDown(getSegment(container, "AM/PM"), { key: "ArrowLeft" });
+    expect(document.activeElement).toBe(minutes);
+  });
+
+  it("should show placeholders without a time", () => {
+    const { container } = renderSegmentedTimeInput({ selected: null });
+
+    expect(getSegmentTexts(container)).toEqual(["--", "--", "--"]);
+    expect(getSegment(container, "Hours").getAttribute("aria-valuetext")).toBe(
+      "Empty",
+    );
+  });
+
+  it("should label the segments with the aria label props", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeInput
+        segmentedTimeInput
+        showTimeInputSeconds
+        hourAriaLabel="Heures"
+        minuteAriaLabel="Minutes (fr)"
+        secondAriaLabel="Secondes"
+        dayPeriodAriaLabel="Matin/Après-midi"
+        selected={new Date(2024, 5, 15, 15, 5)}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(
+      Array.from(
+        container.querySelectorAll(".react-datepicker-time__segment"),
+        (segment) => segment.getAttribute("aria-label"),
+      ),
+    ).toEqual(["Heures", "Minutes (fr)", "Secondes", "Matin/Après-midi"]);
+  });
+
+  it("should describe the empty segments with the emptySegmentAriaLabel", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeInput
+        segmentedTimeInput
+        emptySegmentAriaLabel="Vide"
+        selected={null}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getSegment(container, "Hours").getAttribute("aria-valuetext")).toBe(
+      "Vide",
+    );
+  });
+});
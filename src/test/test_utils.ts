@@ -79,6 +79,26 @@ export const getRandomMonthExcludingCurrent = (): number => {
   return randomMonth;
 };
 
+/**
+ * Gets a day of the shown month by its day of the month or its date.
+ */
+export const getDayNode = (container: HTMLElement, day: number | Date) => {
+  const dayOfMonth = typeof day === "number" ? day : day.getDate();
+
+  return container.querySelector(
+    `.react-datepicker__day--0${String(dayOfMonth).padStart(2, "0")}:not(.react-datepicker__day--outside-month)`,
+  ) as HTMLElement;
+};
+
+export const hasClass = (
+  container: HTMLElement,
+  day: number | Date,
+  className: string,
+) =>
+  getDayNode(container, day).classList.contains(
+    `react-datepicker__day--${className}`,
+  );
+
 export const openDateInput = (container: Element) => {
   const dateInput = container.querySelector("input")!;
   fireEvent.focus(dateInput);
@@ -0,0 +1,135 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { hasTimeFormat } from "../date_utils";
+import DatePicker from "../index";
+
+import { setupMockResizeObserver } from "./test_utils";
+
+const selected = new Date(2024, 5, 15, 10, 1, 30, 250);
+
+describe("time precision", () => {
+  beforeEach(() => {
+    setupMockResizeObserver();
+  });
+
+  it("should check if a format has a time", () => {
+    expect(hasTimeFormat("yyyy-MM-dd HH:mm:ss.SSS")).toBe(true);
+    expect(hasTimeFormat("Pp")).toBe(true);
+    expect(hasTimeFormat(["MM/dd/yyyy", "h:mm aa"])).toBe(true);
+    expect(hasTimeFormat("yyyy-MM-dd")).toBe(false);
+    expect(hasTimeFormat("MMMM do 'at the start'")).toBe(false);
+  });
+
+  it("should list times in intervals of seconds", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        timeIntervals={90}
+        timeIntervalUnit="seconds"
+        timeFormat="HH:mm:ss"
+        selected={selected}
+        onChange={onChange}
+      />,
+    );
+    const times = container.querySelectorAll(
+      ".react-datepicker__time-list-item",
+    );
+
+    expect(times).toHaveLength(960);
+    expect(times[1]?.textContent).toBe("00:01:30");
+    expect(
+      container.querySelector(".react-datepicker__time-list-item--selected")
+        ?.textContent,
+    ).toBe("10:01:30");
+
+    fireEvent.click(times[402] as HTMLElement);
+
+    expect(onChange.mock.calls[0][0]).toEqual(new Date(2024, 5, 15, 10, 3));
+  });
+
+  it("should show the seconds in the default time format", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        timeIntervals={90}
+        timeIntervalUnit="seconds"
+        selected={selected}
+      />,
+    );
+
+    expect(
+      container.querySelectorAll(".react-datepicker__time-list-item")[1]
+        ?.textContent,
+    ).toBe("12:01:30 AM");
+  });
+
+  it("should set the seconds in the time input", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeInput
+        showTimeInputSeconds
+        selected={new Date(selected)}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector(
+      ".react-datepicker-time__input input",
+    ) as HTMLInputElement;
+
+    expect(input.value).toBe("10:01:30");
+    expect(input.step).toBe("1");
+
+    fireEvent.change(input, { target: { value: "10:02:45" } });
+
+    expect(onChange.mock.calls[0][0]).toEqual(
+      new Date(2024, 5, 15, 10, 2, 45, 0),
+    );
+
+    fireEvent.change(input, { target: { value: "10:02:45.5" } });
+
+    expect(onChange.mock.calls[1][0]).toEqual(
+      new Date(2024, 5, 15, 10, 2, 45, 500),
+    );
+  });
+
+  it("should parse seconds and milliseconds with the date format", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        dateFormat="yyyy-MM-dd HH:mm:ss.SSS"
+        selected={selected}
+        onChange={onChange}
+      />,
+    );
+    const input = container.querySelector("input") as HTMLInputElement;
+
+    expect(input.value).toBe("2024-06-15 10:01:30.250");
+
+    fireEvent.change(input, { target: { value: "2024-06-16 11:12:13.014" } });
+
+    expect(onChange.mock.calls[0][0]).toEqual(
+      new Date(2024, 5, 16, 11, 12, 13, 14),
+    );
+  });
+
+  it("should keep the seconds and milliseconds when a day is picked", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker inline selected={selected} onChange={onChange} />,
+    );
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--020") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0][0]).toEqual(
+      new Date(2024, 5, 20, 10, 1, 30, 250),
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import {
+  formatTimeZoneOffset,
+  getBrowserTimeZone,
+  getTimeZoneOffset,
+  getTimeZones,
+} from "../date_utils";
+import DatePicker from "../index";
+
+import { setupMockResizeObserver } from "./test_utils";
+
+const getSelect = (container: HTMLElement) =>
+  container.querySelector(
+    ".react-datepicker__time-zone-select",
+  ) as HTMLSelectElement;
+
+const getOptionValues = (container: HTMLElement) =>
+  Array.from(getSelect(container).options).map((option) => option.value);
+
+describe("time zone utilities", () => {
+  it("should get the offset of a time zone on a date", () => {
+    expect(
+      getTimeZoneOffset("America/New_York", new Date("2024-06-15T12:00:00Z")),
+    ).toBe(-240);
+    expect(
+      getTimeZoneOffset("America/New_York", new Date("2024-01-15T12:00:00Z")),
+    ).toBe(-300);
+    expect(getTimeZoneOffset("Asia/Kolkata")).toBe(330);
+    expect(getTimeZoneOffset("UTC")).toBe(0);
+  });
+
+  it("should format offsets", () => {
+    expect(formatTimeZoneOffset(330)).toBe("UTC+05:30");
+    expect(formatTimeZoneOffset(-210)).toBe("UTC-03:30");
+    expect(formatTimeZoneOffset(0)).toBe("UTC+00:00");
+  });
+
+  it("should list the time zones with UTC", () => {
+    expect(getTimeZones()).toContain("UTC");
+    expect(getTimeZones()).toContain("Europe/Berlin");
+  });
+});
+
+describe("showTimeZoneSelect", () => {
+  beforeEach(() => {
+    setupMockResizeObserver();
+  });
+
+  it("should list the time zones by offset after the browser's", () => {
+    const browserTimeZone = getBrowserTimeZone();
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        showTimeZoneSelect
+        timeZones={["Asia/Tokyo", "America/New_York", browserTimeZone]}
+        selected={new Date("2024-06-15T12:00:00Z")}
+        onChange={() => {}}
+      />,
+    );
+
+    expect(getOptionValues(container)).toEqual([
+      browserTimeZone,
+      ...["America/New_York", "Asia/Tokyo"].filter(
+        (timeZone) => timeZone !== browserTimeZone,
+      ),
+    ]);
+    expect(getSelect(container).value).toBe(browserTimeZone);
+    expect(
+      container.querySelector('option[value="America/New_York"]')?.textContent,
+    ).toBe("UTC-04:00 America/New York");
+  });
+
+  it("should search the time zones", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeZoneSelect
+        timeZone="UTC"
+        timeZones={["UTC", "Asia/Tokyo", "America/New_York"]}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.change(
+      container.querySelector(
+        ".react-datepicker__time-zone-search",
+      ) as HTMLInputElement,
+      { target: { value: "new york" } },
+    );
+    expect(getOptionValues(container).sort()).toEqual([
+      "America/New_York",
+      "UTC",
+    ]);
+
+    fireEvent.change(
+      container.querySelector(
+        ".react-datepicker__time-zone-search",
+      ) as HTMLInputElement,
+      { target: { value: "+09" } },
+    );
+    expect(getOptionValues(container).sort()).toEqual(["Asia/Tokyo", "UTC"]);
+  });
+
+  it("should label the search field with timeZoneSearchLabel", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeZoneSelect
+        timeZone="UTC"
+        timeZoneSearchLabel="Suchen"
+        onChange={() => {}}
+      />,
+    );
+    const search = container.querySelector(
+      ".react-datepicker__time-zone-search",
+    ) as HTMLInputElement;
+
+    expect(search.getAttribute("placeholder")).toBe("Suchen");
+    expect(search.getAttribute("aria-label")).toBe("Suchen");
+  });
+
+  it("should keep the time when the time zone changes", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeSelect
+        showTimeZoneSelect
+        timeZone="UTC"
+        timeZones={["UTC", "Asia/Tokyo"]}
+        selected={new Date("2024-06-15T12:00:00Z")}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(getSelect(container), { target: { value: "Asia/Tokyo" } });
+
+    expect(onChange).toHaveBeenCalledWith(
+      new Date("2024-06-15T03:00:00Z"),
+      undefined,
+      { timeZone: "Asia/Tokyo" },
+    );
+    expect(getSelect(container).value).toBe("Asia/Tokyo");
+  });
+
+  it("should report the time zone with the selected date", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        showTimeZoneSelect
+        timeZones={["UTC", "Asia/Tokyo"]}
+        selected={new Date("2024-06-15T12:00:00Z")}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(getSelect(container), { target: { value: "Asia/Tokyo" } });
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--020") as HTMLElement,
+    );
+
+    const [date, , selectionMeta] = onChange.mock.calls[1];
+    expect(date).toBeInstanceOf(Date);
+    expect(selectionMeta).toEqual({ timeZone: "Asia/Tokyo" });
+  });
+
+  it("should report the time zone with a range", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showTimeZoneSelect
+        timeZone="UTC"
+        timeZones={["UTC", "Asia/Tokyo"]}
+        startDate={new Date("2024-06-15T00:00:00Z")}
+        endDate={new Date("2024-06-18T00:00:00Z")}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(getSelect(container), { target: { value: "Asia/Tokyo" } });
+
+    expect(onChange).toHaveBeenCalledWith(
+      [new Date("2024-06-14T15:00:00Z"), new Date("2024-06-17T15:00:00Z")],
+      undefined,
+      { timeZone: "Asia/Tokyo" },
+    );
+  });
+
+  it("should not report a time zone without the select", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        timeZone="Asia/Tokyo"
+        selected={new Date("2024-06-15T12:00:00Z")}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(
+      container.querySelector(".react-datepicker__day--020") as HTMLElement,
+    );
+
+    expect(onChange.mock.calls[0]).toHaveLength(2);
+    expect(container.querySelector(".react-datepicker__time-zone")).toBeNull();
+  });
+});
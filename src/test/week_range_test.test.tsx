@@ -0,0 +1,144 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+
+import { getEndOfDay } from "../date_utils";
+import DatePicker from "../index";
+
+import { getDayNode } from "./test_utils";
+
+describe("week range selection", () => {
+  it("should snap the start of the range to the start of the week", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showWeekPicker
+        startDate={null}
+        endDate={null}
+        openToDate={new Date(2024, 0, 1)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 10));
+
+    expect(onChange.mock.calls[0][0]).toEqual([new Date(2024, 0, 7), null]);
+  });
+
+  it("should snap the end of the range to the end of the week", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showWeekPicker
+        startDate={new Date(2024, 0, 7)}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 22));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 0, 7),
+      getEndOfDay(new Date(2024, 0, 27)),
+    ]);
+  });
+
+  it("should complete a single week range when the end is in the start week", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showWeekPicker
+        startDate={new Date(2024, 0, 7)}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 9));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 0, 7),
+      getEndOfDay(new Date(2024, 0, 13)),
+    ]);
+  });
+
+  it("should honor calendarStartDay", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showWeekPicker
+        calendarStartDay={1}
+        startDate={new Date(2024, 0, 8)}
+        endDate={null}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(getDayNode(container, 16));
+
+    expect(onChange.mock.calls[0][0]).toEqual([
+      new Date(2024, 0, 8),
+      getEndOfDay(new Date(2024, 0, 21)),
+    ]);
+  });
+
+  it("should select the week from its week number and keep the picker open", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <DatePicker
+        selectsRange
+        showWeekPicker
+        showWeekNumbers
+        startDate={null}
+        endDate={null}
+        openToDate={new Date(2024, 0, 1)}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(container.querySelector("input") as HTMLInputElement);
+    const weekNumbers = container.querySelectorAll(
+      ".react-datepicker__week-number",
+    );
+    fireEvent.click(weekNumbers[1] as HTMLElement);
+
+    expect(onChange.mock.calls[0][0]).toEqual([new Date(2024, 0, 7), null]);
+    expect(container.querySelector(".react-datepicker")).not.toBeNull();
+  });
+
+  it("should preview the range across whole weeks", () => {
+    const { container } = render(
+      <DatePicker
+        inline
+        selectsRange
+        showWeekPicker
+        startDate={new Date(2024, 0, 7)}
+        endDate={null}
+        onChange={() => {}}
+      />,
+    );
+
+    fireEvent.mouseEnter(getDayNode(container, 16));
+
+    const isInSelectingRange = (day: number) =>
+      getDayNode(container, day).classList.contains(
+        "react-datepicker__day--in-selecting-range",
+      );
+    expect(isInSelectingRange(7)).toBe(true);
+    expect(isInSelectingRange(20)).toBe(true);
+    expect(isInSelectingRange(21)).toBe(false);
+    expect(
+      getDayNode(container, 20).classList.contains(
+        "react-datepicker__day--selecting-range-end",
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { fireEvent, render } from "@testing-library/react";
+import { arEG, enGB, he } from "date-fns/locale";
+import React from "react";
+
+import {
+  getCalendarStartDay,
+  getLocaleWeekInfo,
+  getWeekendDays,
+  isWeekend,
+  KeyType,
+  registerLocale,
+} from "../date_utils";
+import DatePicker from "../index";
+
+import { getKey } from "./test_utils";
+
+// Wednesday
+const selected = new Date(2024, 5, 12);
+
+const getDayTexts = (container: HTMLElement, className: string) =>
+  Array.from(
+    container.querySelectorAll(
+      `.react-datepicker__day.${className}:not(.react-datepicker__day--outside-month)`,
+    ),
+  )
+    .slice(0, 2)
+    .map((day) => day.textContent);
+
+describe("week of the locale", () => {
+  it("should get the week of the locale", () => {
+    expect(getLocaleWeekInfo(he)).toEqual({ firstDay: 0, weekend: [5, 6] });
+    expect(getLocaleWeekInfo(enGB)).toEqual({ firstDay: 1, weekend: [6, 0] });
+    expect(getLocaleWeekInfo("en-US")).toEqual({
+      firstDay: 0,
+      weekend: [6, 0],
+    });
+  });
+
+  it("should prefer the given days to the week of the locale", () => {
+    expect(getCalendarStartDay(arEG)).toBe(6);
+    expect(getCalendarStartDay(arEG, 1)).toBe(1);
+    expect(getWeekendDays(he)).toEqual([5, 6]);
+    expect(getWeekendDays(he, [0])).toEqual([0]);
+  });
+
+  it("should check if a date is on the weekend of the locale", () => {
+    const friday = new Date(2024, 5, 14);
+    const sunday = new Date(2024, 5, 16);
+
+    expect(isWeekend(friday, he)).toBe(true);
+    expect(isWeekend(sunday, he)).toBe(false);
+    expect(isWeekend(friday)).toBe(false);
+    expect(isWeekend(sunday)).toBe(true);
+    expect(isWeekend(sunday, he, [0])).toBe(true);
+  });
+});
+
+describe("weekendDays", () => {
+  it("should style the weekend of the locale", () => {
+    const { container } = render(
+      <DatePicker inline locale={he} selected={selected} />,
+    );
+
+    expect(getDayTexts(container, "react-datepicker__day--weekend")).toEqual([
+      "1",
+      "7",
+    ]);
+    expect(
+      Array.from(
+        container.querySelectorAll(".react-datepicker__day-name--weekend"),
+      ).map((dayName) =>
+        Array.from(dayName.parentNode!.children).indexOf(dayName),
+      ),
+    ).toEqual([5, 6]);
+  });
+
+  it("should style the given weekend days", () => {
+    const { container } = render(
+      <DatePicker inline weekendDays={[0]} selected={selected} />,
+    );
+
+    expect(getDayTexts(container, "react-datepicker__day--weekend")).toEqual([
+      "2",
+      "9",
+    ]);
+  });
+
+  it("should start the weeks on the first day of the week of the locale", () => {
+    registerLocale("ar-EG", arEG);
+    const { container } = render(
+      <DatePicker
+        inline
+        locale="ar-EG"
+        numberingSystem="latn"
+        selected={selected}
+      />,
+    );
+
+    // June 1, 2024 is a Saturday
+    expect(container.querySelector(".react-datepicker__day")?.textContent).toBe(
+      "1",
+    );
+  });
+
+  it("should move to the end of the week of the locale", () => {
+    const { container } = render(
+      <DatePicker inline locale={enGB} selected={selected} />,
+    );
+    const day = container.querySelector(
+      '.react-datepicker__day[tabindex="0"]',
+    ) as HTMLElement;
+
+    fireEvent.keyDown(day, getKey(KeyType.End));
+
+    expect(
+      container.querySelector('.react-datepicker__day[tabindex="0"]')
+        ?.textContent,
+    ).toBe("16");
+  });
+});
@@ -5,17 +5,24 @@ import {
   getMinutes,
   newDate,
   getStartOfDay,
-  addMinutes,
+  addSeconds,
   formatDate,
+  formatSecondaryTime,
+  fromZonedTime,
   isTimeInDisabledRange,
   isTimeDisabled,
   timesToInjectAfter,
   getHoursInDay,
   isSameMinute,
+  isSameSecond,
   getSeconds,
+  getTimeIntervalSeconds,
+  localizeDigits,
   safeToDate,
   type Locale,
   type TimeFilterOptions,
+  type TimeIntervalUnit,
+  type TimeZone,
   KeyType,
 } from "./date_utils";
 
@@ -25,6 +32,10 @@ interface TimeProps extends Pick<
 > {
   format?: string;
   intervals?: number;
+  /**
+   * The unit of the intervals, minutes by default.
+   */
+  intervalUnit?: TimeIntervalUnit;
   selected?: Date | null;
   openToDate?: Date;
   onChange?: (time: Date) => void;
@@ -35,8 +46,14 @@ interface TimeProps extends Pick<
   injectTimes?: Date[];
   handleOnKeyDown?: React.KeyboardEventHandler<HTMLLIElement>;
   locale?: Locale;
+  numberingSystem?: string;
   showTimeSelectOnly?: boolean;
   showTimeCaption?: boolean;
+  timeZone?: TimeZone;
+  /**
+   * Shows each time in this time zone too, next to the time.
+   */
+  secondaryTimeZone?: TimeZone;
 }
 
 interface TimeState {
@@ -142,9 +159,20 @@ export default class Time extends Component<TimeProps, TimeState> {
 
   isSelectedTime = (time: Date) => {
     const selected = safeToDate(this.props.selected);
-    return selected && isSameMinute(selected, time);
+    return (
+      selected &&
+      (this.props.intervalUnit === "seconds"
+        ? isSameSecond(selected, time)
+        : isSameMinute(selected, time))
+    );
   };
 
+  getIntervalSeconds = (): number =>
+    getTimeIntervalSeconds(
+      this.props.intervals ?? Time.defaultProps.intervals,
+      this.props.intervalUnit,
+    );
+
   isDisabledTime = (time: Date): boolean | undefined =>
     ((this.props.minTime || this.props.maxTime) &&
       isTimeInDisabledRange(time, this.props)) ||
@@ -171,7 +199,7 @@ export default class Time extends Component<TimeProps, TimeState> {
     if (
       this.props.injectTimes &&
       (getHours(time) * 3600 + getMinutes(time) * 60 + getSeconds(time)) %
-        ((this.props.intervals ?? Time.defaultProps.intervals) * 60) !==
+        this.getIntervalSeconds() !==
         0
     ) {
       classes.push("react-datepicker__time-list-item--injected");
@@ -217,8 +245,12 @@ export default class Time extends Component<TimeProps, TimeState> {
   renderTimes = (): React.ReactElement[] => {
     let times: Date[] = [];
     const format =
-      typeof this.props.format === "string" ? this.props.format : "p";
-    const intervals = this.props.intervals ?? Time.defaultProps.intervals;
+      typeof this.props.format === "string"
+        ? this.props.format
+        : this.props.intervalUnit === "seconds"
+          ? "pp"
+          : "p";
+    const intervalSeconds = this.getIntervalSeconds();
 
     const activeDate =
       safeToDate(this.props.selected) ||
@@ -232,11 +264,11 @@ export default class Time extends Component<TimeProps, TimeState> {
         return a.getTime() - b.getTime();
       });
 
-    const minutesInDay = 60 * getHoursInDay(activeDate);
-    const multiplier = minutesInDay / intervals;
+    const secondsInDay = 3600 * getHoursInDay(activeDate);
+    const multiplier = secondsInDay / intervalSeconds;
 
     for (let i = 0; i < multiplier; i++) {
-      const currentTime = addMinutes(base, i * intervals);
+      const currentTime = addSeconds(base, i * intervalSeconds);
       times.push(currentTime);
 
       if (sortedInjectTimes) {
@@ -244,7 +276,7 @@ export default class Time extends Component<TimeProps, TimeState> {
           base,
           currentTime,
           i,
-          intervals,
+          intervalSeconds / 60,
           sortedInjectTimes,
         );
         times = times.concat(timesToInject);
@@ -277,13 +309,44 @@ export default class Time extends Component<TimeProps, TimeState> {
           role="option"
           aria-selected={this.isSelectedTime(time) ? "true" : undefined}
           aria-disabled={this.isDisabledTime(time) ? "true" : undefined}
+          // The time without the secondary time, for the keyboard of the time-only picker
+          data-time={formatDate(time, format, this.props.locale)}
         >
-          {formatDate(time, format, this.props.locale)}
+          {localizeDigits(
+            formatDate(time, format, this.props.locale),
+            this.props.numberingSystem,
+          )}
+          {this.renderSecondaryTime(time, format)}
         </li>
       );
     });
   };
 
+  renderSecondaryTime = (
+    time: Date,
+    format: string,
+  ): React.ReactElement | undefined => {
+    const { secondaryTimeZone, timeZone, locale, numberingSystem } = this.props;
+    if (!secondaryTimeZone) {
+      return;
+    }
+
+    // The times of the list are wall-clock times in the time zone
+    return (
+      <span className="react-datepicker__time-list-item-secondary">
+        {localizeDigits(
+          formatSecondaryTime(
+            fromZonedTime(time, timeZone),
+            secondaryTimeZone,
+            format,
+            locale,
+          ),
+          numberingSystem,
+        )}
+      </span>
+    );
+  };
+
   renderTimeCaption = (): React.ReactElement => {
     if (this.props.showTimeCaption === false) {
       return <></>;
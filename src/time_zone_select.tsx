@@ -0,0 +1,129 @@
+import React, { Component } from "react";
+
+import {
+  formatTimeZoneOffset,
+  getBrowserTimeZone,
+  getTimeZoneOffset,
+  getTimeZones,
+  newDate,
+  type TimeZone,
+} from "./date_utils";
+
+interface TimeZoneSelectProps {
+  timeZone: TimeZone;
+  /**
+   * The time zones to choose from, all the time zones the browser knows by default.
+   */
+  timeZones?: TimeZone[];
+  /**
+   * The date the UTC offsets are shown for, as they change with daylight saving time.
+   */
+  date?: Date;
+  label: string;
+  /**
+   * The placeholder and label of the search field.
+   */
+  searchLabel: string;
+  onChange: (timeZone: TimeZone) => void;
+}
+
+interface TimeZoneSelectState {
+  search: string;
+}
+
+interface TimeZoneOption {
+  timeZone: TimeZone;
+  label: string;
+}
+
+/**
+ * `TimeZoneSelect` chooses the time zone of the date picker. The time zones
+ * are sorted by their UTC offset, after the time zone of the browser, and
+ * can be searched by name or offset.
+ */
+export default class TimeZoneSelect extends Component<
+  TimeZoneSelectProps,
+  TimeZoneSelectState
+> {
+  state: TimeZoneSelectState = {
+    search: "",
+  };
+
+  getOptions = (): TimeZoneOption[] => {
+    const date = this.props.date ?? newDate();
+    const browserTimeZone = getBrowserTimeZone();
+    const timeZones = this.props.timeZones ?? getTimeZones();
+    const options = (
+      timeZones.includes(this.props.timeZone)
+        ? timeZones
+        : [this.props.timeZone, ...timeZones]
+    )
+      .map((timeZone) => ({
+        timeZone,
+        offset: getTimeZoneOffset(timeZone, date),
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.timeZone === browserTimeZone) -
+            Number(a.timeZone === browserTimeZone) ||
+          a.offset - b.offset ||
+          a.timeZone.localeCompare(b.timeZone),
+      );
+
+    return options.map(({ timeZone, offset }) => ({
+      timeZone,
+      label: `${formatTimeZoneOffset(offset)} ${timeZone.replace(/_/g, " ")}`,
+    }));
+  };
+
+  handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    this.setState({ search: event.target.value });
+  };
+
+  handleChange = (event: React.ChangeEvent<HTMLSelectElement>): void => {
+    this.props.onChange(event.target.value);
+  };
+
+  render(): React.ReactElement {
+    const search = this.state.search.trim().toLowerCase();
+    // The chosen time zone stays in the list while searching
+    const options = this.getOptions().filter(
+      ({ timeZone, label }) =>
+        !search ||
+        timeZone === this.props.timeZone ||
+        label.toLowerCase().includes(search),
+    );
+
+    return (
+      <div
+        className="react-datepicker__time-zone"
+        role="group"
+        aria-label={this.props.label}
+      >
+        <div className="react-datepicker__time-zone-caption">
+          {this.props.label}
+        </div>
+        <input
+          type="search"
+          className="react-datepicker__time-zone-search"
+          placeholder={this.props.searchLabel}
+          aria-label={this.props.searchLabel}
+          value={this.state.search}
+          onChange={this.handleSearchChange}
+        />
+        <select
+          className="react-datepicker__time-zone-select"
+          aria-label={this.props.label}
+          value={this.props.timeZone}
+          onChange={this.handleChange}
+        >
+          {options.map(({ timeZone, label }) => (
+            <option key={timeZone} value={timeZone}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+}
@@ -102,9 +102,11 @@ export default class Week extends Component<WeekProps> {
     if (this.props.showWeekPicker) {
       this.handleDayClick(enabledWeekDay, event);
     }
+    // In range mode the picker closes once the range is complete, like for days
     if (
-      this.props.shouldCloseOnSelect ??
-      Week.defaultProps.shouldCloseOnSelect
+      (this.props.shouldCloseOnSelect ??
+        Week.defaultProps.shouldCloseOnSelect) &&
+      !(this.props.showWeekPicker && this.props.selectsRange)
     ) {
       this.props.setOpen?.(false);
     }
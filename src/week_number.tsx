@@ -1,7 +1,7 @@
 import { clsx } from "clsx";
 import React, { Component, createRef } from "react";
 
-import { KeyType, isSameDay } from "./date_utils";
+import { KeyType, isSameDay, localizeDigits } from "./date_utils";
 
 interface WeekNumberProps {
   weekNumber: number;
@@ -19,6 +19,7 @@ interface WeekNumberProps {
   containerRef?: React.RefObject<HTMLDivElement | null>;
   isInputFocused?: boolean;
   isWeekDisabled?: boolean;
+  numberingSystem?: string;
 }
 
 export default class WeekNumber extends Component<WeekNumberProps> {
@@ -133,7 +134,7 @@ export default class WeekNumber extends Component<WeekNumberProps> {
         tabIndex={this.getTabIndex()}
         role="gridcell"
       >
-        {weekNumber}
+        {localizeDigits(String(weekNumber), this.props.numberingSystem)}
       </div>
     );
   }
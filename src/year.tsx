@@ -6,6 +6,7 @@ import {
   addYears,
   getStartOfYear,
   getYear,
+  getLogicalArrowKey,
   getYearsPeriod,
   isDayDisabled,
   isDayExcluded,
@@ -14,10 +15,12 @@ import {
   isSpaceKeyDown,
   isYearDisabled,
   isYearInRange,
+  localizeDigits,
   newDate,
   setYear,
   subYears,
   KeyType,
+  type TextDirection,
 } from "./date_utils";
 
 const VERTICAL_NAVIGATION_OFFSET = 3;
@@ -65,6 +68,8 @@ interface YearProps extends Pick<
   yearItemNumber?: number;
   handleOnKeyDown?: React.KeyboardEventHandler<HTMLDivElement>;
   yearClassName?: (date: Date) => string;
+  dir?: TextDirection;
+  numberingSystem?: string;
 }
 
 /**
@@ -281,7 +286,7 @@ export default class Year extends Component<YearProps> {
   };
 
   onYearKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, y: number) => {
-    const { key } = event;
+    const key = getLogicalArrowKey(event.key, this.props.dir);
     const { date, yearItemNumber, handleOnKeyDown } = this.props;
 
     if (key !== KeyType.Tab) {
@@ -438,7 +443,9 @@ export default class Year extends Component<YearProps> {
   };
 
   getYearContent = (y: number) => {
-    return this.props.renderYearContent ? this.props.renderYearContent(y) : y;
+    return this.props.renderYearContent
+      ? this.props.renderYearContent(y)
+      : localizeDigits(String(y), this.props.numberingSystem);
   };
 
   render() {
@@ -1,6 +1,6 @@
 import React, { Component } from "react";
 
-import { getYear } from "./date_utils";
+import { getCalendarSystem } from "./calendar_system";
 import YearDropdownOptions from "./year_dropdown_options";
 
 interface YearDropdownOptionsProps extends React.ComponentPropsWithoutRef<
@@ -32,12 +32,11 @@ export default class YearDropdown extends Component<
   };
 
   renderSelectOptions = (): React.ReactElement[] => {
-    const minYear: number = this.props.minDate
-      ? getYear(this.props.minDate)
-      : 1900;
-    const maxYear: number = this.props.maxDate
-      ? getYear(this.props.maxDate)
-      : 2100;
+    const { getYear } = getCalendarSystem(this.props.calendarSystem);
+    const minYear: number = getYear(this.props.minDate ?? new Date(1900, 0, 1));
+    const maxYear: number = getYear(
+      this.props.maxDate ?? new Date(2100, 11, 31),
+    );
 
     const options: React.ReactElement[] = [];
     for (let i = minYear; i <= maxYear; i++) {
@@ -1,15 +1,17 @@
 import { clsx } from "clsx";
 import React, { Component, createRef } from "react";
 
+import { getCalendarSystem, type CalendarSystemId } from "./calendar_system";
 import { ClickOutsideWrapper } from "./click_outside_wrapper";
-import { getYear } from "./date_utils";
 
 function generateYears(
   year: number,
   noOfYear: number,
   minDate?: Date,
   maxDate?: Date,
+  calendarSystem?: CalendarSystemId,
 ): number[] {
+  const { getYear } = getCalendarSystem(calendarSystem);
   const list: number[] = [];
   for (let i = 0; i < 2 * noOfYear + 1; i++) {
     const newYear = year + noOfYear - i;
@@ -39,6 +41,7 @@ interface YearDropdownOptionsProps {
   scrollableYearDropdown?: boolean;
   year: number;
   yearDropdownItemNumber?: number;
+  calendarSystem?: CalendarSystemId;
 }
 
 interface YearDropdownOptionsState {
@@ -61,6 +64,7 @@ export default class YearDropdownOptions extends Component<
         noOfYear,
         this.props.minDate,
         this.props.maxDate,
+        this.props.calendarSystem,
       ),
     };
     this.dropdownRef = createRef<HTMLDivElement>();
@@ -147,6 +151,7 @@ export default class YearDropdownOptions extends Component<
       </div>
     ));
 
+    const { getYear } = getCalendarSystem(this.props.calendarSystem);
     const minYear = this.props.minDate ? getYear(this.props.minDate) : null;
     const maxYear = this.props.maxDate ? getYear(this.props.maxDate) : null;
 